@@ -13,7 +13,9 @@ import {
   Menu,
   X,
   Sparkles,
-  List
+  List,
+  CloudOff,
+  RefreshCw
 } from 'lucide-react'
 import Overview from './dashboard/Overview'
 import Stores from './dashboard/Stores'
@@ -21,6 +23,8 @@ import Products from './dashboard/Products'
 import Reports from './dashboard/Reports'
 import Management from './dashboard/Management'
 import MSLManagement from './dashboard/MSLManagement'
+import { VISIT_QUEUE_EVENT, countQueuedVisits, syncQueuedVisits } from '@/lib/visitQueue'
+import { refreshReferenceData } from '@/lib/referenceData'
 
 export type TabType = 'overview' | 'stores' | 'products' | 'reports' | 'msl' | 'management'
 
@@ -32,11 +36,47 @@ export default function Dashboard({ user }: DashboardProps) {
   const [activeTab, setActiveTab] = useState<TabType>('overview')
   const [sidebarOpen, setSidebarOpen] = useState(false)
   const [userRole, setUserRole] = useState<string>('salesman')
+  const [pendingSync, setPendingSync] = useState(0)
+  const [syncing, setSyncing] = useState(false)
 
   useEffect(() => {
     getUserRole()
   }, [])
 
+  useEffect(() => {
+    const updatePendingSync = () => {
+      countQueuedVisits()
+        .then(setPendingSync)
+        .catch(error => console.error('Error counting queued visits:', error))
+    }
+
+    const handleOnline = () => {
+      syncPendingVisits()
+      refreshReferenceData(user.id).catch(error => console.error('Error caching reference data:', error))
+    }
+
+    updatePendingSync()
+    if (navigator.onLine) handleOnline()
+
+    window.addEventListener(VISIT_QUEUE_EVENT, updatePendingSync)
+    window.addEventListener('online', handleOnline)
+    return () => {
+      window.removeEventListener(VISIT_QUEUE_EVENT, updatePendingSync)
+      window.removeEventListener('online', handleOnline)
+    }
+  }, [user.id])
+
+  const syncPendingVisits = async () => {
+    setSyncing(true)
+    try {
+      await syncQueuedVisits()
+    } catch (error) {
+      console.error('Error syncing queued visits:', error)
+    } finally {
+      setSyncing(false)
+    }
+  }
+
   const getUserRole = async () => {
     try {
       const { data, error } = await supabase
@@ -150,6 +190,19 @@ export default function Dashboard({ user }: DashboardProps) {
         </nav>
 
         <div className="absolute bottom-0 w-full p-4 border-t border-gray-200 space-y-4">
+          {pendingSync > 0 && (
+            <button
+              onClick={syncPendingVisits}
+              disabled={syncing}
+              className="w-full flex items-center justify-between px-3 py-2 text-sm font-medium text-yellow-800 bg-yellow-50 border border-yellow-200 rounded-lg hover:bg-yellow-100 transition-colors disabled:opacity-75"
+            >
+              <span className="flex items-center">
+                <CloudOff className="mr-2 h-4 w-4" />
+                {pendingSync} menunggu sinkronisasi
+              </span>
+              <RefreshCw className={`h-4 w-4 ${syncing ? 'animate-spin' : ''}`} />
+            </button>
+          )}
           <div className="flex items-center space-x-3 mb-4">
             <div className="h-8 w-8 bg-gray-300 rounded-full flex items-center justify-center">
               <span className="text-sm font-medium text-gray-700">
@@ -198,6 +251,18 @@ export default function Dashboard({ user }: DashboardProps) {
               </div>
               <span className="text-lg font-bold text-gray-900">L'Oréal</span>
             </div>
+            {pendingSync > 0 ? (
+              <button
+                onClick={syncPendingVisits}
+                disabled={syncing}
+                className="flex items-center space-x-1 px-2 py-1 text-xs font-medium text-yellow-800 bg-yellow-100 rounded-full"
+              >
+                <CloudOff className="h-3 w-3" />
+                <span>{pendingSync}</span>
+              </button>
+            ) : (
+              <div className="w-10"></div>
+            )}
           </div>
         </header>
 
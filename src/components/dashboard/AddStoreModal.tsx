@@ -3,7 +3,8 @@
 import { useState, useEffect } from 'react'
 import { supabase } from '@/lib/supabase'
 import { User } from '@supabase/supabase-js'
-import { Store, X, MapPin, DollarSign, Package } from 'lucide-react'
+import { Store, X, MapPin, DollarSign, Package, Crosshair } from 'lucide-react'
+import { getCurrentPosition, parseGmapsCoordinates } from '@/lib/geolocation'
 
 interface AddStoreModalProps {
   user: User
@@ -24,6 +25,8 @@ export default function AddStoreModal({ user, onClose, onSuccess }: AddStoreModa
     category: '',
     address: '',
     gmaps_link: '',
+    latitude: '',
+    longitude: '',
     route: 'A',
     phone: '',
     average_order_value: '',
@@ -37,6 +40,7 @@ export default function AddStoreModal({ user, onClose, onSuccess }: AddStoreModa
   const [routes, setRoutes] = useState<string[]>([])
   const [loading, setLoading] = useState(false)
   const [loadingProducts, setLoadingProducts] = useState(true)
+  const [locating, setLocating] = useState(false)
 
   useEffect(() => {
     fetchProducts()
@@ -95,6 +99,33 @@ export default function AddStoreModal({ user, onClose, onSuccess }: AddStoreModa
     setFormData(prev => ({ ...prev, [field]: value }))
   }
 
+  const handleGmapsLinkChange = (value: string) => {
+    const coordinates = parseGmapsCoordinates(value)
+    setFormData(prev => ({
+      ...prev,
+      gmaps_link: value,
+      // Only fill coordinates the user has not entered yet
+      latitude: coordinates && !prev.latitude ? coordinates.lat.toString() : prev.latitude,
+      longitude: coordinates && !prev.longitude ? coordinates.lng.toString() : prev.longitude
+    }))
+  }
+
+  const handleUseCurrentLocation = async () => {
+    setLocating(true)
+    try {
+      const position = await getCurrentPosition()
+      setFormData(prev => ({
+        ...prev,
+        latitude: position.lat.toFixed(6),
+        longitude: position.lng.toFixed(6)
+      }))
+    } catch (error) {
+      alert((error as Error).message)
+    } finally {
+      setLocating(false)
+    }
+  }
+
   const handleSkuToggle = (skuId: string) => {
     setFormData(prev => ({
       ...prev,
@@ -107,6 +138,10 @@ export default function AddStoreModal({ user, onClose, onSuccess }: AddStoreModa
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault()
     if (!formData.store_name || !formData.store_code) return
+    if (!!formData.latitude !== !!formData.longitude) {
+      alert('Isi latitude dan longitude, atau kosongkan keduanya')
+      return
+    }
 
     setLoading(true)
     try {
@@ -118,6 +153,8 @@ export default function AddStoreModal({ user, onClose, onSuccess }: AddStoreModa
           category: formData.category,
           address: formData.address,
           gmaps_link: formData.gmaps_link || null,
+          latitude: formData.latitude ? parseFloat(formData.latitude) : null,
+          longitude: formData.longitude ? parseFloat(formData.longitude) : null,
           route: formData.route,
           phone: formData.phone || null,
           average_order_value: formData.average_order_value ? parseFloat(formData.average_order_value) : 0,
@@ -238,13 +275,53 @@ export default function AddStoreModal({ user, onClose, onSuccess }: AddStoreModa
               <input
                 type="url"
                 value={formData.gmaps_link}
-                onChange={(e) => handleInputChange('gmaps_link', e.target.value)}
+                onChange={(e) => handleGmapsLinkChange(e.target.value)}
                 className="w-full pl-10 pr-3 py-3 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent text-gray-900"
                 placeholder="https://maps.google.com/..."
               />
             </div>
           </div>
 
+          <div>
+            <div className="flex items-center justify-between mb-2">
+              <label className="block text-sm font-medium text-gray-700">
+                Koordinat Toko
+              </label>
+              <button
+                type="button"
+                onClick={handleUseCurrentLocation}
+                disabled={locating}
+                className="inline-flex items-center px-3 py-1 text-xs bg-blue-50 text-blue-700 rounded-lg hover:bg-blue-100 disabled:opacity-50 transition-colors"
+              >
+                <Crosshair className="h-3 w-3 mr-1" />
+                {locating ? 'Mengambil lokasi...' : 'Gunakan Lokasi Saat Ini'}
+              </button>
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <input
+                type="number"
+                step="any"
+                min="-90"
+                max="90"
+                value={formData.latitude}
+                onChange={(e) => handleInputChange('latitude', e.target.value)}
+                className="w-full p-3 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent text-gray-900"
+                placeholder="Latitude"
+              />
+              <input
+                type="number"
+                step="any"
+                min="-180"
+                max="180"
+                value={formData.longitude}
+                onChange={(e) => handleInputChange('longitude', e.target.value)}
+                className="w-full p-3 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent text-gray-900"
+                placeholder="Longitude"
+              />
+            </div>
+            <p className="text-xs text-gray-500 mt-1">Terisi otomatis dari link Google Maps jika link memuat koordinat</p>
+          </div>
+
           <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
             <div>
               <label className="block text-sm font-medium text-gray-700 mb-2">
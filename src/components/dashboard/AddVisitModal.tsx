@@ -1,14 +1,21 @@
 'use client'
 
 import { useState, useEffect } from 'react'
-import { supabase } from '@/lib/supabase'
 import { User } from '@supabase/supabase-js'
-import { Calendar, Store, Package, X, Plus } from 'lucide-react'
+import { Calendar, Store, Package, X, Plus, MapPin, Clock, CheckCircle, Circle } from 'lucide-react'
+import { captureTimestampedPosition, distanceMeters, formatDistance, GeoCapture } from '@/lib/geolocation'
+import { fetchAppSettings } from '@/lib/settings'
+import { fetchSalesmanStores, fetchActiveProducts, fetchActivePromotions, fetchCachedMSLSource, fetchCachedPlannedStores, fetchStorePurchases, VisitStorePurchase } from '@/lib/referenceData'
+import { MSLListItem, buildMSLGapChecklist, getMSLGapAchievement, resolveStoreMSL } from '@/lib/msl'
+import { Promotion, findPromotionForProduct } from '@/lib/promotions'
+import { submitVisit, generateId, VisitValidationError } from '@/lib/visitQueue'
 
 interface AddVisitModalProps {
   user: User
+  userRole: string
   onClose: () => void
   onSuccess: () => void
+  initialStoreId?: string
 }
 
 interface Store {
@@ -18,33 +25,35 @@ interface Store {
   address: string
   route: string
   category: string
+  cluster_id: string | null
+  latitude: number | null
+  longitude: number | null
 }
 
 interface Product {
   id: string
   sku_code: string
   product_name: string
+  brand: string | null
+  category: string
   unit_price: number
 }
 
-interface MSLItem {
-  id: string
-  sku_code: string
-  product_name: string
-  priority: number
-}
-
 interface OrderItem {
   product_id: string
   quantity: number
   unit_price: number
   discount_percentage: number
+  promotion_id: string | null
 }
 
-export default function AddVisitModal({ user, onClose, onSuccess }: AddVisitModalProps) {
+export default function AddVisitModal({ user, userRole, onClose, onSuccess, initialStoreId }: AddVisitModalProps) {
   const [stores, setStores] = useState<Store[]>([])
   const [products, setProducts] = useState<Product[]>([])
-  const [mslItems, setMslItems] = useState<MSLItem[]>([])
+  const [promotions, setPromotions] = useState<Promotion[]>([])
+  const [mslItems, setMslItems] = useState<MSLListItem[]>([])
+  const [storePurchases, setStorePurchases] = useState<VisitStorePurchase[]>([])
+  const [mslLookbackDays, setMslLookbackDays] = useState(30)
   const [routes, setRoutes] = useState<string[]>([])
   const [categories, setCategories] = useState<string[]>([])
   const [filteredStores, setFilteredStores] = useState<Store[]>([])
@@ -72,6 +81,12 @@ export default function AddVisitModal({ user, onClose, onSuccess }: AddVisitModa
   const [loadingStores, setLoadingStores] = useState(true)
   const [loadingProducts, setLoadingProducts] = useState(false)
   const [loadingMSL, setLoadingMSL] = useState(false)
+  const [checkIn, setCheckIn] = useState<GeoCapture | null>(null)
+  const [checkingIn, setCheckingIn] = useState(false)
+  const [geofenceRadius, setGeofenceRadius] = useState(0)
+  const [plannedStoreIds, setPlannedStoreIds] = useState<Set<string>>(new Set())
+  const [planOnly, setPlanOnly] = useState(true)
+  const [fieldErrors, setFieldErrors] = useState<Record<string, string>>({})
 
   const noOrderReasons = [
     'Toko tutup',
@@ -82,6 +97,7 @@ export default function AddVisitModal({ user, onClose, onSuccess }: AddVisitModa
     'Lainnya'
   ]
 
+  // Preview only; the stored line_total is computed by the database
   const calculateLineTotal = (item: OrderItem): number => {
     const subtotal = item.quantity * item.unit_price
     const discount = subtotal * (item.discount_percentage / 100)
@@ -93,7 +109,8 @@ export default function AddVisitModal({ user, onClose, onSuccess }: AddVisitModa
       product_id: '',
       quantity: 1,
       unit_price: 0,
-      discount_percentage: 0
+      discount_percentage: 0,
+      promotion_id: null
     }])
   }
 
@@ -106,17 +123,36 @@ export default function AddVisitModal({ user, onClose, onSuccess }: AddVisitModa
     })
   }
 
+  const storeCategory = isNewStore ? newStoreData.category : selectedStoreData?.category || null
+
+  const getPromotionForProduct = (productId: string): Promotion | null => {
+    const product = products.find(p => p.id === productId)
+    if (!product) return null
+    return findPromotionForProduct(promotions, product, visitDate, storeCategory)
+  }
+
+  // Discounts above the promotion need an admin
+  const exceedsPromotion = (item: OrderItem): boolean => {
+    return item.discount_percentage > (getPromotionForProduct(item.product_id)?.discount_percentage || 0)
+  }
+
   const updateOrderItem = (index: number, field: keyof OrderItem, value: any) => {
     setOrderItems(prev => prev.map((item, i) => 
       i === index ? { ...item, [field]: value } : item
     ))
     
-    // Auto-fill unit price when product is selected
+    // Auto-fill unit price and the active promotion when product is selected
     if (field === 'product_id' && value) {
       const selectedProduct = products.find(p => p.id === value)
+      const promotion = getPromotionForProduct(value)
       if (selectedProduct) {
         setOrderItems(prev => prev.map((item, i) => 
-          i === index ? { ...item, unit_price: selectedProduct.unit_price } : item
+          i === index ? {
+            ...item,
+            unit_price: selectedProduct.unit_price,
+            discount_percentage: promotion?.discount_percentage || 0,
+            promotion_id: promotion?.id || null
+          } : item
         ))
       }
     }
@@ -128,14 +164,30 @@ export default function AddVisitModal({ user, onClose, onSuccess }: AddVisitModa
 
   useEffect(() => {
     fetchStores()
-    fetchRoutesAndCategories()
+    fetchAppSettings().then(settings => {
+      setGeofenceRadius(settings.geofence_radius_meters)
+      setMslLookbackDays(settings.msl_lookback_days)
+    })
+    fetchStorePurchases(user.id)
+      .then(setStorePurchases)
+      .catch(error => {
+        console.error('Error fetching store purchases:', error)
+        setStorePurchases([])
+      })
   }, [])
 
   useEffect(() => {
-    if (selectedCategory) {
-      fetchMSLItems()
-    }
-  }, [selectedCategory])
+    fetchCachedPlannedStores(user.id, visitDate)
+      .then(planned => setPlannedStoreIds(new Set(planned.map(p => p.store_id))))
+      .catch(error => {
+        console.error('Error fetching journey plan:', error)
+        setPlannedStoreIds(new Set())
+      })
+  }, [visitDate])
+
+  useEffect(() => {
+    fetchMSLItems()
+  }, [storeCategory, selectedStoreData, visitDate])
 
   useEffect(() => {
     if (hasOrder) {
@@ -143,9 +195,27 @@ export default function AddVisitModal({ user, onClose, onSuccess }: AddVisitModa
     }
   }, [hasOrder])
 
+  // Promotions depend on the visit date and store, so re-apply them when those change
+  useEffect(() => {
+    setOrderItems(prev => prev.map(item => {
+      const promotion = getPromotionForProduct(item.product_id)
+      if ((promotion?.id || null) === item.promotion_id) return item
+      return {
+        ...item,
+        discount_percentage: promotion?.discount_percentage || 0,
+        promotion_id: promotion?.id || null
+      }
+    }))
+  }, [visitDate, storeCategory, promotions, products])
+
   useEffect(() => {
     let filtered = stores
 
+    // Filter to the journey plan of the visit date
+    if (planOnly && plannedStoreIds.size > 0) {
+      filtered = filtered.filter(store => plannedStoreIds.has(store.id))
+    }
+
     // Filter by route
     if (selectedRoute) {
       filtered = filtered.filter(store => store.route === selectedRoute)
@@ -165,18 +235,21 @@ export default function AddVisitModal({ user, onClose, onSuccess }: AddVisitModa
     }
 
     setFilteredStores(filtered)
-  }, [stores, selectedRoute, selectedCategory, storeSearch])
+  }, [stores, selectedRoute, selectedCategory, storeSearch, planOnly, plannedStoreIds])
 
   const fetchStores = async () => {
     try {
-      const { data, error } = await supabase
-        .from('stores')
-        .select('id, store_name, store_code, address, route, category')
-        .eq('created_by', user.id)
-        .order('store_name')
-
-      if (error) throw error
-      setStores(data || [])
+      const data = await fetchSalesmanStores(user.id)
+      setStores(data)
+
+      // Routes and categories come from the same store list so they also work offline
+      setRoutes(Array.from(new Set(data.map(s => s.route).filter(Boolean))).sort())
+      setCategories(Array.from(new Set(data.map(s => s.category).filter(Boolean))).sort())
+
+      if (initialStoreId) {
+        setSelectedStore(initialStoreId)
+        setSelectedStoreData(data.find(s => s.id === initialStoreId) || null)
+      }
     } catch (error) {
       console.error('Error fetching stores:', error)
     } finally {
@@ -184,38 +257,20 @@ export default function AddVisitModal({ user, onClose, onSuccess }: AddVisitModa
     }
   }
 
-  const fetchRoutesAndCategories = async () => {
-    try {
-      const { data, error } = await supabase
-        .from('stores')
-        .select('route, category')
-        .eq('created_by', user.id)
-
-      if (error) throw error
-
-      const uniqueRoutes = [...new Set((data || []).map(s => s.route).filter(Boolean))].sort()
-      const uniqueCategories = [...new Set((data || []).map(s => s.category).filter(Boolean))].sort()
-      
-      setRoutes(uniqueRoutes)
-      setCategories(uniqueCategories)
-    } catch (error) {
-      console.error('Error fetching routes and categories:', error)
+  // The MSL in effect on the visit date; a new store has no cluster or overrides yet
+  const fetchMSLItems = async () => {
+    if (!storeCategory) {
+      setMslItems([])
+      return
     }
-  }
 
-  const fetchMSLItems = async () => {
-    if (!selectedCategory) return
-    
     setLoadingMSL(true)
     try {
-      const { data, error } = await supabase
-        .from('msl_items')
-        .select('id, sku_code, product_name, priority')
-        .eq('category', selectedCategory)
-        .order('priority')
-
-      if (error) throw error
-      setMslItems(data || [])
+      const source = await fetchCachedMSLSource()
+      const mslStore = !isNewStore && selectedStoreData
+        ? selectedStoreData
+        : { id: '', category: storeCategory, cluster_id: null }
+      setMslItems(resolveStoreMSL(source, mslStore, visitDate))
     } catch (error) {
       console.error('Error fetching MSL items:', error)
       setMslItems([])
@@ -227,14 +282,12 @@ export default function AddVisitModal({ user, onClose, onSuccess }: AddVisitModa
   const fetchProducts = async () => {
     setLoadingProducts(true)
     try {
-      const { data, error } = await supabase
-        .from('products')
-        .select('id, sku_code, product_name, unit_price')
-        .eq('is_active', true)
-        .order('product_name')
-
-      if (error) throw error
-      setProducts(data || [])
+      const [data, promotionsData] = await Promise.all([
+        fetchActiveProducts(),
+        fetchActivePromotions()
+      ])
+      setProducts(data)
+      setPromotions(promotionsData)
     } catch (error) {
       console.error('Error fetching products:', error)
     } finally {
@@ -288,77 +341,172 @@ export default function AddVisitModal({ user, onClose, onSuccess }: AddVisitModa
     return mslItems.some(item => item.sku_code === skuCode)
   }
 
+  // A new store has no purchases yet, so its whole MSL is missing
+  const orderSkus = new Set(orderItems.map(item => products.find(p => p.id === item.product_id)?.sku_code || ''))
+  const mslChecklist = buildMSLGapChecklist(
+    mslItems,
+    !isNewStore && selectedStoreData ? storePurchases.filter(purchase => purchase.store_id === selectedStoreData.id) : [],
+    orderSkus,
+    mslLookbackDays,
+    visitDate
+  )
+  const missingMSL = mslChecklist.filter(item => !item.bought && !item.inOrder)
+
+  // Adds a line per missing MSL SKU with its suggested quantity; SKUs of inactive products are skipped
+  const addMissingMSLItems = async () => {
+    try {
+      const catalog = products.length > 0 ? products : await fetchActiveProducts()
+      const productsBySku = new Map(catalog.map(product => [product.sku_code, product]))
+      const newItems = missingMSL
+        .filter(item => productsBySku.has(item.sku_code))
+        .map(item => {
+          const product = productsBySku.get(item.sku_code)!
+          const promotion = findPromotionForProduct(promotions, product, visitDate, storeCategory)
+          return {
+            product_id: product.id,
+            quantity: item.suggestedQuantity,
+            unit_price: product.unit_price,
+            discount_percentage: promotion?.discount_percentage || 0,
+            promotion_id: promotion?.id || null
+          }
+        })
+
+      setHasOrder(true)
+      setOrderItems(prev => [...prev, ...newItems])
+
+      if (newItems.length < missingMSL.length) {
+        alert(`${missingMSL.length - newItems.length} SKU MSL tidak ditambahkan karena produknya tidak aktif.`)
+      }
+    } catch (error) {
+      console.error('Error adding missing MSL items:', error)
+      alert('Gagal memuat daftar produk. Silakan coba lagi.')
+    }
+  }
+
+  // Distance from the check-in position to the selected store, when both are known
+  const getCheckInDistance = (): number | null => {
+    if (!checkIn?.position || isNewStore || !selectedStoreData) return null
+    if (selectedStoreData.latitude == null || selectedStoreData.longitude == null) return null
+    return distanceMeters(checkIn.position, {
+      lat: selectedStoreData.latitude,
+      lng: selectedStoreData.longitude
+    })
+  }
+
+  const handleCheckIn = async () => {
+    setCheckingIn(true)
+    const capture = await captureTimestampedPosition()
+    if (capture.error) {
+      alert(`Check-in dicatat tanpa lokasi: ${capture.error}`)
+    }
+    setCheckIn(capture)
+    setCheckingIn(false)
+  }
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault()
     if (!selectedStore && !isNewStore) return
     if (isNewStore && (!newStoreData.store_name || !newStoreData.store_code || !newStoreData.category)) return
     if (!hasOrder && !noOrderReason) return
+    if (!checkIn) return
+
+    if (hasOrder && userRole !== 'admin') {
+      const discountErrors = orderItems.reduce((acc, item, index) => {
+        if (item.product_id && exceedsPromotion(item)) {
+          acc[`orders.${index}.discount_percentage`] = `Diskon maksimal ${getPromotionForProduct(item.product_id)?.discount_percentage || 0}% sesuai promo`
+        }
+        return acc
+      }, {} as Record<string, string>)
+
+      if (Object.keys(discountErrors).length > 0) {
+        setFieldErrors(discountErrors)
+        alert('Periksa kembali data yang ditandai merah.')
+        return
+      }
+    }
+
+    // Remember the form row of each submitted line to map server errors back
+    const validOrderIndexes = hasOrder
+      ? orderItems
+        .map((item, index) => ({ item, index }))
+        .filter(({ item }) => item.product_id && item.quantity > 0 && item.unit_price > 0)
+        .map(({ index }) => index)
+      : []
 
     setLoading(true)
+    setFieldErrors({})
     try {
-      let storeId = selectedStore
-
-      // Create new store if needed
-      if (isNewStore) {
-        const { data: newStore, error: storeError } = await supabase
-          .from('stores')
-          .insert({
-            store_name: newStoreData.store_name,
-            store_code: newStoreData.store_code,
-            category: newStoreData.category,
-            address: newStoreData.address,
-            route: newStoreData.route,
-            created_by: user.id
-          })
-          .select()
-          .single()
-
-        if (storeError) throw storeError
-        storeId = newStore.id
-      }
+      // Submitting the visit is the check-out
+      const checkOut = await captureTimestampedPosition()
+
+      const visitId = generateId()
+      const newStore = isNewStore ? {
+        id: generateId(),
+        store_name: newStoreData.store_name,
+        store_code: newStoreData.store_code,
+        category: newStoreData.category,
+        address: newStoreData.address,
+        route: newStoreData.route,
+        // A store registered on site takes the check-in position
+        latitude: checkIn.position?.lat ?? null,
+        longitude: checkIn.position?.lng ?? null,
+        created_by: user.id
+      } : null
 
-      // Create visit
-      const { data: visitData, error: visitError } = await supabase
-        .from('visits')
-        .insert({
+      const validOrderItems = validOrderIndexes.map(index => orderItems[index])
+
+      const result = await submitVisit({
+        id: visitId,
+        queued_at: new Date().toISOString(),
+        attempts: 0,
+        last_error: null,
+        new_store: newStore,
+        visit: {
+          id: visitId,
           salesman_id: user.id,
-          store_id: storeId,
+          store_id: newStore ? newStore.id : selectedStore,
           visit_date: visitDate,
           has_order: hasOrder,
-          notes: hasOrder ? (notes || null) : noOrderReason
-        })
-        .select()
-        .single()
-
-      if (visitError) throw visitError
-
-      // Create order items if there's an order
-      if (hasOrder && orderItems.length > 0) {
-        const validOrderItems = orderItems.filter(item => 
-          item.product_id && item.quantity > 0 && item.unit_price > 0
-        )
-
-        if (validOrderItems.length > 0) {
-          const orderInserts = validOrderItems.map(item => ({
-            visit_id: visitData.id,
-            product_id: item.product_id,
-            quantity: item.quantity,
-            unit_price: item.unit_price,
-            discount_percentage: item.discount_percentage,
-            line_total: calculateLineTotal(item)
-          }))
-
-          const { error: orderError } = await supabase
-            .from('visit_orders')
-            .insert(orderInserts)
-
-          if (orderError) throw orderError
-        }
+          notes: hasOrder ? (notes || null) : noOrderReason,
+          check_in_at: checkIn.at,
+          check_in_lat: checkIn.position?.lat ?? null,
+          check_in_lng: checkIn.position?.lng ?? null,
+          check_in_accuracy: checkIn.position?.accuracy ?? null,
+          check_out_at: checkOut.at,
+          check_out_lat: checkOut.position?.lat ?? null,
+          check_out_lng: checkOut.position?.lng ?? null,
+          check_out_accuracy: checkOut.position?.accuracy ?? null
+        },
+        orders: validOrderItems.map(item => ({
+          id: generateId(),
+          visit_id: visitId,
+          product_id: item.product_id,
+          quantity: item.quantity,
+          unit_price: item.unit_price,
+          discount_percentage: item.discount_percentage
+        }))
+      })
+
+      if (result === 'queued') {
+        alert('Tidak ada koneksi. Kunjungan disimpan di perangkat dan akan disinkronkan otomatis.')
       }
 
       onSuccess()
       onClose()
     } catch (error) {
+      if (error instanceof VisitValidationError) {
+        setFieldErrors(error.errors.reduce((acc, fieldError) => {
+          // orders.<submitted index>.<column> -> orders.<form row>.<column>
+          const match = fieldError.field.match(/^orders\.(\d+)\.(.+)$/)
+          const field = match
+            ? `orders.${validOrderIndexes[Number(match[1])]}.${match[2]}`
+            : fieldError.field
+          acc[field] = fieldError.message
+          return acc
+        }, {} as Record<string, string>))
+        alert('Periksa kembali data yang ditandai merah.')
+        return
+      }
       console.error('Error creating visit:', error)
       alert('Gagal menyimpan kunjungan. Silakan coba lagi.')
     } finally {
@@ -366,6 +514,14 @@ export default function AddVisitModal({ user, onClose, onSuccess }: AddVisitModa
     }
   }
 
+  const getOrderItemErrors = (index: number): string[] => {
+    return Object.entries(fieldErrors)
+      .filter(([field]) => field.startsWith(`orders.${index}.`))
+      .map(([, message]) => message)
+  }
+
+  const checkInDistance = getCheckInDistance()
+
   return (
     <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
       <div className="bg-white rounded-xl shadow-xl max-w-2xl w-full max-h-[90vh] overflow-y-auto">
@@ -400,6 +556,9 @@ export default function AddVisitModal({ user, onClose, onSuccess }: AddVisitModa
               className="w-full p-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-green-500 focus:border-transparent text-gray-900"
               required
             />
+            {fieldErrors['visit_date'] && (
+              <p className="text-xs text-red-600 mt-1">{fieldErrors['visit_date']}</p>
+            )}
           </div>
 
           {/* Route Selection */}
@@ -469,6 +628,9 @@ export default function AddVisitModal({ user, onClose, onSuccess }: AddVisitModa
                     placeholder="Nama toko"
                     required={isNewStore}
                   />
+                  {fieldErrors['store.store_name'] && (
+                    <p className="text-xs text-red-600 mt-1">{fieldErrors['store.store_name']}</p>
+                  )}
                 </div>
                 <div>
                   <label className="block text-sm font-medium text-gray-700 mb-1">
@@ -482,6 +644,9 @@ export default function AddVisitModal({ user, onClose, onSuccess }: AddVisitModa
                     placeholder="Kode toko"
                     required={isNewStore}
                   />
+                  {fieldErrors['store.store_code'] && (
+                    <p className="text-xs text-red-600 mt-1">{fieldErrors['store.store_code']}</p>
+                  )}
                 </div>
                 <div>
                   <label className="block text-sm font-medium text-gray-700 mb-1">
@@ -498,6 +663,9 @@ export default function AddVisitModal({ user, onClose, onSuccess }: AddVisitModa
                       <option key={category} value={category}>{category}</option>
                     ))}
                   </select>
+                  {fieldErrors['store.category'] && (
+                    <p className="text-xs text-red-600 mt-1">{fieldErrors['store.category']}</p>
+                  )}
                 </div>
               </div>
               <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
@@ -540,6 +708,19 @@ export default function AddVisitModal({ user, onClose, onSuccess }: AddVisitModa
                 <div className="p-3 text-gray-500">Memuat daftar toko...</div>
               ) : (
                 <div className="space-y-2">
+                  {plannedStoreIds.size > 0 && (
+                    <label className="flex items-center space-x-2">
+                      <input
+                        type="checkbox"
+                        checked={planOnly}
+                        onChange={(e) => setPlanOnly(e.target.checked)}
+                        className="h-4 w-4 text-green-600 focus:ring-green-500 border-gray-300 rounded"
+                      />
+                      <span className="text-sm text-gray-700">
+                        Hanya toko dalam journey plan ({plannedStoreIds.size} toko)
+                      </span>
+                    </label>
+                  )}
                   <input
                     type="text"
                     value={storeSearch}
@@ -560,6 +741,9 @@ export default function AddVisitModal({ user, onClose, onSuccess }: AddVisitModa
                       </option>
                     ))}
                   </select>
+                  {fieldErrors['store_id'] && (
+                    <p className="text-xs text-red-600 mt-1">{fieldErrors['store_id']}</p>
+                  )}
                   {filteredStores.length === 0 && storeSearch && (
                     <p className="text-sm text-gray-500 mt-1">
                       Tidak ada toko yang ditemukan. Coba kata kunci lain atau centang "Toko Baru".
@@ -570,26 +754,115 @@ export default function AddVisitModal({ user, onClose, onSuccess }: AddVisitModa
             </div>
           )}
 
-          {/* MSL Recommendations */}
-          {selectedStoreData && mslItems.length > 0 && (
+          {/* Check-in */}
+          <div className={`rounded-lg border p-4 ${checkIn ? 'bg-green-50 border-green-200' : 'bg-yellow-50 border-yellow-200'}`}>
+            <div className="flex items-center justify-between">
+              <div className="flex items-start space-x-3">
+                <MapPin className={`h-5 w-5 mt-0.5 ${checkIn ? 'text-green-600' : 'text-yellow-600'}`} />
+                <div>
+                  <h3 className={`font-medium ${checkIn ? 'text-green-900' : 'text-yellow-900'}`}>
+                    {checkIn ? 'Sudah Check-in' : 'Check-in di Toko'}
+                  </h3>
+                  {checkIn ? (
+                    <div className="text-xs text-green-700 space-y-0.5 mt-1">
+                      {checkInDistance !== null && (
+                        <p className={checkInDistance > geofenceRadius ? 'font-medium text-red-700' : ''}>
+                          {formatDistance(checkInDistance)} dari lokasi toko
+                          {checkInDistance > geofenceRadius && ` (di luar radius ${geofenceRadius} m)`}
+                        </p>
+                      )}
+                      <p className="flex items-center">
+                        <Clock className="h-3 w-3 mr-1" />
+                        {new Date(checkIn.at).toLocaleTimeString('id-ID', { hour: '2-digit', minute: '2-digit' })}
+                      </p>
+                      <p>
+                        {checkIn.position
+                          ? `${checkIn.position.lat.toFixed(6)}, ${checkIn.position.lng.toFixed(6)}${checkIn.position.accuracy ? ` (±${Math.round(checkIn.position.accuracy)} m)` : ''}`
+                          : 'Lokasi tidak tersedia'}
+                      </p>
+                    </div>
+                  ) : (
+                    <p className="text-xs text-yellow-700 mt-1">
+                      Check-in saat tiba di toko. Check-out dicatat otomatis saat kunjungan disimpan.
+                    </p>
+                  )}
+                </div>
+              </div>
+              {!checkIn && (
+                <button
+                  type="button"
+                  onClick={handleCheckIn}
+                  disabled={checkingIn}
+                  className="inline-flex items-center px-3 py-2 text-sm bg-green-600 text-white rounded-lg hover:bg-green-700 disabled:opacity-50 transition-colors"
+                >
+                  <MapPin className="h-4 w-4 mr-1" />
+                  {checkingIn ? 'Mengambil lokasi...' : 'Check-in'}
+                </button>
+              )}
+            </div>
+          </div>
+
+          {/* MSL Checklist */}
+          {storeCategory && (loadingMSL || mslChecklist.length > 0) && (
             <div className="bg-blue-50 border border-blue-200 rounded-lg p-4">
-              <h3 className="font-medium text-blue-900 mb-3">
-                Top 5 MSL Recommendations untuk {selectedStoreData.category}
-              </h3>
+              <div className="flex items-start justify-between mb-3">
+                <div>
+                  <h3 className="font-medium text-blue-900">
+                    Checklist MSL {selectedStoreData && !isNewStore ? selectedStoreData.store_name : storeCategory}
+                  </h3>
+                  <p className="text-xs text-blue-700">
+                    Pembelian {mslLookbackDays} hari terakhir sampai {visitDate}
+                  </p>
+                </div>
+                {!loadingMSL && (
+                  <div className="text-right">
+                    <div className="text-lg font-semibold text-blue-900">
+                      {getMSLGapAchievement(mslChecklist, true).toFixed(0)}%
+                    </div>
+                    <div className="text-xs text-blue-700">
+                      sebelum order {getMSLGapAchievement(mslChecklist, false).toFixed(0)}%
+                    </div>
+                  </div>
+                )}
+              </div>
               {loadingMSL ? (
-                <div className="text-blue-700">Memuat rekomendasi MSL...</div>
+                <div className="text-blue-700">Memuat checklist MSL...</div>
               ) : (
-                <div className="space-y-2">
-                  {mslItems.slice(0, 5).map((item, index) => (
-                    <div key={item.id} className="flex items-center text-sm text-blue-800">
-                      <span className="w-6 h-6 bg-blue-200 text-blue-800 rounded-full flex items-center justify-center text-xs font-bold mr-3">
-                        {item.priority}
-                      </span>
-                      <span className="font-mono mr-3 text-xs">{item.sku_code}</span>
-                      <span className="text-xs">{item.product_name}</span>
-                    </div>
-                  ))}
-                </div>
+                <>
+                  <div className="space-y-1 max-h-64 overflow-y-auto">
+                    {mslChecklist.map((item) => (
+                      <div key={item.sku_code} className="flex items-center text-sm">
+                        {item.bought || item.inOrder ? (
+                          <CheckCircle className={`h-4 w-4 mr-2 flex-shrink-0 ${item.bought ? 'text-green-600' : 'text-blue-600'}`} />
+                        ) : (
+                          <Circle className="h-4 w-4 mr-2 flex-shrink-0 text-red-400" />
+                        )}
+                        <span className="w-6 text-xs text-blue-700">{item.priority}</span>
+                        <span className="font-mono mr-3 text-xs text-gray-700">{item.sku_code}</span>
+                        <span className="text-xs text-gray-900 flex-1 truncate">{item.product_name}</span>
+                        <span className="text-xs ml-2 flex-shrink-0">
+                          {item.inOrder ? (
+                            <span className="text-blue-700">Di order ini</span>
+                          ) : item.bought ? (
+                            <span className="text-green-700">Dibeli {item.lastBoughtDate}</span>
+                          ) : (
+                            <span className="text-red-600">Belum dibeli</span>
+                          )}
+                        </span>
+                      </div>
+                    ))}
+                  </div>
+                  {missingMSL.length > 0 && (
+                    <button
+                      type="button"
+                      onClick={addMissingMSLItems}
+                      className="mt-3 inline-flex items-center px-3 py-2 text-sm bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+                    >
+                      <Plus className="h-4 w-4 mr-1" />
+                      Tambah {missingMSL.length} MSL yang belum dibeli
+                    </button>
+                  )}
+                </>
               )}
             </div>
           )}
@@ -624,6 +897,9 @@ export default function AddVisitModal({ user, onClose, onSuccess }: AddVisitModa
                   <option key={reason} value={reason}>{reason}</option>
                 ))}
               </select>
+              {fieldErrors['notes'] && (
+                <p className="text-xs text-red-600 mt-1">{fieldErrors['notes']}</p>
+              )}
             </div>
           )}
 
@@ -646,6 +922,9 @@ export default function AddVisitModal({ user, onClose, onSuccess }: AddVisitModa
                 <div className="p-3 text-gray-500">Memuat daftar produk...</div>
               ) : (
                 <div className="space-y-3">
+                  {fieldErrors['orders'] && (
+                    <p className="text-sm text-red-600">{fieldErrors['orders']}</p>
+                  )}
                   {orderItems.map((item, index) => (
                     <div key={index} className="grid grid-cols-12 gap-3 p-3 bg-gray-50 rounded-lg">
                       <div className="col-span-5">
@@ -687,9 +966,10 @@ export default function AddVisitModal({ user, onClose, onSuccess }: AddVisitModa
                           step="0.01"
                           min="0"
                           value={item.unit_price}
-                          onChange={(e) => updateOrderItem(index, 'unit_price', parseFloat(e.target.value) || 0)}
+                          // Priced from the product master; the server ignores any other price
+                          readOnly
                           placeholder="Harga"
-                          className="w-full p-2 border border-gray-300 rounded text-sm text-gray-900 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                          className="w-full p-2 border border-gray-300 rounded text-sm text-gray-900 bg-gray-50 focus:outline-none focus:ring-2 focus:ring-blue-500"
                           required
                         />
                       </div>
@@ -713,6 +993,21 @@ export default function AddVisitModal({ user, onClose, onSuccess }: AddVisitModa
                           <X className="h-4 w-4" />
                         </button>
                       </div>
+                      {item.promotion_id && (
+                        <p className="col-span-12 text-xs text-orange-700">
+                          Promo: {getPromotionForProduct(item.product_id)?.promo_name} (-{getPromotionForProduct(item.product_id)?.discount_percentage}%)
+                        </p>
+                      )}
+                      {item.product_id && exceedsPromotion(item) && userRole === 'admin' && (
+                        <p className="col-span-12 text-xs text-yellow-700">
+                          Override admin: diskon di atas promo
+                        </p>
+                      )}
+                      {getOrderItemErrors(index).length > 0 && (
+                        <p className="col-span-12 text-xs text-red-600">
+                          {getOrderItemErrors(index).join(', ')}
+                        </p>
+                      )}
                     </div>
                   ))}
                   
@@ -753,7 +1048,7 @@ export default function AddVisitModal({ user, onClose, onSuccess }: AddVisitModa
             </button>
             <button
               type="submit"
-              disabled={loading || (!selectedStore && !isNewStore) || (isNewStore && (!newStoreData.store_name || !newStoreData.store_code || !newStoreData.category)) || (!hasOrder && !noOrderReason)}
+              disabled={loading || !checkIn || (!selectedStore && !isNewStore) || (isNewStore && (!newStoreData.store_name || !newStoreData.store_code || !newStoreData.category)) || (!hasOrder && !noOrderReason)}
               className="px-3 py-2 text-sm bg-green-600 text-white rounded hover:bg-green-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors flex items-center space-x-2"
             >
               {loading ? (
@@ -764,7 +1059,7 @@ export default function AddVisitModal({ user, onClose, onSuccess }: AddVisitModa
               ) : (
                 <>
                   <Calendar className="h-3 w-3" />
-                  <span>Simpan Kunjungan</span>
+                  <span>Check-out & Simpan Kunjungan</span>
                 </>
               )}
             </button>
@@ -0,0 +1,132 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { supabase } from '@/lib/supabase'
+import { Settings, X } from 'lucide-react'
+import { APP_SETTINGS, AppSettings, fetchAppSettings } from '@/lib/settings'
+
+interface AppSettingsModalProps {
+  onClose: () => void
+}
+
+export default function AppSettingsModal({ onClose }: AppSettingsModalProps) {
+  const [values, setValues] = useState<{ [key: string]: string }>({})
+  const [loading, setLoading] = useState(true)
+  const [saving, setSaving] = useState(false)
+
+  useEffect(() => {
+    loadSettings()
+  }, [])
+
+  const loadSettings = async () => {
+    const settings: AppSettings = await fetchAppSettings()
+    const formValues: { [key: string]: string } = {}
+    APP_SETTINGS.forEach(setting => {
+      formValues[setting.key] = settings[setting.key].toString()
+    })
+    setValues(formValues)
+    setLoading(false)
+  }
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+
+    const invalid = APP_SETTINGS.find(setting => {
+      const value = parseFloat(values[setting.key])
+      return isNaN(value) || value < 0
+    })
+    if (invalid) {
+      alert(`Nilai ${invalid.label} tidak valid`)
+      return
+    }
+
+    setSaving(true)
+    try {
+      const { error } = await supabase
+        .from('app_settings')
+        .upsert(APP_SETTINGS.map(setting => ({
+          key: setting.key,
+          value: parseFloat(values[setting.key]),
+          description: setting.description
+        })))
+
+      if (error) throw error
+      onClose()
+    } catch (error) {
+      console.error('Error saving app settings:', error)
+      alert('Gagal menyimpan pengaturan. Silakan coba lagi.')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-xl shadow-xl max-w-lg w-full max-h-[90vh] overflow-y-auto">
+        <div className="flex items-center justify-between p-6 border-b border-gray-200">
+          <div className="flex items-center space-x-3">
+            <div className="h-10 w-10 bg-gray-100 rounded-lg flex items-center justify-center">
+              <Settings className="h-5 w-5 text-gray-600" />
+            </div>
+            <div>
+              <h2 className="text-xl font-semibold text-gray-900">General Settings</h2>
+              <p className="text-sm text-gray-600">Batas dan parameter aplikasi</p>
+            </div>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-2 hover:bg-gray-100 rounded-lg transition-colors"
+          >
+            <X className="h-5 w-5 text-gray-500" />
+          </button>
+        </div>
+
+        {loading ? (
+          <div className="flex items-center justify-center py-12">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-gray-600"></div>
+          </div>
+        ) : (
+          <form onSubmit={handleSubmit} className="p-6 space-y-4">
+            {APP_SETTINGS.map(setting => (
+              <div key={setting.key}>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  {setting.label}
+                </label>
+                <div className="flex items-center space-x-2">
+                  <input
+                    type="number"
+                    min="0"
+                    step="any"
+                    value={values[setting.key] || ''}
+                    onChange={(e) => setValues(prev => ({ ...prev, [setting.key]: e.target.value }))}
+                    className="flex-1 p-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent text-gray-900"
+                    required
+                  />
+                  <span className="text-sm text-gray-500 w-16">{setting.unit}</span>
+                </div>
+                <p className="text-xs text-gray-500 mt-1">{setting.description}</p>
+              </div>
+            ))}
+
+            <div className="flex justify-end space-x-3 pt-4 border-t border-gray-200">
+              <button
+                type="button"
+                onClick={onClose}
+                className="px-4 py-2 text-gray-600 bg-gray-100 rounded-lg hover:bg-gray-200 transition-colors"
+              >
+                Batal
+              </button>
+              <button
+                type="submit"
+                disabled={saving}
+                className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 transition-colors"
+              >
+                {saving ? 'Menyimpan...' : 'Simpan'}
+              </button>
+            </div>
+          </form>
+        )}
+      </div>
+    </div>
+  )
+}
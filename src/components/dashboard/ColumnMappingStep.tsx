@@ -0,0 +1,215 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { Columns, AlertCircle, CheckCircle } from 'lucide-react'
+import { CsvTable } from '@/lib/csvImport'
+import {
+  ColumnMapping,
+  ImportMappingProfile,
+  ImportType,
+  IMPORT_FIELDS,
+  applyColumnMapping,
+  fetchMappingProfiles,
+  findMappingProfile,
+  getMissingRequiredFields,
+  saveMappingProfile,
+  suggestColumnMapping
+} from '@/lib/importMapping'
+
+interface ColumnMappingStepProps {
+  importType: ImportType
+  table: CsvTable
+  onBack: () => void
+  // Receives the table with its headers renamed to the importer's fields
+  onApply: (table: CsvTable) => void
+}
+
+export default function ColumnMappingStep({ importType, table, onBack, onApply }: ColumnMappingStepProps) {
+  const fields = IMPORT_FIELDS[importType]
+  const [mapping, setMapping] = useState<ColumnMapping>(() => suggestColumnMapping(table.headers, fields))
+  const [profiles, setProfiles] = useState<ImportMappingProfile[]>([])
+  const [appliedProfile, setAppliedProfile] = useState<ImportMappingProfile | null>(null)
+  const [saveProfile, setSaveProfile] = useState(false)
+  const [profileName, setProfileName] = useState('')
+  const [saving, setSaving] = useState(false)
+
+  const sourceHeaders = table.headers.filter(Boolean)
+  const sampleRow = table.rows[0]?.values || []
+  const missingFields = getMissingRequiredFields(mapping, fields)
+  const duplicateFields = fields.filter(field => Object.values(mapping).filter(key => key === field.key).length > 1)
+
+  useEffect(() => {
+    fetchProfiles()
+  }, [])
+
+  // A file with the same headers as a saved profile gets that profile's mapping
+  const fetchProfiles = async () => {
+    try {
+      const data = await fetchMappingProfiles(importType)
+      setProfiles(data)
+
+      const profile = findMappingProfile(data, sourceHeaders)
+      if (profile) applyProfile(profile)
+    } catch (error) {
+      console.error('Error fetching mapping profiles:', error)
+      setProfiles([])
+    }
+  }
+
+  const applyProfile = (profile: ImportMappingProfile | null) => {
+    setAppliedProfile(profile)
+    setProfileName(profile?.name || '')
+    setMapping(profile
+      ? Object.fromEntries(Object.entries(profile.mapping).filter(([header]) => table.headers.includes(header)))
+      : suggestColumnMapping(table.headers, fields))
+  }
+
+  const updateMapping = (header: string, fieldKey: string) => {
+    setMapping(prev => {
+      const next = { ...prev }
+      if (fieldKey) {
+        next[header] = fieldKey
+      } else {
+        delete next[header]
+      }
+      return next
+    })
+  }
+
+  const handleApply = async () => {
+    if (saveProfile && profileName.trim()) {
+      setSaving(true)
+      try {
+        await saveMappingProfile(importType, profileName.trim(), sourceHeaders, mapping)
+      } catch (error) {
+        console.error('Error saving mapping profile:', error)
+        alert('Failed to save the mapping profile. The import continues without it.')
+      } finally {
+        setSaving(false)
+      }
+    }
+
+    onApply(applyColumnMapping(table, mapping))
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-blue-50 border border-blue-200 rounded-lg p-4">
+        <div className="flex items-start space-x-3">
+          <Columns className="h-5 w-5 text-blue-600 mt-0.5" />
+          <div className="flex-1">
+            <h3 className="font-medium text-blue-900 mb-1">Map Columns</h3>
+            <p className="text-sm text-blue-700">
+              Choose the field each column of the file holds. Suggestions are based on the column names; columns left on &quot;Ignore&quot; are not imported.
+            </p>
+            {appliedProfile && (
+              <p className="text-sm text-blue-800 mt-2">
+                Profile <span className="font-medium">{appliedProfile.name}</span> applied
+              </p>
+            )}
+          </div>
+          {profiles.length > 0 && (
+            <select
+              value={appliedProfile?.id || ''}
+              onChange={(e) => applyProfile(profiles.find(profile => profile.id === e.target.value) || null)}
+              className="p-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+            >
+              <option value="">Suggested mapping</option>
+              {profiles.map(profile => (
+                <option key={profile.id} value={profile.id}>{profile.name}</option>
+              ))}
+            </select>
+          )}
+        </div>
+      </div>
+
+      <div className="border border-gray-200 rounded-lg overflow-hidden">
+        <table className="w-full text-sm">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className="px-4 py-2 text-left font-medium text-gray-700">File Column</th>
+              <th className="px-4 py-2 text-left font-medium text-gray-700">First Row</th>
+              <th className="px-4 py-2 text-left font-medium text-gray-700">Field</th>
+            </tr>
+          </thead>
+          <tbody>
+            {table.headers.map((header, index) => header ? (
+              <tr key={`${header}-${index}`} className="border-t border-gray-100">
+                <td className="px-4 py-2 font-mono text-gray-900">{header}</td>
+                <td className="px-4 py-2 text-gray-600 truncate max-w-xs">{sampleRow[index] || '-'}</td>
+                <td className="px-4 py-2">
+                  <select
+                    value={mapping[header] || ''}
+                    onChange={(e) => updateMapping(header, e.target.value)}
+                    className={`w-full p-2 border rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 ${
+                      duplicateFields.some(field => field.key === mapping[header]) ? 'border-red-300' : 'border-gray-300'
+                    }`}
+                  >
+                    <option value="">Ignore</option>
+                    {fields.map(field => (
+                      <option key={field.key} value={field.key}>
+                        {field.label}{field.required ? ' *' : ''}
+                      </option>
+                    ))}
+                  </select>
+                </td>
+              </tr>
+            ) : null)}
+          </tbody>
+        </table>
+      </div>
+
+      {missingFields.length > 0 || duplicateFields.length > 0 ? (
+        <div className="bg-red-50 border border-red-200 rounded-lg p-3 flex items-start space-x-2 text-sm text-red-700">
+          <AlertCircle className="h-4 w-4 mt-0.5" />
+          <div>
+            {missingFields.length > 0 && <p>Map the required fields: {missingFields.map(field => field.label).join(', ')}</p>}
+            {duplicateFields.length > 0 && <p>Each field can be mapped once: {duplicateFields.map(field => field.label).join(', ')}</p>}
+          </div>
+        </div>
+      ) : (
+        <div className="bg-green-50 border border-green-200 rounded-lg p-3 flex items-center space-x-2 text-sm text-green-700">
+          <CheckCircle className="h-4 w-4" />
+          <span>All required fields are mapped</span>
+        </div>
+      )}
+
+      <div className="flex items-center space-x-3">
+        <label className="flex items-center space-x-2 text-sm text-gray-700">
+          <input
+            type="checkbox"
+            checked={saveProfile}
+            onChange={(e) => setSaveProfile(e.target.checked)}
+            className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
+          />
+          <span>Save as profile</span>
+        </label>
+        {saveProfile && (
+          <input
+            type="text"
+            value={profileName}
+            onChange={(e) => setProfileName(e.target.value)}
+            placeholder="e.g. Distributor X product file"
+            className="flex-1 p-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+        )}
+      </div>
+
+      <div className="flex justify-end space-x-3">
+        <button
+          onClick={onBack}
+          className="px-4 py-2 text-gray-600 bg-gray-100 rounded-lg hover:bg-gray-200 transition-colors"
+        >
+          Back
+        </button>
+        <button
+          onClick={handleApply}
+          disabled={saving || missingFields.length > 0 || duplicateFields.length > 0 || (saveProfile && !profileName.trim())}
+          className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+        >
+          Continue
+        </button>
+      </div>
+    </div>
+  )
+}
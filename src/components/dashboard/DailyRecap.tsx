@@ -3,13 +3,24 @@
 import { useState, useEffect } from 'react'
 import { supabase } from '@/lib/supabase'
 import { User } from '@supabase/supabase-js'
-import { Calendar, TrendingUp, Store, Package, DollarSign, X } from 'lucide-react'
+import { Calendar, TrendingUp, Store, Package, DollarSign, X, Clock, AlertCircle, MapPin } from 'lucide-react'
+import { fetchAppSettings } from '@/lib/settings'
+import { formatDistance, formatDuration } from '@/lib/geolocation'
+import { getOrderStatusInfo } from '@/lib/orderStatus'
+import { fetchKpiSummary } from '@/lib/kpis'
+import VisitDetailModal from './VisitDetailModal'
+import SalesTargetProgress from './SalesTargetProgress'
 
 interface DailyRecapProps {
   user: User
   userRole: string
   selectedDate: string
   onClose: () => void
+  // Admin drill-down into one salesman
+  salesman?: {
+    id: string
+    name: string
+  }
 }
 
 interface DailyData {
@@ -20,6 +31,12 @@ interface DailyData {
     store_category: string
     has_order: boolean
     total_amount: number
+    check_in_at: string | null
+    check_out_at: string | null
+    duration_minutes: number | null
+    distance_from_store_m: number | null
+    voided_at: string | null
+    order_status: string | null
     order_items: Array<{
       sku_code: string
       product_name: string
@@ -33,7 +50,7 @@ interface DailyData {
   mslAchievement: number
 }
 
-export default function DailyRecap({ user, userRole, selectedDate, onClose }: DailyRecapProps) {
+export default function DailyRecap({ user, userRole, selectedDate, onClose, salesman }: DailyRecapProps) {
   const [dailyData, setDailyData] = useState<DailyData>({
     visits: [],
     totalVisits: 0,
@@ -43,10 +60,23 @@ export default function DailyRecap({ user, userRole, selectedDate, onClose }: Da
   })
   const [loading, setLoading] = useState(true)
   const [currentDate, setCurrentDate] = useState(selectedDate)
+  const [minVisitDuration, setMinVisitDuration] = useState(0)
+  const [geofenceRadius, setGeofenceRadius] = useState(0)
+  const [selectedVisitId, setSelectedVisitId] = useState<string | null>(null)
+
+  // null for all salesmen
+  const scopeSalesmanId = userRole === 'admin' ? salesman?.id || null : user.id
 
   useEffect(() => {
     fetchDailyData()
-  }, [currentDate, user.id, userRole])
+  }, [currentDate, user.id, userRole, salesman?.id])
+
+  useEffect(() => {
+    fetchAppSettings().then(settings => {
+      setMinVisitDuration(settings.min_visit_duration_minutes)
+      setGeofenceRadius(settings.geofence_radius_meters)
+    })
+  }, [])
 
   const fetchDailyData = async () => {
     setLoading(true)
@@ -57,6 +87,12 @@ export default function DailyRecap({ user, userRole, selectedDate, onClose }: Da
         .select(`
           id,
           has_order,
+          check_in_at,
+          check_out_at,
+          duration_minutes,
+          distance_from_store_m,
+          voided_at,
+          order_status,
           stores!inner(store_name, store_code, category),
           visit_orders(
             quantity,
@@ -67,8 +103,8 @@ export default function DailyRecap({ user, userRole, selectedDate, onClose }: Da
         .eq('visit_date', currentDate)
 
       // Filter by salesman if not admin
-      if (userRole !== 'admin') {
-        visitsQuery = visitsQuery.eq('salesman_id', user.id)
+      if (scopeSalesmanId) {
+        visitsQuery = visitsQuery.eq('salesman_id', scopeSalesmanId)
       }
 
       const { data: visitsData, error: visitsError } = await visitsQuery
@@ -93,74 +129,25 @@ export default function DailyRecap({ user, userRole, selectedDate, onClose }: Da
           store_category: visit.stores.category,
           has_order: visit.has_order,
           total_amount: totalAmount,
+          check_in_at: visit.check_in_at,
+          check_out_at: visit.check_out_at,
+          duration_minutes: visit.duration_minutes,
+          distance_from_store_m: visit.distance_from_store_m === null ? null : Number(visit.distance_from_store_m),
+          voided_at: visit.voided_at,
+          order_status: visit.order_status,
           order_items: orderItems
         }
       })
 
-      const totalVisits = visits.length
-      const totalEC = visits.filter(v => v.has_order).length
-      const totalSales = visits.reduce((sum, v) => sum + v.total_amount, 0)
-
-      // Calculate MSL Achievement for the day
-      let mslAchievement = 0
-      
-      // Get all MSL items grouped by category
-      const { data: mslData } = await supabase
-        .from('msl_items')
-        .select('category, sku_code')
-      
-      const mslByCategory = (mslData || []).reduce((acc, item) => {
-        if (!acc[item.category]) acc[item.category] = new Set()
-        acc[item.category].add(item.sku_code)
-        return acc
-      }, {} as Record<string, Set<string>>)
-
-      if (Object.keys(mslByCategory).length > 0 && visits.length > 0) {
-        let totalAchievement = 0
-        let storeCount = 0
-        
-        // Group visits by store to avoid counting same store multiple times
-        const storeVisits = visits.reduce((acc, visit) => {
-          const key = `${visit.store_name}-${visit.store_code}`
-          if (!acc[key]) {
-            acc[key] = {
-              category: visit.store_category,
-              orderItems: []
-            }
-          }
-          acc[key].orderItems.push(...visit.order_items)
-          return acc
-        }, {} as Record<string, { category: string; orderItems: any[] }>)
-        
-        for (const [storeKey, storeData] of Object.entries(storeVisits)) {
-          const categoryMSL = mslByCategory[storeData.category]
-          if (!categoryMSL || categoryMSL.size === 0) continue
-          
-          // Get unique SKUs bought by this store
-          const boughtSkus = new Set<string>()
-          storeData.orderItems.forEach(item => {
-            if (item.sku_code) {
-              boughtSkus.add(item.sku_code)
-            }
-          })
-          
-          // Calculate achievement for this store
-          const mslSkusBought = Array.from(boughtSkus).filter(sku => categoryMSL.has(sku)).length
-          const storeAchievement = (mslSkusBought / categoryMSL.size) * 100
-          
-          totalAchievement += storeAchievement
-          storeCount++
-        }
-        
-        mslAchievement = storeCount > 0 ? totalAchievement / storeCount : 0
-      }
+      // Voided visits stay listed; the totals come from `sales_kpis`, which leaves them out
+      const kpis = await fetchKpiSummary(currentDate, currentDate, scopeSalesmanId)
 
       setDailyData({
         visits,
-        totalVisits,
-        totalEC,
-        totalSales,
-        mslAchievement
+        totalVisits: kpis.total_calls,
+        totalEC: kpis.effective_calls,
+        totalSales: kpis.total_sales,
+        mslAchievement: kpis.msl_achievement
       })
     } catch (error) {
       console.error('Error fetching daily data:', error)
@@ -177,6 +164,19 @@ export default function DailyRecap({ user, userRole, selectedDate, onClose }: Da
     }
   }
 
+  const isShortVisit = (durationMinutes: number | null) => {
+    return durationMinutes !== null && durationMinutes < minVisitDuration
+  }
+
+  const isOutsideGeofence = (distance: number | null) => {
+    return distance !== null && distance > geofenceRadius
+  }
+
+  const formatTime = (timestamp: string | null) => {
+    if (!timestamp) return '-'
+    return new Date(timestamp).toLocaleTimeString('id-ID', { hour: '2-digit', minute: '2-digit' })
+  }
+
   const formatDate = (dateString: string) => {
     return new Date(dateString).toLocaleDateString('id-ID', {
       weekday: 'long',
@@ -196,7 +196,9 @@ export default function DailyRecap({ user, userRole, selectedDate, onClose }: Da
             </div>
             <div>
               <h2 className="text-xl font-semibold text-gray-900">Rekap Harian</h2>
-              <p className="text-sm text-gray-600">{formatDate(currentDate)}</p>
+              <p className="text-sm text-gray-600">
+                {salesman ? `${salesman.name} • ` : ''}{formatDate(currentDate)}
+              </p>
             </div>
           </div>
           <button
@@ -272,6 +274,29 @@ export default function DailyRecap({ user, userRole, selectedDate, onClose }: Da
                 </div>
               </div>
 
+              {/* Monthly Target */}
+              <SalesTargetProgress salesmanId={scopeSalesmanId} asOfDate={currentDate} compact />
+
+              {/* Short Visit Warning */}
+              {dailyData.visits.some(v => isShortVisit(v.duration_minutes)) && (
+                <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-3 flex items-center space-x-2">
+                  <AlertCircle className="h-5 w-5 text-yellow-600" />
+                  <span className="text-sm text-yellow-800">
+                    {dailyData.visits.filter(v => isShortVisit(v.duration_minutes)).length} kunjungan lebih singkat dari {minVisitDuration} menit
+                  </span>
+                </div>
+              )}
+
+              {/* Geofence Warning */}
+              {dailyData.visits.some(v => isOutsideGeofence(v.distance_from_store_m)) && (
+                <div className="bg-red-50 border border-red-200 rounded-lg p-3 flex items-center space-x-2">
+                  <MapPin className="h-5 w-5 text-red-600" />
+                  <span className="text-sm text-red-800">
+                    {dailyData.visits.filter(v => isOutsideGeofence(v.distance_from_store_m)).length} kunjungan check-in lebih dari {geofenceRadius} m dari lokasi toko
+                  </span>
+                </div>
+              )}
+
               {/* Visits Detail */}
               <div>
                 <h3 className="text-lg font-semibold text-gray-900 mb-4">Detail Kunjungan</h3>
@@ -283,13 +308,38 @@ export default function DailyRecap({ user, userRole, selectedDate, onClose }: Da
                 ) : (
                   <div className="space-y-4">
                     {dailyData.visits.map((visit) => (
-                      <div key={visit.id} className="bg-gray-50 rounded-lg p-4">
+                      <div
+                        key={visit.id}
+                        onClick={() => setSelectedVisitId(visit.id)}
+                        className={`bg-gray-50 rounded-lg p-4 cursor-pointer hover:bg-gray-100 transition-colors ${visit.voided_at ? 'opacity-60' : ''}`}
+                      >
                         <div className="flex items-center justify-between mb-3">
                           <div>
                             <h4 className="font-semibold text-gray-900">{visit.store_name}</h4>
                             <p className="text-sm text-gray-600">Kode: {visit.store_code}</p>
+                            <div className="flex items-center gap-2 mt-1 text-xs text-gray-500">
+                              <Clock className="h-3 w-3" />
+                              <span>
+                                {formatTime(visit.check_in_at)} - {formatTime(visit.check_out_at)} • {formatDuration(visit.duration_minutes)}
+                              </span>
+                              {isShortVisit(visit.duration_minutes) && (
+                                <span className="inline-flex items-center px-2 py-0.5 rounded-full font-medium bg-yellow-100 text-yellow-800">
+                                  Kunjungan singkat
+                                </span>
+                              )}
+                              {isOutsideGeofence(visit.distance_from_store_m) && (
+                                <span className="inline-flex items-center px-2 py-0.5 rounded-full font-medium bg-red-100 text-red-800">
+                                  Di luar radius ({formatDistance(visit.distance_from_store_m)})
+                                </span>
+                              )}
+                            </div>
                           </div>
                           <div className="text-right">
+                            {visit.voided_at && (
+                              <span className="inline-flex items-center px-2 py-1 mr-1 rounded-full text-xs font-medium bg-red-100 text-red-800">
+                                Dibatalkan
+                              </span>
+                            )}
                             <span className={`inline-flex items-center px-2 py-1 rounded-full text-xs font-medium ${
                               visit.has_order 
                                 ? 'bg-green-100 text-green-800' 
@@ -297,6 +347,11 @@ export default function DailyRecap({ user, userRole, selectedDate, onClose }: Da
                             }`}>
                               {visit.has_order ? 'Ada Order' : 'Tidak Order'}
                             </span>
+                            {visit.has_order && getOrderStatusInfo(visit.order_status) && (
+                              <span className={`inline-flex items-center px-2 py-1 ml-1 rounded-full text-xs font-medium ${getOrderStatusInfo(visit.order_status)?.className}`}>
+                                {getOrderStatusInfo(visit.order_status)?.label}
+                              </span>
+                            )}
                             {visit.has_order && (
                               <p className="text-lg font-bold text-gray-900 mt-1">
                                 Rp {visit.total_amount.toLocaleString('id-ID')}
@@ -331,6 +386,16 @@ export default function DailyRecap({ user, userRole, selectedDate, onClose }: Da
           )}
         </div>
       </div>
+
+      {selectedVisitId && (
+        <VisitDetailModal
+          user={user}
+          userRole={userRole}
+          visitId={selectedVisitId}
+          onClose={() => setSelectedVisitId(null)}
+          onSuccess={fetchDailyData}
+        />
+      )}
     </div>
   )
 }
\ No newline at end of file
@@ -0,0 +1,197 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { supabase } from '@/lib/supabase'
+import { MapPin, X } from 'lucide-react'
+import { fetchAppSettings } from '@/lib/settings'
+import { formatDistance } from '@/lib/geolocation'
+
+interface GeofenceExceptionsProps {
+  onClose: () => void
+}
+
+interface GeofenceException {
+  id: string
+  visit_date: string
+  check_in_at: string | null
+  salesman_name: string
+  store_name: string
+  store_code: string
+  distance: number | null
+  reason: 'outside' | 'no_gps' | 'no_store_location'
+}
+
+export default function GeofenceExceptions({ onClose }: GeofenceExceptionsProps) {
+  const [exceptions, setExceptions] = useState<GeofenceException[]>([])
+  const [loading, setLoading] = useState(true)
+  const [radius, setRadius] = useState(0)
+  const [dateRange, setDateRange] = useState({
+    start: new Date(new Date().getFullYear(), new Date().getMonth(), 1).toISOString().split('T')[0],
+    end: new Date().toISOString().split('T')[0]
+  })
+
+  useEffect(() => {
+    fetchExceptions()
+  }, [dateRange])
+
+  const fetchExceptions = async () => {
+    setLoading(true)
+    try {
+      const settings = await fetchAppSettings()
+      const geofenceRadius = settings.geofence_radius_meters
+      setRadius(geofenceRadius)
+
+      const { data: visitsData, error } = await supabase
+        .from('visits')
+        .select(`
+          id,
+          visit_date,
+          salesman_id,
+          check_in_at,
+          check_in_lat,
+          distance_from_store_m,
+          stores!inner(store_name, store_code, latitude)
+        `)
+        .gte('visit_date', dateRange.start)
+        .lte('visit_date', dateRange.end)
+        .not('check_in_at', 'is', null)
+        .is('voided_at', null)
+        .order('visit_date', { ascending: false })
+
+      if (error) throw error
+
+      const { data: usersData } = await supabase
+        .from('users')
+        .select('id, name')
+
+      const userNames = new Map((usersData || []).map(u => [u.id, u.name]))
+
+      const rows: GeofenceException[] = []
+      for (const visit of visitsData || []) {
+        const distance = visit.distance_from_store_m === null ? null : Number(visit.distance_from_store_m)
+        let reason: GeofenceException['reason'] | null = null
+
+        if (visit.check_in_lat === null) {
+          reason = 'no_gps'
+        } else if (visit.stores.latitude === null) {
+          reason = 'no_store_location'
+        } else if (distance !== null && distance > geofenceRadius) {
+          reason = 'outside'
+        }
+
+        if (!reason) continue
+
+        rows.push({
+          id: visit.id,
+          visit_date: visit.visit_date,
+          check_in_at: visit.check_in_at,
+          salesman_name: userNames.get(visit.salesman_id) || visit.salesman_id.slice(0, 8),
+          store_name: visit.stores.store_name,
+          store_code: visit.stores.store_code,
+          distance,
+          reason
+        })
+      }
+
+      setExceptions(rows)
+    } catch (error) {
+      console.error('Error fetching geofence exceptions:', error)
+      setExceptions([])
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const reasonLabels: Record<GeofenceException['reason'], { label: string; className: string }> = {
+    outside: { label: 'Di luar radius', className: 'bg-red-100 text-red-800' },
+    no_gps: { label: 'Tanpa GPS', className: 'bg-yellow-100 text-yellow-800' },
+    no_store_location: { label: 'Toko tanpa koordinat', className: 'bg-gray-100 text-gray-800' }
+  }
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-xl shadow-xl max-w-5xl w-full max-h-[90vh] overflow-y-auto">
+        <div className="flex items-center justify-between p-6 border-b border-gray-200">
+          <div className="flex items-center space-x-3">
+            <div className="h-10 w-10 bg-red-100 rounded-lg flex items-center justify-center">
+              <MapPin className="h-5 w-5 text-red-600" />
+            </div>
+            <div>
+              <h2 className="text-xl font-semibold text-gray-900">Geofence Exceptions</h2>
+              <p className="text-sm text-gray-600">Kunjungan yang tidak dapat diverifikasi berada di toko (radius {radius} m)</p>
+            </div>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-2 hover:bg-gray-100 rounded-lg transition-colors"
+          >
+            <X className="h-5 w-5 text-gray-500" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-6">
+          <div className="flex gap-2">
+            <input
+              type="date"
+              value={dateRange.start}
+              onChange={(e) => setDateRange(prev => ({ ...prev, start: e.target.value }))}
+              className="px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-red-500"
+            />
+            <input
+              type="date"
+              value={dateRange.end}
+              onChange={(e) => setDateRange(prev => ({ ...prev, end: e.target.value }))}
+              className="px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-red-500"
+            />
+          </div>
+
+          {loading ? (
+            <div className="flex items-center justify-center py-12">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-red-600"></div>
+            </div>
+          ) : exceptions.length === 0 ? (
+            <div className="text-center py-8 text-gray-500">
+              Tidak ada pengecualian pada periode ini
+            </div>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b border-gray-200">
+                    <th className="text-left py-3 px-4 font-medium text-gray-600">Date</th>
+                    <th className="text-left py-3 px-4 font-medium text-gray-600">Salesman</th>
+                    <th className="text-left py-3 px-4 font-medium text-gray-600">Store</th>
+                    <th className="text-left py-3 px-4 font-medium text-gray-600">Distance</th>
+                    <th className="text-left py-3 px-4 font-medium text-gray-600">Status</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {exceptions.map((row) => (
+                    <tr key={row.id} className="border-b border-gray-100 hover:bg-gray-50">
+                      <td className="py-3 px-4 text-gray-900">
+                        {row.visit_date}
+                        {row.check_in_at && (
+                          <span className="text-xs text-gray-500 ml-2">
+                            {new Date(row.check_in_at).toLocaleTimeString('id-ID', { hour: '2-digit', minute: '2-digit' })}
+                          </span>
+                        )}
+                      </td>
+                      <td className="py-3 px-4 text-gray-900">{row.salesman_name}</td>
+                      <td className="py-3 px-4 text-gray-900">{row.store_name} ({row.store_code})</td>
+                      <td className="py-3 px-4 font-medium text-gray-900">{formatDistance(row.distance)}</td>
+                      <td className="py-3 px-4">
+                        <span className={`inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium ${reasonLabels[row.reason].className}`}>
+                          {reasonLabels[row.reason].label}
+                        </span>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
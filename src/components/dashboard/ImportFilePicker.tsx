@@ -0,0 +1,53 @@
+'use client'
+
+import { IMPORT_FILE_ACCEPT } from '@/lib/spreadsheetImport'
+import { ImportFile } from '@/lib/useImportFile'
+
+interface ImportFilePickerProps {
+  importFile: ImportFile
+  accent?: 'blue' | 'green'
+}
+
+const inputClasses = {
+  blue: 'w-full p-3 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent',
+  green: 'w-full p-3 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-green-500 focus:border-transparent'
+}
+
+export default function ImportFilePicker({ importFile, accent = 'blue' }: ImportFilePickerProps) {
+  const { file, sheetNames, selectedSheet, setSelectedSheet, handleFileChange } = importFile
+
+  return (
+    <div>
+      <label className="block text-sm font-medium text-gray-700 mb-2">
+        Select CSV or Excel File
+      </label>
+      <input
+        type="file"
+        accept={IMPORT_FILE_ACCEPT}
+        onChange={handleFileChange}
+        className={inputClasses[accent]}
+      />
+      {file && (
+        <p className="text-sm text-gray-600 mt-2">
+          Selected: {file.name} ({(file.size / 1024).toFixed(1)} KB)
+        </p>
+      )}
+      {sheetNames.length > 1 && (
+        <div className="mt-3">
+          <label className="block text-sm font-medium text-gray-700 mb-2">
+            Sheet
+          </label>
+          <select
+            value={selectedSheet}
+            onChange={(e) => setSelectedSheet(e.target.value)}
+            className={inputClasses[accent]}
+          >
+            {sheetNames.map(name => (
+              <option key={name} value={name}>{name}</option>
+            ))}
+          </select>
+        </div>
+      )}
+    </div>
+  )
+}
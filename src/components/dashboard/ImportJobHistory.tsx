@@ -0,0 +1,292 @@
+'use client'
+
+import { useState, useEffect, Fragment } from 'react'
+import { supabase } from '@/lib/supabase'
+import { History, X, Download, FileText, RotateCcw, ChevronDown, ChevronRight } from 'lucide-react'
+import {
+  ImportJob,
+  ImportJobRow,
+  ImportJobType,
+  ImportRowOutcome,
+  IMPORT_JOB_COLUMNS,
+  IMPORT_JOB_TYPE_LABELS,
+  downloadImportErrors,
+  downloadImportFile,
+  fetchImportJobRows,
+  rollbackImportJob
+} from '@/lib/importJobs'
+
+interface ImportJobHistoryProps {
+  onClose: () => void
+}
+
+const outcomeClasses: Record<ImportRowOutcome, string> = {
+  added: 'bg-green-100 text-green-800',
+  updated: 'bg-blue-100 text-blue-800',
+  removed: 'bg-gray-100 text-gray-800',
+  failed: 'bg-red-100 text-red-800',
+  invalid: 'bg-yellow-100 text-yellow-800'
+}
+
+export default function ImportJobHistory({ onClose }: ImportJobHistoryProps) {
+  const [jobs, setJobs] = useState<ImportJob[]>([])
+  const [userNames, setUserNames] = useState<Map<string, string>>(new Map())
+  const [loading, setLoading] = useState(true)
+  const [typeFilter, setTypeFilter] = useState<ImportJobType | ''>('')
+  const [expandedJob, setExpandedJob] = useState<string | null>(null)
+  const [jobRows, setJobRows] = useState<ImportJobRow[]>([])
+  const [loadingRows, setLoadingRows] = useState(false)
+  const [busyJob, setBusyJob] = useState<string | null>(null)
+
+  useEffect(() => {
+    fetchJobs()
+  }, [typeFilter])
+
+  const fetchJobs = async () => {
+    setLoading(true)
+    try {
+      let query = supabase
+        .from('import_jobs')
+        .select(IMPORT_JOB_COLUMNS)
+        .order('created_at', { ascending: false })
+        .limit(100)
+
+      if (typeFilter) query = query.eq('import_type', typeFilter)
+
+      const { data, error } = await query
+      if (error) throw error
+
+      const { data: usersData } = await supabase
+        .from('users')
+        .select('id, name')
+
+      setUserNames(new Map((usersData || []).map(u => [u.id, u.name])))
+      setJobs(data || [])
+    } catch (error) {
+      console.error('Error fetching import jobs:', error)
+      setJobs([])
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const toggleJob = async (jobId: string) => {
+    if (expandedJob === jobId) {
+      setExpandedJob(null)
+      return
+    }
+
+    setExpandedJob(jobId)
+    setLoadingRows(true)
+    try {
+      setJobRows(await fetchImportJobRows(jobId))
+    } catch (error) {
+      console.error('Error fetching import job rows:', error)
+      setJobRows([])
+    } finally {
+      setLoadingRows(false)
+    }
+  }
+
+  const handleDownload = async (job: ImportJob, download: (job: ImportJob) => Promise<void>) => {
+    setBusyJob(job.id)
+    try {
+      await download(job)
+    } catch (error) {
+      console.error('Error downloading import file:', error)
+      alert('Failed to download the file. Please try again.')
+    } finally {
+      setBusyJob(null)
+    }
+  }
+
+  const handleRollback = async (job: ImportJob) => {
+    const message = job.import_type === 'msl'
+      ? `Roll back ${job.file_name}? MSL versions it scheduled are deleted; lists already in effect go back to their previous items from today.`
+      : `Roll back ${job.file_name}? Records it added are removed and records it updated get their previous values back.`
+    if (!confirm(message)) return
+
+    setBusyJob(job.id)
+    try {
+      const skipped = await rollbackImportJob(job.id)
+      if (skipped.length > 0) {
+        const rows = skipped.map(row => row.row_number !== null ? `row ${row.row_number}` : row.record_id.slice(0, 8))
+        alert(`Rolled back, except ${skipped.length} record(s) changed or deleted after the import: ${rows.join(', ')}. Check them by hand.`)
+      }
+      if (expandedJob === job.id) setExpandedJob(null)
+      fetchJobs()
+    } catch (error) {
+      console.error('Error rolling back import job:', error)
+      alert(`Failed to roll back the import: ${(error as { message?: string })?.message || 'please try again.'}`)
+    } finally {
+      setBusyJob(null)
+    }
+  }
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-xl shadow-xl max-w-6xl w-full max-h-[90vh] overflow-y-auto">
+        <div className="flex items-center justify-between p-6 border-b border-gray-200">
+          <div className="flex items-center space-x-3">
+            <div className="h-10 w-10 bg-purple-100 rounded-lg flex items-center justify-center">
+              <History className="h-5 w-5 text-purple-600" />
+            </div>
+            <div>
+              <h2 className="text-xl font-semibold text-gray-900">Import History</h2>
+              <p className="text-sm text-gray-600">Store, product and MSL imports with their row outcomes</p>
+            </div>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-2 hover:bg-gray-100 rounded-lg transition-colors"
+          >
+            <X className="h-5 w-5 text-gray-500" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-6">
+          <select
+            value={typeFilter}
+            onChange={(e) => setTypeFilter(e.target.value as ImportJobType | '')}
+            className="px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-purple-500"
+          >
+            <option value="">All imports</option>
+            {(Object.keys(IMPORT_JOB_TYPE_LABELS) as ImportJobType[]).map(type => (
+              <option key={type} value={type}>{IMPORT_JOB_TYPE_LABELS[type]}</option>
+            ))}
+          </select>
+
+          {loading ? (
+            <div className="flex items-center justify-center py-12">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-purple-600"></div>
+            </div>
+          ) : jobs.length === 0 ? (
+            <div className="text-center py-8 text-gray-500">
+              No imports yet
+            </div>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b border-gray-200">
+                    <th className="text-left py-3 px-4 font-medium text-gray-600">Date</th>
+                    <th className="text-left py-3 px-4 font-medium text-gray-600">Import</th>
+                    <th className="text-left py-3 px-4 font-medium text-gray-600">By</th>
+                    <th className="text-left py-3 px-4 font-medium text-gray-600">Rows</th>
+                    <th className="text-left py-3 px-4 font-medium text-gray-600">Status</th>
+                    <th className="text-right py-3 px-4 font-medium text-gray-600">Actions</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {jobs.map((job) => (
+                    <Fragment key={job.id}>
+                      <tr className="border-b border-gray-100 hover:bg-gray-50">
+                        <td className="py-3 px-4 text-gray-900">
+                          {new Date(job.created_at).toLocaleString('id-ID', { dateStyle: 'medium', timeStyle: 'short' })}
+                        </td>
+                        <td className="py-3 px-4">
+                          <button
+                            onClick={() => toggleJob(job.id)}
+                            className="flex items-center space-x-1 text-left text-gray-900 hover:text-purple-700"
+                          >
+                            {expandedJob === job.id ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />}
+                            <span>
+                              <span className="font-medium">{job.file_name}</span>
+                              <span className="block text-xs text-gray-500">
+                                {IMPORT_JOB_TYPE_LABELS[job.import_type]}{job.all_or_nothing ? ' · all or nothing' : ''}
+                              </span>
+                            </span>
+                          </button>
+                        </td>
+                        <td className="py-3 px-4 text-gray-900">{userNames.get(job.created_by) || job.created_by.slice(0, 8)}</td>
+                        <td className="py-3 px-4 text-xs space-x-2">
+                          <span className="text-gray-700">{job.total_rows} rows</span>
+                          <span className="text-green-600">+{job.added_count}</span>
+                          <span className="text-blue-600">~{job.updated_count}</span>
+                          {job.removed_count > 0 && <span className="text-gray-600">-{job.removed_count}</span>}
+                          {job.failed_count + job.invalid_count > 0 && (
+                            <span className="text-red-600">{job.failed_count + job.invalid_count} errors</span>
+                          )}
+                        </td>
+                        <td className="py-3 px-4">
+                          {job.status === 'rolled_back' ? (
+                            <span className="inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium bg-gray-100 text-gray-800">
+                              Rolled back {job.rolled_back_at && new Date(job.rolled_back_at).toLocaleDateString('id-ID')}
+                            </span>
+                          ) : job.status === 'running' ? (
+                            // Still running, or stopped half way; its rows show what was applied
+                            <span className="inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium bg-yellow-100 text-yellow-800">
+                              Running or interrupted
+                            </span>
+                          ) : (
+                            <span className="inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium bg-green-100 text-green-800">
+                              Completed
+                            </span>
+                          )}
+                        </td>
+                        <td className="py-3 px-4">
+                          <div className="flex justify-end space-x-1">
+                            <button
+                              onClick={() => handleDownload(job, downloadImportFile)}
+                              disabled={busyJob === job.id}
+                              title="Download original file"
+                              className="p-2 text-gray-600 hover:bg-gray-100 rounded-lg disabled:opacity-50 transition-colors"
+                            >
+                              <Download className="h-4 w-4" />
+                            </button>
+                            <button
+                              onClick={() => handleDownload(job, downloadImportErrors)}
+                              disabled={busyJob === job.id || job.failed_count + job.invalid_count === 0}
+                              title="Download error report"
+                              className="p-2 text-red-600 hover:bg-red-50 rounded-lg disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                            >
+                              <FileText className="h-4 w-4" />
+                            </button>
+                            <button
+                              onClick={() => handleRollback(job)}
+                              disabled={busyJob === job.id || job.status === 'rolled_back'}
+                              title="Roll back"
+                              className="p-2 text-purple-600 hover:bg-purple-50 rounded-lg disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                            >
+                              <RotateCcw className="h-4 w-4" />
+                            </button>
+                          </div>
+                        </td>
+                      </tr>
+                      {expandedJob === job.id && (
+                        <tr className="border-b border-gray-100 bg-gray-50">
+                          <td colSpan={6} className="px-4 py-3">
+                            {loadingRows ? (
+                              <div className="text-gray-500">Loading rows...</div>
+                            ) : jobRows.length === 0 ? (
+                              <div className="text-gray-500">No rows recorded</div>
+                            ) : (
+                              <div className="max-h-64 overflow-y-auto space-y-1">
+                                {jobRows.map((row, index) => (
+                                  <div key={index} className="flex items-center space-x-3 text-xs">
+                                    <span className="w-16 text-gray-500">{row.row_number !== null ? `Row ${row.row_number}` : '-'}</span>
+                                    <span className={`inline-flex px-2 py-0.5 rounded-full font-medium ${outcomeClasses[row.outcome]}`}>
+                                      {row.outcome}
+                                    </span>
+                                    {row.outcome === 'removed' && (
+                                      <span className="font-mono text-gray-900">{String(row.before_image?.sku_code || '')}</span>
+                                    )}
+                                    <span className="text-gray-700">{row.message}</span>
+                                  </div>
+                                ))}
+                              </div>
+                            )}
+                          </td>
+                        </tr>
+                      )}
+                    </Fragment>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,59 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { ImportProgress, formatTimeLeft, getImportTimeLeft } from '@/lib/importJobs'
+
+interface ImportProgressBarProps {
+  progress: ImportProgress
+  allOrNothing: boolean
+}
+
+export default function ImportProgressBar({ progress, allOrNothing }: ImportProgressBarProps) {
+  // Re-render every second so the time left counts down between batches
+  const [, setTick] = useState(0)
+
+  useEffect(() => {
+    const timer = setInterval(() => setTick(tick => tick + 1), 1000)
+
+    // Ask before the tab is closed mid-import
+    const handleBeforeUnload = (e: BeforeUnloadEvent) => {
+      e.preventDefault()
+      e.returnValue = ''
+    }
+    window.addEventListener('beforeunload', handleBeforeUnload)
+
+    return () => {
+      clearInterval(timer)
+      window.removeEventListener('beforeunload', handleBeforeUnload)
+    }
+  }, [])
+
+  const percent = progress.total > 0 ? Math.round((progress.done / progress.total) * 100) : 0
+  const timeLeft = getImportTimeLeft(progress)
+
+  return (
+    <div className="bg-blue-50 border border-blue-200 rounded-lg p-4 space-y-2">
+      <div className="flex items-center justify-between text-sm">
+        <span className="font-medium text-blue-900">
+          {progress.phase === 'committing'
+            ? `Applying ${progress.total.toLocaleString()} rows in one transaction...`
+            : `${allOrNothing ? 'Uploading' : 'Importing'} ${progress.done.toLocaleString()} of ${progress.total.toLocaleString()} rows`}
+        </span>
+        <span className="text-blue-700">
+          {progress.phase === 'committing' ? '' : timeLeft !== null ? formatTimeLeft(timeLeft) : 'Estimating...'}
+        </span>
+      </div>
+      <div className="h-2 bg-blue-100 rounded-full overflow-hidden">
+        <div
+          className={`h-full bg-blue-600 transition-all ${progress.phase === 'committing' ? 'animate-pulse' : ''}`}
+          style={{ width: `${progress.phase === 'committing' ? 100 : percent}%` }}
+        />
+      </div>
+      <p className="text-xs text-blue-700">
+        {allOrNothing
+          ? 'Nothing is applied until every row is uploaded. Closing this window cancels the import.'
+          : 'Rows are applied in batches. Keep this window open; an interrupted import can be rolled back from the import history.'}
+      </p>
+    </div>
+  )
+}
@@ -0,0 +1,643 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { User } from '@supabase/supabase-js'
+import { supabase } from '@/lib/supabase'
+import { Wallet, Plus, Trash2, Play, Download, ChevronDown, ChevronRight, X } from 'lucide-react'
+import {
+  DEFAULT_INCENTIVE_RULES,
+  IncentiveInputs,
+  IncentiveLine,
+  IncentiveRuleSet,
+  IncentiveRules,
+  calculateIncentive,
+  fetchRuleSets,
+  getRuleSetForMonth
+} from '@/lib/incentives'
+import { NO_ACTUALS, fetchTargetActuals, getMonthEnd } from '@/lib/targets'
+import { toCsv, downloadCsv } from '@/lib/csvExport'
+
+interface IncentiveManagementProps {
+  user: User
+  onClose: () => void
+}
+
+interface IncentiveRun {
+  id: string
+  month: string
+  rule_set_id: string
+  run_by: string | null
+  run_at: string
+}
+
+interface IncentiveStatement {
+  id: string
+  salesman_id: string
+  inputs: IncentiveInputs
+  lines: IncentiveLine[]
+  total_amount: number
+}
+
+const formatRupiah = (value: number) => `Rp ${Math.round(value).toLocaleString('id-ID')}`
+
+const formatMonth = (month: string) =>
+  new Date(`${month}T00:00:00`).toLocaleDateString('id-ID', { month: 'long', year: 'numeric' })
+
+export default function IncentiveManagement({ user, onClose }: IncentiveManagementProps) {
+  const [activeTab, setActiveTab] = useState<'statements' | 'rules'>('statements')
+  const [ruleSets, setRuleSets] = useState<IncentiveRuleSet[]>([])
+  const [userNames, setUserNames] = useState<Map<string, string>>(new Map())
+  const [month, setMonth] = useState(new Date().toISOString().slice(0, 7))
+  const [runs, setRuns] = useState<IncentiveRun[]>([])
+  const [selectedRunId, setSelectedRunId] = useState<string | null>(null)
+  const [statements, setStatements] = useState<IncentiveStatement[]>([])
+  const [expandedStatementId, setExpandedStatementId] = useState<string | null>(null)
+  const [loading, setLoading] = useState(false)
+  const [running, setRunning] = useState(false)
+  const [saving, setSaving] = useState(false)
+  const [ruleForm, setRuleForm] = useState<IncentiveRules>(DEFAULT_INCENTIVE_RULES)
+  const [ruleEffectiveMonth, setRuleEffectiveMonth] = useState(new Date().toISOString().slice(0, 7))
+  const [ruleNotes, setRuleNotes] = useState('')
+
+  useEffect(() => {
+    loadRuleSets()
+    fetchUserNames()
+  }, [])
+
+  useEffect(() => {
+    fetchRuns()
+  }, [month])
+
+  useEffect(() => {
+    if (selectedRunId) {
+      fetchStatements(selectedRunId)
+    } else {
+      setStatements([])
+    }
+  }, [selectedRunId])
+
+  const loadRuleSets = async () => {
+    try {
+      const data = await fetchRuleSets()
+      setRuleSets(data)
+      // New versions start from the latest rules
+      if (data.length > 0) setRuleForm(data[0].rules)
+    } catch (error) {
+      console.error('Error fetching incentive rules:', error)
+      alert('Gagal memuat aturan insentif')
+    }
+  }
+
+  const fetchUserNames = async () => {
+    const { data, error } = await supabase.from('users').select('id, name, email')
+    if (error) {
+      console.error('Error fetching users:', error)
+      return
+    }
+    setUserNames(new Map((data || []).map(u => [u.id, u.name || u.email])))
+  }
+
+  const getUserName = (userId: string | null) => (userId && userNames.get(userId)) || '-'
+
+  const fetchRuns = async () => {
+    setLoading(true)
+    try {
+      const { data, error } = await supabase
+        .from('incentive_runs')
+        .select('id, month, rule_set_id, run_by, run_at')
+        .eq('month', `${month}-01`)
+        .order('run_at', { ascending: false })
+
+      if (error) throw error
+      setRuns(data || [])
+      setSelectedRunId(data && data.length > 0 ? data[0].id : null)
+    } catch (error) {
+      console.error('Error fetching incentive runs:', error)
+      alert('Gagal memuat perhitungan insentif')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const fetchStatements = async (runId: string) => {
+    try {
+      const { data, error } = await supabase
+        .from('incentive_statements')
+        .select('id, salesman_id, inputs, lines, total_amount')
+        .eq('run_id', runId)
+
+      if (error) throw error
+      setStatements((data || [])
+        .map(statement => ({ ...statement, total_amount: Number(statement.total_amount) }))
+        .sort((a, b) => b.total_amount - a.total_amount))
+    } catch (error) {
+      console.error('Error fetching incentive statements:', error)
+      alert('Gagal memuat statement insentif')
+    }
+  }
+
+  const getRuleVersion = (ruleSetId: string) => ruleSets.find(r => r.id === ruleSetId)?.version
+
+  const handleRun = async () => {
+    const monthStart = `${month}-01`
+    const ruleSet = getRuleSetForMonth(ruleSets, monthStart)
+    if (!ruleSet) {
+      alert('Belum ada aturan insentif yang berlaku untuk bulan ini')
+      return
+    }
+
+    const latestRun = runs[0]
+    if (latestRun && !confirm(`Bulan ini sudah dihitung. Hitung ulang dengan aturan versi ${ruleSet.version}?`)) return
+
+    setRunning(true)
+    try {
+      const [salesmenResult, actualsBySalesman] = await Promise.all([
+        supabase.from('users').select('id').eq('role', 'salesman'),
+        fetchTargetActuals(null, monthStart, getMonthEnd(monthStart), 'total', null)
+      ])
+      if (salesmenResult.error) throw salesmenResult.error
+
+      const statementsData = (salesmenResult.data || []).map(salesman => {
+        const actuals = actualsBySalesman.get(salesman.id) || NO_ACTUALS
+        const inputs: IncentiveInputs = {
+          sales: actuals.sales,
+          ec: actuals.ec,
+          msl_achievement: Math.round(actuals.mslAchievement * 10) / 10
+        }
+        const result = calculateIncentive(ruleSet.rules, inputs)
+        return {
+          salesman_id: salesman.id,
+          inputs,
+          lines: result.lines,
+          total_amount: result.total
+        }
+      })
+
+      const { error } = await supabase.rpc('create_incentive_run', {
+        p_month: monthStart,
+        p_rule_set_id: ruleSet.id,
+        p_statements: statementsData
+      })
+      if (error) throw error
+
+      fetchRuns()
+    } catch (error) {
+      console.error('Error running incentive calculation:', error)
+      alert('Gagal menghitung insentif')
+    } finally {
+      setRunning(false)
+    }
+  }
+
+  const exportStatements = () => {
+    const run = runs.find(r => r.id === selectedRunId)
+    if (!run) return
+
+    downloadCsv(`incentive_${month}_v${getRuleVersion(run.rule_set_id)}.csv`, toCsv([
+      ['SALESMAN', 'SALES', 'EC', 'MSL_PCT', 'COMPONENT', 'BASIS', 'AMOUNT', 'TOTAL'],
+      ...statements.flatMap(statement => statement.lines.map(line => [
+        getUserName(statement.salesman_id),
+        statement.inputs.sales, statement.inputs.ec, statement.inputs.msl_achievement,
+        line.label, line.basis, line.amount, statement.total_amount
+      ]))
+    ]))
+  }
+
+  const updateTier = (index: number, field: 'min_sales' | 'rate_percentage', value: string) => {
+    setRuleForm(prev => ({
+      ...prev,
+      sales_tiers: prev.sales_tiers.map((tier, i) => i === index ? { ...tier, [field]: parseFloat(value) || 0 } : tier)
+    }))
+  }
+
+  const handleSaveRules = async (e: React.FormEvent) => {
+    e.preventDefault()
+
+    if (ruleForm.sales_tiers.length === 0) {
+      alert('Tambahkan minimal satu tier sales')
+      return
+    }
+
+    setSaving(true)
+    try {
+      const { error } = await supabase
+        .from('incentive_rule_sets')
+        .insert({
+          version: (ruleSets[0]?.version || 0) + 1,
+          effective_from: `${ruleEffectiveMonth}-01`,
+          rules: {
+            ...ruleForm,
+            sales_tiers: [...ruleForm.sales_tiers].sort((a, b) => a.min_sales - b.min_sales)
+          },
+          notes: ruleNotes || null,
+          created_by: user.id
+        })
+
+      if (error) throw error
+
+      setRuleNotes('')
+      loadRuleSets()
+    } catch (error) {
+      console.error('Error saving incentive rules:', error)
+      alert('Gagal menyimpan aturan insentif')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const currentRuleSet = getRuleSetForMonth(ruleSets, `${new Date().toISOString().slice(0, 7)}-01`)
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-xl shadow-xl max-w-5xl w-full max-h-[90vh] overflow-y-auto">
+        <div className="flex items-center justify-between p-6 border-b border-gray-200">
+          <div className="flex items-center space-x-3">
+            <div className="h-10 w-10 bg-green-100 rounded-lg flex items-center justify-center">
+              <Wallet className="h-5 w-5 text-green-600" />
+            </div>
+            <div>
+              <h2 className="text-xl font-semibold text-gray-900">Insentif Salesman</h2>
+              <p className="text-sm text-gray-600">Aturan berversi dan statement bulanan</p>
+            </div>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-2 hover:bg-gray-100 rounded-lg transition-colors"
+          >
+            <X className="h-5 w-5 text-gray-500" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-6">
+          <div className="flex space-x-2 border-b border-gray-200">
+            {[
+              { key: 'statements' as const, label: 'Statement Bulanan' },
+              { key: 'rules' as const, label: 'Aturan' }
+            ].map(tab => (
+              <button
+                key={tab.key}
+                onClick={() => setActiveTab(tab.key)}
+                className={`px-4 py-2 text-sm font-medium border-b-2 -mb-px ${
+                  activeTab === tab.key ? 'border-green-600 text-green-700' : 'border-transparent text-gray-500 hover:text-gray-700'
+                }`}
+              >
+                {tab.label}
+              </button>
+            ))}
+          </div>
+
+          {activeTab === 'statements' ? (
+            <>
+              <div className="flex flex-col sm:flex-row sm:items-end sm:justify-between gap-4">
+                <div className="flex items-end gap-4">
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-2">Bulan</label>
+                    <input
+                      type="month"
+                      value={month}
+                      onChange={(e) => e.target.value && setMonth(e.target.value)}
+                      className="px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-green-500"
+                    />
+                  </div>
+                  {runs.length > 0 && (
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-2">Perhitungan</label>
+                      <select
+                        value={selectedRunId || ''}
+                        onChange={(e) => setSelectedRunId(e.target.value)}
+                        className="px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-green-500"
+                      >
+                        {runs.map((run, index) => (
+                          <option key={run.id} value={run.id}>
+                            {new Date(run.run_at).toLocaleString('id-ID')} • v{getRuleVersion(run.rule_set_id)}
+                            {index === 0 ? ' (terbaru)' : ''}
+                          </option>
+                        ))}
+                      </select>
+                    </div>
+                  )}
+                </div>
+                <div className="flex gap-2">
+                  {statements.length > 0 && (
+                    <button
+                      onClick={exportStatements}
+                      className="inline-flex items-center px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors"
+                    >
+                      <Download className="h-4 w-4 mr-2" />
+                      Export CSV
+                    </button>
+                  )}
+                  <button
+                    onClick={handleRun}
+                    disabled={running || loading}
+                    className="inline-flex items-center px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    <Play className="h-4 w-4 mr-2" />
+                    {running ? 'Menghitung...' : runs.length > 0 ? 'Hitung Ulang' : 'Hitung Insentif'}
+                  </button>
+                </div>
+              </div>
+
+              {loading ? (
+                <div className="flex items-center justify-center py-12">
+                  <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-green-600"></div>
+                </div>
+              ) : runs.length === 0 ? (
+                <div className="text-center py-8 text-gray-500">
+                  Insentif {formatMonth(`${month}-01`)} belum dihitung
+                </div>
+              ) : (
+                <div className="space-y-2">
+                  <p className="text-xs text-gray-500">
+                    Dihitung oleh {getUserName(runs.find(r => r.id === selectedRunId)?.run_by || null)}
+                  </p>
+                  {statements.map((statement) => {
+                    const expanded = expandedStatementId === statement.id
+                    return (
+                      <div key={statement.id} className="border border-gray-200 rounded-lg">
+                        <button
+                          onClick={() => setExpandedStatementId(expanded ? null : statement.id)}
+                          className="w-full flex items-center justify-between p-4 text-left hover:bg-gray-50"
+                        >
+                          <div className="flex items-center space-x-2">
+                            {expanded ? <ChevronDown className="h-4 w-4 text-gray-400" /> : <ChevronRight className="h-4 w-4 text-gray-400" />}
+                            <div>
+                              <p className="font-medium text-gray-900">{getUserName(statement.salesman_id)}</p>
+                              <p className="text-xs text-gray-500">
+                                {formatRupiah(statement.inputs.sales)} • {statement.inputs.ec} EC • MSL {statement.inputs.msl_achievement}%
+                              </p>
+                            </div>
+                          </div>
+                          <p className="font-semibold text-gray-900">{formatRupiah(statement.total_amount)}</p>
+                        </button>
+                        {expanded && (
+                          <div className="border-t border-gray-200 p-4">
+                            <table className="w-full text-sm">
+                              <tbody>
+                                {statement.lines.map((line) => (
+                                  <tr key={line.component} className="border-b border-gray-100 last:border-b-0">
+                                    <td className="py-2 text-gray-900">{line.label}</td>
+                                    <td className="py-2 text-gray-500">{line.basis}</td>
+                                    <td className="py-2 text-right text-gray-900">{formatRupiah(line.amount)}</td>
+                                  </tr>
+                                ))}
+                              </tbody>
+                            </table>
+                          </div>
+                        )}
+                      </div>
+                    )
+                  })}
+                </div>
+              )}
+            </>
+          ) : (
+            <>
+              {/* New Rule Version */}
+              <form onSubmit={handleSaveRules} className="bg-gray-50 rounded-lg p-4 space-y-4">
+                <div className="flex items-center justify-between">
+                  <h3 className="font-medium text-gray-900">Versi Baru (v{(ruleSets[0]?.version || 0) + 1})</h3>
+                  <div className="flex items-center space-x-2">
+                    <label className="text-sm text-gray-700">Berlaku mulai</label>
+                    <input
+                      type="month"
+                      value={ruleEffectiveMonth}
+                      onChange={(e) => e.target.value && setRuleEffectiveMonth(e.target.value)}
+                      className="px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-green-500"
+                    />
+                  </div>
+                </div>
+
+                <div>
+                  <div className="flex items-center justify-between mb-2">
+                    <label className="text-sm font-medium text-gray-700">Tier Komisi Sales</label>
+                    <button
+                      type="button"
+                      onClick={() => setRuleForm(prev => ({ ...prev, sales_tiers: [...prev.sales_tiers, { min_sales: 0, rate_percentage: 0 }] }))}
+                      className="inline-flex items-center text-sm text-green-700 hover:text-green-800"
+                    >
+                      <Plus className="h-4 w-4 mr-1" />
+                      Tambah Tier
+                    </button>
+                  </div>
+                  <p className="text-xs text-gray-500 mb-2">Persentase tier tertinggi yang tercapai berlaku untuk seluruh sales bulan itu</p>
+                  <div className="space-y-2">
+                    {ruleForm.sales_tiers.map((tier, index) => (
+                      <div key={index} className="flex items-center gap-2">
+                        <span className="text-sm text-gray-600">Sales ≥ Rp</span>
+                        <input
+                          type="number"
+                          min="0"
+                          value={tier.min_sales}
+                          onChange={(e) => updateTier(index, 'min_sales', e.target.value)}
+                          className="flex-1 px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-green-500"
+                        />
+                        <input
+                          type="number"
+                          min="0"
+                          max="100"
+                          step="any"
+                          value={tier.rate_percentage}
+                          onChange={(e) => updateTier(index, 'rate_percentage', e.target.value)}
+                          className="w-24 px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-green-500"
+                        />
+                        <span className="text-sm text-gray-600">%</span>
+                        <button
+                          type="button"
+                          onClick={() => setRuleForm(prev => ({ ...prev, sales_tiers: prev.sales_tiers.filter((_, i) => i !== index) }))}
+                          className="p-2 text-gray-400 hover:text-red-600 hover:bg-red-50 rounded-lg transition-colors"
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </button>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  <div className="space-y-2">
+                    <label className="flex items-center space-x-2 text-sm font-medium text-gray-700">
+                      <input
+                        type="checkbox"
+                        checked={ruleForm.msl_bonus !== null}
+                        onChange={(e) => setRuleForm(prev => ({
+                          ...prev,
+                          msl_bonus: e.target.checked ? DEFAULT_INCENTIVE_RULES.msl_bonus : null
+                        }))}
+                      />
+                      <span>Bonus MSL</span>
+                    </label>
+                    {ruleForm.msl_bonus && (
+                      <div className="grid grid-cols-2 gap-2">
+                        <div>
+                          <label className="block text-xs text-gray-600 mb-1">Ambang MSL (%)</label>
+                          <input
+                            type="number"
+                            min="0"
+                            max="100"
+                            step="any"
+                            value={ruleForm.msl_bonus.threshold_percentage}
+                            onChange={(e) => setRuleForm(prev => ({
+                              ...prev,
+                              msl_bonus: prev.msl_bonus && { ...prev.msl_bonus, threshold_percentage: parseFloat(e.target.value) || 0 }
+                            }))}
+                            className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-green-500"
+                          />
+                        </div>
+                        <div>
+                          <label className="block text-xs text-gray-600 mb-1">Bonus (Rp)</label>
+                          <input
+                            type="number"
+                            min="0"
+                            value={ruleForm.msl_bonus.amount}
+                            onChange={(e) => setRuleForm(prev => ({
+                              ...prev,
+                              msl_bonus: prev.msl_bonus && { ...prev.msl_bonus, amount: parseFloat(e.target.value) || 0 }
+                            }))}
+                            className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-green-500"
+                          />
+                        </div>
+                      </div>
+                    )}
+                  </div>
+
+                  <div className="space-y-2">
+                    <label className="flex items-center space-x-2 text-sm font-medium text-gray-700">
+                      <input
+                        type="checkbox"
+                        checked={ruleForm.ec_bonus !== null}
+                        onChange={(e) => setRuleForm(prev => ({
+                          ...prev,
+                          ec_bonus: e.target.checked ? DEFAULT_INCENTIVE_RULES.ec_bonus : null
+                        }))}
+                      />
+                      <span>Bonus per EC</span>
+                    </label>
+                    {ruleForm.ec_bonus && (
+                      <div className="grid grid-cols-3 gap-2">
+                        <div>
+                          <label className="block text-xs text-gray-600 mb-1">Per EC (Rp)</label>
+                          <input
+                            type="number"
+                            min="0"
+                            value={ruleForm.ec_bonus.amount_per_ec}
+                            onChange={(e) => setRuleForm(prev => ({
+                              ...prev,
+                              ec_bonus: prev.ec_bonus && { ...prev.ec_bonus, amount_per_ec: parseFloat(e.target.value) || 0 }
+                            }))}
+                            className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-green-500"
+                          />
+                        </div>
+                        <div>
+                          <label className="block text-xs text-gray-600 mb-1">Minimal EC</label>
+                          <input
+                            type="number"
+                            min="0"
+                            step="1"
+                            value={ruleForm.ec_bonus.min_ec}
+                            onChange={(e) => setRuleForm(prev => ({
+                              ...prev,
+                              ec_bonus: prev.ec_bonus && { ...prev.ec_bonus, min_ec: parseInt(e.target.value) || 0 }
+                            }))}
+                            className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-green-500"
+                          />
+                        </div>
+                        <div>
+                          <label className="block text-xs text-gray-600 mb-1">Maksimal (Rp)</label>
+                          <input
+                            type="number"
+                            min="0"
+                            value={ruleForm.ec_bonus.max_amount ?? ''}
+                            placeholder="Tanpa batas"
+                            onChange={(e) => setRuleForm(prev => ({
+                              ...prev,
+                              ec_bonus: prev.ec_bonus && { ...prev.ec_bonus, max_amount: e.target.value ? parseFloat(e.target.value) : null }
+                            }))}
+                            className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-green-500"
+                          />
+                        </div>
+                      </div>
+                    )}
+                  </div>
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Catatan</label>
+                  <input
+                    type="text"
+                    value={ruleNotes}
+                    onChange={(e) => setRuleNotes(e.target.value)}
+                    placeholder="Alasan perubahan"
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-green-500"
+                  />
+                </div>
+
+                <div className="flex justify-end">
+                  <button
+                    type="submit"
+                    disabled={saving}
+                    className="flex items-center space-x-2 px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    <Plus className="h-4 w-4" />
+                    <span>{saving ? 'Menyimpan...' : 'Simpan Versi Baru'}</span>
+                  </button>
+                </div>
+              </form>
+
+              {/* Rule Versions */}
+              {ruleSets.length === 0 ? (
+                <div className="text-center py-8 text-gray-500">
+                  Belum ada aturan insentif
+                </div>
+              ) : (
+                <div className="space-y-2">
+                  <p className="text-xs text-gray-500">
+                    Versi yang tersimpan tidak dapat diubah, sehingga bulan lalu selalu dihitung ulang dengan aturan yang sama.
+                  </p>
+                  {ruleSets.map((ruleSet) => (
+                    <div key={ruleSet.id} className="border border-gray-200 rounded-lg p-4">
+                      <div className="flex items-center justify-between">
+                        <div>
+                          <p className="font-medium text-gray-900">
+                            Versi {ruleSet.version}
+                            {currentRuleSet?.id === ruleSet.id && (
+                              <span className="ml-2 px-2 py-0.5 rounded-full text-xs font-medium bg-green-100 text-green-800">Berlaku</span>
+                            )}
+                          </p>
+                          <p className="text-xs text-gray-500">
+                            Mulai {formatMonth(ruleSet.effective_from)} • dibuat {new Date(ruleSet.created_at).toLocaleDateString('id-ID')}
+                            {ruleSet.notes && ` • ${ruleSet.notes}`}
+                          </p>
+                        </div>
+                        <button
+                          onClick={() => setRuleForm(ruleSet.rules)}
+                          className="text-sm text-green-700 hover:text-green-800"
+                        >
+                          Salin ke versi baru
+                        </button>
+                      </div>
+                      <div className="mt-2 text-sm text-gray-600 space-y-0.5">
+                        <p>
+                          Komisi: {ruleSet.rules.sales_tiers.map(tier => `≥ ${formatRupiah(tier.min_sales)}: ${tier.rate_percentage}%`).join(' • ')}
+                        </p>
+                        {ruleSet.rules.msl_bonus && (
+                          <p>Bonus MSL: {formatRupiah(ruleSet.rules.msl_bonus.amount)} jika MSL ≥ {ruleSet.rules.msl_bonus.threshold_percentage}%</p>
+                        )}
+                        {ruleSet.rules.ec_bonus && (
+                          <p>
+                            Bonus EC: {formatRupiah(ruleSet.rules.ec_bonus.amount_per_ec)} per EC mulai {ruleSet.rules.ec_bonus.min_ec} EC
+                            {ruleSet.rules.ec_bonus.max_amount !== null && `, maks. ${formatRupiah(ruleSet.rules.ec_bonus.max_amount)}`}
+                          </p>
+                        )}
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,119 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { Wallet } from 'lucide-react'
+import { fetchAppSettings } from '@/lib/settings'
+import { IncentiveResult, calculateIncentive, fetchRuleSets, getRuleSetForMonth } from '@/lib/incentives'
+import { NO_ACTUALS, fetchTargetActuals, countWorkingDays, getMonthStart, getMonthEnd } from '@/lib/targets'
+
+interface IncentiveProjectionProps {
+  salesmanId: string
+}
+
+const formatRupiah = (value: number) => `Rp ${Math.round(value).toLocaleString('id-ID')}`
+
+// Read-only estimate for the salesman; the official amount comes from the monthly run
+export default function IncentiveProjection({ salesmanId }: IncentiveProjectionProps) {
+  const [current, setCurrent] = useState<IncentiveResult | null>(null)
+  const [projected, setProjected] = useState<IncentiveResult | null>(null)
+  const [ruleVersion, setRuleVersion] = useState<number | null>(null)
+  const [loading, setLoading] = useState(true)
+
+  useEffect(() => {
+    fetchProjection()
+  }, [salesmanId])
+
+  const fetchProjection = async () => {
+    setLoading(true)
+    try {
+      const today = new Date().toISOString().split('T')[0]
+      const monthStart = getMonthStart(today)
+      const [ruleSets, actualsBySalesman, settings] = await Promise.all([
+        fetchRuleSets(),
+        fetchTargetActuals(salesmanId, monthStart, today, 'total', null),
+        fetchAppSettings()
+      ])
+
+      const ruleSet = getRuleSetForMonth(ruleSets, monthStart)
+      if (!ruleSet) {
+        setCurrent(null)
+        setProjected(null)
+        return
+      }
+
+      const actuals = actualsBySalesman.get(salesmanId) || NO_ACTUALS
+      const inputs = { sales: actuals.sales, ec: actuals.ec, msl_achievement: actuals.mslAchievement }
+
+      // Sales and EC continue at the pace of the working days so far; MSL stays where it is
+      const workingDaysPerWeek = settings.working_days_per_week
+      const elapsedDays = countWorkingDays(monthStart, today, workingDaysPerWeek)
+      const totalDays = countWorkingDays(monthStart, getMonthEnd(today), workingDaysPerWeek)
+      const pace = elapsedDays > 0 ? totalDays / elapsedDays : 1
+
+      setRuleVersion(ruleSet.version)
+      setCurrent(calculateIncentive(ruleSet.rules, inputs))
+      setProjected(calculateIncentive(ruleSet.rules, {
+        ...inputs,
+        sales: inputs.sales * pace,
+        ec: Math.floor(inputs.ec * pace)
+      }))
+    } catch (error) {
+      console.error('Error fetching incentive projection:', error)
+      setCurrent(null)
+      setProjected(null)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6">
+      <div className="flex items-center justify-between mb-4">
+        <div>
+          <h3 className="text-lg font-semibold text-gray-900">Proyeksi Insentif</h3>
+          <p className="text-sm text-gray-600">
+            Perkiraan bulan ini{ruleVersion !== null && ` • aturan v${ruleVersion}`}
+          </p>
+        </div>
+        <Wallet className="h-5 w-5 text-gray-400" />
+      </div>
+
+      {loading ? (
+        <div className="flex items-center justify-center py-8">
+          <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-orange-600"></div>
+        </div>
+      ) : !current || !projected ? (
+        <div className="text-center py-8 text-gray-500">
+          Belum ada aturan insentif untuk bulan ini
+        </div>
+      ) : (
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div className="bg-gray-50 rounded-lg p-4">
+              <p className="text-sm text-gray-600">Sampai hari ini</p>
+              <p className="text-2xl font-bold text-gray-900 mt-1">{formatRupiah(current.total)}</p>
+            </div>
+            <div className="bg-green-50 rounded-lg p-4">
+              <p className="text-sm text-green-700">Akhir bulan (dengan laju saat ini)</p>
+              <p className="text-2xl font-bold text-green-900 mt-1">{formatRupiah(projected.total)}</p>
+            </div>
+          </div>
+          <table className="w-full text-sm">
+            <tbody>
+              {current.lines.map((line) => (
+                <tr key={line.component} className="border-b border-gray-100 last:border-b-0">
+                  <td className="py-2 text-gray-900">{line.label}</td>
+                  <td className="py-2 text-gray-500">{line.basis}</td>
+                  <td className="py-2 text-right text-gray-900">{formatRupiah(line.amount)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          <p className="text-xs text-gray-500">
+            Hanya perkiraan. Jumlah resmi mengikuti perhitungan bulanan oleh admin.
+          </p>
+        </div>
+      )}
+    </div>
+  )
+}
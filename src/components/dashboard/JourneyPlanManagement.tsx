@@ -0,0 +1,405 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { User } from '@supabase/supabase-js'
+import { supabase } from '@/lib/supabase'
+import { CalendarDays, Plus, Trash2, X } from 'lucide-react'
+import { WEEKDAYS, FREQUENCIES, JourneyFrequency } from '@/lib/journeyPlan'
+
+interface JourneyPlanManagementProps {
+  user: User
+  onClose: () => void
+}
+
+interface Salesman {
+  id: string
+  name: string | null
+  email: string
+}
+
+interface SalesmanStore {
+  id: string
+  store_name: string
+  store_code: string
+  route: string | null
+}
+
+interface JourneyPlan {
+  id: string
+  weekday: number
+  route: string | null
+  store_id: string | null
+  frequency: JourneyFrequency
+  start_date: string
+  is_active: boolean
+  stores: {
+    store_name: string
+    store_code: string
+  } | null
+}
+
+export default function JourneyPlanManagement({ user, onClose }: JourneyPlanManagementProps) {
+  const [salesmen, setSalesmen] = useState<Salesman[]>([])
+  const [selectedSalesman, setSelectedSalesman] = useState('')
+  const [stores, setStores] = useState<SalesmanStore[]>([])
+  const [plans, setPlans] = useState<JourneyPlan[]>([])
+  const [loading, setLoading] = useState(false)
+  const [saving, setSaving] = useState(false)
+  const [formData, setFormData] = useState({
+    weekday: 1,
+    target: 'route' as 'route' | 'store',
+    route: '',
+    store_id: '',
+    frequency: 'weekly' as JourneyFrequency,
+    start_date: new Date().toISOString().split('T')[0]
+  })
+
+  useEffect(() => {
+    fetchSalesmen()
+  }, [])
+
+  useEffect(() => {
+    if (selectedSalesman) {
+      fetchSalesmanData()
+    } else {
+      setStores([])
+      setPlans([])
+    }
+  }, [selectedSalesman])
+
+  const fetchSalesmen = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('users')
+        .select('id, name, email')
+        .eq('role', 'salesman')
+        .order('name')
+
+      if (error) throw error
+      setSalesmen(data || [])
+    } catch (error) {
+      console.error('Error fetching salesmen:', error)
+    }
+  }
+
+  const fetchSalesmanData = async () => {
+    setLoading(true)
+    try {
+      const [storesResult, plansResult] = await Promise.all([
+        supabase
+          .from('stores')
+          .select('id, store_name, store_code, route')
+          .eq('created_by', selectedSalesman)
+          .order('store_name'),
+        supabase
+          .from('journey_plans')
+          .select(`
+            id,
+            weekday,
+            route,
+            store_id,
+            frequency,
+            start_date,
+            is_active,
+            stores(store_name, store_code)
+          `)
+          .eq('salesman_id', selectedSalesman)
+          .order('weekday')
+          .order('created_at')
+      ])
+
+      if (storesResult.error) throw storesResult.error
+      if (plansResult.error) throw plansResult.error
+
+      setStores(storesResult.data || [])
+      setPlans(plansResult.data || [])
+    } catch (error) {
+      console.error('Error fetching journey plan:', error)
+      alert('Gagal memuat journey plan')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const routes = Array.from(new Set(stores.map(s => s.route).filter(Boolean) as string[])).sort()
+
+  const countStoresOnRoute = (route: string) => stores.filter(s => s.route === route).length
+
+  const handleAddPlan = async (e: React.FormEvent) => {
+    e.preventDefault()
+
+    if (formData.target === 'route' && !formData.route) {
+      alert('Pilih route terlebih dahulu')
+      return
+    }
+    if (formData.target === 'store' && !formData.store_id) {
+      alert('Pilih toko terlebih dahulu')
+      return
+    }
+
+    setSaving(true)
+    try {
+      const { error } = await supabase
+        .from('journey_plans')
+        .insert({
+          salesman_id: selectedSalesman,
+          weekday: formData.weekday,
+          route: formData.target === 'route' ? formData.route : null,
+          store_id: formData.target === 'store' ? formData.store_id : null,
+          frequency: formData.frequency,
+          start_date: formData.start_date,
+          created_by: user.id
+        })
+
+      if (error) throw error
+
+      setFormData(prev => ({ ...prev, route: '', store_id: '' }))
+      fetchSalesmanData()
+    } catch (error) {
+      console.error('Error adding journey plan:', error)
+      alert('Gagal menambahkan jadwal')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleToggleActive = async (plan: JourneyPlan) => {
+    try {
+      const { error } = await supabase
+        .from('journey_plans')
+        .update({ is_active: !plan.is_active })
+        .eq('id', plan.id)
+
+      if (error) throw error
+      fetchSalesmanData()
+    } catch (error) {
+      console.error('Error updating journey plan:', error)
+      alert('Gagal mengubah status jadwal')
+    }
+  }
+
+  const handleDelete = async (plan: JourneyPlan) => {
+    if (!confirm('Hapus jadwal ini?')) return
+
+    try {
+      const { error } = await supabase
+        .from('journey_plans')
+        .delete()
+        .eq('id', plan.id)
+
+      if (error) throw error
+      fetchSalesmanData()
+    } catch (error) {
+      console.error('Error deleting journey plan:', error)
+      alert('Gagal menghapus jadwal')
+    }
+  }
+
+  const getFrequencyLabel = (frequency: JourneyFrequency) => {
+    return FREQUENCIES.find(f => f.value === frequency)?.label || frequency
+  }
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-xl shadow-xl max-w-5xl w-full max-h-[90vh] overflow-y-auto">
+        <div className="flex items-center justify-between p-6 border-b border-gray-200">
+          <div className="flex items-center space-x-3">
+            <div className="h-10 w-10 bg-green-100 rounded-lg flex items-center justify-center">
+              <CalendarDays className="h-5 w-5 text-green-600" />
+            </div>
+            <div>
+              <h2 className="text-xl font-semibold text-gray-900">Journey Plan</h2>
+              <p className="text-sm text-gray-600">Jadwal kunjungan mingguan per salesman</p>
+            </div>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-2 hover:bg-gray-100 rounded-lg transition-colors"
+          >
+            <X className="h-5 w-5 text-gray-500" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-6">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Salesman</label>
+            <select
+              value={selectedSalesman}
+              onChange={(e) => setSelectedSalesman(e.target.value)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-green-500"
+            >
+              <option value="">Pilih salesman</option>
+              {salesmen.map((salesman) => (
+                <option key={salesman.id} value={salesman.id}>
+                  {salesman.name || salesman.email}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          {selectedSalesman && (
+            <>
+              {/* Add Plan Form */}
+              <form onSubmit={handleAddPlan} className="bg-gray-50 rounded-lg p-4 space-y-4">
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">Hari</label>
+                    <select
+                      value={formData.weekday}
+                      onChange={(e) => setFormData(prev => ({ ...prev, weekday: parseInt(e.target.value) }))}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-green-500"
+                    >
+                      {WEEKDAYS.map((day) => (
+                        <option key={day.value} value={day.value}>{day.label}</option>
+                      ))}
+                    </select>
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">Frekuensi</label>
+                    <select
+                      value={formData.frequency}
+                      onChange={(e) => setFormData(prev => ({ ...prev, frequency: e.target.value as JourneyFrequency }))}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-green-500"
+                    >
+                      {FREQUENCIES.map((frequency) => (
+                        <option key={frequency.value} value={frequency.value}>{frequency.label}</option>
+                      ))}
+                    </select>
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">Mulai Tanggal</label>
+                    <input
+                      type="date"
+                      value={formData.start_date}
+                      onChange={(e) => setFormData(prev => ({ ...prev, start_date: e.target.value }))}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-green-500"
+                      required
+                    />
+                  </div>
+                </div>
+
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">Jenis</label>
+                    <select
+                      value={formData.target}
+                      onChange={(e) => setFormData(prev => ({ ...prev, target: e.target.value as 'route' | 'store' }))}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-green-500"
+                    >
+                      <option value="route">Seluruh Route</option>
+                      <option value="store">Toko Tertentu</option>
+                    </select>
+                  </div>
+                  <div className="md:col-span-2">
+                    <label className="block text-sm font-medium text-gray-700 mb-1">
+                      {formData.target === 'route' ? 'Route' : 'Toko'}
+                    </label>
+                    {formData.target === 'route' ? (
+                      <select
+                        value={formData.route}
+                        onChange={(e) => setFormData(prev => ({ ...prev, route: e.target.value }))}
+                        className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-green-500"
+                      >
+                        <option value="">Pilih route</option>
+                        {routes.map((route) => (
+                          <option key={route} value={route}>
+                            {route} ({countStoresOnRoute(route)} toko)
+                          </option>
+                        ))}
+                      </select>
+                    ) : (
+                      <select
+                        value={formData.store_id}
+                        onChange={(e) => setFormData(prev => ({ ...prev, store_id: e.target.value }))}
+                        className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-green-500"
+                      >
+                        <option value="">Pilih toko</option>
+                        {stores.map((store) => (
+                          <option key={store.id} value={store.id}>
+                            {store.store_name} ({store.store_code})
+                          </option>
+                        ))}
+                      </select>
+                    )}
+                  </div>
+                </div>
+
+                <div className="flex justify-end">
+                  <button
+                    type="submit"
+                    disabled={saving}
+                    className="flex items-center space-x-2 px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    <Plus className="h-4 w-4" />
+                    <span>{saving ? 'Menyimpan...' : 'Tambah Jadwal'}</span>
+                  </button>
+                </div>
+              </form>
+
+              {/* Weekly Schedule */}
+              {loading ? (
+                <div className="flex items-center justify-center py-12">
+                  <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-green-600"></div>
+                </div>
+              ) : plans.length === 0 ? (
+                <div className="text-center py-8 text-gray-500">
+                  Belum ada jadwal untuk salesman ini
+                </div>
+              ) : (
+                <div className="space-y-4">
+                  {WEEKDAYS.map((day) => {
+                    const dayPlans = plans.filter(p => p.weekday === day.value)
+                    if (dayPlans.length === 0) return null
+
+                    return (
+                      <div key={day.value}>
+                        <h4 className="text-sm font-semibold text-gray-900 mb-2">{day.label}</h4>
+                        <div className="space-y-2">
+                          {dayPlans.map((plan) => (
+                            <div
+                              key={plan.id}
+                              className={`flex items-center justify-between p-3 rounded-lg border ${
+                                plan.is_active ? 'border-gray-200' : 'border-gray-100 bg-gray-50 opacity-60'
+                              }`}
+                            >
+                              <div>
+                                <p className="font-medium text-gray-900">
+                                  {plan.route
+                                    ? `Route ${plan.route} (${countStoresOnRoute(plan.route)} toko)`
+                                    : `${plan.stores?.store_name} (${plan.stores?.store_code})`}
+                                </p>
+                                <p className="text-sm text-gray-500">
+                                  {getFrequencyLabel(plan.frequency)} • mulai {new Date(plan.start_date).toLocaleDateString('id-ID')}
+                                </p>
+                              </div>
+                              <div className="flex items-center space-x-2">
+                                <button
+                                  onClick={() => handleToggleActive(plan)}
+                                  className={`px-3 py-1 rounded-full text-xs font-medium ${
+                                    plan.is_active ? 'bg-green-100 text-green-800' : 'bg-gray-100 text-gray-800'
+                                  }`}
+                                >
+                                  {plan.is_active ? 'Aktif' : 'Nonaktif'}
+                                </button>
+                                <button
+                                  onClick={() => handleDelete(plan)}
+                                  className="p-2 text-gray-400 hover:text-red-600 hover:bg-red-50 rounded-lg transition-colors"
+                                >
+                                  <Trash2 className="h-4 w-4" />
+                                </button>
+                              </div>
+                            </div>
+                          ))}
+                        </div>
+                      </div>
+                    )
+                  })}
+                </div>
+              )}
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
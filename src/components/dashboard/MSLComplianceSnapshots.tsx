@@ -0,0 +1,195 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { supabase } from '@/lib/supabase'
+import { Camera } from 'lucide-react'
+
+interface MSLComplianceSnapshotsProps {
+  category: string
+  userRole: string
+}
+
+interface ComplianceSnapshot {
+  id: string
+  store_id: string
+  lookback_days: number
+  msl_size: number
+  msl_bought: number
+  achievement: number
+  missing_skus: string[]
+  stores: {
+    store_name: string
+    store_code: string
+  }
+}
+
+// Per-store MSL compliance as saved by `snapshot_msl_compliance`, so past dates keep their MSL
+export default function MSLComplianceSnapshots({ category, userRole }: MSLComplianceSnapshotsProps) {
+  const [snapshotDate, setSnapshotDate] = useState('')
+  const [snapshots, setSnapshots] = useState<ComplianceSnapshot[]>([])
+  const [loading, setLoading] = useState(true)
+  const [taking, setTaking] = useState(false)
+
+  useEffect(() => {
+    fetchLatestDate()
+  }, [])
+
+  useEffect(() => {
+    if (snapshotDate) fetchSnapshots()
+  }, [snapshotDate, category])
+
+  const fetchLatestDate = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('msl_compliance_snapshots')
+        .select('snapshot_date')
+        .order('snapshot_date', { ascending: false })
+        .limit(1)
+
+      if (error) throw error
+      setSnapshotDate(data?.[0]?.snapshot_date || new Date().toISOString().split('T')[0])
+    } catch (error) {
+      console.error('Error fetching latest MSL snapshot:', error)
+      setSnapshotDate(new Date().toISOString().split('T')[0])
+    }
+  }
+
+  const fetchSnapshots = async () => {
+    setLoading(true)
+    try {
+      const { data, error } = await supabase
+        .from('msl_compliance_snapshots')
+        .select(`
+          id,
+          store_id,
+          lookback_days,
+          msl_size,
+          msl_bought,
+          achievement,
+          missing_skus,
+          stores!inner(store_name, store_code)
+        `)
+        .eq('snapshot_date', snapshotDate)
+        .eq('category', category)
+        .order('achievement')
+
+      if (error) throw error
+      setSnapshots((data || []).map(row => ({ ...row, achievement: Number(row.achievement) })))
+    } catch (error) {
+      console.error('Error fetching MSL snapshots:', error)
+      setSnapshots([])
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const takeSnapshot = async () => {
+    setTaking(true)
+    try {
+      const { error } = await supabase.rpc('snapshot_msl_compliance', { p_date: snapshotDate })
+      if (error) throw error
+      fetchSnapshots()
+    } catch (error) {
+      console.error('Error taking MSL snapshot:', error)
+      alert('Gagal mengambil snapshot MSL. Silakan coba lagi.')
+    } finally {
+      setTaking(false)
+    }
+  }
+
+  const averageAchievement = snapshots.length > 0
+    ? snapshots.reduce((sum, snapshot) => sum + snapshot.achievement, 0) / snapshots.length
+    : 0
+  const compliantStores = snapshots.filter(snapshot => snapshot.msl_bought === snapshot.msl_size).length
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6">
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4 mb-4">
+        <div>
+          <h3 className="text-lg font-semibold text-gray-900">Kepatuhan MSL per Toko</h3>
+          <p className="text-sm text-gray-600">
+            {category} • diukur dengan MSL yang berlaku pada tanggal snapshot
+            {snapshots.length > 0 && ` • pembelian ${snapshots[0].lookback_days} hari terakhir`}
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          <input
+            type="date"
+            value={snapshotDate}
+            onChange={(e) => setSnapshotDate(e.target.value)}
+            className="px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+          />
+          {userRole === 'admin' && (
+            <button
+              onClick={takeSnapshot}
+              disabled={taking || !snapshotDate}
+              className="inline-flex items-center px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+            >
+              <Camera className="h-4 w-4 mr-2" />
+              {taking ? 'Mengambil...' : 'Ambil Snapshot'}
+            </button>
+          )}
+        </div>
+      </div>
+
+      {loading ? (
+        <div className="flex items-center justify-center py-8">
+          <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-blue-600"></div>
+        </div>
+      ) : snapshots.length === 0 ? (
+        <div className="text-center py-8 text-gray-500">
+          Belum ada snapshot untuk tanggal ini
+        </div>
+      ) : (
+        <>
+          <div className="grid grid-cols-3 gap-4 mb-4">
+            <div className="bg-gray-50 rounded-lg p-4">
+              <p className="text-sm text-gray-600">Toko</p>
+              <p className="text-2xl font-bold text-gray-900">{snapshots.length}</p>
+            </div>
+            <div className="bg-gray-50 rounded-lg p-4">
+              <p className="text-sm text-gray-600">Rata-rata MSL</p>
+              <p className="text-2xl font-bold text-gray-900">{averageAchievement.toFixed(1)}%</p>
+            </div>
+            <div className="bg-gray-50 rounded-lg p-4">
+              <p className="text-sm text-gray-600">MSL Lengkap</p>
+              <p className="text-2xl font-bold text-gray-900">{compliantStores}</p>
+            </div>
+          </div>
+
+          <div className="max-h-96 overflow-y-auto border border-gray-200 rounded-lg">
+            <table className="w-full text-sm">
+              <thead className="bg-gray-50 sticky top-0">
+                <tr>
+                  <th className="text-left p-3 font-medium text-gray-700">Toko</th>
+                  <th className="text-right p-3 font-medium text-gray-700">SKU MSL</th>
+                  <th className="text-right p-3 font-medium text-gray-700">Pencapaian</th>
+                  <th className="text-left p-3 font-medium text-gray-700">Belum Dibeli</th>
+                </tr>
+              </thead>
+              <tbody>
+                {snapshots.map((snapshot) => (
+                  <tr key={snapshot.id} className="border-t border-gray-100">
+                    <td className="p-3">
+                      <div className="font-medium text-gray-900">{snapshot.stores.store_name}</div>
+                      <div className="text-xs text-gray-500">{snapshot.stores.store_code}</div>
+                    </td>
+                    <td className="p-3 text-right text-gray-900">{snapshot.msl_bought}/{snapshot.msl_size}</td>
+                    <td className="p-3 text-right">
+                      <span className={`font-medium ${
+                        snapshot.achievement >= 80 ? 'text-green-600' : snapshot.achievement >= 50 ? 'text-yellow-600' : 'text-red-600'
+                      }`}>
+                        {snapshot.achievement.toFixed(1)}%
+                      </span>
+                    </td>
+                    <td className="p-3 font-mono text-xs text-gray-600">{snapshot.missing_skus.join(', ') || '-'}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </>
+      )}
+    </div>
+  )
+}
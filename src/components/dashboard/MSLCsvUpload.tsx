@@ -2,7 +2,13 @@
 
 import { useState } from 'react'
 import { supabase } from '@/lib/supabase'
-import { Upload, FileText, CheckCircle, AlertCircle, X, Download, Trash2 } from 'lucide-react'
+import { Upload, FileText, CheckCircle, AlertCircle, X, Download } from 'lucide-react'
+import { MSLDiff, MSLListItem, diffMSL, publishMSLImport } from '@/lib/msl'
+import { useImportFile } from '@/lib/useImportFile'
+import { CsvTable } from '@/lib/csvImport'
+import ColumnMappingStep from './ColumnMappingStep'
+import ImportFilePicker from './ImportFilePicker'
+import { ImportJobRow, finishImportJob, startImportJob } from '@/lib/importJobs'
 
 interface MSLCsvUploadProps {
   onClose: () => void
@@ -10,38 +16,64 @@ interface MSLCsvUploadProps {
 }
 
 interface CsvMSLItem {
+  row: number
   category: string
+  // Optional cluster of the category; rows with a cluster form that cluster's list
+  cluster: string
+  cluster_id: string | null
   sku_code: string
   product_name: string
   priority: number
   notes: string
   isValid: boolean
   error?: string
+  // Valid rows that still need attention, e.g. an inactive product
+  warning?: string
 }
 
 interface CategorySummary {
   category: string
+  cluster: string
+  cluster_id: string | null
   count: number
   items: CsvMSLItem[]
+  // Against the version in effect today
+  diff: MSLDiff
 }
 
+const getListLabel = (list: { category: string; cluster: string }) => {
+  return list.cluster ? `${list.category} › ${list.cluster}` : list.category
+}
+
+const toListItem = (item: CsvMSLItem): MSLListItem => ({
+  sku_code: item.sku_code,
+  product_name: item.product_name,
+  priority: item.priority,
+  notes: item.notes || null
+})
+
 export default function MSLCsvUpload({ onClose, onSuccess }: MSLCsvUploadProps) {
-  const [file, setFile] = useState<File | null>(null)
+  const importFile = useImportFile()
+  const { file } = importFile
+  // The file as read, until its columns are mapped
+  const [sourceTable, setSourceTable] = useState<CsvTable | null>(null)
   const [parsedItems, setParsedItems] = useState<CsvMSLItem[]>([])
   const [categorySummary, setCategorySummary] = useState<CategorySummary[]>([])
   const [showPreview, setShowPreview] = useState(false)
   const [uploading, setUploading] = useState(false)
   const [uploadResult, setUploadResult] = useState<{ [category: string]: number } | null>(null)
+  const [effectiveFrom, setEffectiveFrom] = useState(new Date().toISOString().split('T')[0])
+  const [notes, setNotes] = useState('')
 
   const downloadTemplate = () => {
-    const csvContent = `CATEGORY,SKU_CODE,PRODUCT_NAME,PRIORITY,NOTES
-GT PROV,LOR001,L'Oreal Paris Voluminous Mascara,1,Top seller - high margin
-GT PROV,LOR002,L'Oreal Paris Foundation,2,Popular shade range
-GT PROV,GAR001,Garnier Fructis Shampoo,3,Volume driver
-GT Wholesale,LOR004,L'Oreal Wholesale Pack A,1,Bulk discount available
-GT Wholesale,GAR002,Garnier Wholesale Bundle,2,High volume product
-GT Small Cosmetics,LOR005,L'Oreal Mini Lipstick Set,1,Perfect for small stores
-GT Small Cosmetics,GAR003,Garnier Travel Size,2,Impulse purchase`
+    const csvContent = `CATEGORY,CLUSTER,SKU_CODE,PRODUCT_NAME,PRIORITY,NOTES
+GT PROV,,LOR001,L'Oreal Paris Voluminous Mascara,1,Top seller - high margin
+GT PROV,,LOR002,L'Oreal Paris Foundation,2,Popular shade range
+GT PROV,,GAR001,Garnier Fructis Shampoo,3,Volume driver
+GT Wholesale,,LOR004,L'Oreal Wholesale Pack A,1,Bulk discount available
+GT Wholesale,,GAR002,Garnier Wholesale Bundle,2,High volume product
+GT Small Cosmetics,,LOR005,L'Oreal Mini Lipstick Set,1,Perfect for small stores
+GT Small Cosmetics,,GAR003,Garnier Travel Size,2,Impulse purchase`
 
     const blob = new Blob([csvContent], { type: 'text/csv' })
     const url = window.URL.createObjectURL(blob)
@@ -54,28 +86,17 @@ GT Small Cosmetics,GAR003,Garnier Travel Size,2,Impulse purchase`
     window.URL.revokeObjectURL(url)
   }
 
-  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const selectedFile = e.target.files?.[0]
-    if (selectedFile && selectedFile.type === 'text/csv') {
-      setFile(selectedFile)
-    } else {
-      alert('Please select a valid CSV file')
-    }
+  const readFile = async () => {
+    const table = await importFile.readTable()
+    if (table) setSourceTable(table)
   }
 
-  const parseCsv = async () => {
-    if (!file) return
-
-    const text = await file.text()
-    const lines = text.trim().split('\n')
-    
-    if (lines.length < 2) {
-      alert('CSV file must have at least a header row and one data row')
-      return
-    }
+  // Runs on the mapped table, whose headers are the field names below
+  const parseCsv = async (table: CsvTable) => {
+    setSourceTable(null)
+    const { headers, rows } = table
 
-    const headers = lines[0].split(',').map(h => h.trim().toUpperCase())
-    const requiredHeaders = ['CATEGORY', 'SKU_CODE', 'PRODUCT_NAME', 'PRIORITY']
+    const requiredHeaders = ['CATEGORY', 'SKU_CODE', 'PRIORITY']
     
     // Check if all required headers are present
     const missingHeaders = requiredHeaders.filter(header => !headers.includes(header))
@@ -90,49 +111,94 @@ GT Small Cosmetics,GAR003,Garnier Travel Size,2,Impulse purchase`
     const nameIndex = headers.indexOf('PRODUCT_NAME')
     const priorityIndex = headers.indexOf('PRIORITY')
     const notesIndex = headers.indexOf('NOTES')
+    const clusterIndex = headers.indexOf('CLUSTER')
+
+    // Every SKU must be in the product master; names come from there, not from the CSV
+    const skuCodes = rows.map(row => row.values[skuIndex] || '').filter(Boolean)
+    const { data: productsData, error: productsError } = await supabase
+      .from('products')
+      .select('sku_code, product_name, is_active')
+      .in('sku_code', skuCodes)
+
+    if (productsError) {
+      console.error('Error fetching products:', productsError)
+      alert('Failed to check SKUs against the product master. Please try again.')
+      return
+    }
+
+    const { data: clustersData, error: clustersError } = await supabase
+      .from('store_clusters')
+      .select('id, name, category')
+
+    if (clustersError) {
+      console.error('Error fetching store clusters:', clustersError)
+      alert('Failed to load store clusters. Please try again.')
+      return
+    }
 
+    const productsBySku = new Map((productsData || []).map(product => [product.sku_code, product]))
+    const clustersByName = new Map((clustersData || []).map(cluster => [cluster.name, cluster]))
     const seenSkus = new Set<string>()
     const parsed: CsvMSLItem[] = []
 
     // Parse data rows
-    for (let i = 1; i < lines.length; i++) {
-      const values = lines[i].split(',').map(v => v.trim().replace(/^"|"$/g, '')) // Remove quotes
+    for (const row of rows) {
+      const values = row.values
       
       const category = values[categoryIndex] || ''
       const sku = values[skuIndex] || ''
-      const name = values[nameIndex] || ''
+      const product = productsBySku.get(sku)
+      const name = product?.product_name || (nameIndex >= 0 ? values[nameIndex] || '' : '')
       const priorityStr = values[priorityIndex] || ''
       const notes = notesIndex >= 0 ? values[notesIndex] || '' : ''
+      const clusterName = clusterIndex >= 0 ? values[clusterIndex] || '' : ''
+      const cluster = clusterName ? clustersByName.get(clusterName) : undefined
+      const listKey = `${category}|${clusterName}`
 
       // Validation
       let isValid = true
       let error = ''
+      let warning = ''
 
       // Required fields validation
-      if (!category || !sku || !name || !priorityStr) {
+      if (!category || !sku || !priorityStr) {
         isValid = false
-        error = `Row ${i + 1}: Missing required fields (CATEGORY, SKU_CODE, PRODUCT_NAME, PRIORITY)`
-      } else if (seenSkus.has(`${category}-${sku}`)) {
+        error = `Row ${row.number}: Missing required fields (CATEGORY, SKU_CODE, PRIORITY)`
+      } else if (!product) {
         isValid = false
-        error = `Row ${i + 1}: Duplicate SKU in same category`
+        error = `Row ${row.number}: SKU not found in the product master`
+      } else if (clusterName && (!cluster || cluster.category !== category)) {
+        isValid = false
+        error = `Row ${row.number}: Cluster not found in category ${category}`
+      } else if (seenSkus.has(`${listKey}-${sku}`)) {
+        isValid = false
+        error = `Row ${row.number}: Duplicate SKU in same category`
       } else {
-        seenSkus.add(`${category}-${sku}`)
+        seenSkus.add(`${listKey}-${sku}`)
       }
 
       const priority = parseInt(priorityStr)
       if (isValid && (isNaN(priority) || priority < 1)) {
         isValid = false
-        error = `Row ${i + 1}: Invalid priority (must be positive integer)`
+        error = `Row ${row.number}: Invalid priority (must be positive integer)`
+      }
+
+      if (isValid && !product!.is_active) {
+        warning = `Row ${row.number}: Product is inactive and cannot be ordered`
       }
 
       parsed.push({
+        row: row.number,
         category,
+        cluster: clusterName,
+        cluster_id: cluster?.id || null,
         sku_code: sku,
         product_name: name,
         priority,
         notes,
         isValid,
-        error
+        error,
+        warning
       })
     }
 
@@ -143,16 +209,34 @@ GT Small Cosmetics,GAR003,Garnier Travel Size,2,Impulse purchase`
     const categoryMap = new Map<string, CsvMSLItem[]>()
     
     validItems.forEach(item => {
-      if (!categoryMap.has(item.category)) {
-        categoryMap.set(item.category, [])
+      const listKey = `${item.category}|${item.cluster}`
+      if (!categoryMap.has(listKey)) {
+        categoryMap.set(listKey, [])
       }
-      categoryMap.get(item.category)!.push(item)
+      categoryMap.get(listKey)!.push(item)
     })
 
-    const summary: CategorySummary[] = Array.from(categoryMap.entries()).map(([category, items]) => ({
-      category,
+    const { data: currentData, error: currentError } = await supabase
+      .from('msl_items')
+      .select('category, cluster_id, sku_code, product_name, priority, notes')
+      .in('category', Array.from(new Set(validItems.map(item => item.category))))
+
+    if (currentError) {
+      console.error('Error fetching current MSL:', currentError)
+      alert('Failed to load the current MSL for comparison. Please try again.')
+      return
+    }
+
+    const summary: CategorySummary[] = Array.from(categoryMap.values()).map(items => ({
+      category: items[0].category,
+      cluster: items[0].cluster,
+      cluster_id: items[0].cluster_id,
       count: items.length,
-      items: items.sort((a, b) => a.priority - b.priority)
+      items: items.sort((a, b) => a.priority - b.priority),
+      diff: diffMSL(
+        (currentData || []).filter(item => item.category === items[0].category && item.cluster_id === items[0].cluster_id),
+        items.map(toListItem)
+      )
     }))
 
     setCategorySummary(summary)
@@ -160,57 +244,82 @@ GT Small Cosmetics,GAR003,Garnier Travel Size,2,Impulse purchase`
   }
 
   const uploadMSL = async () => {
+    if (!file) return
+
     setUploading(true)
-    const validItems = parsedItems.filter(item => item.isValid)
-    
+
+    let jobId: string
     try {
-      // Get unique categories from valid items
-      const categoriesToUpdate = [...new Set(validItems.map(item => item.category))]
-      
-      // Delete existing MSL items only for categories being updated
-      for (const category of categoriesToUpdate) {
-        const { error: deleteError } = await supabase
-          .from('msl_items')
-          .delete()
-          .eq('category', category)
-
-        if (deleteError) throw deleteError
-      }
+      jobId = await startImportJob('msl', file.name, file)
+    } catch (error) {
+      console.error('Error starting import job:', error)
+      alert('Failed to start the import. Please try again.')
+      setUploading(false)
+      return
+    }
 
-      // Insert new MSL items
-      const insertData = validItems.map(item => ({
-        category: item.category,
-        sku_code: item.sku_code,
-        product_name: item.product_name,
-        priority: item.priority,
-        notes: item.notes || null
-      }))
-
-      const { error: insertError } = await supabase
-        .from('msl_items')
-        .insert(insertData)
-
-      if (insertError) throw insertError
-
-      // Create result summary
-      const result: { [category: string]: number } = {}
-      categorySummary.forEach(cat => {
-        result[cat.category] = cat.count
+    const jobRows: ImportJobRow[] = parsedItems.filter(item => !item.isValid).map(item => ({
+      row_number: item.row,
+      outcome: 'invalid',
+      message: item.error || null,
+      record_table: null,
+      record_id: null,
+      before_image: null,
+      after_image: null
+    }))
+
+    try {
+      // One new version per category or cluster list in the file; other lists keep their current version.
+      // The server records the published rows on the job, so rolling it back retracts those versions
+      await publishMSLImport(
+        jobId,
+        effectiveFrom,
+        notes.trim() || null,
+        categorySummary.map(cat => ({
+          category: cat.category,
+          cluster_id: cat.cluster_id,
+          items: cat.items.map(item => ({ ...toListItem(item), row_number: item.row }))
+        }))
+      )
+    } catch (error) {
+      console.error('Error publishing MSL:', error)
+      alert('Failed to publish MSL. Please try again.')
+
+      // The lists are published in one transaction, so every valid row failed
+      const message = (error as { message?: string })?.message || String(error)
+      parsedItems.filter(item => item.isValid).forEach(item => {
+        jobRows.push({ row_number: item.row, outcome: 'failed', message, record_table: null, record_id: null, before_image: null, after_image: null })
       })
 
-      setUploadResult(result)
-      
-      setTimeout(() => {
-        onSuccess()
-        onClose()
-      }, 2000)
+      try {
+        await finishImportJob(jobId, jobRows)
+      } catch (jobError) {
+        console.error('Error saving import job:', jobError)
+      }
+      setUploading(false)
+      return
+    }
 
+    try {
+      await finishImportJob(jobId, jobRows)
     } catch (error) {
-      console.error('Error uploading MSL:', error)
-      alert('Failed to upload MSL. Please try again.')
-    } finally {
-      setUploading(false)
+      console.error('Error saving import job:', error)
+      alert('The MSL was published, but the import history could not be saved.')
     }
+
+    // Create result summary
+    const result: { [category: string]: number } = {}
+    categorySummary.forEach(cat => {
+      result[getListLabel(cat)] = cat.count
+    })
+
+    setUploadResult(result)
+    setUploading(false)
+    
+    setTimeout(() => {
+      onSuccess()
+      onClose()
+    }, 2000)
   }
 
   return (
@@ -223,7 +332,7 @@ GT Small Cosmetics,GAR003,Garnier Travel Size,2,Impulse purchase`
             </div>
             <div>
               <h2 className="text-xl font-semibold text-gray-900">Upload MSL (Must Selling List)</h2>
-              <p className="text-sm text-gray-600">Upload CSV to completely replace current MSL data</p>
+              <p className="text-sm text-gray-600">Upload CSV to publish a new MSL version</p>
             </div>
           </div>
           <button
@@ -235,21 +344,29 @@ GT Small Cosmetics,GAR003,Garnier Travel Size,2,Impulse purchase`
         </div>
 
         <div className="p-6 space-y-6">
-          {!showPreview ? (
+          {sourceTable ? (
+            <ColumnMappingStep
+              importType="msl"
+              table={sourceTable}
+              onBack={() => setSourceTable(null)}
+              onApply={parseCsv}
+            />
+          ) : !showPreview ? (
             <>
               {/* Warning Notice */}
               <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-4">
                 <div className="flex items-start space-x-3">
                   <AlertCircle className="h-5 w-5 text-yellow-600 mt-0.5" />
                   <div>
-                    <h3 className="font-medium text-yellow-900 mb-2">Complete MSL Replacement</h3>
+                    <h3 className="font-medium text-yellow-900 mb-2">New MSL Version</h3>
                     <p className="text-sm text-yellow-700 mb-3">
-                      This upload will completely replace ALL existing MSL data. All current MSL items will be deleted and replaced with the CSV content.
+                      Every category in the CSV gets a new MSL version with exactly the items in the file. Earlier versions stay in the history and can be rolled back.
                     </p>
                     <ul className="text-sm text-yellow-700 space-y-1">
                       <li>• Use this for monthly MSL updates</li>
-                      <li>• Ensure your CSV contains the complete MSL for all categories</li>
-                      <li>• Missing categories will be removed from the system</li>
+                      <li>• Ensure your CSV contains the complete MSL of each category it lists</li>
+                      <li>• Categories not in the CSV keep their current version</li>
+                      <li>• The new version can start today or be scheduled for a later date</li>
                     </ul>
                   </div>
                 </div>
@@ -263,16 +380,18 @@ GT Small Cosmetics,GAR003,Garnier Travel Size,2,Impulse purchase`
                     <div>
                       <h3 className="font-medium text-blue-900 mb-2">CSV Format Required</h3>
                       <p className="text-sm text-blue-700 mb-3">
-                        Required columns: CATEGORY, SKU_CODE, PRODUCT_NAME, PRIORITY
+                        Required columns: CATEGORY, SKU_CODE, PRIORITY
                       </p>
                       <p className="text-sm text-blue-700 mb-3">
-                        Optional columns: NOTES
+                        Optional columns: CLUSTER, PRODUCT_NAME, NOTES
                       </p>
                       <ul className="text-sm text-blue-700 space-y-1">
                         <li>• First row must be headers</li>
-                        <li>• Use comma as delimiter</li>
+                        <li>• Use comma or semicolon as delimiter; quote values that contain one</li>
+                        <li>• Every SKU must exist in the product master; product names are taken from there</li>
                         <li>• Priority must be positive integers (1, 2, 3...)</li>
                         <li>• Categories can be any text value</li>
+                        <li>• Leave CLUSTER empty for the category list, or use an existing cluster name of that category</li>
                         <li>• Lower priority numbers = higher importance</li>
                       </ul>
                     </div>
@@ -288,22 +407,7 @@ GT Small Cosmetics,GAR003,Garnier Travel Size,2,Impulse purchase`
               </div>
 
               {/* File Upload */}
-              <div>
-                <label className="block text-sm font-medium text-gray-700 mb-2">
-                  Select CSV File
-                </label>
-                <input
-                  type="file"
-                  accept=".csv"
-                  onChange={handleFileChange}
-                  className="w-full p-3 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
-                />
-                {file && (
-                  <p className="text-sm text-gray-600 mt-2">
-                    Selected: {file.name} ({(file.size / 1024).toFixed(1)} KB)
-                  </p>
-                )}
-              </div>
+              <ImportFilePicker importFile={importFile} />
 
               {/* Parse Button */}
               <div className="flex justify-end space-x-3">
@@ -314,11 +418,11 @@ GT Small Cosmetics,GAR003,Garnier Travel Size,2,Impulse purchase`
                   Cancel
                 </button>
                 <button
-                  onClick={parseCsv}
+                  onClick={readFile}
                   disabled={!file}
                   className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
                 >
-                  Parse CSV
+                  Parse File
                 </button>
               </div>
             </>
@@ -342,7 +446,7 @@ GT Small Cosmetics,GAR003,Garnier Travel Size,2,Impulse purchase`
                     <div className="flex items-center space-x-2">
                       <FileText className="h-5 w-5 text-blue-600" />
                       <span className="font-medium text-blue-900">
-                        {categorySummary.length} Categories
+                        {categorySummary.length} MSL Lists
                       </span>
                     </div>
                   </div>
@@ -356,14 +460,55 @@ GT Small Cosmetics,GAR003,Garnier Travel Size,2,Impulse purchase`
                   </div>
                 </div>
 
-                {/* Category Summary */}
+                {/* Changes per category */}
                 <div className="mb-6">
-                  <h4 className="font-medium text-gray-900 mb-3">Categories to be updated:</h4>
-                  <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-3">
+                  <h4 className="font-medium text-gray-900 mb-3">Changes against the current version:</h4>
+                  <div className="space-y-3">
                     {categorySummary.map((cat) => (
-                      <div key={cat.category} className="bg-gray-50 border border-gray-200 rounded-lg p-3">
-                        <div className="font-medium text-gray-900">{cat.category}</div>
-                        <div className="text-sm text-gray-600">{cat.count} MSL items</div>
+                      <div key={getListLabel(cat)} className="border border-gray-200 rounded-lg">
+                        <div className="flex items-center justify-between bg-gray-50 p-3 rounded-t-lg">
+                          <div>
+                            <span className="font-medium text-gray-900">{getListLabel(cat)}</span>
+                            <span className="text-sm text-gray-600 ml-2">{cat.count} MSL items</span>
+                          </div>
+                          <div className="flex items-center space-x-3 text-sm">
+                            <span className="text-green-600">+{cat.diff.added.length} added</span>
+                            <span className="text-red-600">-{cat.diff.removed.length} removed</span>
+                            <span className="text-blue-600">{cat.diff.reprioritised.length} re-prioritised</span>
+                          </div>
+                        </div>
+                        {cat.diff.added.length + cat.diff.removed.length + cat.diff.reprioritised.length === 0 ? (
+                          <p className="p-3 text-sm text-gray-500">Same as the current version</p>
+                        ) : (
+                          <table className="w-full text-sm">
+                            <tbody>
+                              {cat.diff.added.map((item) => (
+                                <tr key={`added-${item.sku_code}`} className="border-t border-gray-100">
+                                  <td className="p-3 w-24 text-green-600 font-medium">Added</td>
+                                  <td className="p-3 font-mono text-gray-900">{item.sku_code}</td>
+                                  <td className="p-3 text-gray-900">{item.product_name}</td>
+                                  <td className="p-3 text-gray-600">Priority {item.priority}</td>
+                                </tr>
+                              ))}
+                              {cat.diff.removed.map((item) => (
+                                <tr key={`removed-${item.sku_code}`} className="border-t border-gray-100">
+                                  <td className="p-3 w-24 text-red-600 font-medium">Removed</td>
+                                  <td className="p-3 font-mono text-gray-900">{item.sku_code}</td>
+                                  <td className="p-3 text-gray-900">{item.product_name}</td>
+                                  <td className="p-3 text-gray-600">Priority {item.priority}</td>
+                                </tr>
+                              ))}
+                              {cat.diff.reprioritised.map(({ item, previousPriority }) => (
+                                <tr key={`moved-${item.sku_code}`} className="border-t border-gray-100">
+                                  <td className="p-3 w-24 text-blue-600 font-medium">Priority</td>
+                                  <td className="p-3 font-mono text-gray-900">{item.sku_code}</td>
+                                  <td className="p-3 text-gray-900">{item.product_name}</td>
+                                  <td className="p-3 text-gray-600">{previousPriority} → {item.priority}</td>
+                                </tr>
+                              ))}
+                            </tbody>
+                          </table>
+                        )}
                       </div>
                     ))}
                   </div>
@@ -397,6 +542,64 @@ GT Small Cosmetics,GAR003,Garnier Travel Size,2,Impulse purchase`
                     </div>
                   </div>
                 )}
+
+                {/* Warning Items */}
+                {parsedItems.filter(item => item.isValid && item.warning).length > 0 && (
+                  <div className="mb-6">
+                    <h4 className="font-medium text-yellow-900 mb-3">Items with warnings (will be published):</h4>
+                    <div className="max-h-32 overflow-y-auto border border-yellow-200 rounded-lg">
+                      <table className="w-full text-sm">
+                        <thead className="bg-yellow-50 sticky top-0">
+                          <tr>
+                            <th className="text-left p-3 font-medium text-yellow-700">Category</th>
+                            <th className="text-left p-3 font-medium text-yellow-700">SKU</th>
+                            <th className="text-left p-3 font-medium text-yellow-700">Product</th>
+                            <th className="text-left p-3 font-medium text-yellow-700">Warning</th>
+                          </tr>
+                        </thead>
+                        <tbody>
+                          {parsedItems.filter(item => item.isValid && item.warning).map((item, index) => (
+                            <tr key={index} className="border-t border-yellow-100">
+                              <td className="p-3">{item.category}</td>
+                              <td className="p-3 font-mono text-gray-900">{item.sku_code}</td>
+                              <td className="p-3 text-gray-900">{item.product_name}</td>
+                              <td className="p-3 text-yellow-700 text-xs">{item.warning}</td>
+                            </tr>
+                          ))}
+                        </tbody>
+                      </table>
+                    </div>
+                  </div>
+                )}
+              </div>
+
+              {/* Version details */}
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    Effective From
+                  </label>
+                  <input
+                    type="date"
+                    value={effectiveFrom}
+                    min={new Date().toISOString().split('T')[0]}
+                    onChange={(e) => setEffectiveFrom(e.target.value)}
+                    className="w-full p-3 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  />
+                  <p className="text-xs text-gray-500 mt-1">Today publishes now, a later date schedules the version</p>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    Notes
+                  </label>
+                  <input
+                    type="text"
+                    value={notes}
+                    onChange={(e) => setNotes(e.target.value)}
+                    placeholder="e.g. MSL Q3"
+                    className="w-full p-3 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  />
+                </div>
               </div>
 
               {/* Upload Result */}
@@ -404,7 +607,9 @@ GT Small Cosmetics,GAR003,Garnier Travel Size,2,Impulse purchase`
                 <div className="bg-green-50 border border-green-200 rounded-lg p-4">
                   <div className="flex items-center space-x-2 mb-2">
                     <CheckCircle className="h-5 w-5 text-green-600" />
-                    <span className="font-medium text-green-900">MSL Updated Successfully!</span>
+                    <span className="font-medium text-green-900">
+                      {effectiveFrom > new Date().toISOString().split('T')[0] ? `MSL Scheduled for ${effectiveFrom}!` : 'MSL Published Successfully!'}
+                    </span>
                   </div>
                   <div className="text-sm text-green-700">
                     {Object.entries(uploadResult).map(([category, count]) => (
@@ -427,18 +632,18 @@ GT Small Cosmetics,GAR003,Garnier Travel Size,2,Impulse purchase`
                 </button>
                 <button
                   onClick={uploadMSL}
-                  disabled={uploading || parsedItems.filter(item => item.isValid).length === 0}
-                  className="px-4 py-2 bg-red-600 text-white rounded-lg hover:bg-red-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors flex items-center space-x-2"
+                  disabled={uploading || parsedItems.filter(item => item.isValid).length === 0 || !effectiveFrom}
+                  className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors flex items-center space-x-2"
                 >
                   {uploading ? (
                     <>
                       <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-white"></div>
-                      <span>Uploading...</span>
+                      <span>Publishing...</span>
                     </>
                   ) : (
                     <>
-                      <Trash2 className="h-4 w-4" />
-                      <span>Replace All MSL Data ({parsedItems.filter(item => item.isValid).length} items)</span>
+                      <Upload className="h-4 w-4" />
+                      <span>Publish MSL ({parsedItems.filter(item => item.isValid).length} items)</span>
                     </>
                   )}
                 </button>
@@ -13,9 +13,14 @@ import {
   X,
   GripVertical,
   Store,
-  Package
+  Package,
+  Layers
 } from 'lucide-react'
 import MSLCsvUpload from './MSLCsvUpload'
+import MSLComplianceSnapshots from './MSLComplianceSnapshots'
+import MSLVersionHistory from './MSLVersionHistory'
+import StoreClusterManagement from './StoreClusterManagement'
+import { Promotion, PROMOTION_COLUMNS, findPromotionForProduct } from '@/lib/promotions'
 
 interface MSLManagementProps {
   user: User
@@ -29,6 +34,25 @@ interface MSLItem {
   product_name: string
   priority: number
   notes: string | null
+  product_id: string | null
+  cluster_id: string | null
+}
+
+interface StoreCluster {
+  id: string
+  name: string
+  category: string
+}
+
+// Current product master data of an MSL line
+interface MSLProduct {
+  id: string
+  sku_code: string
+  product_name: string
+  brand: string | null
+  category: string
+  unit_price: number
+  is_active: boolean
 }
 
 interface CategoryStats {
@@ -45,14 +69,23 @@ export default function MSLManagement({ user, userRole }: MSLManagementProps) {
   const [loading, setLoading] = useState(true)
   const [showCsvUpload, setShowCsvUpload] = useState(false)
   const [draggedItem, setDraggedItem] = useState<MSLItem | null>(null)
+  const [versionsKey, setVersionsKey] = useState(0)
+  const [products, setProducts] = useState<Map<string, MSLProduct>>(new Map())
+  const [promotions, setPromotions] = useState<Promotion[]>([])
+  const [clusters, setClusters] = useState<StoreCluster[]>([])
+  // Null shows the category list, otherwise the list of that cluster of the category
+  const [activeClusterId, setActiveClusterId] = useState<string | null>(null)
+  const [showClusterManagement, setShowClusterManagement] = useState(false)
 
   useEffect(() => {
     fetchMSLData()
     fetchCategoryStats()
+    fetchClusters()
     
     // Listen for category change events from store directory
     const handleCategoryChange = (event: CustomEvent) => {
       setActiveTab(event.detail)
+      setActiveClusterId(null)
     }
     
     window.addEventListener('setMSLCategory', handleCategoryChange as EventListener)
@@ -73,9 +106,15 @@ export default function MSLManagement({ user, userRole }: MSLManagementProps) {
       if (error) throw error
 
       setMslItems(data || [])
-      
+      fetchMSLProducts((data || []).map(item => item.product_id).filter(Boolean))
+
+      // Categories with only a scheduled version have no current items yet
+      const { data: versionData } = await supabase
+        .from('msl_versions')
+        .select('category')
+
       // Extract unique categories
-      const uniqueCategories = [...new Set((data || []).map(item => item.category))]
+      const uniqueCategories = Array.from(new Set([...(data || []), ...(versionData || [])].map(item => item.category)))
       setCategories(uniqueCategories)
       
       // Set first category as active tab
@@ -91,12 +130,53 @@ export default function MSLManagement({ user, userRole }: MSLManagementProps) {
     }
   }
 
+  const fetchClusters = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('store_clusters')
+        .select('id, name, category')
+        .order('name')
+
+      if (error) throw error
+      setClusters(data || [])
+    } catch (error) {
+      console.error('Error fetching store clusters:', error)
+      setClusters([])
+    }
+  }
+
+  const fetchMSLProducts = async (productIds: string[]) => {
+    try {
+      const [{ data, error }, { data: promotionsData, error: promotionsError }] = await Promise.all([
+        supabase
+          .from('products')
+          .select('id, sku_code, product_name, brand, category, unit_price, is_active')
+          .in('id', productIds),
+        supabase
+          .from('promotions')
+          .select(PROMOTION_COLUMNS)
+          .eq('is_active', true)
+      ])
+
+      if (error) throw error
+      if (promotionsError) throw promotionsError
+
+      setProducts(new Map((data || []).map(product => [product.id, product])))
+      setPromotions(promotionsData || [])
+    } catch (error) {
+      console.error('Error fetching MSL products:', error)
+      setProducts(new Map())
+      setPromotions([])
+    }
+  }
+
   const fetchCategoryStats = async () => {
     try {
-      // Get MSL item counts per category
+      // Get MSL item counts per category, without the cluster lists
       const { data: mslData, error: mslError } = await supabase
         .from('msl_items')
         .select('category')
+        .is('cluster_id', null)
 
       if (mslError) throw mslError
 
@@ -138,11 +218,16 @@ export default function MSLManagement({ user, userRole }: MSLManagementProps) {
     fetchCategoryStats()
   }
 
+  const handleMSLPublished = () => {
+    handleMSLUploadSuccess()
+    setVersionsKey(key => key + 1)
+  }
+
   const exportMSL = () => {
     const csvContent = [
-      'CATEGORY,SKU_CODE,PRODUCT_NAME,PRIORITY,NOTES',
+      'CATEGORY,CLUSTER,SKU_CODE,PRODUCT_NAME,PRIORITY,NOTES',
       ...mslItems.map(item => 
-        `${item.category},${item.sku_code},"${item.product_name}",${item.priority},"${item.notes || ''}"`
+        `${item.category},${clusters.find(cluster => cluster.id === item.cluster_id)?.name || ''},${item.sku_code},"${(item.product_id && products.get(item.product_id)?.product_name) || item.product_name}",${item.priority},"${item.notes || ''}"`
       )
     ].join('\n')
 
@@ -174,16 +259,16 @@ export default function MSLManagement({ user, userRole }: MSLManagementProps) {
     }
 
     try {
-      // Update priorities in database
+      // Priorities are edited on the version in effect; changing the SKUs needs a new version
       const { error } = await supabase
-        .from('msl_items')
+        .from('msl_version_items')
         .update({ priority: targetItem.priority })
         .eq('id', draggedItem.id)
 
       if (error) throw error
 
       const { error: error2 } = await supabase
-        .from('msl_items')
+        .from('msl_version_items')
         .update({ priority: draggedItem.priority })
         .eq('id', targetItem.id)
 
@@ -198,10 +283,14 @@ export default function MSLManagement({ user, userRole }: MSLManagementProps) {
     setDraggedItem(null)
   }
 
+  const today = new Date().toISOString().split('T')[0]
+
   const getActiveTabItems = () => {
-    return mslItems.filter(item => item.category === activeTab)
+    return mslItems.filter(item => item.category === activeTab && item.cluster_id === activeClusterId)
   }
 
+  const activeTabClusters = clusters.filter(cluster => cluster.category === activeTab)
+
   const getCategoryStats = (category: string) => {
     return categoryStats.find(stat => stat.category === category)
   }
@@ -222,6 +311,15 @@ export default function MSLManagement({ user, userRole }: MSLManagementProps) {
             <Download className="h-4 w-4 mr-2" />
             Export MSL
           </button>
+          {userRole === 'admin' && (
+            <button
+              onClick={() => setShowClusterManagement(true)}
+              className="inline-flex items-center px-4 py-2 bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 transition-colors"
+            >
+              <Layers className="h-4 w-4 mr-2" />
+              Cluster & Override
+            </button>
+          )}
           {userRole === 'admin' && (
             <button 
               onClick={() => setShowCsvUpload(true)}
@@ -269,7 +367,10 @@ export default function MSLManagement({ user, userRole }: MSLManagementProps) {
                   return (
                     <button
                       key={category}
-                      onClick={() => setActiveTab(category)}
+                      onClick={() => {
+                        setActiveTab(category)
+                        setActiveClusterId(null)
+                      }}
                       className={`py-4 px-1 border-b-2 font-medium text-sm whitespace-nowrap ${
                         activeTab === category
                           ? 'border-blue-500 text-blue-600'
@@ -292,9 +393,28 @@ export default function MSLManagement({ user, userRole }: MSLManagementProps) {
             <div className="p-6">
               {activeTab && (
                 <div className="space-y-3">
+                  {activeTabClusters.length > 0 && (
+                    <div className="flex flex-wrap gap-2 mb-4">
+                      {[{ id: null, name: `Semua ${activeTab}` }, ...activeTabClusters].map((cluster) => (
+                        <button
+                          key={cluster.id || 'category'}
+                          onClick={() => setActiveClusterId(cluster.id)}
+                          className={`px-3 py-1 rounded-full text-sm font-medium transition-colors ${
+                            activeClusterId === cluster.id
+                              ? 'bg-blue-600 text-white'
+                              : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+                          }`}
+                        >
+                          {cluster.name}
+                        </button>
+                      ))}
+                    </div>
+                  )}
                   <div className="flex items-center justify-between mb-4">
                     <h3 className="text-lg font-semibold text-gray-900">
-                      {activeTab} MSL Items
+                      {activeClusterId
+                        ? `Cluster ${clusters.find(cluster => cluster.id === activeClusterId)?.name} MSL Items`
+                        : `${activeTab} MSL Items`}
                     </h3>
                     <div className="text-sm text-gray-500">
                       {getActiveTabItems().length} items • Drag to reorder priority
@@ -303,52 +423,96 @@ export default function MSLManagement({ user, userRole }: MSLManagementProps) {
 
                   {getActiveTabItems().length === 0 ? (
                     <div className="text-center py-8 text-gray-500">
-                      No MSL items for this category
+                      {activeClusterId
+                        ? 'No MSL items for this cluster; its stores use the category list'
+                        : 'No MSL items for this category'}
                     </div>
                   ) : (
                     <div className="space-y-2">
-                      {getActiveTabItems().map((item) => (
-                        <div
-                          key={item.id}
-                          draggable={userRole === 'admin'}
-                          onDragStart={() => handleDragStart(item)}
-                          onDragOver={handleDragOver}
-                          onDrop={(e) => handleDrop(e, item)}
-                          className={`flex items-center p-4 bg-gray-50 rounded-lg border border-gray-200 hover:bg-gray-100 transition-colors ${
-                            userRole === 'admin' ? 'cursor-move' : ''
-                          } ${draggedItem?.id === item.id ? 'opacity-50' : ''}`}
-                        >
-                          {userRole === 'admin' && (
-                            <GripVertical className="h-5 w-5 text-gray-400 mr-3" />
-                          )}
-                          
-                          <div className="flex items-center justify-center w-8 h-8 bg-blue-100 text-blue-600 rounded-full text-sm font-bold mr-4">
-                            {item.priority}
-                          </div>
-                          
-                          <div className="flex-1 min-w-0">
-                            <div className="flex items-center space-x-3 mb-1">
-                              <span className="font-mono text-sm text-gray-600 bg-gray-200 px-2 py-1 rounded">
-                                {item.sku_code}
-                              </span>
-                              <h4 className="font-medium text-gray-900 truncate">
-                                {item.product_name}
-                              </h4>
+                      {getActiveTabItems().map((item) => {
+                        const product = item.product_id ? products.get(item.product_id) : undefined
+                        const promotion = product ? findPromotionForProduct(promotions, product, today, activeTab) : null
+
+                        return (
+                          <div
+                            key={item.id}
+                            draggable={userRole === 'admin'}
+                            onDragStart={() => handleDragStart(item)}
+                            onDragOver={handleDragOver}
+                            onDrop={(e) => handleDrop(e, item)}
+                            className={`flex items-center p-4 bg-gray-50 rounded-lg border border-gray-200 hover:bg-gray-100 transition-colors ${
+                              userRole === 'admin' ? 'cursor-move' : ''
+                            } ${draggedItem?.id === item.id ? 'opacity-50' : ''}`}
+                          >
+                            {userRole === 'admin' && (
+                              <GripVertical className="h-5 w-5 text-gray-400 mr-3" />
+                            )}
+
+                            <div className="flex items-center justify-center w-8 h-8 bg-blue-100 text-blue-600 rounded-full text-sm font-bold mr-4">
+                              {item.priority}
                             </div>
-                            {item.notes && (
-                              <p className="text-sm text-gray-600 truncate">
-                                {item.notes}
-                              </p>
+
+                            <div className="flex-1 min-w-0">
+                              <div className="flex items-center space-x-3 mb-1">
+                                <span className="font-mono text-sm text-gray-600 bg-gray-200 px-2 py-1 rounded">
+                                  {product?.sku_code || item.sku_code}
+                                </span>
+                                <h4 className="font-medium text-gray-900 truncate">
+                                  {product?.product_name || item.product_name}
+                                </h4>
+                                {!product ? (
+                                  <span className="px-2 py-0.5 rounded-full text-xs font-medium bg-red-100 text-red-800">
+                                    Tidak ada di master produk
+                                  </span>
+                                ) : !product.is_active && (
+                                  <span className="px-2 py-0.5 rounded-full text-xs font-medium bg-red-100 text-red-800">
+                                    Inactive
+                                  </span>
+                                )}
+                              </div>
+                              {item.notes && (
+                                <p className="text-sm text-gray-600 truncate">
+                                  {item.notes}
+                                </p>
+                              )}
+                            </div>
+
+                            {product && (
+                              <div className="text-right ml-4">
+                                {promotion ? (
+                                  <>
+                                    <div className="text-sm font-bold text-red-600">
+                                      Rp {(product.unit_price * (1 - promotion.discount_percentage / 100)).toLocaleString('id-ID')}
+                                    </div>
+                                    <div className="text-xs text-gray-500">
+                                      <span className="line-through">Rp {product.unit_price.toLocaleString('id-ID')}</span>
+                                      <span className="ml-1 text-red-600" title={promotion.promo_name}>-{promotion.discount_percentage}%</span>
+                                    </div>
+                                  </>
+                                ) : (
+                                  <div className="text-sm font-bold text-gray-900">
+                                    Rp {product.unit_price.toLocaleString('id-ID')}
+                                  </div>
+                                )}
+                              </div>
                             )}
                           </div>
-                        </div>
-                      ))}
+                        )
+                      })}
                     </div>
                   )}
                 </div>
               )}
             </div>
           </div>
+
+          {activeTab && (
+            <MSLVersionHistory key={versionsKey} category={activeTab} clusterId={activeClusterId} userRole={userRole} onChange={handleMSLUploadSuccess} />
+          )}
+
+          {activeTab && (
+            <MSLComplianceSnapshots category={activeTab} userRole={userRole} />
+          )}
         </>
       )}
 
@@ -356,7 +520,17 @@ export default function MSLManagement({ user, userRole }: MSLManagementProps) {
       {showCsvUpload && (
         <MSLCsvUpload
           onClose={() => setShowCsvUpload(false)}
-          onSuccess={handleMSLUploadSuccess}
+          onSuccess={handleMSLPublished}
+        />
+      )}
+
+      {showClusterManagement && (
+        <StoreClusterManagement
+          user={user}
+          onClose={() => {
+            setShowClusterManagement(false)
+            fetchClusters()
+          }}
         />
       )}
     </div>
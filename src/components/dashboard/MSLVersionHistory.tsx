@@ -0,0 +1,194 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { supabase } from '@/lib/supabase'
+import { History, ChevronDown, ChevronRight, RotateCcw, Trash2 } from 'lucide-react'
+import { MSLVersion, MSLVersionStatus, diffMSL, fetchMSLVersions, getMSLVersionStatus, publishMSLVersions } from '@/lib/msl'
+
+interface MSLVersionHistoryProps {
+  category: string
+  // Null for the category list
+  clusterId: string | null
+  userRole: string
+  // Called after a rollback or a cancelled schedule so the current list is reloaded
+  onChange: () => void
+}
+
+const STATUS_STYLES: Record<MSLVersionStatus, { label: string; className: string }> = {
+  scheduled: { label: 'Terjadwal', className: 'bg-yellow-100 text-yellow-800' },
+  current: { label: 'Berlaku', className: 'bg-green-100 text-green-800' },
+  superseded: { label: 'Lama', className: 'bg-gray-100 text-gray-600' }
+}
+
+export default function MSLVersionHistory({ category, clusterId, userRole, onChange }: MSLVersionHistoryProps) {
+  const [versions, setVersions] = useState<MSLVersion[]>([])
+  const [loading, setLoading] = useState(true)
+  const [expandedVersionId, setExpandedVersionId] = useState<string | null>(null)
+  const [saving, setSaving] = useState(false)
+
+  const today = new Date().toISOString().split('T')[0]
+
+  useEffect(() => {
+    fetchVersions()
+  }, [category, clusterId])
+
+  const fetchVersions = async () => {
+    setLoading(true)
+    try {
+      setVersions(await fetchMSLVersions(category, clusterId))
+    } catch (error) {
+      console.error('Error fetching MSL versions:', error)
+      setVersions([])
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  // A rollback publishes a copy of the old version, so the history keeps what was in effect when
+  const rollback = async (version: MSLVersion) => {
+    if (!confirm(`Kembalikan MSL ${category} ke versi ${version.version} mulai hari ini?`)) return
+
+    setSaving(true)
+    try {
+      await publishMSLVersions(today, `Rollback ke versi ${version.version}`, [
+        { category, cluster_id: clusterId, items: version.msl_version_items }
+      ])
+      await fetchVersions()
+      onChange()
+    } catch (error) {
+      console.error('Error rolling back MSL:', error)
+      alert('Gagal mengembalikan versi MSL. Silakan coba lagi.')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const cancelScheduled = async (version: MSLVersion) => {
+    if (!confirm(`Batalkan versi ${version.version} yang dijadwalkan mulai ${version.effective_from}?`)) return
+
+    setSaving(true)
+    try {
+      const { error } = await supabase
+        .from('msl_versions')
+        .delete()
+        .eq('id', version.id)
+
+      if (error) throw error
+      await fetchVersions()
+      onChange()
+    } catch (error) {
+      console.error('Error cancelling MSL version:', error)
+      alert('Gagal membatalkan versi MSL. Silakan coba lagi.')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6">
+      <div className="flex items-center justify-between mb-4">
+        <div>
+          <h3 className="text-lg font-semibold text-gray-900">Riwayat Versi MSL</h3>
+          <p className="text-sm text-gray-600">{category} • perubahan dibanding versi sebelumnya</p>
+        </div>
+        <History className="h-5 w-5 text-gray-400" />
+      </div>
+
+      {loading ? (
+        <div className="flex items-center justify-center py-8">
+          <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-blue-600"></div>
+        </div>
+      ) : versions.length === 0 ? (
+        <div className="text-center py-8 text-gray-500">
+          Belum ada versi untuk daftar MSL ini
+        </div>
+      ) : (
+        <div className="space-y-2">
+          {versions.map((version, index) => {
+            const status = getMSLVersionStatus(version, versions, today)
+            const previous = versions[index + 1]
+            const diff = diffMSL(previous?.msl_version_items || [], version.msl_version_items)
+            const expanded = expandedVersionId === version.id
+
+            return (
+              <div key={version.id} className="border border-gray-200 rounded-lg">
+                <div className="flex items-center justify-between p-3">
+                  <button
+                    onClick={() => setExpandedVersionId(expanded ? null : version.id)}
+                    className="flex items-center space-x-3 text-left flex-1 min-w-0"
+                  >
+                    {expanded ? <ChevronDown className="h-4 w-4 text-gray-400" /> : <ChevronRight className="h-4 w-4 text-gray-400" />}
+                    <span className="font-medium text-gray-900">v{version.version}</span>
+                    <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${STATUS_STYLES[status].className}`}>
+                      {STATUS_STYLES[status].label}
+                    </span>
+                    <span className="text-sm text-gray-600">
+                      {version.effective_from === '-infinity' ? 'Sejak awal' : `Mulai ${version.effective_from}`}
+                    </span>
+                    <span className="text-sm text-gray-500">{version.msl_version_items.length} SKU</span>
+                    {previous && (
+                      <span className="text-xs text-gray-500">
+                        +{diff.added.length} / -{diff.removed.length} / {diff.reprioritised.length} prioritas
+                      </span>
+                    )}
+                    {version.notes && <span className="text-sm text-gray-500 truncate">• {version.notes}</span>}
+                  </button>
+                  {userRole === 'admin' && status === 'superseded' && (
+                    <button
+                      onClick={() => rollback(version)}
+                      disabled={saving}
+                      className="inline-flex items-center px-3 py-1 text-sm text-blue-600 hover:bg-blue-50 rounded-lg disabled:opacity-50 transition-colors"
+                    >
+                      <RotateCcw className="h-4 w-4 mr-1" />
+                      Rollback
+                    </button>
+                  )}
+                  {userRole === 'admin' && status === 'scheduled' && (
+                    <button
+                      onClick={() => cancelScheduled(version)}
+                      disabled={saving}
+                      className="inline-flex items-center px-3 py-1 text-sm text-red-600 hover:bg-red-50 rounded-lg disabled:opacity-50 transition-colors"
+                    >
+                      <Trash2 className="h-4 w-4 mr-1" />
+                      Batalkan
+                    </button>
+                  )}
+                </div>
+
+                {expanded && (
+                  <table className="w-full text-sm border-t border-gray-100">
+                    <tbody>
+                      {version.msl_version_items.map((item) => {
+                        const added = previous && diff.added.some(a => a.sku_code === item.sku_code)
+                        const moved = diff.reprioritised.find(r => r.item.sku_code === item.sku_code)
+                        return (
+                          <tr key={item.sku_code} className="border-b border-gray-50 last:border-b-0">
+                            <td className="px-3 py-2 w-12 text-gray-600">{item.priority}</td>
+                            <td className="px-3 py-2 font-mono text-gray-900">{item.sku_code}</td>
+                            <td className="px-3 py-2 text-gray-900">{item.product_name}</td>
+                            <td className="px-3 py-2 text-xs">
+                              {added && <span className="text-green-600">Baru</span>}
+                              {moved && <span className="text-blue-600">Prioritas {moved.previousPriority} → {item.priority}</span>}
+                            </td>
+                          </tr>
+                        )
+                      })}
+                      {previous && diff.removed.map((item) => (
+                        <tr key={`removed-${item.sku_code}`} className="border-b border-gray-50 last:border-b-0 text-gray-400">
+                          <td className="px-3 py-2 w-12">-</td>
+                          <td className="px-3 py-2 font-mono line-through">{item.sku_code}</td>
+                          <td className="px-3 py-2 line-through">{item.product_name}</td>
+                          <td className="px-3 py-2 text-xs text-red-600">Dihapus</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                )}
+              </div>
+            )
+          })}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -1,9 +1,16 @@
 'use client'
 
 import { User } from '@supabase/supabase-js'
-import { Users, Settings, Shield, Bell, Database, Upload } from 'lucide-react'
+import { Users, Settings, Shield, Bell, Database, Upload, MapPin, CalendarDays, Tag, Wallet, History } from 'lucide-react'
 import { useState } from 'react'
 import ProductImport from './ProductImport'
+import AppSettingsModal from './AppSettingsModal'
+import GeofenceExceptions from './GeofenceExceptions'
+import JourneyPlanManagement from './JourneyPlanManagement'
+import PromotionManagement from './PromotionManagement'
+import TargetManagement from './TargetManagement'
+import IncentiveManagement from './IncentiveManagement'
+import ImportJobHistory from './ImportJobHistory'
 
 interface ManagementProps {
   user: User
@@ -12,6 +19,13 @@ interface ManagementProps {
 
 export default function Management({ user, userRole }: ManagementProps) {
   const [showProductImport, setShowProductImport] = useState(false)
+  const [showAppSettings, setShowAppSettings] = useState(false)
+  const [showGeofenceExceptions, setShowGeofenceExceptions] = useState(false)
+  const [showJourneyPlan, setShowJourneyPlan] = useState(false)
+  const [showPromotions, setShowPromotions] = useState(false)
+  const [showTargets, setShowTargets] = useState(false)
+  const [showIncentives, setShowIncentives] = useState(false)
+  const [showImportJobs, setShowImportJobs] = useState(false)
 
   const managementSections = [
     {
@@ -33,12 +47,63 @@ export default function Management({ user, userRole }: ManagementProps) {
         'Product analytics'
       ]
     },
+    {
+      title: 'Promotions',
+      description: 'Schedule trade promotions and discounts',
+      icon: Tag,
+      color: 'red',
+      items: [
+        { name: 'Manage promotions', action: () => setShowPromotions(true) }
+      ]
+    },
+    {
+      title: 'Sales Planning',
+      description: 'Plan store visits for the sales team',
+      icon: CalendarDays,
+      color: 'green',
+      items: [
+        { name: 'Journey plan', action: () => setShowJourneyPlan(true) },
+        { name: 'Sales targets', action: () => setShowTargets(true) }
+      ]
+    },
+    {
+      title: 'Incentives',
+      description: 'Commission rules and monthly statements',
+      icon: Wallet,
+      color: 'green',
+      items: [
+        { name: 'Incentive rules & statements', action: () => setShowIncentives(true) }
+      ]
+    },
+    {
+      title: 'Field Compliance',
+      description: 'Verify store visits recorded in the field',
+      icon: MapPin,
+      color: 'blue',
+      items: [
+        { name: 'Geofence exceptions', action: () => setShowGeofenceExceptions(true) }
+      ]
+    },
     {
       title: 'System Settings',
       description: 'Configure application preferences',
       icon: Settings,
       color: 'gray',
-      items: ['General settings', 'Notification preferences', 'Data export options', 'Integration settings']
+      items: [
+        { name: 'General settings', action: () => setShowAppSettings(true) },
+        'Notification preferences',
+        'Data export options',
+        'Integration settings'
+      ]
+    },
+    {
+      title: 'Data Imports',
+      description: 'Review, download and roll back store, product and MSL imports',
+      icon: History,
+      color: 'blue',
+      items: [
+        { name: 'Import history', action: () => setShowImportJobs(true) }
+      ]
     },
     {
       title: 'Security',
@@ -174,6 +239,50 @@ export default function Management({ user, userRole }: ManagementProps) {
           onSuccess={handleProductImportSuccess}
         />
       )}
+
+      {/* App Settings Modal */}
+      {showAppSettings && (
+        <AppSettingsModal onClose={() => setShowAppSettings(false)} />
+      )}
+
+      {/* Geofence Exceptions Modal */}
+      {showGeofenceExceptions && (
+        <GeofenceExceptions onClose={() => setShowGeofenceExceptions(false)} />
+      )}
+
+      {/* Journey Plan Modal */}
+      {showJourneyPlan && (
+        <JourneyPlanManagement
+          user={user}
+          onClose={() => setShowJourneyPlan(false)}
+        />
+      )}
+
+      {/* Promotions Modal */}
+      {showPromotions && (
+        <PromotionManagement
+          user={user}
+          onClose={() => setShowPromotions(false)}
+        />
+      )}
+
+      {showTargets && (
+        <TargetManagement
+          user={user}
+          onClose={() => setShowTargets(false)}
+        />
+      )}
+
+      {showIncentives && (
+        <IncentiveManagement
+          user={user}
+          onClose={() => setShowIncentives(false)}
+        />
+      )}
+
+      {showImportJobs && (
+        <ImportJobHistory onClose={() => setShowImportJobs(false)} />
+      )}
     </div>
   )
 }
\ No newline at end of file
@@ -0,0 +1,195 @@
+'use client'
+
+import { useState } from 'react'
+import { supabase } from '@/lib/supabase'
+import { Truck } from 'lucide-react'
+import { OrderStatus, getOrderStatusInfo, getNextOrderStatuses, canRecordDelivery } from '@/lib/orderStatus'
+
+interface OrderStatusPanelProps {
+  userRole: string
+  visitId: string
+  status: OrderStatus
+  statusUpdatedAt: string | null
+  lines: Array<{
+    id: string
+    label: string
+    quantity: number
+    delivered_quantity: number
+  }>
+  onChanged: () => void
+}
+
+export default function OrderStatusPanel({ userRole, visitId, status, statusUpdatedAt, lines, onChanged }: OrderStatusPanelProps) {
+  const [recordingDelivery, setRecordingDelivery] = useState(false)
+  const [deliveredQuantities, setDeliveredQuantities] = useState<Record<string, number>>({})
+  const [saving, setSaving] = useState(false)
+
+  const isAdmin = userRole === 'admin'
+  const statusInfo = getOrderStatusInfo(status)
+  const nextStatuses = getNextOrderStatuses(status, isAdmin)
+
+  const updateStatus = async (nextStatus: OrderStatus) => {
+    const label = getOrderStatusInfo(nextStatus)?.label || nextStatus
+    if (!confirm(`Ubah status order menjadi ${label}?`)) return
+
+    setSaving(true)
+    try {
+      const { error } = await supabase
+        .from('visits')
+        .update({ order_status: nextStatus })
+        .eq('id', visitId)
+
+      if (error) throw error
+      onChanged()
+    } catch (error) {
+      console.error('Error updating order status:', error)
+      alert('Gagal mengubah status order')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const startDelivery = () => {
+    setDeliveredQuantities(lines.reduce((acc, line) => {
+      acc[line.id] = line.delivered_quantity || line.quantity
+      return acc
+    }, {} as Record<string, number>))
+    setRecordingDelivery(true)
+  }
+
+  const saveDelivery = async () => {
+    const invalid = lines.find(line => {
+      const delivered = deliveredQuantities[line.id] ?? 0
+      return delivered < 0 || delivered > line.quantity
+    })
+    if (invalid) {
+      alert(`Jumlah terkirim ${invalid.label} harus antara 0 dan ${invalid.quantity}`)
+      return
+    }
+
+    const anyDelivered = lines.some(line => (deliveredQuantities[line.id] ?? 0) > 0)
+    if (!anyDelivered) {
+      alert('Isi jumlah yang terkirim')
+      return
+    }
+
+    setSaving(true)
+    try {
+      // Quantities and the resulting delivered / partially delivered status in one transaction
+      const { error } = await supabase.rpc('record_delivery', {
+        p_visit_id: visitId,
+        p_lines: lines.map(line => ({
+          id: line.id,
+          delivered_quantity: deliveredQuantities[line.id] ?? 0
+        }))
+      })
+
+      if (error) throw error
+
+      setRecordingDelivery(false)
+      onChanged()
+    } catch (error) {
+      console.error('Error recording delivery:', error)
+      alert('Gagal menyimpan pengiriman')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <div className="border border-gray-200 rounded-lg p-4 space-y-3">
+      <div className="flex items-center justify-between">
+        <div>
+          <h3 className="text-sm font-medium text-gray-700">Status Order</h3>
+          {statusUpdatedAt && (
+            <p className="text-xs text-gray-500">sejak {new Date(statusUpdatedAt).toLocaleString('id-ID')}</p>
+          )}
+        </div>
+        {statusInfo && (
+          <span className={`inline-flex items-center px-2 py-1 rounded-full text-xs font-medium ${statusInfo.className}`}>
+            {statusInfo.label}
+          </span>
+        )}
+      </div>
+
+      {recordingDelivery ? (
+        <div className="space-y-2">
+          {lines.map(line => (
+            <div key={line.id} className="flex items-center justify-between gap-3 text-sm">
+              <span className="text-gray-700">{line.label}</span>
+              <div className="flex items-center space-x-2">
+                <input
+                  type="number"
+                  min="0"
+                  max={line.quantity}
+                  value={deliveredQuantities[line.id] ?? 0}
+                  onChange={(e) => setDeliveredQuantities(prev => ({ ...prev, [line.id]: parseFloat(e.target.value) || 0 }))}
+                  className="w-20 p-1 border border-gray-300 rounded text-gray-900"
+                />
+                <span className="text-gray-500">/ {line.quantity}</span>
+              </div>
+            </div>
+          ))}
+          <div className="flex justify-end space-x-2 pt-2">
+            <button
+              onClick={() => setRecordingDelivery(false)}
+              disabled={saving}
+              className="px-3 py-1.5 text-sm border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50"
+            >
+              Batal
+            </button>
+            <button
+              onClick={saveDelivery}
+              disabled={saving}
+              className="px-3 py-1.5 text-sm bg-green-600 text-white rounded-lg hover:bg-green-700 disabled:opacity-50"
+            >
+              {saving ? 'Menyimpan...' : 'Simpan Pengiriman'}
+            </button>
+          </div>
+        </div>
+      ) : (
+        <>
+          {lines.some(line => line.delivered_quantity > 0) && (
+            <div className="space-y-1">
+              {lines.map(line => (
+                <div key={line.id} className="flex justify-between text-xs text-gray-600">
+                  <span>{line.label}</span>
+                  <span>Terkirim {line.delivered_quantity} / {line.quantity}</span>
+                </div>
+              ))}
+            </div>
+          )}
+
+          {(nextStatuses.length > 0 || (isAdmin && canRecordDelivery(status))) && (
+            <div className="flex flex-wrap justify-end gap-2">
+              {isAdmin && canRecordDelivery(status) && (
+                <button
+                  onClick={startDelivery}
+                  disabled={saving}
+                  className="flex items-center space-x-1 px-3 py-1.5 text-sm bg-green-600 text-white rounded-lg hover:bg-green-700 disabled:opacity-50"
+                >
+                  <Truck className="h-4 w-4" />
+                  <span>Catat Pengiriman</span>
+                </button>
+              )}
+              {nextStatuses.map(nextStatus => (
+                <button
+                  key={nextStatus}
+                  onClick={() => updateStatus(nextStatus)}
+                  disabled={saving}
+                  className={`px-3 py-1.5 text-sm rounded-lg border transition-colors disabled:opacity-50 ${
+                    nextStatus === 'cancelled'
+                      ? 'border-red-300 text-red-700 hover:bg-red-50'
+                      : 'border-gray-300 text-gray-700 hover:bg-gray-50'
+                  }`}
+                >
+                  {nextStatus === 'cancelled' ? 'Batalkan Order' : getOrderStatusInfo(nextStatus)?.label}
+                </button>
+              ))}
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  )
+}
@@ -3,15 +3,28 @@
 import { useState, useEffect } from 'react'
 import { User } from '@supabase/supabase-js'
 import { supabase } from '@/lib/supabase'
-import { TrendingUp, Store, Package, Calendar, DollarSign, Eye } from 'lucide-react'
+import { TrendingUp, Store, Package, Calendar, DollarSign, Eye, CalendarDays, CheckCircle } from 'lucide-react'
 import AddVisitModal from './AddVisitModal'
 import DailyRecap from './DailyRecap'
+import SalesTargetProgress from './SalesTargetProgress'
+import IncentiveProjection from './IncentiveProjection'
+import { fetchPlannedStores } from '@/lib/journeyPlan'
+import { fetchKpis, EMPTY_KPI } from '@/lib/kpis'
 
 interface OverviewProps {
   user: User
   userRole: string
 }
 
+interface PlannedStoreRow {
+  id: string
+  store_name: string
+  store_code: string
+  route: string | null
+  address: string | null
+  visited: boolean
+}
+
 export default function Overview({ user, userRole }: OverviewProps) {
   const [stats, setStats] = useState({
     totalCall: 0,
@@ -22,126 +35,80 @@ export default function Overview({ user, userRole }: OverviewProps) {
   const [loading, setLoading] = useState(true)
   const [showAddVisit, setShowAddVisit] = useState(false)
   const [showDailyRecap, setShowDailyRecap] = useState(false)
+  const [plannedStores, setPlannedStores] = useState<PlannedStoreRow[]>([])
+  const [loadingPlan, setLoadingPlan] = useState(true)
+  const [visitStoreId, setVisitStoreId] = useState<string | undefined>(undefined)
   const today = new Date().toISOString().split('T')[0]
 
   useEffect(() => {
     fetchDashboardStats()
+    fetchTodayPlan()
   }, [user.id, userRole])
 
-  const fetchDashboardStats = async () => {
-    setLoading(true)
+  const fetchTodayPlan = async () => {
+    setLoadingPlan(true)
     try {
-      // Get today's visits (Total Call)
+      const planned = await fetchPlannedStores(userRole === 'admin' ? null : user.id, today)
+      const storeIds = Array.from(new Set(planned.map(p => p.store_id)))
+
+      if (storeIds.length === 0) {
+        setPlannedStores([])
+        return
+      }
+
+      const { data: storesData, error: storesError } = await supabase
+        .from('stores')
+        .select('id, store_name, store_code, route, address')
+        .in('id', storeIds)
+        .order('store_name')
+
+      if (storesError) throw storesError
+
       let visitsQuery = supabase
         .from('visits')
-        .select('id, has_order')
+        .select('store_id, salesman_id')
         .eq('visit_date', today)
+        .in('store_id', storeIds)
+        .is('voided_at', null)
 
       if (userRole !== 'admin') {
         visitsQuery = visitsQuery.eq('salesman_id', user.id)
       }
 
-      const { data: visitsData } = await visitsQuery
-      const totalCall = visitsData?.length || 0
-      const totalEC = visitsData?.filter(v => v.has_order).length || 0
-
-      // Calculate MSL Achievement
-      let mslAchievement = 0
-      
-      // Get all MSL items grouped by category
-      const { data: mslData } = await supabase
-        .from('msl_items')
-        .select('category, sku_code')
-      
-      const mslByCategory = (mslData || []).reduce((acc, item) => {
-        if (!acc[item.category]) acc[item.category] = new Set()
-        acc[item.category].add(item.sku_code)
-        return acc
-      }, {} as Record<string, Set<string>>)
-
-      if (Object.keys(mslByCategory).length > 0) {
-        // Get stores with their categories
-        let storesQuery = supabase
-          .from('stores')
-          .select('id, category')
-        
-        if (userRole !== 'admin') {
-          storesQuery = storesQuery.eq('created_by', user.id)
-        }
-        
-        const { data: storesData } = await storesQuery
-        
-        if (storesData && storesData.length > 0) {
-          let totalAchievement = 0
-          let storeCount = 0
-          
-          for (const store of storesData) {
-            const categoryMSL = mslByCategory[store.category]
-            if (!categoryMSL || categoryMSL.size === 0) continue
-            
-            // Get unique SKUs bought by this store today
-            let ordersQuery = supabase
-              .from('visits')
-              .select(`
-                visit_orders!inner(
-                  products!inner(sku_code)
-                )
-              `)
-              .eq('store_id', store.id)
-              .eq('visit_date', today)
-              .eq('has_order', true)
-            
-            if (userRole !== 'admin') {
-              ordersQuery = ordersQuery.eq('salesman_id', user.id)
-            }
-            
-            const { data: ordersData } = await ordersQuery
-            
-            const boughtSkus = new Set<string>()
-            ordersData?.forEach(visit => {
-              visit.visit_orders?.forEach(order => {
-                if (order.products?.sku_code) {
-                  boughtSkus.add(order.products.sku_code)
-                }
-              })
-            })
-            
-            // Calculate achievement for this store
-            const mslSkusBought = Array.from(boughtSkus).filter(sku => categoryMSL.has(sku)).length
-            const storeAchievement = (mslSkusBought / categoryMSL.size) * 100
-            
-            totalAchievement += storeAchievement
-            storeCount++
-          }
-          
-          mslAchievement = storeCount > 0 ? totalAchievement / storeCount : 0
-        }
-      }
+      const { data: visitsData, error: visitsError } = await visitsQuery
+      if (visitsError) throw visitsError
 
-      // Get monthly sales (current month)
-      const currentMonth = new Date().toISOString().slice(0, 7) // YYYY-MM format
-      let monthlySalesQuery = supabase
-        .from('visits')
-        .select(`
-          visit_orders(line_total)
-        `)
-        .gte('visit_date', `${currentMonth}-01`)
-        .lte('visit_date', `${currentMonth}-31`)
+      // A planned store counts as visited only when its planned salesman visited it
+      const visitedKeys = new Set((visitsData || []).map(v => `${v.salesman_id}:${v.store_id}`))
+      const visitedStoreIds = new Set(
+        planned.filter(p => visitedKeys.has(`${p.salesman_id}:${p.store_id}`)).map(p => p.store_id)
+      )
 
-      if (userRole !== 'admin') {
-        monthlySalesQuery = monthlySalesQuery.eq('salesman_id', user.id)
-      }
+      setPlannedStores((storesData || []).map(store => ({
+        ...store,
+        visited: visitedStoreIds.has(store.id)
+      })))
+    } catch (error) {
+      console.error('Error fetching journey plan:', error)
+      setPlannedStores([])
+    } finally {
+      setLoadingPlan(false)
+    }
+  }
 
-      const { data: salesData } = await monthlySalesQuery
-      const monthlySales = salesData?.reduce((total, visit) => {
-        return total + (visit.visit_orders?.reduce((sum, order) => sum + order.line_total, 0) || 0)
-      }, 0) || 0
+  const fetchDashboardStats = async () => {
+    setLoading(true)
+    try {
+      // Today's KPIs and the month's sales in one call, by day
+      const monthStart = `${today.slice(0, 7)}-01`
+      const days = await fetchKpis(monthStart, today, userRole === 'admin' ? null : user.id, 'day')
+      const todayKpis = days.find(day => day.visit_date === today) || EMPTY_KPI
 
       setStats({
-        totalCall,
-        totalEC,
-        mslAchievement,
-        monthlySales
+        totalCall: todayKpis.total_calls,
+        totalEC: todayKpis.effective_calls,
+        mslAchievement: todayKpis.msl_achievement,
+        monthlySales: days.reduce((sum, day) => sum + day.total_sales, 0)
       })
     } catch (error) {
       console.error('Error fetching dashboard stats:', error)
@@ -159,8 +126,16 @@ export default function Overview({ user, userRole }: OverviewProps) {
 
   const handleVisitSuccess = () => {
     fetchDashboardStats() // Refresh stats after adding visit
+    fetchTodayPlan()
+  }
+
+  const openAddVisit = (storeId?: string) => {
+    setVisitStoreId(storeId)
+    setShowAddVisit(true)
   }
 
+  const visitedPlannedCount = plannedStores.filter(s => s.visited).length
+
   const currentMonth = new Date().toLocaleDateString('en-US', { month: 'long' })
 
   return (
@@ -189,6 +164,57 @@ export default function Overview({ user, userRole }: OverviewProps) {
         </div>
       </div>
 
+      {/* Today's Planned Stores */}
+      <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6">
+        <div className="flex items-center justify-between mb-4">
+          <div className="flex items-center space-x-3">
+            <div className="h-10 w-10 bg-green-100 rounded-lg flex items-center justify-center">
+              <CalendarDays className="h-5 w-5 text-green-600" />
+            </div>
+            <div>
+              <h3 className="text-lg font-semibold text-gray-900">Today's Planned Stores</h3>
+              <p className="text-sm text-gray-600">Toko dalam journey plan hari ini</p>
+            </div>
+          </div>
+          {plannedStores.length > 0 && (
+            <span className="text-sm font-medium text-gray-700">
+              {visitedPlannedCount}/{plannedStores.length} dikunjungi
+            </span>
+          )}
+        </div>
+
+        {loadingPlan ? (
+          <div className="text-sm text-gray-500">Memuat journey plan...</div>
+        ) : plannedStores.length === 0 ? (
+          <div className="text-sm text-gray-500">Tidak ada toko yang dijadwalkan hari ini</div>
+        ) : (
+          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-3">
+            {plannedStores.map((store) => (
+              <button
+                key={store.id}
+                onClick={() => !store.visited && userRole !== 'admin' && openAddVisit(store.id)}
+                disabled={store.visited || userRole === 'admin'}
+                className={`text-left p-3 rounded-lg border transition-colors ${
+                  store.visited
+                    ? 'border-green-200 bg-green-50'
+                    : 'border-gray-200 hover:bg-gray-50 disabled:hover:bg-white'
+                }`}
+              >
+                <div className="flex items-start justify-between">
+                  <div>
+                    <p className="font-medium text-gray-900">{store.store_name}</p>
+                    <p className="text-xs text-gray-500">
+                      {store.store_code}{store.route && ` • Route ${store.route}`}
+                    </p>
+                  </div>
+                  {store.visited && <CheckCircle className="h-5 w-5 text-green-600" />}
+                </div>
+              </button>
+            ))}
+          </div>
+        )}
+      </div>
+
       {/* Stats Grid */}
       <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
         <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6">
@@ -240,7 +266,7 @@ export default function Overview({ user, userRole }: OverviewProps) {
             </div>
           </div>
           <div className="mt-4">
-            <span className="text-sm text-gray-500">Rata-rata pencapaian MSL hari ini</span>
+            <span className="text-sm text-gray-500">Rata-rata MSL toko yang dikunjungi hari ini</span>
           </div>
         </div>
 
@@ -262,13 +288,19 @@ export default function Overview({ user, userRole }: OverviewProps) {
         </div>
       </div>
 
+      {/* Monthly Target */}
+      <SalesTargetProgress salesmanId={userRole === 'admin' ? null : user.id} asOfDate={today} />
+
+      {/* Incentive Projection */}
+      {userRole !== 'admin' && <IncentiveProjection salesmanId={user.id} />}
+
       {/* Quick Actions */}
       <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
         <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6">
           <h3 className="text-lg font-semibold text-gray-900 mb-4">Quick Actions</h3>
           <div className="space-y-3">
             <button 
-              onClick={() => setShowAddVisit(true)}
+              onClick={() => openAddVisit()}
               className="w-full text-left p-3 rounded-lg border border-gray-200 hover:bg-gray-50 transition-colors"
             >
               <div className="flex items-center space-x-3">
@@ -343,6 +375,8 @@ export default function Overview({ user, userRole }: OverviewProps) {
       {showAddVisit && (
         <AddVisitModal
           user={user}
+          userRole={userRole}
+          initialStoreId={visitStoreId}
           onClose={() => setShowAddVisit(false)}
           onSuccess={handleVisitSuccess}
         />
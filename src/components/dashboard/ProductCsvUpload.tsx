@@ -3,6 +3,12 @@
 import { useState } from 'react'
 import { supabase } from '@/lib/supabase'
 import { Upload, FileText, CheckCircle, AlertCircle, X, Download } from 'lucide-react'
+import { useImportFile } from '@/lib/useImportFile'
+import { CsvTable } from '@/lib/csvImport'
+import ColumnMappingStep from './ColumnMappingStep'
+import ImportFilePicker from './ImportFilePicker'
+import { ImportBatchResult, ImportJobRow, ImportProgress, ImportRowData, applyImportRows, finishImportJob, startImportJob } from '@/lib/importJobs'
+import ImportProgressBar from './ImportProgressBar'
 
 interface ProductCsvUploadProps {
   onClose: () => void
@@ -10,6 +16,7 @@ interface ProductCsvUploadProps {
 }
 
 interface CsvProduct {
+  row: number
   sku_code: string
   product_name: string
   brand: string
@@ -22,11 +29,16 @@ interface CsvProduct {
 }
 
 export default function ProductCsvUpload({ onClose, onSuccess }: ProductCsvUploadProps) {
-  const [file, setFile] = useState<File | null>(null)
+  const importFile = useImportFile()
+  const { file } = importFile
+  // The file as read, until its columns are mapped
+  const [sourceTable, setSourceTable] = useState<CsvTable | null>(null)
   const [parsedProducts, setParsedProducts] = useState<CsvProduct[]>([])
   const [showPreview, setShowPreview] = useState(false)
   const [uploading, setUploading] = useState(false)
-  const [uploadResult, setUploadResult] = useState<{ added: number; updated: number; failed: number } | null>(null)
+  const [uploadResult, setUploadResult] = useState<ImportBatchResult | null>(null)
+  const [allOrNothing, setAllOrNothing] = useState(false)
+  const [progress, setProgress] = useState<ImportProgress | null>(null)
 
   const downloadTemplate = () => {
     const csvContent = `SKU_CODE,PRODUCT_NAME,BRAND,CATEGORY,PRICE,DISCOUNT
@@ -45,27 +57,16 @@ SKU003,Maybelline Foundation,Maybelline,Makeup,125000,15`
     window.URL.revokeObjectURL(url)
   }
 
-  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const selectedFile = e.target.files?.[0]
-    if (selectedFile && selectedFile.type === 'text/csv') {
-      setFile(selectedFile)
-    } else {
-      alert('Please select a valid CSV file')
-    }
+  const readFile = async () => {
+    const table = await importFile.readTable()
+    if (table) setSourceTable(table)
   }
 
-  const parseCsv = async () => {
-    if (!file) return
+  // Runs on the mapped table, whose headers are the field names below
+  const parseCsv = async (table: CsvTable) => {
+    setSourceTable(null)
+    const { headers, rows } = table
 
-    const text = await file.text()
-    const lines = text.trim().split('\n')
-    
-    if (lines.length < 2) {
-      alert('CSV file must have at least a header row and one data row')
-      return
-    }
-
-    const headers = lines[0].split(',').map(h => h.trim().toUpperCase())
     const requiredHeaders = ['SKU_CODE', 'PRODUCT_NAME', 'BRAND', 'CATEGORY', 'PRICE']
     
     // Check if all required headers are present
@@ -93,11 +94,12 @@ SKU003,Maybelline Foundation,Maybelline,Makeup,125000,15`
     const parsed: CsvProduct[] = []
 
     // Parse data rows
-    for (let i = 1; i < lines.length; i++) {
-      const values = lines[i].split(',').map(v => v.trim())
+    for (const row of rows) {
+      const values = row.values
       
       if (values.length < requiredHeaders.length) {
         parsed.push({
+          row: row.number,
           sku_code: values[skuIndex] || '',
           product_name: values[nameIndex] || '',
           brand: values[brandIndex] || '',
@@ -105,7 +107,7 @@ SKU003,Maybelline Foundation,Maybelline,Makeup,125000,15`
           price: 0,
           discount: 0,
           isValid: false,
-          error: `Row ${i + 1}: Insufficient columns`
+          error: `Row ${row.number}: Insufficient columns`
         })
         continue
       }
@@ -123,10 +125,10 @@ SKU003,Maybelline Foundation,Maybelline,Makeup,125000,15`
 
       if (!sku || !name || !brand || !category || !priceStr) {
         isValid = false
-        error = `Row ${i + 1}: Missing required fields`
+        error = `Row ${row.number}: Missing required fields`
       } else if (seenSkus.has(sku)) {
         isValid = false
-        error = `Row ${i + 1}: Duplicate SKU in file`
+        error = `Row ${row.number}: Duplicate SKU in file`
       } else {
         seenSkus.add(sku)
       }
@@ -136,15 +138,16 @@ SKU003,Maybelline Foundation,Maybelline,Makeup,125000,15`
 
       if (isValid && (isNaN(price) || price <= 0)) {
         isValid = false
-        error = `Row ${i + 1}: Invalid price`
+        error = `Row ${row.number}: Invalid price`
       }
 
       if (isValid && (isNaN(discount) || discount < 0 || discount > 100)) {
         isValid = false
-        error = `Row ${i + 1}: Invalid discount (must be 0-100)`
+        error = `Row ${row.number}: Invalid discount (must be 0-100)`
       }
 
       parsed.push({
+        row: row.number,
         sku_code: sku,
         product_name: name,
         brand: brand,
@@ -162,60 +165,74 @@ SKU003,Maybelline Foundation,Maybelline,Makeup,125000,15`
   }
 
   const uploadProducts = async () => {
+    if (!file) return
+
     setUploading(true)
     const validProducts = parsedProducts.filter(p => p.isValid)
-    
-    let addedCount = 0
-    let updatedCount = 0
-    let failedCount = 0
-
-    for (const product of validProducts) {
-      try {
-        if (product.action === 'UPDATE') {
-          const { error } = await supabase
-            .from('products')
-            .update({
-              product_name: product.product_name,
-              category: product.category,
-              unit_price: product.price,
-              updated_at: new Date().toISOString()
-            })
-            .eq('sku_code', product.sku_code)
-
-          if (error) {
-            console.error('Error updating product:', error)
-            failedCount++
-          } else {
-            updatedCount++
-          }
-        } else {
-          const { error } = await supabase
-            .from('products')
-            .insert({
-              sku_code: product.sku_code,
-              product_name: product.product_name,
-              category: product.category,
-              unit_price: product.price,
-              is_active: true
-            })
-
-          if (error) {
-            console.error('Error inserting product:', error)
-            failedCount++
-          } else {
-            addedCount++
-          }
-        }
-      } catch (error) {
-        console.error('Error processing product:', error)
-        failedCount++
+
+    let jobId: string
+    try {
+      jobId = await startImportJob('products', file.name, file, allOrNothing)
+    } catch (error) {
+      console.error('Error starting import job:', error)
+      alert('Failed to start the import. Please try again.')
+      setUploading(false)
+      return
+    }
+
+    const rows: ImportRowData[] = validProducts.map(product => ({
+      row_number: product.row,
+      data: {
+        sku_code: product.sku_code,
+        product_name: product.product_name,
+        brand: product.brand,
+        category: product.category,
+        unit_price: product.price
       }
+    }))
+
+    const jobRows: ImportJobRow[] = parsedProducts.filter(p => !p.isValid).map(p => ({
+      row_number: p.row,
+      outcome: 'invalid',
+      message: p.error || null,
+      record_table: null,
+      record_id: null,
+      before_image: null,
+      after_image: null
+    }))
+
+    // Rows sent so far; a batch that fails is rolled back on the server and counts as not sent
+    let sent = 0
+    let result: ImportBatchResult | null = null
+    try {
+      result = await applyImportRows(jobId, rows, allOrNothing, (next) => {
+        if (next.phase === 'sending') sent = next.done
+        setProgress(next)
+      })
+    } catch (error) {
+      console.error('Error importing products:', error)
+      const message = (error as { message?: string })?.message || String(error)
+      alert(allOrNothing
+        ? `Import cancelled, no products were changed. ${message}`
+        : `The import stopped before the end: ${message}. Products already imported are listed in the import history.`)
+
+      validProducts.slice(allOrNothing ? 0 : sent).forEach(product => {
+        jobRows.push({ row_number: product.row, outcome: 'failed', message, record_table: null, record_id: null, before_image: null, after_image: null })
+      })
+    }
+
+    try {
+      await finishImportJob(jobId, jobRows)
+    } catch (error) {
+      console.error('Error saving import job:', error)
+      alert('The import finished, but its history could not be saved.')
     }
 
-    setUploadResult({ added: addedCount, updated: updatedCount, failed: failedCount })
+    setUploadResult(result)
+    setProgress(null)
     setUploading(false)
 
-    if (addedCount > 0 || updatedCount > 0) {
+    if (result && (result.added > 0 || result.updated > 0)) {
       setTimeout(() => {
         onSuccess()
         onClose()
@@ -245,7 +262,14 @@ SKU003,Maybelline Foundation,Maybelline,Makeup,125000,15`
         </div>
 
         <div className="p-6 space-y-6">
-          {!showPreview ? (
+          {sourceTable ? (
+            <ColumnMappingStep
+              importType="products"
+              table={sourceTable}
+              onBack={() => setSourceTable(null)}
+              onApply={parseCsv}
+            />
+          ) : !showPreview ? (
             <>
               {/* Template Download */}
               <div className="bg-blue-50 border border-blue-200 rounded-lg p-4">
@@ -259,7 +283,7 @@ SKU003,Maybelline Foundation,Maybelline,Makeup,125000,15`
                       </p>
                       <ul className="text-sm text-blue-700 space-y-1">
                         <li>• First row must be headers</li>
-                        <li>• Use comma as delimiter</li>
+                        <li>• Use comma or semicolon as delimiter; quote values that contain one</li>
                         <li>• DISCOUNT column is optional (defaults to 0)</li>
                         <li>• Existing SKUs will be updated, new SKUs will be added</li>
                       </ul>
@@ -276,22 +300,7 @@ SKU003,Maybelline Foundation,Maybelline,Makeup,125000,15`
               </div>
 
               {/* File Upload */}
-              <div>
-                <label className="block text-sm font-medium text-gray-700 mb-2">
-                  Select CSV File
-                </label>
-                <input
-                  type="file"
-                  accept=".csv"
-                  onChange={handleFileChange}
-                  className="w-full p-3 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-green-500 focus:border-transparent"
-                />
-                {file && (
-                  <p className="text-sm text-gray-600 mt-2">
-                    Selected: {file.name} ({(file.size / 1024).toFixed(1)} KB)
-                  </p>
-                )}
-              </div>
+              <ImportFilePicker importFile={importFile} accent="green" />
 
               {/* Parse Button */}
               <div className="flex justify-end space-x-3">
@@ -302,11 +311,11 @@ SKU003,Maybelline Foundation,Maybelline,Makeup,125000,15`
                   Cancel
                 </button>
                 <button
-                  onClick={parseCsv}
+                  onClick={readFile}
                   disabled={!file}
                   className="px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
                 >
-                  Parse CSV
+                  Parse File
                 </button>
               </div>
             </>
@@ -407,6 +416,25 @@ SKU003,Maybelline Foundation,Maybelline,Makeup,125000,15`
                 </div>
               </div>
 
+              {/* Import Mode */}
+              <label className="flex items-start space-x-2 text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={allOrNothing}
+                  onChange={(e) => setAllOrNothing(e.target.checked)}
+                  disabled={uploading}
+                  className="h-4 w-4 mt-0.5 text-green-600 focus:ring-green-500 border-gray-300 rounded"
+                />
+                <span>
+                  <span className="font-medium">All or nothing</span>
+                  <span className="block text-gray-500">
+                    Apply the whole file in one transaction: if any row fails, no product is changed. Requires a file without errors.
+                  </span>
+                </span>
+              </label>
+
+              {progress && <ImportProgressBar progress={progress} allOrNothing={allOrNothing} />}
+
               {/* Upload Result */}
               {uploadResult && (
                 <div className="bg-green-50 border border-green-200 rounded-lg p-4">
@@ -430,7 +458,7 @@ SKU003,Maybelline Foundation,Maybelline,Makeup,125000,15`
                 </button>
                 <button
                   onClick={uploadProducts}
-                  disabled={uploading || parsedProducts.filter(p => p.isValid).length === 0}
+                  disabled={uploading || parsedProducts.filter(p => p.isValid).length === 0 || (allOrNothing && parsedProducts.some(p => !p.isValid))}
                   className="px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors flex items-center space-x-2"
                 >
                   {uploading ? (
@@ -1,8 +1,8 @@
 'use client'
 
 import { useState } from 'react'
-import { supabase } from '@/lib/supabase'
 import { Upload, FileText, CheckCircle, AlertCircle, X } from 'lucide-react'
+import { ImportJobRow, ImportRowData, applyImportRows, finishImportJob, startImportJob } from '@/lib/importJobs'
 
 interface ProductImportProps {
   onClose: () => void
@@ -10,6 +10,8 @@ interface ProductImportProps {
 }
 
 interface ParsedProduct {
+  // Line in the pasted text
+  row: number
   sku_code: string
   product_name: string
   category: string
@@ -30,14 +32,17 @@ SKU002 | Garnier Fructis Shampoo | Hair Care | 8.49
 SKU003 | Maybelline Foundation | Makeup | 15.99`
 
   const parseProducts = () => {
-    const lines = productText.trim().split('\n').filter(line => line.trim())
+    const lines = productText.split('\n')
+      .map((line, index) => ({ line, row: index + 1 }))
+      .filter(({ line }) => line.trim())
     const parsed: ParsedProduct[] = []
 
-    lines.forEach((line, index) => {
+    lines.forEach(({ line, row }) => {
       const parts = line.split('|').map(part => part.trim())
       
       if (parts.length !== 4) {
         parsed.push({
+          row,
           sku_code: '',
           product_name: line,
           category: '',
@@ -53,6 +58,7 @@ SKU003 | Maybelline Foundation | Makeup | 15.99`
 
       if (!sku || !name || !category || isNaN(price) || price <= 0) {
         parsed.push({
+          row,
           sku_code: sku,
           product_name: name,
           category: category,
@@ -64,6 +70,7 @@ SKU003 | Maybelline Foundation | Makeup | 15.99`
       }
 
       parsed.push({
+        row,
         sku_code: sku,
         product_name: name,
         category: category,
@@ -83,28 +90,59 @@ SKU003 | Maybelline Foundation | Makeup | 15.99`
     let successCount = 0
     let failedCount = 0
 
-    for (const product of validProducts) {
-      try {
-        const { error } = await supabase
-          .from('products')
-          .insert({
-            sku_code: product.sku_code,
-            product_name: product.product_name,
-            category: product.category,
-            unit_price: product.unit_price,
-            is_active: true
-          })
+    let jobId: string
+    try {
+      jobId = await startImportJob('product_paste', 'daftar-produk.txt', new Blob([productText], { type: 'text/plain' }))
+    } catch (error) {
+      console.error('Error starting import job:', error)
+      alert('Gagal memulai import. Silakan coba lagi.')
+      setImporting(false)
+      return
+    }
+
+    const jobRows: ImportJobRow[] = parsedProducts.filter(p => !p.isValid).map(p => ({
+      row_number: p.row,
+      outcome: 'invalid',
+      message: p.error || null,
+      record_table: null,
+      record_id: null,
+      before_image: null,
+      after_image: null
+    }))
 
-        if (error) {
-          console.error('Error inserting product:', error)
-          failedCount++
-        } else {
-          successCount++
-        }
-      } catch (error) {
-        console.error('Error:', error)
-        failedCount++
+    // Added on the server, which records each row on the job
+    const rows: ImportRowData[] = validProducts.map(product => ({
+      row_number: product.row,
+      data: {
+        sku_code: product.sku_code,
+        product_name: product.product_name,
+        category: product.category,
+        unit_price: product.unit_price
       }
+    }))
+
+    // Rows sent so far; a batch that fails is rolled back on the server and counts as not sent
+    let sent = 0
+    try {
+      const result = await applyImportRows(jobId, rows, false, (next) => {
+        sent = next.done
+      })
+      successCount = result.added
+      failedCount = result.failed
+    } catch (error) {
+      console.error('Error importing products:', error)
+      const message = (error as { message?: string })?.message || String(error)
+      failedCount = validProducts.length - sent
+      validProducts.slice(sent).forEach(product => {
+        jobRows.push({ row_number: product.row, outcome: 'failed', message, record_table: null, record_id: null, before_image: null, after_image: null })
+      })
+    }
+
+    try {
+      await finishImportJob(jobId, jobRows)
+    } catch (error) {
+      console.error('Error saving import job:', error)
+      alert('Produk sudah diimport, tetapi riwayat import gagal disimpan.')
     }
 
     setImportResult({ success: successCount, failed: failedCount })
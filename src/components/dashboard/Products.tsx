@@ -4,8 +4,11 @@ import { useState, useEffect } from 'react'
 import { User } from '@supabase/supabase-js'
 import { supabase } from '@/lib/supabase'
 import { Package, Search, Filter, Plus, Tag, Edit } from 'lucide-react'
+import { Promotion, PROMOTION_COLUMNS, findPromotionForProduct } from '@/lib/promotions'
 import ProductImport from './ProductImport'
 import ProductCsvUpload from './ProductCsvUpload'
+import PromotionDetailModal from './PromotionDetailModal'
+import PromotionManagement from './PromotionManagement'
 
 interface ProductsProps {
   user: User
@@ -17,33 +20,25 @@ interface Product {
   sku_code: string
   product_name: string
   category: string
+  brand: string | null
   unit_price: number
   image_url: string | null
   is_active: boolean
 }
 
-interface Promotion {
-  id: string
-  discount_percentage: number
-  start_date: string
-  end_date: string
-  is_active: boolean
-}
-
-interface ProductWithPromotion extends Product {
-  promotions?: Promotion[]
-}
-
 export default function Products({ user, userRole }: ProductsProps) {
-  const [products, setProducts] = useState<ProductWithPromotion[]>([])
-  const [filteredProducts, setFilteredProducts] = useState<ProductWithPromotion[]>([])
+  const [products, setProducts] = useState<Product[]>([])
+  const [filteredProducts, setFilteredProducts] = useState<Product[]>([])
   const [categories, setCategories] = useState<string[]>(['All'])
   const [loading, setLoading] = useState(true)
   const [searchTerm, setSearchTerm] = useState('')
   const [selectedCategory, setSelectedCategory] = useState('All')
   const [showImport, setShowImport] = useState(false)
   const [showCsvUpload, setShowCsvUpload] = useState(false)
-  const [editingProduct, setEditingProduct] = useState<ProductWithPromotion | null>(null)
+  const [editingProduct, setEditingProduct] = useState<Product | null>(null)
+  const [promotions, setPromotions] = useState<Promotion[]>([])
+  const [selectedPromotion, setSelectedPromotion] = useState<{ promotion: Promotion; productName?: string } | null>(null)
+  const [editingPromotionId, setEditingPromotionId] = useState<string | null>(null)
 
   useEffect(() => {
     fetchProducts()
@@ -55,22 +50,23 @@ export default function Products({ user, userRole }: ProductsProps) {
 
   const fetchProducts = async () => {
     try {
-      const { data, error } = await supabase
-        .from('products')
-        .select(`
-          *,
-          promotions(
-            id,
-            discount_percentage,
-            start_date,
-            end_date,
-            is_active
-          )
-        `)
-        .eq('is_active', true)
-        .order('product_name')
+      const [{ data, error }, { data: promotionsData, error: promotionsError }] = await Promise.all([
+        supabase
+          .from('products')
+          .select('*')
+          .eq('is_active', true)
+          .order('product_name'),
+        // Brand and category promotions are not linked by product_id, so match them here
+        supabase
+          .from('promotions')
+          .select(PROMOTION_COLUMNS)
+          .eq('is_active', true)
+      ])
 
       if (error) throw error
+      if (promotionsError) throw promotionsError
+
+      setPromotions(promotionsData || [])
 
       setProducts(data || [])
       setFilteredProducts(data || [])
@@ -115,18 +111,12 @@ export default function Products({ user, userRole }: ProductsProps) {
     fetchProducts() // Refresh products after CSV upload
   }
 
-  const getActivePromotion = (product: ProductWithPromotion) => {
-    if (!product.promotions) return null
-    
+  const getActivePromotion = (product: Product) => {
     const today = new Date().toISOString().split('T')[0]
-    return product.promotions.find(promo => 
-      promo.is_active && 
-      promo.start_date <= today && 
-      promo.end_date >= today
-    )
+    return findPromotionForProduct(promotions, product, today)
   }
 
-  const getDiscountedPrice = (product: ProductWithPromotion) => {
+  const getDiscountedPrice = (product: Product) => {
     const promotion = getActivePromotion(product)
     if (!promotion) return product.unit_price
     
@@ -263,10 +253,17 @@ export default function Products({ user, userRole }: ProductsProps) {
                         
                         {/* Status and Discount Badges */}
                         <div className="flex items-center gap-2 ml-4">
-                          {hasDiscount && (
-                            <span className="inline-flex items-center px-1.5 py-0.5 rounded-full text-xs font-medium bg-red-100 text-red-800">
-                              -{activePromotion?.discount_percentage}%
-                            </span>
+                          {hasDiscount && activePromotion && (
+                            <button
+                              onClick={() => setSelectedPromotion({
+                                promotion: activePromotion,
+                                productName: `${product.sku_code} - ${product.product_name}`
+                              })}
+                              className="inline-flex items-center px-1.5 py-0.5 rounded-full text-xs font-medium bg-red-100 text-red-800 hover:bg-red-200"
+                              title={activePromotion.promo_name}
+                            >
+                              -{activePromotion.discount_percentage}%
+                            </button>
                           )}
                           <span className={`inline-flex items-center px-1.5 py-0.5 rounded-full text-xs font-medium ${
                             product.is_active 
@@ -335,6 +332,32 @@ export default function Products({ user, userRole }: ProductsProps) {
         />
       )}
 
+      {/* Promotion Detail Modal */}
+      {selectedPromotion && (
+        <PromotionDetailModal
+          promotion={selectedPromotion.promotion}
+          productName={selectedPromotion.productName}
+          userRole={userRole}
+          onClose={() => setSelectedPromotion(null)}
+          onEdit={() => {
+            setEditingPromotionId(selectedPromotion.promotion.id)
+            setSelectedPromotion(null)
+          }}
+        />
+      )}
+
+      {/* Promotion Management Modal */}
+      {editingPromotionId && (
+        <PromotionManagement
+          user={user}
+          initialPromotionId={editingPromotionId}
+          onClose={() => {
+            setEditingPromotionId(null)
+            fetchProducts()
+          }}
+        />
+      )}
+
       {/* Edit Product Modal - Placeholder for now */}
       {editingProduct && (
         <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
@@ -0,0 +1,75 @@
+'use client'
+
+import { Tag, X, Edit } from 'lucide-react'
+import { Promotion, PROMOTION_SCOPES, getPromotionTargetLabel } from '@/lib/promotions'
+
+interface PromotionDetailModalProps {
+  promotion: Promotion
+  productName?: string
+  userRole: string
+  onClose: () => void
+  onEdit: () => void
+}
+
+export default function PromotionDetailModal({ promotion, productName, userRole, onClose, onEdit }: PromotionDetailModalProps) {
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-xl shadow-xl max-w-md w-full">
+        <div className="flex items-center justify-between p-6 border-b border-gray-200">
+          <div className="flex items-center space-x-3">
+            <div className="h-10 w-10 bg-red-100 rounded-lg flex items-center justify-center">
+              <Tag className="h-5 w-5 text-red-600" />
+            </div>
+            <div>
+              <h2 className="text-xl font-semibold text-gray-900">{promotion.promo_name}</h2>
+              <p className="text-sm text-gray-600">Diskon {promotion.discount_percentage}%</p>
+            </div>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-2 hover:bg-gray-100 rounded-lg transition-colors"
+          >
+            <X className="h-5 w-5 text-gray-500" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-3 text-sm">
+          <div className="flex justify-between">
+            <span className="text-gray-600">Berlaku untuk</span>
+            <span className="font-medium text-gray-900">
+              {PROMOTION_SCOPES.find(s => s.value === promotion.scope)?.label}
+            </span>
+          </div>
+          <div className="flex justify-between">
+            <span className="text-gray-600">Target</span>
+            <span className="font-medium text-gray-900 text-right">{getPromotionTargetLabel(promotion, productName)}</span>
+          </div>
+          <div className="flex justify-between">
+            <span className="text-gray-600">Toko</span>
+            <span className="font-medium text-gray-900">
+              {promotion.store_category ? `Kategori ${promotion.store_category}` : 'Semua toko'}
+            </span>
+          </div>
+          <div className="flex justify-between">
+            <span className="text-gray-600">Periode</span>
+            <span className="font-medium text-gray-900">
+              {new Date(promotion.start_date).toLocaleDateString('id-ID')} - {new Date(promotion.end_date).toLocaleDateString('id-ID')}
+            </span>
+          </div>
+
+          {userRole === 'admin' && (
+            <div className="flex justify-end pt-4 border-t border-gray-200">
+              <button
+                onClick={onEdit}
+                className="flex items-center space-x-2 px-4 py-2 bg-red-600 text-white rounded-lg hover:bg-red-700 transition-colors"
+              >
+                <Edit className="h-4 w-4" />
+                <span>Edit Promo</span>
+              </button>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,255 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { supabase } from '@/lib/supabase'
+import { Tag, Download, ChevronDown, ChevronRight } from 'lucide-react'
+import { toCsv, downloadCsv } from '@/lib/csvExport'
+
+interface PromotionEffectivenessProps {
+  // null for all salesmen
+  salesmanId: string | null
+  dateRange: {
+    start: string
+    end: string
+  }
+}
+
+interface EffectivenessRow {
+  promotion_id: string
+  promo_name: string
+  discount_percentage: number
+  promo_start: string
+  promo_end: string
+  baseline_start: string
+  baseline_end: string
+  level: 'sku' | 'store_category' | 'total'
+  sku_code: string | null
+  product_name: string | null
+  store_category: string | null
+  promo_quantity: number
+  promo_value: number
+  baseline_quantity: number
+  baseline_value: number
+  discount_cost: number
+  promo_stores: number
+}
+
+// null when there is no baseline to compare with
+const getUplift = (promo: number, baseline: number): number | null => {
+  if (baseline <= 0) return null
+  return ((promo - baseline) / baseline) * 100
+}
+
+const formatUplift = (uplift: number | null): string => {
+  if (uplift === null) return '-'
+  return `${uplift >= 0 ? '+' : ''}${uplift.toFixed(1)}%`
+}
+
+const formatDate = (date: string) => new Date(date).toLocaleDateString('id-ID')
+
+export default function PromotionEffectiveness({ salesmanId, dateRange }: PromotionEffectivenessProps) {
+  const [rows, setRows] = useState<EffectivenessRow[]>([])
+  const [loading, setLoading] = useState(true)
+  const [expandedId, setExpandedId] = useState<string | null>(null)
+
+  useEffect(() => {
+    fetchEffectiveness()
+  }, [dateRange, salesmanId])
+
+  const fetchEffectiveness = async () => {
+    setLoading(true)
+    try {
+      const { data, error } = await supabase.rpc('promotion_effectiveness', {
+        p_start: dateRange.start,
+        p_end: dateRange.end,
+        p_salesman_id: salesmanId
+      })
+
+      if (error) throw error
+      setRows((data || []).map((row: EffectivenessRow) => ({
+        ...row,
+        discount_percentage: Number(row.discount_percentage),
+        promo_quantity: Number(row.promo_quantity),
+        promo_value: Number(row.promo_value),
+        baseline_quantity: Number(row.baseline_quantity),
+        baseline_value: Number(row.baseline_value),
+        discount_cost: Number(row.discount_cost),
+        promo_stores: Number(row.promo_stores)
+      })))
+    } catch (error) {
+      console.error('Error fetching promotion effectiveness:', error)
+      setRows([])
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const totals = rows.filter(row => row.level === 'total')
+
+  const exportEffectiveness = () => {
+    const csvContent = toCsv([
+      [
+        'PROMO', 'DISCOUNT_PCT', 'PROMO_START', 'PROMO_END', 'BASELINE_START', 'BASELINE_END',
+        'LEVEL', 'SKU_CODE', 'PRODUCT_NAME', 'STORE_CATEGORY',
+        'PROMO_QTY', 'BASELINE_QTY', 'QTY_UPLIFT_PCT',
+        'PROMO_VALUE', 'BASELINE_VALUE', 'VALUE_UPLIFT_PCT',
+        'DISCOUNT_COST', 'PROMO_STORES'
+      ],
+      ...rows.map(row => {
+        const quantityUplift = getUplift(row.promo_quantity, row.baseline_quantity)
+        const valueUplift = getUplift(row.promo_value, row.baseline_value)
+        return [
+          row.promo_name, row.discount_percentage, row.promo_start, row.promo_end, row.baseline_start, row.baseline_end,
+          row.level, row.sku_code, row.product_name, row.store_category,
+          row.promo_quantity, row.baseline_quantity, quantityUplift === null ? null : quantityUplift.toFixed(1),
+          row.promo_value, row.baseline_value, valueUplift === null ? null : valueUplift.toFixed(1),
+          row.discount_cost, row.promo_stores
+        ]
+      })
+    ])
+
+    downloadCsv(`promo_effectiveness_${dateRange.start}_${dateRange.end}.csv`, csvContent)
+  }
+
+  const renderBreakdown = (title: string, breakdown: EffectivenessRow[], getLabel: (row: EffectivenessRow) => string) => (
+    <div>
+      <h5 className="text-sm font-medium text-gray-700 mb-2">{title}</h5>
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="border-b border-gray-200">
+              <th className="text-left py-2 px-3 font-medium text-gray-600">{title}</th>
+              <th className="text-right py-2 px-3 font-medium text-gray-600">Qty (promo / baseline)</th>
+              <th className="text-right py-2 px-3 font-medium text-gray-600">Uplift Qty</th>
+              <th className="text-right py-2 px-3 font-medium text-gray-600">Value (promo / baseline)</th>
+              <th className="text-right py-2 px-3 font-medium text-gray-600">Uplift Value</th>
+              <th className="text-right py-2 px-3 font-medium text-gray-600">Biaya Diskon</th>
+              <th className="text-right py-2 px-3 font-medium text-gray-600">Toko</th>
+            </tr>
+          </thead>
+          <tbody>
+            {breakdown.map((row, index) => {
+              const quantityUplift = getUplift(row.promo_quantity, row.baseline_quantity)
+              const valueUplift = getUplift(row.promo_value, row.baseline_value)
+              return (
+                <tr key={index} className="border-b border-gray-100">
+                  <td className="py-2 px-3 text-gray-900">{getLabel(row)}</td>
+                  <td className="py-2 px-3 text-right text-gray-900">{row.promo_quantity} / {row.baseline_quantity}</td>
+                  <td className={`py-2 px-3 text-right font-medium ${quantityUplift !== null && quantityUplift < 0 ? 'text-red-600' : 'text-green-600'}`}>
+                    {formatUplift(quantityUplift)}
+                  </td>
+                  <td className="py-2 px-3 text-right text-gray-900">
+                    Rp {row.promo_value.toLocaleString('id-ID')} / Rp {row.baseline_value.toLocaleString('id-ID')}
+                  </td>
+                  <td className={`py-2 px-3 text-right font-medium ${valueUplift !== null && valueUplift < 0 ? 'text-red-600' : 'text-green-600'}`}>
+                    {formatUplift(valueUplift)}
+                  </td>
+                  <td className="py-2 px-3 text-right text-gray-900">Rp {row.discount_cost.toLocaleString('id-ID')}</td>
+                  <td className="py-2 px-3 text-right text-gray-900">{row.promo_stores}</td>
+                </tr>
+              )
+            })}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  )
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-lg font-semibold text-gray-900">Promotion Effectiveness</h3>
+        <div className="flex items-center space-x-3">
+          {rows.length > 0 && (
+            <button
+              onClick={exportEffectiveness}
+              className="inline-flex items-center px-3 py-1.5 text-sm border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors"
+            >
+              <Download className="h-4 w-4 mr-1" />
+              Export CSV
+            </button>
+          )}
+          <Tag className="h-5 w-5 text-gray-400" />
+        </div>
+      </div>
+      {loading ? (
+        <div className="flex items-center justify-center py-8">
+          <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-orange-600"></div>
+        </div>
+      ) : totals.length === 0 ? (
+        <div className="text-center py-8 text-gray-500">
+          Tidak ada penjualan promo pada periode ini
+        </div>
+      ) : (
+        <div className="space-y-3">
+          <p className="text-xs text-gray-500">
+            Periode promo dibandingkan dengan periode sebelumnya yang sama panjang. Biaya diskon dan jumlah toko hanya dari order yang memakai promo.
+          </p>
+          {totals.map((total) => {
+            const expanded = expandedId === total.promotion_id
+            const quantityUplift = getUplift(total.promo_quantity, total.baseline_quantity)
+            const valueUplift = getUplift(total.promo_value, total.baseline_value)
+
+            return (
+              <div key={total.promotion_id} className="border border-gray-200 rounded-lg">
+                <button
+                  onClick={() => setExpandedId(expanded ? null : total.promotion_id)}
+                  className="w-full flex items-center justify-between p-4 text-left hover:bg-gray-50"
+                >
+                  <div className="flex items-center space-x-2">
+                    {expanded ? <ChevronDown className="h-4 w-4 text-gray-400" /> : <ChevronRight className="h-4 w-4 text-gray-400" />}
+                    <div>
+                      <p className="font-medium text-gray-900">
+                        {total.promo_name} <span className="text-red-600">-{total.discount_percentage}%</span>
+                      </p>
+                      <p className="text-xs text-gray-500">
+                        {formatDate(total.promo_start)} - {formatDate(total.promo_end)} vs {formatDate(total.baseline_start)} - {formatDate(total.baseline_end)}
+                      </p>
+                    </div>
+                  </div>
+                  <div className="grid grid-cols-4 gap-6 text-right text-sm">
+                    <div>
+                      <p className="text-xs text-gray-500">Uplift Qty</p>
+                      <p className={`font-semibold ${quantityUplift !== null && quantityUplift < 0 ? 'text-red-600' : 'text-green-600'}`}>
+                        {formatUplift(quantityUplift)}
+                      </p>
+                    </div>
+                    <div>
+                      <p className="text-xs text-gray-500">Uplift Value</p>
+                      <p className={`font-semibold ${valueUplift !== null && valueUplift < 0 ? 'text-red-600' : 'text-green-600'}`}>
+                        {formatUplift(valueUplift)}
+                      </p>
+                    </div>
+                    <div>
+                      <p className="text-xs text-gray-500">Biaya Diskon</p>
+                      <p className="font-semibold text-gray-900">Rp {total.discount_cost.toLocaleString('id-ID')}</p>
+                    </div>
+                    <div>
+                      <p className="text-xs text-gray-500">Toko Beli</p>
+                      <p className="font-semibold text-gray-900">{total.promo_stores}</p>
+                    </div>
+                  </div>
+                </button>
+
+                {expanded && (
+                  <div className="border-t border-gray-200 p-4 space-y-4">
+                    {renderBreakdown(
+                      'SKU',
+                      rows.filter(row => row.promotion_id === total.promotion_id && row.level === 'sku'),
+                      row => `${row.sku_code} - ${row.product_name}`
+                    )}
+                    {renderBreakdown(
+                      'Kategori Toko',
+                      rows.filter(row => row.promotion_id === total.promotion_id && row.level === 'store_category'),
+                      row => row.store_category || '-'
+                    )}
+                  </div>
+                )}
+              </div>
+            )
+          })}
+        </div>
+      )}
+    </div>
+  )
+}
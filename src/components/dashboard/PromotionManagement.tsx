@@ -0,0 +1,611 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { User } from '@supabase/supabase-js'
+import { supabase } from '@/lib/supabase'
+import { Tag, Plus, Edit, Trash2, X, List, CalendarRange, AlertCircle } from 'lucide-react'
+import {
+  Promotion,
+  PromotionScope,
+  PromotionProduct,
+  PROMOTION_COLUMNS,
+  PROMOTION_SCOPES,
+  findPromotionConflicts,
+  getPromotionTargetLabel
+} from '@/lib/promotions'
+
+interface PromotionManagementProps {
+  user: User
+  onClose: () => void
+  initialPromotionId?: string
+}
+
+interface CatalogProduct extends PromotionProduct {
+  sku_code: string
+  product_name: string
+  brand: string | null
+  category: string
+}
+
+const emptyForm = () => ({
+  id: '',
+  promo_name: '',
+  scope: 'product' as PromotionScope,
+  product_id: '',
+  brand: '',
+  category: '',
+  store_category: '',
+  discount_percentage: 0,
+  start_date: new Date().toISOString().split('T')[0],
+  end_date: new Date().toISOString().split('T')[0],
+  is_active: true
+})
+
+export default function PromotionManagement({ user, onClose, initialPromotionId }: PromotionManagementProps) {
+  const [promotions, setPromotions] = useState<Promotion[]>([])
+  const [products, setProducts] = useState<CatalogProduct[]>([])
+  const [storeCategories, setStoreCategories] = useState<string[]>([])
+  const [loading, setLoading] = useState(true)
+  const [saving, setSaving] = useState(false)
+  const [view, setView] = useState<'list' | 'calendar'>('list')
+  const [showForm, setShowForm] = useState(false)
+  const [formData, setFormData] = useState(emptyForm())
+  const [calendarMonth, setCalendarMonth] = useState(new Date().toISOString().slice(0, 7))
+
+  useEffect(() => {
+    fetchData()
+  }, [])
+
+  const fetchData = async () => {
+    setLoading(true)
+    try {
+      const [promotionsResult, productsResult, storesResult] = await Promise.all([
+        supabase
+          .from('promotions')
+          .select(PROMOTION_COLUMNS)
+          .order('start_date', { ascending: false }),
+        supabase
+          .from('products')
+          .select('id, sku_code, product_name, brand, category')
+          .eq('is_active', true)
+          .order('product_name'),
+        supabase
+          .from('stores')
+          .select('category')
+      ])
+
+      if (promotionsResult.error) throw promotionsResult.error
+      if (productsResult.error) throw productsResult.error
+      if (storesResult.error) throw storesResult.error
+
+      setPromotions(promotionsResult.data || [])
+      setProducts(productsResult.data || [])
+      setStoreCategories(Array.from(new Set((storesResult.data || []).map(s => s.category).filter(Boolean) as string[])).sort())
+
+      const initial = (promotionsResult.data || []).find(p => p.id === initialPromotionId)
+      if (initial) startEditing(initial)
+    } catch (error) {
+      console.error('Error fetching promotions:', error)
+      alert('Gagal memuat data promo')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const brands = Array.from(new Set(products.map(p => p.brand).filter(Boolean) as string[])).sort()
+  const productCategories = Array.from(new Set(products.map(p => p.category).filter(Boolean))).sort()
+
+  const getProductName = (productId: string | null) => {
+    const product = products.find(p => p.id === productId)
+    return product ? `${product.sku_code} - ${product.product_name}` : undefined
+  }
+
+  // The promotion as it would be saved, for the conflict preview
+  const draftPromotion: Promotion = {
+    id: formData.id,
+    promo_name: formData.promo_name,
+    scope: formData.scope,
+    product_id: formData.scope === 'product' ? formData.product_id || null : null,
+    brand: formData.scope === 'brand' ? formData.brand || null : null,
+    category: formData.scope === 'category' ? formData.category || null : null,
+    store_category: formData.store_category || null,
+    discount_percentage: formData.discount_percentage,
+    start_date: formData.start_date,
+    end_date: formData.end_date,
+    is_active: formData.is_active
+  }
+  const conflicts = showForm ? findPromotionConflicts(draftPromotion, promotions, products) : []
+
+  const startCreating = () => {
+    setFormData(emptyForm())
+    setShowForm(true)
+  }
+
+  const startEditing = (promotion: Promotion) => {
+    setFormData({
+      id: promotion.id,
+      promo_name: promotion.promo_name,
+      scope: promotion.scope,
+      product_id: promotion.product_id || '',
+      brand: promotion.brand || '',
+      category: promotion.category || '',
+      store_category: promotion.store_category || '',
+      discount_percentage: promotion.discount_percentage,
+      start_date: promotion.start_date,
+      end_date: promotion.end_date,
+      is_active: promotion.is_active
+    })
+    setShowForm(true)
+  }
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+
+    if (!draftPromotion.product_id && !draftPromotion.brand && !draftPromotion.category) {
+      alert('Pilih produk, brand atau kategori yang mendapat promo')
+      return
+    }
+    if (formData.end_date < formData.start_date) {
+      alert('Tanggal selesai harus setelah tanggal mulai')
+      return
+    }
+    if (formData.discount_percentage <= 0 || formData.discount_percentage > 100) {
+      alert('Diskon harus antara 0 dan 100%')
+      return
+    }
+    if (conflicts.length > 0) {
+      alert('Promo bentrok dengan promo lain pada SKU yang sama. Ubah periode atau target promo.')
+      return
+    }
+
+    setSaving(true)
+    try {
+      const row = {
+        promo_name: formData.promo_name.trim(),
+        scope: draftPromotion.scope,
+        product_id: draftPromotion.product_id,
+        brand: draftPromotion.brand,
+        category: draftPromotion.category,
+        store_category: draftPromotion.store_category,
+        discount_percentage: formData.discount_percentage,
+        start_date: formData.start_date,
+        end_date: formData.end_date,
+        is_active: formData.is_active
+      }
+
+      const { error } = formData.id
+        ? await supabase.from('promotions').update(row).eq('id', formData.id)
+        : await supabase.from('promotions').insert({ ...row, created_by: user.id })
+
+      if (error) throw error
+
+      setShowForm(false)
+      fetchData()
+    } catch (error) {
+      console.error('Error saving promotion:', error)
+      alert('Gagal menyimpan promo. Pastikan tidak bentrok dengan promo lain.')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleToggleActive = async (promotion: Promotion) => {
+    try {
+      const { error } = await supabase
+        .from('promotions')
+        .update({ is_active: !promotion.is_active })
+        .eq('id', promotion.id)
+
+      if (error) throw error
+      fetchData()
+    } catch (error) {
+      console.error('Error updating promotion:', error)
+      alert('Gagal mengubah status promo. Pastikan tidak bentrok dengan promo lain.')
+    }
+  }
+
+  const handleDelete = async (promotion: Promotion) => {
+    if (!confirm(`Hapus promo ${promotion.promo_name}? Order yang sudah memakai promo ini tidak lagi tercatat sebagai promo.`)) return
+
+    try {
+      const { error } = await supabase
+        .from('promotions')
+        .delete()
+        .eq('id', promotion.id)
+
+      if (error) throw error
+      fetchData()
+    } catch (error) {
+      console.error('Error deleting promotion:', error)
+      alert('Gagal menghapus promo')
+    }
+  }
+
+  const getStatus = (promotion: Promotion) => {
+    const today = new Date().toISOString().split('T')[0]
+    if (!promotion.is_active) return { label: 'Nonaktif', className: 'bg-gray-100 text-gray-800' }
+    if (promotion.start_date > today) return { label: 'Terjadwal', className: 'bg-blue-100 text-blue-800' }
+    if (promotion.end_date < today) return { label: 'Berakhir', className: 'bg-gray-100 text-gray-600' }
+    return { label: 'Berjalan', className: 'bg-green-100 text-green-800' }
+  }
+
+  // Calendar: promotions overlapping the selected month, one bar each
+  const [calendarYear, calendarMonthIndex] = calendarMonth.split('-').map(Number)
+  const daysInMonth = new Date(calendarYear, calendarMonthIndex, 0).getDate()
+  const monthStart = `${calendarMonth}-01`
+  const monthEnd = `${calendarMonth}-${String(daysInMonth).padStart(2, '0')}`
+  const monthPromotions = promotions
+    .filter(p => p.start_date <= monthEnd && p.end_date >= monthStart)
+    .sort((a, b) => a.start_date.localeCompare(b.start_date))
+  const conflictingIds = new Set(
+    monthPromotions
+      .filter(p => findPromotionConflicts(p, promotions, products).length > 0)
+      .map(p => p.id)
+  )
+
+  const getBarStyle = (promotion: Promotion) => {
+    const startDay = promotion.start_date < monthStart ? 1 : Number(promotion.start_date.slice(8, 10))
+    const endDay = promotion.end_date > monthEnd ? daysInMonth : Number(promotion.end_date.slice(8, 10))
+    return {
+      left: `${((startDay - 1) / daysInMonth) * 100}%`,
+      width: `${((endDay - startDay + 1) / daysInMonth) * 100}%`
+    }
+  }
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-xl shadow-xl max-w-5xl w-full max-h-[90vh] overflow-y-auto">
+        <div className="flex items-center justify-between p-6 border-b border-gray-200">
+          <div className="flex items-center space-x-3">
+            <div className="h-10 w-10 bg-red-100 rounded-lg flex items-center justify-center">
+              <Tag className="h-5 w-5 text-red-600" />
+            </div>
+            <div>
+              <h2 className="text-xl font-semibold text-gray-900">Promotions</h2>
+              <p className="text-sm text-gray-600">Promo per produk, brand atau kategori</p>
+            </div>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-2 hover:bg-gray-100 rounded-lg transition-colors"
+          >
+            <X className="h-5 w-5 text-gray-500" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-6">
+          <div className="flex items-center justify-between">
+            <div className="flex space-x-2">
+              <button
+                onClick={() => setView('list')}
+                className={`flex items-center space-x-1 px-3 py-1.5 text-sm rounded-lg ${
+                  view === 'list' ? 'bg-red-100 text-red-700' : 'text-gray-600 bg-gray-100 hover:bg-gray-200'
+                }`}
+              >
+                <List className="h-4 w-4" />
+                <span>Daftar</span>
+              </button>
+              <button
+                onClick={() => setView('calendar')}
+                className={`flex items-center space-x-1 px-3 py-1.5 text-sm rounded-lg ${
+                  view === 'calendar' ? 'bg-red-100 text-red-700' : 'text-gray-600 bg-gray-100 hover:bg-gray-200'
+                }`}
+              >
+                <CalendarRange className="h-4 w-4" />
+                <span>Kalender</span>
+              </button>
+            </div>
+            {!showForm && (
+              <button
+                onClick={startCreating}
+                className="flex items-center space-x-2 px-4 py-2 bg-red-600 text-white rounded-lg hover:bg-red-700 transition-colors"
+              >
+                <Plus className="h-4 w-4" />
+                <span>Tambah Promo</span>
+              </button>
+            )}
+          </div>
+
+          {/* Promotion Form */}
+          {showForm && (
+            <form onSubmit={handleSubmit} className="bg-gray-50 rounded-lg p-4 space-y-4">
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                <div className="md:col-span-2">
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Nama Promo</label>
+                  <input
+                    type="text"
+                    value={formData.promo_name}
+                    onChange={(e) => setFormData(prev => ({ ...prev, promo_name: e.target.value }))}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-red-500"
+                    required
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Diskon (%)</label>
+                  <input
+                    type="number"
+                    min="0"
+                    max="100"
+                    step="0.01"
+                    value={formData.discount_percentage}
+                    onChange={(e) => setFormData(prev => ({ ...prev, discount_percentage: parseFloat(e.target.value) || 0 }))}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-red-500"
+                    required
+                  />
+                </div>
+              </div>
+
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Berlaku Untuk</label>
+                  <select
+                    value={formData.scope}
+                    onChange={(e) => setFormData(prev => ({ ...prev, scope: e.target.value as PromotionScope }))}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-red-500"
+                  >
+                    {PROMOTION_SCOPES.map((scope) => (
+                      <option key={scope.value} value={scope.value}>{scope.label}</option>
+                    ))}
+                  </select>
+                </div>
+                <div className="md:col-span-2">
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    {PROMOTION_SCOPES.find(s => s.value === formData.scope)?.label}
+                  </label>
+                  {formData.scope === 'product' ? (
+                    <select
+                      value={formData.product_id}
+                      onChange={(e) => setFormData(prev => ({ ...prev, product_id: e.target.value }))}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-red-500"
+                    >
+                      <option value="">Pilih produk</option>
+                      {products.map((product) => (
+                        <option key={product.id} value={product.id}>
+                          {product.sku_code} - {product.product_name}
+                        </option>
+                      ))}
+                    </select>
+                  ) : formData.scope === 'brand' ? (
+                    <select
+                      value={formData.brand}
+                      onChange={(e) => setFormData(prev => ({ ...prev, brand: e.target.value }))}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-red-500"
+                    >
+                      <option value="">Pilih brand</option>
+                      {brands.map((brand) => (
+                        <option key={brand} value={brand}>
+                          {brand} ({products.filter(p => p.brand === brand).length} SKU)
+                        </option>
+                      ))}
+                    </select>
+                  ) : (
+                    <select
+                      value={formData.category}
+                      onChange={(e) => setFormData(prev => ({ ...prev, category: e.target.value }))}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-red-500"
+                    >
+                      <option value="">Pilih kategori</option>
+                      {productCategories.map((category) => (
+                        <option key={category} value={category}>
+                          {category} ({products.filter(p => p.category === category).length} SKU)
+                        </option>
+                      ))}
+                    </select>
+                  )}
+                </div>
+              </div>
+
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Kategori Toko</label>
+                  <select
+                    value={formData.store_category}
+                    onChange={(e) => setFormData(prev => ({ ...prev, store_category: e.target.value }))}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-red-500"
+                  >
+                    <option value="">Semua toko</option>
+                    {storeCategories.map((category) => (
+                      <option key={category} value={category}>{category}</option>
+                    ))}
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Mulai Tanggal</label>
+                  <input
+                    type="date"
+                    value={formData.start_date}
+                    onChange={(e) => setFormData(prev => ({ ...prev, start_date: e.target.value }))}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-red-500"
+                    required
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Sampai Tanggal</label>
+                  <input
+                    type="date"
+                    value={formData.end_date}
+                    min={formData.start_date}
+                    onChange={(e) => setFormData(prev => ({ ...prev, end_date: e.target.value }))}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-red-500"
+                    required
+                  />
+                </div>
+              </div>
+
+              <label className="flex items-center space-x-2 text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={formData.is_active}
+                  onChange={(e) => setFormData(prev => ({ ...prev, is_active: e.target.checked }))}
+                  className="rounded border-gray-300"
+                />
+                <span>Aktif</span>
+              </label>
+
+              {conflicts.length > 0 && (
+                <div className="bg-red-50 border border-red-200 rounded-lg p-3 space-y-1">
+                  <div className="flex items-center space-x-2 text-sm font-medium text-red-800">
+                    <AlertCircle className="h-4 w-4" />
+                    <span>Bentrok dengan promo lain</span>
+                  </div>
+                  {conflicts.map((conflict) => (
+                    <p key={conflict.promotion.id} className="text-xs text-red-700">
+                      {conflict.promotion.promo_name} ({conflict.promotion.start_date} s/d {conflict.promotion.end_date}):{' '}
+                      {conflict.skuCodes.slice(0, 5).join(', ')}
+                      {conflict.skuCodes.length > 5 && ` +${conflict.skuCodes.length - 5} SKU`}
+                    </p>
+                  ))}
+                </div>
+              )}
+
+              <div className="flex justify-end space-x-3">
+                <button
+                  type="button"
+                  onClick={() => setShowForm(false)}
+                  className="px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors"
+                >
+                  Batal
+                </button>
+                <button
+                  type="submit"
+                  disabled={saving || conflicts.length > 0}
+                  className="px-4 py-2 bg-red-600 text-white rounded-lg hover:bg-red-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  {saving ? 'Menyimpan...' : formData.id ? 'Simpan Perubahan' : 'Tambah Promo'}
+                </button>
+              </div>
+            </form>
+          )}
+
+          {loading ? (
+            <div className="flex items-center justify-center py-12">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-red-600"></div>
+            </div>
+          ) : view === 'list' ? (
+            promotions.length === 0 ? (
+              <div className="text-center py-8 text-gray-500">
+                Belum ada promo
+              </div>
+            ) : (
+              <div className="space-y-2">
+                {promotions.map((promotion) => {
+                  const status = getStatus(promotion)
+                  return (
+                    <div
+                      key={promotion.id}
+                      className={`flex items-center justify-between p-3 rounded-lg border ${
+                        promotion.is_active ? 'border-gray-200' : 'border-gray-100 bg-gray-50 opacity-60'
+                      }`}
+                    >
+                      <div>
+                        <p className="font-medium text-gray-900">
+                          {promotion.promo_name}{' '}
+                          <span className="text-red-600">-{promotion.discount_percentage}%</span>
+                        </p>
+                        <p className="text-sm text-gray-500">
+                          {getPromotionTargetLabel(promotion, getProductName(promotion.product_id))}
+                          {' • '}
+                          {promotion.store_category ? `Toko ${promotion.store_category}` : 'Semua toko'}
+                          {' • '}
+                          {new Date(promotion.start_date).toLocaleDateString('id-ID')} - {new Date(promotion.end_date).toLocaleDateString('id-ID')}
+                        </p>
+                      </div>
+                      <div className="flex items-center space-x-2">
+                        <span className={`px-2 py-1 rounded-full text-xs font-medium ${status.className}`}>
+                          {status.label}
+                        </span>
+                        <button
+                          onClick={() => handleToggleActive(promotion)}
+                          className="px-3 py-1 rounded-full text-xs font-medium border border-gray-300 text-gray-700 hover:bg-gray-50"
+                        >
+                          {promotion.is_active ? 'Nonaktifkan' : 'Aktifkan'}
+                        </button>
+                        <button
+                          onClick={() => startEditing(promotion)}
+                          className="p-2 text-gray-400 hover:text-blue-600 hover:bg-blue-50 rounded-lg transition-colors"
+                        >
+                          <Edit className="h-4 w-4" />
+                        </button>
+                        <button
+                          onClick={() => handleDelete(promotion)}
+                          className="p-2 text-gray-400 hover:text-red-600 hover:bg-red-50 rounded-lg transition-colors"
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </button>
+                      </div>
+                    </div>
+                  )
+                })}
+              </div>
+            )
+          ) : (
+            <div className="space-y-4">
+              <div className="flex items-center justify-between">
+                <input
+                  type="month"
+                  value={calendarMonth}
+                  onChange={(e) => e.target.value && setCalendarMonth(e.target.value)}
+                  className="px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-red-500"
+                />
+                <div className="flex items-center space-x-4 text-xs text-gray-600">
+                  <span className="flex items-center space-x-1">
+                    <span className="inline-block h-3 w-3 rounded bg-orange-400"></span>
+                    <span>Aktif</span>
+                  </span>
+                  <span className="flex items-center space-x-1">
+                    <span className="inline-block h-3 w-3 rounded bg-gray-300"></span>
+                    <span>Nonaktif</span>
+                  </span>
+                  <span className="flex items-center space-x-1">
+                    <span className="inline-block h-3 w-3 rounded bg-red-500"></span>
+                    <span>Bentrok</span>
+                  </span>
+                </div>
+              </div>
+
+              {monthPromotions.length === 0 ? (
+                <div className="text-center py-8 text-gray-500">
+                  Tidak ada promo pada bulan ini
+                </div>
+              ) : (
+                <div className="space-y-2">
+                  <div className="flex text-xs text-gray-400 ml-48">
+                    {Array.from({ length: daysInMonth }, (_, i) => (
+                      <span key={i} className="flex-1 text-center">{(i + 1) % 5 === 1 ? i + 1 : ''}</span>
+                    ))}
+                  </div>
+                  {monthPromotions.map((promotion) => (
+                    <div key={promotion.id} className="flex items-center">
+                      <button
+                        onClick={() => startEditing(promotion)}
+                        className="w-48 pr-3 text-left text-sm text-gray-700 truncate hover:text-red-600"
+                        title={promotion.promo_name}
+                      >
+                        {promotion.promo_name}
+                      </button>
+                      <div className="flex-1 relative h-6 bg-gray-50 rounded">
+                        <div
+                          className={`absolute top-0 h-6 rounded text-xs text-white flex items-center px-2 overflow-hidden whitespace-nowrap ${
+                            !promotion.is_active
+                              ? 'bg-gray-300'
+                              : conflictingIds.has(promotion.id)
+                                ? 'bg-red-500'
+                                : 'bg-orange-400'
+                          }`}
+                          style={getBarStyle(promotion)}
+                          title={`${getPromotionTargetLabel(promotion, getProductName(promotion.product_id))} -${promotion.discount_percentage}%`}
+                        >
+                          -{promotion.discount_percentage}%
+                        </div>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -3,7 +3,18 @@
 import { useState, useEffect } from 'react'
 import { User } from '@supabase/supabase-js'
 import { supabase } from '@/lib/supabase'
-import { BarChart3, TrendingUp, Download, Calendar, Store } from 'lucide-react'
+import { BarChart3, TrendingUp, Download, Calendar, Store, Clock, CalendarDays, Truck, X } from 'lucide-react'
+import { fetchAppSettings } from '@/lib/settings'
+import { formatDuration } from '@/lib/geolocation'
+import { OPEN_ORDER_STATUSES, getOrderStatusInfo } from '@/lib/orderStatus'
+import { ExportSheet, downloadWorkbook, downloadCsvFiles } from '@/lib/spreadsheetExport'
+import { fetchKpiSummary } from '@/lib/kpis'
+import { fetchAllPages } from '@/lib/pagination'
+import VisitDetailModal from './VisitDetailModal'
+import PromotionEffectiveness from './PromotionEffectiveness'
+import SalesmanLeaderboard from './SalesmanLeaderboard'
+import DailyRecap from './DailyRecap'
+import SalesTargetProgress from './SalesTargetProgress'
 
 interface ReportsProps {
   user: User
@@ -18,7 +29,16 @@ interface TopStore {
   visit_count: number
 }
 
+interface ShortVisit {
+  visit_id: string
+  date: string
+  store_name: string
+  store_code: string
+  duration_minutes: number
+}
+
 interface RecentSale {
+  visit_id: string
   date: string
   store_name: string
   product_name: string
@@ -27,24 +47,126 @@ interface RecentSale {
   amount: number
 }
 
+interface StuckOrder {
+  visit_id: string
+  date: string
+  store_name: string
+  store_code: string
+  status: string
+  hours_in_status: number
+  amount: number
+}
+
+// A visit with its order lines, as the report reads them
+interface ReportVisit {
+  id: string
+  visit_date: string
+  has_order: boolean
+  duration_minutes: number | null
+  order_status: string | null
+  stores: {
+    store_name: string
+    store_code: string
+  }
+  visit_orders: {
+    quantity: number
+    line_total: number
+    delivered_line_total: number | null
+    products: {
+      product_name: string
+      sku_code: string
+    }
+  }[]
+}
+
+// An open order past the SLA
+interface OpenOrderVisit {
+  id: string
+  visit_date: string
+  order_status: string
+  order_status_updated_at: string
+  stores: {
+    store_name: string
+    store_code: string
+  }
+  visit_orders: { line_total: number }[]
+}
+
+// A visit with its order lines, as the export reads them
+interface ExportVisit {
+  id: string
+  visit_date: string
+  salesman_id: string
+  has_order: boolean
+  notes: string | null
+  order_status: string | null
+  stores: {
+    store_name: string
+    store_code: string
+    category: string
+    route: string
+  }
+  visit_orders: {
+    quantity: number
+    unit_price: number
+    discount_percentage: number | null
+    line_total: number
+    delivered_quantity: number | null
+    delivered_line_total: number | null
+    products: {
+      product_name: string
+      sku_code: string
+    }
+    promotions: { promo_name: string } | null
+  }[]
+}
+
 export default function Reports({ user, userRole }: ReportsProps) {
   const [metrics, setMetrics] = useState({
     totalSales: 0,
     storeVisits: 0,
     conversionRate: 0,
-    avgOrderValue: 0
+    avgOrderValue: 0,
+    mslAchievement: 0
   })
   const [topStores, setTopStores] = useState<TopStore[]>([])
   const [recentSales, setRecentSales] = useState<RecentSale[]>([])
+  const [visitTime, setVisitTime] = useState({
+    avgDuration: 0,
+    trackedVisits: 0,
+    minDuration: 0
+  })
+  const [shortVisits, setShortVisits] = useState<ShortVisit[]>([])
+  const [planCompliance, setPlanCompliance] = useState({
+    planned: 0,
+    visited: 0
+  })
+  const [fulfilment, setFulfilment] = useState({
+    bookedSales: 0,
+    deliveredSales: 0,
+    cancelledSales: 0,
+    slaHours: 0
+  })
+  const [stuckOrders, setStuckOrders] = useState<StuckOrder[]>([])
   const [loading, setLoading] = useState(true)
+  const [exporting, setExporting] = useState(false)
+  const [showExportMenu, setShowExportMenu] = useState(false)
+  const [selectedVisitId, setSelectedVisitId] = useState<string | null>(null)
+  // Admin drill-down into one salesman from the leaderboard
+  const [salesmanFilter, setSalesmanFilter] = useState<{ id: string; name: string } | null>(null)
+  const [showDailyRecap, setShowDailyRecap] = useState(false)
   const [dateRange, setDateRange] = useState({
     start: new Date(new Date().getFullYear(), new Date().getMonth(), 1).toISOString().split('T')[0],
     end: new Date().toISOString().split('T')[0]
   })
 
+  const today = new Date().toISOString().split('T')[0]
+  // null for all salesmen
+  const scopeSalesmanId = userRole === 'admin' ? salesmanFilter?.id || null : user.id
+
   useEffect(() => {
     fetchReportsData()
-  }, [dateRange, user.id, userRole])
+  }, [dateRange, user.id, userRole, salesmanFilter])
 
   const fetchReportsData = async () => {
     setLoading(true)
@@ -56,38 +178,42 @@ export default function Reports({ user, userRole }: ReportsProps) {
           id,
           visit_date,
           has_order,
+          duration_minutes,
+          order_status,
           stores!inner(store_name, store_code),
           visit_orders(
             quantity,
             line_total,
+            delivered_line_total,
             products!inner(product_name, sku_code)
           )
         `)
         .gte('visit_date', dateRange.start)
         .lte('visit_date', dateRange.end)
+        .is('voided_at', null)
 
-      if (userRole !== 'admin') {
-        baseQuery = baseQuery.eq('salesman_id', user.id)
+      if (scopeSalesmanId) {
+        baseQuery = baseQuery.eq('salesman_id', scopeSalesmanId)
       }
 
-      const { data: visitsData, error } = await baseQuery
+      const [{ data: visitsData, error }, kpis] = await Promise.all([
+        baseQuery,
+        fetchKpiSummary(dateRange.start, dateRange.end, scopeSalesmanId)
+      ])
       if (error) throw error
+      const visits: ReportVisit[] = visitsData || []
 
-      // Calculate metrics
-      const totalVisits = visitsData?.length || 0
-      const visitsWithOrders = visitsData?.filter(v => v.has_order) || []
-      const totalSales = visitsData?.reduce((sum, visit) => {
-        return sum + (visit.visit_orders?.reduce((orderSum, order) => orderSum + order.line_total, 0) || 0)
-      }, 0) || 0
-      
-      const conversionRate = totalVisits > 0 ? (visitsWithOrders.length / totalVisits) * 100 : 0
-      const avgOrderValue = visitsWithOrders.length > 0 ? totalSales / visitsWithOrders.length : 0
+      // Headline metrics share the `sales_kpis` definition with Overview and Daily Recap
+      const orderTotal = (visit: { visit_orders: { line_total: number }[] }) => {
+        return visit.visit_orders?.reduce((sum, order) => sum + order.line_total, 0) || 0
+      }
 
       setMetrics({
-        totalSales,
-        storeVisits: totalVisits,
-        conversionRate,
-        avgOrderValue
+        totalSales: kpis.total_sales,
+        storeVisits: kpis.total_calls,
+        conversionRate: kpis.total_calls > 0 ? (kpis.effective_calls / kpis.total_calls) * 100 : 0,
+        avgOrderValue: kpis.effective_calls > 0 ? kpis.total_sales / kpis.effective_calls : 0,
+        mslAchievement: kpis.msl_achievement
       })
 
       // Calculate top stores
@@ -99,7 +225,7 @@ export default function Reports({ user, userRole }: ReportsProps) {
         visit_count: number
       }>()
 
-      visitsData?.forEach(visit => {
+      visits.forEach(visit => {
         const storeKey = visit.stores.store_code
         const existing = storeStats.get(storeKey) || {
           store_name: visit.stores.store_name,
@@ -110,9 +236,9 @@ export default function Reports({ user, userRole }: ReportsProps) {
         }
 
         existing.visit_count++
-        if (visit.has_order) {
+        if (visit.has_order && visit.order_status !== 'cancelled') {
           existing.total_orders++
-          existing.total_amount += visit.visit_orders?.reduce((sum, order) => sum + order.line_total, 0) || 0
+          existing.total_amount += orderTotal(visit)
         }
 
         storeStats.set(storeKey, existing)
@@ -126,9 +252,10 @@ export default function Reports({ user, userRole }: ReportsProps) {
 
       // Prepare recent sales
       const recentSalesData: RecentSale[] = []
-      visitsData?.forEach(visit => {
+      visits.forEach(visit => {
         visit.visit_orders?.forEach(order => {
           recentSalesData.push({
+            visit_id: visit.id,
             date: visit.visit_date,
             store_name: visit.stores.store_name,
             product_name: order.products.product_name,
@@ -146,6 +273,95 @@ export default function Reports({ user, userRole }: ReportsProps) {
       
       setRecentSales(sortedSales)
 
+      // Time in store, only for visits with both check-in and check-out
+      const settings = await fetchAppSettings()
+      const minDuration = settings.min_visit_duration_minutes
+      const timedVisits = visits.filter(visit => visit.duration_minutes !== null)
+      const totalDuration = timedVisits.reduce((sum, visit) => sum + visit.duration_minutes, 0)
+
+      setVisitTime({
+        avgDuration: timedVisits.length > 0 ? Math.round(totalDuration / timedVisits.length) : 0,
+        trackedVisits: timedVisits.length,
+        minDuration
+      })
+      setShortVisits(
+        timedVisits
+          .filter(visit => visit.duration_minutes < minDuration)
+          .map(visit => ({
+            visit_id: visit.id,
+            date: visit.visit_date,
+            store_name: visit.stores.store_name,
+            store_code: visit.stores.store_code,
+            duration_minutes: visit.duration_minutes
+          }))
+          .sort((a, b) => a.duration_minutes - b.duration_minutes)
+      )
+
+      // Booked vs delivered sales
+      const deliveredSales = visits
+        .filter(visit => visit.has_order && visit.order_status !== 'cancelled')
+        .reduce((sum, visit) => {
+          return sum + (visit.visit_orders?.reduce((orderSum, order) => orderSum + (order.delivered_line_total || 0), 0) || 0)
+        }, 0)
+      const cancelledSales = visits
+        .filter(visit => visit.order_status === 'cancelled')
+        .reduce((sum, visit) => sum + orderTotal(visit), 0)
+
+      setFulfilment({
+        bookedSales: kpis.total_sales,
+        deliveredSales,
+        cancelledSales,
+        slaHours: settings.order_status_sla_hours
+      })
+
+      // Orders waiting past the SLA, whatever their visit date
+      const slaCutoff = new Date(Date.now() - settings.order_status_sla_hours * 60 * 60 * 1000)
+      let stuckQuery = supabase
+        .from('visits')
+        .select(`
+          id,
+          visit_date,
+          order_status,
+          order_status_updated_at,
+          stores!inner(store_name, store_code),
+          visit_orders(line_total)
+        `)
+        .in('order_status', OPEN_ORDER_STATUSES)
+        .lt('order_status_updated_at', slaCutoff.toISOString())
+        .is('voided_at', null)
+        .order('order_status_updated_at', { ascending: true })
+
+      if (scopeSalesmanId) {
+        stuckQuery = stuckQuery.eq('salesman_id', scopeSalesmanId)
+      }
+
+      const { data: stuckData, error: stuckError } = await stuckQuery
+      if (stuckError) throw stuckError
+      const openOrders: OpenOrderVisit[] = stuckData || []
+
+      setStuckOrders(openOrders.map(visit => ({
+        visit_id: visit.id,
+        date: visit.visit_date,
+        store_name: visit.stores.store_name,
+        store_code: visit.stores.store_code,
+        status: visit.order_status,
+        hours_in_status: Math.floor((Date.now() - new Date(visit.order_status_updated_at).getTime()) / (60 * 60 * 1000)),
+        amount: orderTotal(visit)
+      })))
+
+      // Journey plan compliance: planned store-days vs those actually visited
+      const { data: complianceData, error: complianceError } = await supabase.rpc('journey_plan_compliance', {
+        p_salesman_id: scopeSalesmanId,
+        p_start: dateRange.start,
+        p_end: dateRange.end
+      })
+      if (complianceError) throw complianceError
+
+      setPlanCompliance({
+        planned: (complianceData || []).reduce((sum, row) => sum + row.planned_count, 0),
+        visited: (complianceData || []).reduce((sum, row) => sum + row.visited_count, 0)
+      })
+
     } catch (error) {
       console.error('Error fetching reports data:', error)
       // Reset to empty state on error
@@ -153,15 +369,195 @@ export default function Reports({ user, userRole }: ReportsProps) {
         totalSales: 0,
         storeVisits: 0,
         conversionRate: 0,
-        avgOrderValue: 0
+        avgOrderValue: 0,
+        mslAchievement: 0
       })
       setTopStores([])
       setRecentSales([])
+      setShortVisits([])
+      setPlanCompliance({ planned: 0, visited: 0 })
+      setFulfilment({ bookedSales: 0, deliveredSales: 0, cancelledSales: 0, slaHours: 0 })
+      setStuckOrders([])
     } finally {
       setLoading(false)
     }
   }
 
+  // Everything in the date range, unlike the top 5 / last 10 shown on screen
+  const buildExportSheets = async (): Promise<ExportSheet[]> => {
+    const fetchVisitsPage = (from: number, to: number) => {
+      let exportQuery = supabase
+        .from('visits')
+        .select(`
+          id,
+          visit_date,
+          salesman_id,
+          has_order,
+          notes,
+          order_status,
+          stores!inner(store_name, store_code, category, route),
+          visit_orders(
+            quantity,
+            unit_price,
+            discount_percentage,
+            line_total,
+            delivered_quantity,
+            delivered_line_total,
+            products!inner(product_name, sku_code),
+            promotions(promo_name)
+          )
+        `)
+        .gte('visit_date', dateRange.start)
+        .lte('visit_date', dateRange.end)
+        .is('voided_at', null)
+        .order('visit_date')
+        .order('id')
+
+      if (scopeSalesmanId) {
+        exportQuery = exportQuery.eq('salesman_id', scopeSalesmanId)
+      }
+
+      return exportQuery.range(from, to)
+    }
+
+    // Every order line of the period, past the 1000-row page limit
+    const [visits, { data: usersData }] = await Promise.all([
+      fetchAllPages<ExportVisit>(fetchVisitsPage),
+      supabase.from('users').select('id, name, email')
+    ])
+
+    const salesmanNames = new Map((usersData || []).map(u => [u.id, u.name || u.email]))
+
+    const storeRows = new Map<string, {
+      store_code: string
+      store_name: string
+      category: string
+      route: string
+      visits: number
+      orders: number
+      booked: number
+      delivered: number
+    }>()
+
+    visits.forEach(visit => {
+      const existing = storeRows.get(visit.stores.store_code) || {
+        store_code: visit.stores.store_code,
+        store_name: visit.stores.store_name,
+        category: visit.stores.category,
+        route: visit.stores.route,
+        visits: 0,
+        orders: 0,
+        booked: 0,
+        delivered: 0
+      }
+
+      existing.visits++
+      if (visit.has_order && visit.order_status !== 'cancelled') {
+        existing.orders++
+        existing.booked += visit.visit_orders?.reduce((sum, order) => sum + order.line_total, 0) || 0
+        existing.delivered += visit.visit_orders?.reduce((sum, order) => sum + (order.delivered_line_total || 0), 0) || 0
+      }
+      storeRows.set(visit.stores.store_code, existing)
+    })
+
+    return [
+      {
+        name: 'Summary',
+        rows: [
+          ['METRIC', 'VALUE'],
+          ['Period start', dateRange.start],
+          ['Period end', dateRange.end],
+          ['Store visits', metrics.storeVisits],
+          ['Conversion rate (%)', Number(metrics.conversionRate.toFixed(2))],
+          ['Booked sales (IDR)', metrics.totalSales],
+          ['Delivered sales (IDR)', fulfilment.deliveredSales],
+          ['Cancelled orders (IDR)', fulfilment.cancelledSales],
+          ['Avg order value (IDR)', Math.round(metrics.avgOrderValue)],
+          ['MSL achievement (%)', Number(metrics.mslAchievement.toFixed(2))],
+          ['Journey plan visits planned', planCompliance.planned],
+          ['Journey plan visits done', planCompliance.visited],
+          ['Avg time in store (minutes)', visitTime.avgDuration]
+        ]
+      },
+      {
+        name: 'Stores',
+        rows: [
+          ['STORE_CODE', 'STORE_NAME', 'CATEGORY', 'ROUTE', 'VISITS', 'ORDERS', 'BOOKED_IDR', 'DELIVERED_IDR'],
+          ...Array.from(storeRows.values())
+            .sort((a, b) => b.booked - a.booked)
+            .map(store => [
+              store.store_code, store.store_name, store.category, store.route,
+              store.visits, store.orders, store.booked, store.delivered
+            ])
+        ]
+      },
+      {
+        name: 'Order Lines',
+        rows: [
+          [
+            'VISIT_DATE', 'SALESMAN', 'STORE_CODE', 'STORE_NAME', 'STORE_CATEGORY', 'ORDER_STATUS',
+            'SKU_CODE', 'PRODUCT_NAME', 'QUANTITY', 'UNIT_PRICE_IDR', 'DISCOUNT_PCT', 'PROMO',
+            'LINE_TOTAL_IDR', 'DELIVERED_QUANTITY', 'DELIVERED_TOTAL_IDR'
+          ],
+          ...visits.flatMap(visit => (visit.visit_orders || []).map(order => [
+            visit.visit_date,
+            salesmanNames.get(visit.salesman_id) || visit.salesman_id,
+            visit.stores.store_code,
+            visit.stores.store_name,
+            visit.stores.category,
+            visit.order_status,
+            order.products.sku_code,
+            order.products.product_name,
+            order.quantity,
+            order.unit_price,
+            order.discount_percentage,
+            order.promotions?.promo_name,
+            order.line_total,
+            order.delivered_quantity,
+            order.delivered_line_total
+          ]))
+        ]
+      },
+      {
+        name: 'No Order Visits',
+        rows: [
+          ['VISIT_DATE', 'SALESMAN', 'STORE_CODE', 'STORE_NAME', 'STORE_CATEGORY', 'REASON'],
+          ...visits
+            .filter(visit => !visit.has_order)
+            .map(visit => [
+              visit.visit_date,
+              salesmanNames.get(visit.salesman_id) || visit.salesman_id,
+              visit.stores.store_code,
+              visit.stores.store_name,
+              visit.stores.category,
+              visit.notes
+            ])
+        ]
+      }
+    ]
+  }
+
+  const handleExport = async (format: 'xlsx' | 'csv') => {
+    setShowExportMenu(false)
+    setExporting(true)
+    try {
+      const sheets = await buildExportSheets()
+      const salesmanSuffix = salesmanFilter ? `_${salesmanFilter.name.toLowerCase().replace(/[^a-z0-9]+/g, '_')}` : ''
+      const prefix = `sales_report_${dateRange.start}_${dateRange.end}${salesmanSuffix}`
+
+      if (format === 'xlsx') {
+        await downloadWorkbook(`${prefix}.xlsx`, sheets)
+      } else {
+        await downloadCsvFiles(prefix, sheets)
+      }
+    } catch (error) {
+      console.error('Error exporting report:', error)
+      alert('Gagal mengekspor laporan')
+    } finally {
+      setExporting(false)
+    }
+  }
+
   return (
     <div className="p-6 space-y-6">
       {/* Header */}
@@ -169,6 +565,27 @@ export default function Reports({ user, userRole }: ReportsProps) {
         <div>
           <h1 className="text-2xl font-bold text-gray-900">Sales Reports</h1>
           <p className="text-gray-600">Track your performance and analyze trends</p>
+          {salesmanFilter && (
+            <div className="flex items-center gap-2 mt-2">
+              <span className="inline-flex items-center px-3 py-1 rounded-full text-sm font-medium bg-orange-100 text-orange-800">
+                {salesmanFilter.name}
+                <button
+                  onClick={() => setSalesmanFilter(null)}
+                  className="ml-2 text-orange-600 hover:text-orange-800"
+                  title="Tampilkan semua salesman"
+                >
+                  <X className="h-3 w-3" />
+                </button>
+              </span>
+              <button
+                onClick={() => setShowDailyRecap(true)}
+                className="inline-flex items-center px-3 py-1 text-sm border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors"
+              >
+                <CalendarDays className="h-4 w-4 mr-1" />
+                Rekap Harian
+              </button>
+            </div>
+          )}
         </div>
         <div className="flex gap-2">
           <div className="flex gap-2">
@@ -185,15 +602,37 @@ export default function Reports({ user, userRole }: ReportsProps) {
               className="px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-orange-500"
             />
           </div>
-          <button className="inline-flex items-center px-4 py-2 bg-gradient-to-r from-orange-500 to-red-500 text-white rounded-lg hover:from-orange-600 hover:to-red-600 transition-all duration-200 shadow-sm">
-            <Download className="h-4 w-4 mr-2" />
-            Export
-          </button>
+          <div className="relative">
+            <button
+              onClick={() => setShowExportMenu(prev => !prev)}
+              disabled={exporting || loading}
+              className="inline-flex items-center px-4 py-2 bg-gradient-to-r from-orange-500 to-red-500 text-white rounded-lg hover:from-orange-600 hover:to-red-600 transition-all duration-200 shadow-sm disabled:opacity-50"
+            >
+              <Download className="h-4 w-4 mr-2" />
+              {exporting ? 'Exporting...' : 'Export'}
+            </button>
+            {showExportMenu && (
+              <div className="absolute right-0 mt-2 w-48 bg-white rounded-lg shadow-lg border border-gray-200 z-10">
+                <button
+                  onClick={() => handleExport('xlsx')}
+                  className="w-full text-left px-4 py-2 text-sm text-gray-700 hover:bg-gray-50 rounded-t-lg"
+                >
+                  Excel (.xlsx)
+                </button>
+                <button
+                  onClick={() => handleExport('csv')}
+                  className="w-full text-left px-4 py-2 text-sm text-gray-700 hover:bg-gray-50 rounded-b-lg"
+                >
+                  CSV (zip, 4 file)
+                </button>
+              </div>
+            )}
+          </div>
         </div>
       </div>
 
       {/* Metrics Grid */}
-      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
+      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-5 gap-6">
         <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6">
           <div className="flex items-center justify-between mb-4">
             <h3 className="text-sm font-medium text-gray-600">Total Sales</h3>
@@ -229,7 +668,7 @@ export default function Reports({ user, userRole }: ReportsProps) {
             <p className="text-2xl font-bold text-gray-900">
               {loading ? '...' : `${metrics.conversionRate.toFixed(1)}%`}
             </p>
-            <span className="text-sm text-gray-500">Visits with orders</span>
+            <span className="text-sm text-gray-500">Effective calls</span>
           </div>
         </div>
 
@@ -245,8 +684,32 @@ export default function Reports({ user, userRole }: ReportsProps) {
             <span className="text-sm text-gray-500">Per order</span>
           </div>
         </div>
+
+        <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6">
+          <div className="flex items-center justify-between mb-4">
+            <h3 className="text-sm font-medium text-gray-600">MSL Achievement</h3>
+            <BarChart3 className="h-5 w-5 text-gray-400" />
+          </div>
+          <div className="space-y-2">
+            <p className="text-2xl font-bold text-gray-900">
+              {loading ? '...' : `${metrics.mslAchievement.toFixed(1)}%`}
+            </p>
+            <span className="text-sm text-gray-500">Average per store</span>
+          </div>
+        </div>
       </div>
 
+      {/* Target Achievement */}
+      <SalesTargetProgress
+        salesmanId={scopeSalesmanId}
+        asOfDate={dateRange.end < today ? dateRange.end : today}
+      />
+
+      {/* Salesman Leaderboard */}
+      {userRole === 'admin' && !salesmanFilter && (
+        <SalesmanLeaderboard dateRange={dateRange} onSelectSalesman={setSalesmanFilter} />
+      )}
+
       {/* Charts Section */}
       <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
         {/* Top Stores */}
@@ -299,6 +762,183 @@ export default function Reports({ user, userRole }: ReportsProps) {
         </div>
       </div>
 
+      {/* Journey Plan Compliance */}
+      <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6">
+        <div className="flex items-center justify-between mb-4">
+          <h3 className="text-lg font-semibold text-gray-900">Journey Plan Compliance</h3>
+          <CalendarDays className="h-5 w-5 text-gray-400" />
+        </div>
+        {loading ? (
+          <div className="flex items-center justify-center py-8">
+            <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-orange-600"></div>
+          </div>
+        ) : planCompliance.planned === 0 ? (
+          <div className="text-center py-8 text-gray-500">
+            Tidak ada kunjungan terjadwal pada periode ini
+          </div>
+        ) : (
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div className="p-4 bg-gray-50 rounded-lg">
+              <p className="text-sm text-gray-600">Kunjungan terjadwal</p>
+              <p className="text-xl font-bold text-gray-900">{planCompliance.planned}</p>
+            </div>
+            <div className="p-4 bg-gray-50 rounded-lg">
+              <p className="text-sm text-gray-600">Terjadwal & dikunjungi</p>
+              <p className="text-xl font-bold text-gray-900">{planCompliance.visited}</p>
+            </div>
+            <div className="p-4 bg-green-50 rounded-lg">
+              <p className="text-sm text-green-800">Compliance</p>
+              <p className="text-xl font-bold text-green-900">
+                {((planCompliance.visited / planCompliance.planned) * 100).toFixed(1)}%
+              </p>
+            </div>
+          </div>
+        )}
+      </div>
+
+      {/* Order Fulfilment */}
+      <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6">
+        <div className="flex items-center justify-between mb-4">
+          <h3 className="text-lg font-semibold text-gray-900">Order Fulfilment</h3>
+          <Truck className="h-5 w-5 text-gray-400" />
+        </div>
+        {loading ? (
+          <div className="flex items-center justify-center py-8">
+            <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-orange-600"></div>
+          </div>
+        ) : (
+          <>
+            <div className="grid grid-cols-1 md:grid-cols-4 gap-4 mb-4">
+              <div className="p-4 bg-gray-50 rounded-lg">
+                <p className="text-sm text-gray-600">Booked sales</p>
+                <p className="text-xl font-bold text-gray-900">Rp {fulfilment.bookedSales.toLocaleString('id-ID')}</p>
+              </div>
+              <div className="p-4 bg-green-50 rounded-lg">
+                <p className="text-sm text-green-800">Delivered sales</p>
+                <p className="text-xl font-bold text-green-900">Rp {fulfilment.deliveredSales.toLocaleString('id-ID')}</p>
+              </div>
+              <div className="p-4 bg-gray-50 rounded-lg">
+                <p className="text-sm text-gray-600">Fulfilment rate</p>
+                <p className="text-xl font-bold text-gray-900">
+                  {fulfilment.bookedSales > 0 ? ((fulfilment.deliveredSales / fulfilment.bookedSales) * 100).toFixed(1) : '0.0'}%
+                </p>
+              </div>
+              <div className="p-4 bg-red-50 rounded-lg">
+                <p className="text-sm text-red-800">Order dibatalkan</p>
+                <p className="text-xl font-bold text-red-900">Rp {fulfilment.cancelledSales.toLocaleString('id-ID')}</p>
+              </div>
+            </div>
+            {stuckOrders.length === 0 ? (
+              <p className="text-sm text-gray-500">Tidak ada order yang tertahan lebih dari {fulfilment.slaHours} jam</p>
+            ) : (
+              <>
+                <p className="text-sm font-medium text-yellow-800 mb-2">
+                  {stuckOrders.length} order tertahan lebih dari {fulfilment.slaHours} jam
+                </p>
+                <div className="overflow-x-auto">
+                  <table className="w-full text-sm">
+                    <thead>
+                      <tr className="border-b border-gray-200">
+                        <th className="text-left py-3 px-4 font-medium text-gray-600">Date</th>
+                        <th className="text-left py-3 px-4 font-medium text-gray-600">Store</th>
+                        <th className="text-left py-3 px-4 font-medium text-gray-600">Status</th>
+                        <th className="text-left py-3 px-4 font-medium text-gray-600">Waiting</th>
+                        <th className="text-left py-3 px-4 font-medium text-gray-600">Amount</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {stuckOrders.map((order) => {
+                        const statusInfo = getOrderStatusInfo(order.status)
+                        return (
+                          <tr
+                            key={order.visit_id}
+                            onClick={() => setSelectedVisitId(order.visit_id)}
+                            className="border-b border-gray-100 hover:bg-gray-50 cursor-pointer"
+                          >
+                            <td className="py-3 px-4 text-gray-900">{order.date}</td>
+                            <td className="py-3 px-4 text-gray-900">{order.store_name} ({order.store_code})</td>
+                            <td className="py-3 px-4">
+                              <span className={`inline-flex items-center px-2 py-1 rounded-full text-xs font-medium ${statusInfo?.className || 'bg-gray-100 text-gray-800'}`}>
+                                {statusInfo?.label || order.status}
+                              </span>
+                            </td>
+                            <td className="py-3 px-4 font-medium text-yellow-700">
+                              {order.hours_in_status >= 24
+                                ? `${Math.floor(order.hours_in_status / 24)} hari ${order.hours_in_status % 24} jam`
+                                : `${order.hours_in_status} jam`}
+                            </td>
+                            <td className="py-3 px-4 font-medium text-gray-900">Rp {order.amount.toLocaleString('id-ID')}</td>
+                          </tr>
+                        )
+                      })}
+                    </tbody>
+                  </table>
+                </div>
+              </>
+            )}
+          </>
+        )}
+      </div>
+
+      {/* Promotion Effectiveness */}
+      <PromotionEffectiveness salesmanId={scopeSalesmanId} dateRange={dateRange} />
+
+      {/* Time in Store */}
+      <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6">
+        <div className="flex items-center justify-between mb-4">
+          <h3 className="text-lg font-semibold text-gray-900">Time in Store</h3>
+          <Clock className="h-5 w-5 text-gray-400" />
+        </div>
+        {loading ? (
+          <div className="flex items-center justify-center py-8">
+            <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-orange-600"></div>
+          </div>
+        ) : (
+          <>
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-4">
+              <div className="p-4 bg-gray-50 rounded-lg">
+                <p className="text-sm text-gray-600">Rata-rata durasi</p>
+                <p className="text-xl font-bold text-gray-900">{formatDuration(visitTime.avgDuration)}</p>
+              </div>
+              <div className="p-4 bg-gray-50 rounded-lg">
+                <p className="text-sm text-gray-600">Kunjungan dengan check-in/out</p>
+                <p className="text-xl font-bold text-gray-900">{visitTime.trackedVisits}</p>
+              </div>
+              <div className="p-4 bg-yellow-50 rounded-lg">
+                <p className="text-sm text-yellow-800">Kunjungan &lt; {visitTime.minDuration} menit</p>
+                <p className="text-xl font-bold text-yellow-900">{shortVisits.length}</p>
+              </div>
+            </div>
+            {shortVisits.length > 0 && (
+              <div className="overflow-x-auto">
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="border-b border-gray-200">
+                      <th className="text-left py-3 px-4 font-medium text-gray-600">Date</th>
+                      <th className="text-left py-3 px-4 font-medium text-gray-600">Store</th>
+                      <th className="text-left py-3 px-4 font-medium text-gray-600">Duration</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {shortVisits.map((visit, index) => (
+                      <tr
+                        key={index}
+                        onClick={() => setSelectedVisitId(visit.visit_id)}
+                        className="border-b border-gray-100 hover:bg-gray-50 cursor-pointer"
+                      >
+                        <td className="py-3 px-4 text-gray-900">{visit.date}</td>
+                        <td className="py-3 px-4 text-gray-900">{visit.store_name} ({visit.store_code})</td>
+                        <td className="py-3 px-4 font-medium text-yellow-700">{formatDuration(visit.duration_minutes)}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </>
+        )}
+      </div>
+
       {/* Recent Activity */}
       <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6">
         <h3 className="text-lg font-semibold text-gray-900 mb-4">Recent Sales Activity</h3>
@@ -325,7 +965,11 @@ export default function Reports({ user, userRole }: ReportsProps) {
               </thead>
               <tbody>
                 {recentSales.map((sale, index) => (
-                  <tr key={index} className="border-b border-gray-100 hover:bg-gray-50">
+                  <tr
+                    key={index}
+                    onClick={() => setSelectedVisitId(sale.visit_id)}
+                    className="border-b border-gray-100 hover:bg-gray-50 cursor-pointer"
+                  >
                     <td className="py-3 px-4 text-gray-900">{sale.date}</td>
                     <td className="py-3 px-4 text-gray-900">{sale.store_name}</td>
                     <td className="py-3 px-4 text-gray-900">{sale.product_name}</td>
@@ -339,6 +983,28 @@ export default function Reports({ user, userRole }: ReportsProps) {
           </div>
         )}
       </div>
+
+      {/* Visit Detail Modal */}
+      {selectedVisitId && (
+        <VisitDetailModal
+          user={user}
+          userRole={userRole}
+          visitId={selectedVisitId}
+          onClose={() => setSelectedVisitId(null)}
+          onSuccess={fetchReportsData}
+        />
+      )}
+
+      {/* Daily Recap for the selected salesman */}
+      {showDailyRecap && salesmanFilter && (
+        <DailyRecap
+          user={user}
+          userRole={userRole}
+          selectedDate={dateRange.end}
+          salesman={salesmanFilter}
+          onClose={() => setShowDailyRecap(false)}
+        />
+      )}
     </div>
   )
 }
\ No newline at end of file
@@ -0,0 +1,243 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { Target } from 'lucide-react'
+import { fetchAppSettings } from '@/lib/settings'
+import {
+  TARGET_DIMENSIONS,
+  TargetDimension,
+  TargetProgress,
+  NO_ACTUALS,
+  fetchMonthTargets,
+  fetchTargetActuals,
+  calculateProgress,
+  countWorkingDays,
+  getMonthStart,
+  getMonthEnd,
+  getTargetDimensionLabel
+} from '@/lib/targets'
+
+interface SalesTargetProgressProps {
+  // null for all salesmen
+  salesmanId: string | null
+  // Actuals run from the start of this date's month up to the date itself
+  asOfDate: string
+  // Only the total target, for the daily recap
+  compact?: boolean
+}
+
+interface TargetGroup {
+  dimension: TargetDimension
+  dimensionValue: string | null
+  sales: TargetProgress | null
+  ec: TargetProgress | null
+  msl: TargetProgress | null
+}
+
+const formatRupiah = (value: number) => `Rp ${Math.round(value).toLocaleString('id-ID')}`
+
+const getAchievementColor = (achievement: number) => {
+  if (achievement >= 100) return 'text-green-600'
+  if (achievement >= 70) return 'text-yellow-600'
+  return 'text-red-600'
+}
+
+export default function SalesTargetProgress({ salesmanId, asOfDate, compact = false }: SalesTargetProgressProps) {
+  const [groups, setGroups] = useState<TargetGroup[]>([])
+  const [remainingDays, setRemainingDays] = useState(0)
+  const [loading, setLoading] = useState(true)
+
+  useEffect(() => {
+    fetchProgress()
+  }, [salesmanId, asOfDate])
+
+  const fetchProgress = async () => {
+    setLoading(true)
+    try {
+      const monthStart = getMonthStart(asOfDate)
+      const targets = await fetchMonthTargets(salesmanId, monthStart)
+      if (targets.length === 0) {
+        setGroups([])
+        return
+      }
+
+      const settings = await fetchAppSettings()
+
+      // The as-of day still counts as remaining, so a salesman sees today's need in the morning
+      const remaining = countWorkingDays(asOfDate, getMonthEnd(asOfDate), settings.working_days_per_week)
+      setRemainingDays(remaining)
+
+      // Targets of several salesmen on the same line add up (sales, EC) or average out (MSL)
+      const grouped = new Map<string, typeof targets>()
+      targets.forEach(target => {
+        const key = `${target.dimension}:${target.dimension_value || ''}`
+        grouped.set(key, [...(grouped.get(key) || []), target])
+      })
+
+      // One `sales_kpis` call per line, split by salesman
+      const lineActuals = await Promise.all(Array.from(grouped.values()).map(lines => {
+        return fetchTargetActuals(salesmanId, monthStart, asOfDate, lines[0].dimension, lines[0].dimension_value)
+      }))
+
+      const result: TargetGroup[] = Array.from(grouped.values()).map((lines, index) => {
+        const actuals = lines.map(target => ({ target, actual: lineActuals[index].get(target.salesman_id) || NO_ACTUALS }))
+        const withSales = actuals.filter(a => a.target.sales_value !== null)
+        const withEC = actuals.filter(a => a.target.ec_count !== null)
+        const withMSL = actuals.filter(a => a.target.msl_achievement !== null)
+
+        return {
+          dimension: lines[0].dimension,
+          dimensionValue: lines[0].dimension_value,
+          sales: withSales.length > 0
+            ? calculateProgress(
+              withSales.reduce((sum, a) => sum + (a.target.sales_value || 0), 0),
+              withSales.reduce((sum, a) => sum + a.actual.sales, 0),
+              remaining
+            )
+            : null,
+          ec: withEC.length > 0
+            ? calculateProgress(
+              withEC.reduce((sum, a) => sum + (a.target.ec_count || 0), 0),
+              withEC.reduce((sum, a) => sum + a.actual.ec, 0),
+              remaining
+            )
+            : null,
+          msl: withMSL.length > 0
+            ? calculateProgress(
+              withMSL.reduce((sum, a) => sum + (a.target.msl_achievement || 0), 0) / withMSL.length,
+              withMSL.reduce((sum, a) => sum + a.actual.mslAchievement, 0) / withMSL.length,
+              remaining
+            )
+            : null
+        }
+      })
+
+      const dimensionOrder = TARGET_DIMENSIONS.map(d => d.value)
+      setGroups(result.sort((a, b) =>
+        dimensionOrder.indexOf(a.dimension) - dimensionOrder.indexOf(b.dimension) ||
+        (a.dimensionValue || '').localeCompare(b.dimensionValue || '')
+      ))
+    } catch (error) {
+      console.error('Error fetching target progress:', error)
+      setGroups([])
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const total = groups.find(group => group.dimension === 'total')
+  const breakdown = groups.filter(group => group.dimension !== 'total')
+  const monthLabel = new Date(`${asOfDate}T00:00:00`).toLocaleDateString('id-ID', { month: 'long', year: 'numeric' })
+
+  const renderCard = (label: string, progress: TargetProgress | null, format: (value: number) => string, runRateUnit?: string) => {
+    if (!progress) return null
+
+    return (
+      <div className="border border-gray-200 rounded-lg p-4">
+        <div className="flex items-center justify-between mb-2">
+          <p className="text-sm font-medium text-gray-600">{label}</p>
+          <span className={`text-sm font-semibold ${getAchievementColor(progress.achievement)}`}>
+            {progress.achievement.toFixed(1)}%
+          </span>
+        </div>
+        <p className="text-lg font-bold text-gray-900">
+          {format(progress.actual)} <span className="text-sm font-normal text-gray-500">/ {format(progress.target)}</span>
+        </p>
+        <div className="w-full bg-gray-200 rounded-full h-2 mt-2">
+          <div
+            className="bg-gradient-to-r from-orange-500 to-red-500 h-2 rounded-full transition-all duration-300"
+            style={{ width: `${Math.min(progress.achievement, 100)}%` }}
+          ></div>
+        </div>
+        <div className="mt-2 space-y-0.5 text-xs text-gray-500">
+          {progress.gap > 0 ? (
+            <>
+              <p>Kurang {format(progress.gap)}</p>
+              {runRateUnit && (
+                <p>
+                  {progress.runRate !== null
+                    ? `${format(progress.runRate)} ${runRateUnit} (${remainingDays} hari kerja tersisa)`
+                    : 'Tidak ada hari kerja tersisa'}
+                </p>
+              )}
+            </>
+          ) : (
+            <p className="text-green-600">Target tercapai</p>
+          )}
+        </div>
+      </div>
+    )
+  }
+
+  const renderAchievement = (progress: TargetProgress | null) => {
+    if (!progress) return <span className="text-gray-400">-</span>
+    return <span className={getAchievementColor(progress.achievement)}>{progress.achievement.toFixed(1)}%</span>
+  }
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6">
+      <div className="flex items-center justify-between mb-4">
+        <div>
+          <h3 className="text-lg font-semibold text-gray-900">Target {monthLabel}</h3>
+          <p className="text-sm text-gray-600">Pencapaian s/d {new Date(`${asOfDate}T00:00:00`).toLocaleDateString('id-ID')}</p>
+        </div>
+        <Target className="h-5 w-5 text-gray-400" />
+      </div>
+
+      {loading ? (
+        <div className="flex items-center justify-center py-8">
+          <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-orange-600"></div>
+        </div>
+      ) : groups.length === 0 || (compact && !total) ? (
+        <div className="text-center py-8 text-gray-500">
+          Belum ada target untuk bulan ini
+        </div>
+      ) : (
+        <div className="space-y-6">
+          {total && (
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              {renderCard('Sales', total.sales, formatRupiah, 'per hari kerja')}
+              {renderCard('Effective Call', total.ec, value => Math.ceil(value).toString(), 'EC per hari kerja')}
+              {renderCard('MSL Achievement', total.msl, value => `${value.toFixed(1)}%`)}
+            </div>
+          )}
+
+          {!compact && breakdown.length > 0 && (
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b border-gray-200">
+                    <th className="text-left py-3 px-4 font-medium text-gray-600">Target</th>
+                    <th className="text-right py-3 px-4 font-medium text-gray-600">Sales</th>
+                    <th className="text-right py-3 px-4 font-medium text-gray-600">Kurang</th>
+                    <th className="text-right py-3 px-4 font-medium text-gray-600">Per Hari Kerja</th>
+                    <th className="text-right py-3 px-4 font-medium text-gray-600">EC</th>
+                    <th className="text-right py-3 px-4 font-medium text-gray-600">MSL</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {breakdown.map((group) => (
+                    <tr key={`${group.dimension}:${group.dimensionValue}`} className="border-b border-gray-100">
+                      <td className="py-3 px-4 text-gray-900">
+                        <span className="text-gray-500">{getTargetDimensionLabel(group.dimension)}:</span> {group.dimensionValue}
+                      </td>
+                      <td className="py-3 px-4 text-right font-medium">{renderAchievement(group.sales)}</td>
+                      <td className="py-3 px-4 text-right text-gray-900">
+                        {group.sales ? formatRupiah(group.sales.gap) : '-'}
+                      </td>
+                      <td className="py-3 px-4 text-right text-gray-900">
+                        {group.sales && group.sales.gap > 0 && group.sales.runRate !== null ? formatRupiah(group.sales.runRate) : '-'}
+                      </td>
+                      <td className="py-3 px-4 text-right font-medium">{renderAchievement(group.ec)}</td>
+                      <td className="py-3 px-4 text-right font-medium">{renderAchievement(group.msl)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,208 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { supabase } from '@/lib/supabase'
+import { Trophy, ArrowUp, ArrowDown } from 'lucide-react'
+import { fetchKpis, EMPTY_KPI } from '@/lib/kpis'
+
+interface SalesmanLeaderboardProps {
+  dateRange: {
+    start: string
+    end: string
+  }
+  onSelectSalesman: (salesman: { id: string; name: string }) => void
+}
+
+interface SalesmanStats {
+  id: string
+  name: string
+  calls: number
+  effectiveCalls: number
+  strikeRate: number
+  sales: number
+  avgOrderValue: number
+  mslAchievement: number
+  dailySales: number[]
+}
+
+type SortKey = 'calls' | 'effectiveCalls' | 'strikeRate' | 'sales' | 'avgOrderValue' | 'mslAchievement'
+
+const COLUMNS: { key: SortKey; label: string }[] = [
+  { key: 'calls', label: 'Calls' },
+  { key: 'effectiveCalls', label: 'EC' },
+  { key: 'strikeRate', label: 'Strike Rate' },
+  { key: 'sales', label: 'Sales' },
+  { key: 'avgOrderValue', label: 'AOV' },
+  { key: 'mslAchievement', label: 'MSL' }
+]
+
+// Every date of the range, so each sparkline has the same x axis
+const getDates = (start: string, end: string): string[] => {
+  const dates: string[] = []
+  const current = new Date(`${start}T00:00:00Z`)
+  const last = new Date(`${end}T00:00:00Z`)
+  while (current <= last) {
+    dates.push(current.toISOString().split('T')[0])
+    current.setUTCDate(current.getUTCDate() + 1)
+  }
+  return dates
+}
+
+function Sparkline({ values }: { values: number[] }) {
+  const width = 80
+  const height = 24
+  const max = Math.max(...values, 0)
+  if (values.length < 2 || max === 0) {
+    return <svg width={width} height={height}><line x1="0" y1={height - 1} x2={width} y2={height - 1} stroke="#e5e7eb" /></svg>
+  }
+
+  const points = values
+    .map((value, index) => `${(index / (values.length - 1)) * width},${height - 1 - (value / max) * (height - 2)}`)
+    .join(' ')
+
+  return (
+    <svg width={width} height={height}>
+      <polyline points={points} fill="none" stroke="#f97316" strokeWidth="1.5" />
+    </svg>
+  )
+}
+
+export default function SalesmanLeaderboard({ dateRange, onSelectSalesman }: SalesmanLeaderboardProps) {
+  const [stats, setStats] = useState<SalesmanStats[]>([])
+  const [loading, setLoading] = useState(true)
+  const [sortKey, setSortKey] = useState<SortKey>('sales')
+  const [sortAscending, setSortAscending] = useState(false)
+
+  useEffect(() => {
+    fetchLeaderboard()
+  }, [dateRange])
+
+  const fetchLeaderboard = async () => {
+    setLoading(true)
+    try {
+      const [usersResult, totals, days] = await Promise.all([
+        supabase
+          .from('users')
+          .select('id, name, email')
+          .eq('role', 'salesman'),
+        fetchKpis(dateRange.start, dateRange.end, null, 'salesman'),
+        fetchKpis(dateRange.start, dateRange.end, null, 'salesman_day')
+      ])
+
+      if (usersResult.error) throw usersResult.error
+
+      const dates = getDates(dateRange.start, dateRange.end)
+
+      setStats((usersResult.data || []).map(salesman => {
+        const kpis = totals.find(row => row.salesman_id === salesman.id) || EMPTY_KPI
+        const dailySales = new Map(
+          days.filter(row => row.salesman_id === salesman.id).map(row => [row.visit_date, row.total_sales])
+        )
+
+        return {
+          id: salesman.id,
+          name: salesman.name || salesman.email,
+          calls: kpis.total_calls,
+          effectiveCalls: kpis.effective_calls,
+          strikeRate: kpis.total_calls > 0 ? (kpis.effective_calls / kpis.total_calls) * 100 : 0,
+          sales: kpis.total_sales,
+          avgOrderValue: kpis.effective_calls > 0 ? kpis.total_sales / kpis.effective_calls : 0,
+          mslAchievement: kpis.msl_achievement,
+          dailySales: dates.map(date => dailySales.get(date) || 0)
+        }
+      }))
+    } catch (error) {
+      console.error('Error fetching leaderboard:', error)
+      setStats([])
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const handleSort = (key: SortKey) => {
+    if (key === sortKey) {
+      setSortAscending(prev => !prev)
+    } else {
+      setSortKey(key)
+      setSortAscending(false)
+    }
+  }
+
+  const sortedStats = [...stats].sort((a, b) => sortAscending ? a[sortKey] - b[sortKey] : b[sortKey] - a[sortKey])
+
+  const formatValue = (key: SortKey, value: number) => {
+    switch (key) {
+      case 'strikeRate':
+      case 'mslAchievement':
+        return `${value.toFixed(1)}%`
+      case 'sales':
+      case 'avgOrderValue':
+        return `Rp ${Math.round(value).toLocaleString('id-ID')}`
+      default:
+        return value.toString()
+    }
+  }
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-lg font-semibold text-gray-900">Salesman Leaderboard</h3>
+        <Trophy className="h-5 w-5 text-gray-400" />
+      </div>
+      {loading ? (
+        <div className="flex items-center justify-center py-8">
+          <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-orange-600"></div>
+        </div>
+      ) : stats.length === 0 ? (
+        <div className="text-center py-8 text-gray-500">
+          Belum ada salesman
+        </div>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="border-b border-gray-200">
+                <th className="text-left py-3 px-4 font-medium text-gray-600">#</th>
+                <th className="text-left py-3 px-4 font-medium text-gray-600">Salesman</th>
+                {COLUMNS.map(column => (
+                  <th key={column.key} className="text-right py-3 px-4 font-medium text-gray-600">
+                    <button
+                      onClick={() => handleSort(column.key)}
+                      className="inline-flex items-center space-x-1 hover:text-gray-900"
+                    >
+                      <span>{column.label}</span>
+                      {sortKey === column.key && (
+                        sortAscending ? <ArrowUp className="h-3 w-3" /> : <ArrowDown className="h-3 w-3" />
+                      )}
+                    </button>
+                  </th>
+                ))}
+                <th className="text-left py-3 px-4 font-medium text-gray-600">Tren Sales</th>
+              </tr>
+            </thead>
+            <tbody>
+              {sortedStats.map((salesman, index) => (
+                <tr
+                  key={salesman.id}
+                  onClick={() => onSelectSalesman({ id: salesman.id, name: salesman.name })}
+                  className="border-b border-gray-100 hover:bg-gray-50 cursor-pointer"
+                >
+                  <td className="py-3 px-4 text-gray-500">{index + 1}</td>
+                  <td className="py-3 px-4 font-medium text-gray-900">{salesman.name}</td>
+                  {COLUMNS.map(column => (
+                    <td key={column.key} className="py-3 px-4 text-right text-gray-900">
+                      {formatValue(column.key, salesman[column.key])}
+                    </td>
+                  ))}
+                  <td className="py-3 px-4">
+                    <Sparkline values={salesman.dailySales} />
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,543 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { User } from '@supabase/supabase-js'
+import { supabase } from '@/lib/supabase'
+import { Layers, Plus, Trash2, X, Store } from 'lucide-react'
+import { MSLOverride, MSLOverrideAction, MSL_OVERRIDE_COLUMNS } from '@/lib/msl'
+
+interface StoreClusterManagementProps {
+  user: User
+  onClose: () => void
+}
+
+interface StoreCluster {
+  id: string
+  name: string
+  category: string
+  description: string | null
+}
+
+interface ClusterStore {
+  id: string
+  store_name: string
+  store_code: string
+  category: string
+  cluster_id: string | null
+}
+
+const emptyClusterForm = () => ({
+  name: '',
+  category: '',
+  description: ''
+})
+
+const emptyOverrideForm = () => ({
+  sku_code: '',
+  action: 'add' as MSLOverrideAction,
+  priority: 1,
+  notes: ''
+})
+
+export default function StoreClusterManagement({ user, onClose }: StoreClusterManagementProps) {
+  const [view, setView] = useState<'clusters' | 'overrides'>('clusters')
+  const [clusters, setClusters] = useState<StoreCluster[]>([])
+  const [stores, setStores] = useState<ClusterStore[]>([])
+  const [loading, setLoading] = useState(true)
+  const [saving, setSaving] = useState(false)
+  const [clusterForm, setClusterForm] = useState(emptyClusterForm())
+  const [selectedClusterId, setSelectedClusterId] = useState('')
+  const [selectedStoreId, setSelectedStoreId] = useState('')
+  const [overrides, setOverrides] = useState<MSLOverride[]>([])
+  const [overrideForm, setOverrideForm] = useState(emptyOverrideForm())
+
+  const today = new Date().toISOString().split('T')[0]
+  const categories = Array.from(new Set(stores.map(store => store.category).filter(Boolean))).sort()
+  const selectedCluster = clusters.find(cluster => cluster.id === selectedClusterId)
+  const selectedStore = stores.find(store => store.id === selectedStoreId)
+
+  useEffect(() => {
+    fetchData()
+  }, [])
+
+  useEffect(() => {
+    if (selectedStoreId) {
+      fetchOverrides(selectedStoreId)
+    } else {
+      setOverrides([])
+    }
+  }, [selectedStoreId])
+
+  const fetchData = async () => {
+    setLoading(true)
+    try {
+      const [{ data: clustersData, error: clustersError }, { data: storesData, error: storesError }] = await Promise.all([
+        supabase
+          .from('store_clusters')
+          .select('id, name, category, description')
+          .order('name'),
+        supabase
+          .from('stores')
+          .select('id, store_name, store_code, category, cluster_id')
+          .order('store_name')
+      ])
+
+      if (clustersError) throw clustersError
+      if (storesError) throw storesError
+
+      setClusters(clustersData || [])
+      setStores(storesData || [])
+    } catch (error) {
+      console.error('Error fetching store clusters:', error)
+      setClusters([])
+      setStores([])
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  // Only active overrides; ended ones stay in the table for earlier visits
+  const fetchOverrides = async (storeId: string) => {
+    try {
+      const { data, error } = await supabase
+        .from('store_msl_overrides')
+        .select(MSL_OVERRIDE_COLUMNS)
+        .eq('store_id', storeId)
+        .is('valid_to', null)
+        .order('action')
+        .order('priority')
+
+      if (error) throw error
+      setOverrides(data || [])
+    } catch (error) {
+      console.error('Error fetching MSL overrides:', error)
+      setOverrides([])
+    }
+  }
+
+  const createCluster = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setSaving(true)
+    try {
+      const { data, error } = await supabase
+        .from('store_clusters')
+        .insert({
+          name: clusterForm.name.trim(),
+          category: clusterForm.category,
+          description: clusterForm.description.trim() || null
+        })
+        .select('id')
+        .single()
+
+      if (error) throw error
+      setClusterForm(emptyClusterForm())
+      await fetchData()
+      setSelectedClusterId(data.id)
+    } catch (error) {
+      console.error('Error creating store cluster:', error)
+      alert('Gagal membuat cluster. Pastikan nama cluster belum dipakai.')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  // Clusters with MSL versions cannot be deleted, their history would lose its list
+  const deleteCluster = async (cluster: StoreCluster) => {
+    if (!confirm(`Hapus cluster ${cluster.name}? Toko di cluster ini kembali memakai MSL kategori.`)) return
+
+    setSaving(true)
+    try {
+      const { error } = await supabase
+        .from('store_clusters')
+        .delete()
+        .eq('id', cluster.id)
+
+      if (error) throw error
+      if (selectedClusterId === cluster.id) setSelectedClusterId('')
+      await fetchData()
+    } catch (error) {
+      console.error('Error deleting store cluster:', error)
+      alert('Gagal menghapus cluster. Cluster yang sudah punya versi MSL tidak dapat dihapus.')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const toggleStoreCluster = async (store: ClusterStore) => {
+    const clusterId = store.cluster_id === selectedClusterId ? null : selectedClusterId
+
+    try {
+      const { error } = await supabase
+        .from('stores')
+        .update({ cluster_id: clusterId })
+        .eq('id', store.id)
+
+      if (error) throw error
+      setStores(prev => prev.map(s => s.id === store.id ? { ...s, cluster_id: clusterId } : s))
+    } catch (error) {
+      console.error('Error updating store cluster:', error)
+      alert('Gagal mengubah cluster toko. Silakan coba lagi.')
+    }
+  }
+
+  const addOverride = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!selectedStoreId) return
+
+    setSaving(true)
+    try {
+      const { data: product, error: productError } = await supabase
+        .from('products')
+        .select('id, sku_code')
+        .eq('sku_code', overrideForm.sku_code.trim())
+        .maybeSingle()
+
+      if (productError) throw productError
+      if (!product) {
+        alert(`SKU ${overrideForm.sku_code.trim()} tidak ada di master produk.`)
+        return
+      }
+
+      const { error } = await supabase
+        .from('store_msl_overrides')
+        .insert({
+          store_id: selectedStoreId,
+          product_id: product.id,
+          sku_code: product.sku_code,
+          action: overrideForm.action,
+          priority: overrideForm.priority,
+          notes: overrideForm.notes.trim() || null,
+          created_by: user.id
+        })
+
+      if (error) throw error
+      setOverrideForm(emptyOverrideForm())
+      await fetchOverrides(selectedStoreId)
+    } catch (error) {
+      console.error('Error adding MSL override:', error)
+      alert('Gagal menambah override. SKU ini mungkin sudah punya override aktif di toko ini.')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const endOverride = async (override: MSLOverride) => {
+    if (!confirm(`Hentikan override ${override.sku_code} mulai hari ini?`)) return
+
+    try {
+      const { error } = await supabase
+        .from('store_msl_overrides')
+        .update({ valid_to: today })
+        .eq('id', override.id)
+
+      if (error) throw error
+      await fetchOverrides(override.store_id)
+    } catch (error) {
+      console.error('Error ending MSL override:', error)
+      alert('Gagal menghentikan override. Silakan coba lagi.')
+    }
+  }
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-xl shadow-xl max-w-5xl w-full max-h-[90vh] overflow-y-auto">
+        <div className="flex items-center justify-between p-6 border-b border-gray-200">
+          <div className="flex items-center space-x-3">
+            <div className="h-10 w-10 bg-indigo-100 rounded-lg flex items-center justify-center">
+              <Layers className="h-5 w-5 text-indigo-600" />
+            </div>
+            <div>
+              <h2 className="text-xl font-semibold text-gray-900">Cluster & Override MSL</h2>
+              <p className="text-sm text-gray-600">MSL per kelompok toko dan pengecualian per toko</p>
+            </div>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-2 hover:bg-gray-100 rounded-lg transition-colors"
+          >
+            <X className="h-5 w-5 text-gray-500" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-6">
+          <div className="flex space-x-2">
+            <button
+              onClick={() => setView('clusters')}
+              className={`flex items-center space-x-1 px-3 py-1.5 text-sm rounded-lg ${
+                view === 'clusters' ? 'bg-indigo-100 text-indigo-700' : 'text-gray-600 bg-gray-100 hover:bg-gray-200'
+              }`}
+            >
+              <Layers className="h-4 w-4" />
+              <span>Cluster</span>
+            </button>
+            <button
+              onClick={() => setView('overrides')}
+              className={`flex items-center space-x-1 px-3 py-1.5 text-sm rounded-lg ${
+                view === 'overrides' ? 'bg-indigo-100 text-indigo-700' : 'text-gray-600 bg-gray-100 hover:bg-gray-200'
+              }`}
+            >
+              <Store className="h-4 w-4" />
+              <span>Override Toko</span>
+            </button>
+          </div>
+
+          {loading ? (
+            <div className="flex items-center justify-center py-12">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-indigo-600"></div>
+            </div>
+          ) : view === 'clusters' ? (
+            <>
+              {/* Cluster Form */}
+              <form onSubmit={createCluster} className="bg-gray-50 rounded-lg p-4 space-y-4">
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">Nama Cluster</label>
+                    <input
+                      type="text"
+                      value={clusterForm.name}
+                      onChange={(e) => setClusterForm(prev => ({ ...prev, name: e.target.value }))}
+                      placeholder="mis. GT PROV Besar"
+                      className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                      required
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">Kategori Toko</label>
+                    <select
+                      value={clusterForm.category}
+                      onChange={(e) => setClusterForm(prev => ({ ...prev, category: e.target.value }))}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                      required
+                    >
+                      <option value="">Pilih kategori</option>
+                      {categories.map(category => (
+                        <option key={category} value={category}>{category}</option>
+                      ))}
+                    </select>
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">Keterangan</label>
+                    <input
+                      type="text"
+                      value={clusterForm.description}
+                      onChange={(e) => setClusterForm(prev => ({ ...prev, description: e.target.value }))}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                    />
+                  </div>
+                </div>
+                <div className="flex justify-end">
+                  <button
+                    type="submit"
+                    disabled={saving}
+                    className="flex items-center space-x-2 px-4 py-2 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 disabled:opacity-50 transition-colors"
+                  >
+                    <Plus className="h-4 w-4" />
+                    <span>Tambah Cluster</span>
+                  </button>
+                </div>
+              </form>
+
+              {/* Cluster List */}
+              {clusters.length === 0 ? (
+                <div className="text-center py-8 text-gray-500">
+                  Belum ada cluster. Toko memakai MSL kategorinya.
+                </div>
+              ) : (
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+                  <div className="space-y-2">
+                    {clusters.map(cluster => (
+                      <div
+                        key={cluster.id}
+                        className={`flex items-center justify-between p-3 border rounded-lg cursor-pointer ${
+                          selectedClusterId === cluster.id ? 'border-indigo-300 bg-indigo-50' : 'border-gray-200 hover:bg-gray-50'
+                        }`}
+                        onClick={() => setSelectedClusterId(cluster.id)}
+                      >
+                        <div className="min-w-0">
+                          <div className="font-medium text-gray-900">{cluster.name}</div>
+                          <div className="text-xs text-gray-500">
+                            {cluster.category} • {stores.filter(store => store.cluster_id === cluster.id).length} toko
+                          </div>
+                          {cluster.description && <div className="text-xs text-gray-500 truncate">{cluster.description}</div>}
+                        </div>
+                        <button
+                          onClick={(e) => {
+                            e.stopPropagation()
+                            deleteCluster(cluster)
+                          }}
+                          disabled={saving}
+                          className="p-1 text-red-600 hover:bg-red-50 rounded disabled:opacity-50"
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </button>
+                      </div>
+                    ))}
+                  </div>
+
+                  <div className="md:col-span-2">
+                    {selectedCluster ? (
+                      <>
+                        <h4 className="font-medium text-gray-900 mb-3">
+                          Toko {selectedCluster.category} di cluster {selectedCluster.name}
+                        </h4>
+                        <div className="border border-gray-200 rounded-lg max-h-96 overflow-y-auto">
+                          {stores.filter(store => store.category === selectedCluster.category).map(store => (
+                            <label key={store.id} className="flex items-center space-x-3 px-3 py-2 border-b border-gray-100 last:border-b-0 hover:bg-gray-50">
+                              <input
+                                type="checkbox"
+                                checked={store.cluster_id === selectedCluster.id}
+                                onChange={() => toggleStoreCluster(store)}
+                                className="rounded border-gray-300 text-indigo-600 focus:ring-indigo-500"
+                              />
+                              <span className="text-sm text-gray-900">{store.store_name}</span>
+                              <span className="text-xs font-mono text-gray-500">{store.store_code}</span>
+                              {store.cluster_id && store.cluster_id !== selectedCluster.id && (
+                                <span className="text-xs text-gray-500">
+                                  ({clusters.find(cluster => cluster.id === store.cluster_id)?.name})
+                                </span>
+                              )}
+                            </label>
+                          ))}
+                        </div>
+                      </>
+                    ) : (
+                      <div className="text-center py-8 text-gray-500">
+                        Pilih cluster untuk mengatur tokonya
+                      </div>
+                    )}
+                  </div>
+                </div>
+              )}
+            </>
+          ) : (
+            <>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Toko</label>
+                <select
+                  value={selectedStoreId}
+                  onChange={(e) => setSelectedStoreId(e.target.value)}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                >
+                  <option value="">Pilih toko</option>
+                  {stores.map(store => (
+                    <option key={store.id} value={store.id}>
+                      {store.store_name} ({store.store_code}) - {store.category}
+                    </option>
+                  ))}
+                </select>
+              </div>
+
+              {selectedStore && (
+                <>
+                  {/* Override Form */}
+                  <form onSubmit={addOverride} className="bg-gray-50 rounded-lg p-4 space-y-4">
+                    <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+                      <div>
+                        <label className="block text-sm font-medium text-gray-700 mb-1">SKU</label>
+                        <input
+                          type="text"
+                          value={overrideForm.sku_code}
+                          onChange={(e) => setOverrideForm(prev => ({ ...prev, sku_code: e.target.value }))}
+                          className="w-full px-3 py-2 border border-gray-300 rounded-lg font-mono focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                          required
+                        />
+                      </div>
+                      <div>
+                        <label className="block text-sm font-medium text-gray-700 mb-1">Aksi</label>
+                        <select
+                          value={overrideForm.action}
+                          onChange={(e) => setOverrideForm(prev => ({ ...prev, action: e.target.value as MSLOverrideAction }))}
+                          className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                        >
+                          <option value="add">Tambah ke MSL</option>
+                          <option value="exclude">Keluarkan dari MSL</option>
+                        </select>
+                      </div>
+                      <div>
+                        <label className="block text-sm font-medium text-gray-700 mb-1">Prioritas</label>
+                        <input
+                          type="number"
+                          min="1"
+                          value={overrideForm.priority}
+                          onChange={(e) => setOverrideForm(prev => ({ ...prev, priority: parseInt(e.target.value) || 1 }))}
+                          disabled={overrideForm.action === 'exclude'}
+                          className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-indigo-500 disabled:bg-gray-100"
+                        />
+                      </div>
+                      <div>
+                        <label className="block text-sm font-medium text-gray-700 mb-1">Catatan</label>
+                        <input
+                          type="text"
+                          value={overrideForm.notes}
+                          onChange={(e) => setOverrideForm(prev => ({ ...prev, notes: e.target.value }))}
+                          className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                        />
+                      </div>
+                    </div>
+                    <div className="flex justify-end">
+                      <button
+                        type="submit"
+                        disabled={saving}
+                        className="flex items-center space-x-2 px-4 py-2 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 disabled:opacity-50 transition-colors"
+                      >
+                        <Plus className="h-4 w-4" />
+                        <span>Tambah Override</span>
+                      </button>
+                    </div>
+                  </form>
+
+                  {/* Active Overrides */}
+                  {overrides.length === 0 ? (
+                    <div className="text-center py-8 text-gray-500">
+                      Toko ini memakai MSL {selectedStore.cluster_id ? 'cluster' : 'kategori'} tanpa perubahan
+                    </div>
+                  ) : (
+                    <table className="w-full text-sm">
+                      <thead className="bg-gray-50">
+                        <tr>
+                          <th className="px-3 py-2 text-left font-medium text-gray-700">Aksi</th>
+                          <th className="px-3 py-2 text-left font-medium text-gray-700">SKU</th>
+                          <th className="px-3 py-2 text-left font-medium text-gray-700">Produk</th>
+                          <th className="px-3 py-2 text-left font-medium text-gray-700">Prioritas</th>
+                          <th className="px-3 py-2 text-left font-medium text-gray-700">Mulai</th>
+                          <th className="px-3 py-2 text-left font-medium text-gray-700">Catatan</th>
+                          <th className="px-3 py-2"></th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {overrides.map(override => (
+                          <tr key={override.id} className="border-b border-gray-100">
+                            <td className="px-3 py-2">
+                              <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${
+                                override.action === 'add' ? 'bg-green-100 text-green-800' : 'bg-red-100 text-red-800'
+                              }`}>
+                                {override.action === 'add' ? 'Tambah' : 'Keluarkan'}
+                              </span>
+                            </td>
+                            <td className="px-3 py-2 font-mono text-gray-900">{override.sku_code}</td>
+                            <td className="px-3 py-2 text-gray-900">{override.products.product_name}</td>
+                            <td className="px-3 py-2 text-gray-600">{override.action === 'add' ? override.priority : '-'}</td>
+                            <td className="px-3 py-2 text-gray-600">{override.valid_from}</td>
+                            <td className="px-3 py-2 text-gray-500">{override.notes || '-'}</td>
+                            <td className="px-3 py-2 text-right">
+                              <button
+                                onClick={() => endOverride(override)}
+                                className="p-1 text-red-600 hover:bg-red-50 rounded"
+                              >
+                                <Trash2 className="h-4 w-4" />
+                              </button>
+                            </td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  )}
+                </>
+              )}
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
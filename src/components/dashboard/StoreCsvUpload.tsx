@@ -4,6 +4,13 @@ import { useState } from 'react'
 import { supabase } from '@/lib/supabase'
 import { User } from '@supabase/supabase-js'
 import { Upload, FileText, CheckCircle, AlertCircle, X, Download } from 'lucide-react'
+import { parseGmapsCoordinates } from '@/lib/geolocation'
+import { useImportFile } from '@/lib/useImportFile'
+import { CsvTable } from '@/lib/csvImport'
+import ColumnMappingStep from './ColumnMappingStep'
+import ImportFilePicker from './ImportFilePicker'
+import { ImportBatchResult, ImportJobRow, ImportProgress, ImportRowData, applyImportRows, finishImportJob, startImportJob } from '@/lib/importJobs'
+import ImportProgressBar from './ImportProgressBar'
 
 interface StoreCsvUploadProps {
   user: User
@@ -12,6 +19,7 @@ interface StoreCsvUploadProps {
 }
 
 interface CsvStore {
+  row: number
   kode_toko: string
   nama_toko: string
   kategori: string
@@ -29,11 +37,16 @@ interface CsvStore {
 }
 
 export default function StoreCsvUpload({ user, onClose, onSuccess }: StoreCsvUploadProps) {
-  const [file, setFile] = useState<File | null>(null)
+  const importFile = useImportFile()
+  const { file } = importFile
+  // The file as read, until its columns are mapped
+  const [sourceTable, setSourceTable] = useState<CsvTable | null>(null)
   const [parsedStores, setParsedStores] = useState<CsvStore[]>([])
   const [showPreview, setShowPreview] = useState(false)
   const [uploading, setUploading] = useState(false)
-  const [uploadResult, setUploadResult] = useState<{ added: number; updated: number; failed: number } | null>(null)
+  const [uploadResult, setUploadResult] = useState<ImportBatchResult | null>(null)
+  const [allOrNothing, setAllOrNothing] = useState(false)
+  const [progress, setProgress] = useState<ImportProgress | null>(null)
 
   const downloadTemplate = () => {
     const csvContent = `KODE_TOKO,NAMA_TOKO,KATEGORI,ALAMAT,GOOGLE_MAPS,ROUTE,TELEPON,AVG_ORDER_VALUE,FREKUENSI_ORDER,KONTAK_UTAMA,CATATAN
@@ -52,27 +65,16 @@ PROV003,Provinsi Beauty,GT PROV,"Jl. Diponegoro No. 789, Bandung",https://maps.g
     window.URL.revokeObjectURL(url)
   }
 
-  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const selectedFile = e.target.files?.[0]
-    if (selectedFile && selectedFile.type === 'text/csv') {
-      setFile(selectedFile)
-    } else {
-      alert('Please select a valid CSV file')
-    }
+  const readFile = async () => {
+    const table = await importFile.readTable()
+    if (table) setSourceTable(table)
   }
 
-  const parseCsv = async () => {
-    if (!file) return
+  // Runs on the mapped table, whose headers are the field names below
+  const parseCsv = async (table: CsvTable) => {
+    setSourceTable(null)
+    const { headers, rows } = table
 
-    const text = await file.text()
-    const lines = text.trim().split('\n')
-    
-    if (lines.length < 2) {
-      alert('CSV file must have at least a header row and one data row')
-      return
-    }
-
-    const headers = lines[0].split(',').map(h => h.trim().toUpperCase())
     const requiredHeaders = ['KODE_TOKO', 'NAMA_TOKO', 'KATEGORI']
     
     // Check if all required headers are present
@@ -106,8 +108,8 @@ PROV003,Provinsi Beauty,GT PROV,"Jl. Diponegoro No. 789, Bandung",https://maps.g
     const parsed: CsvStore[] = []
 
     // Parse data rows
-    for (let i = 1; i < lines.length; i++) {
-      const values = lines[i].split(',').map(v => v.trim().replace(/^"|"$/g, '')) // Remove quotes
+    for (const row of rows) {
+      const values = row.values
       
       const kode = values[kodeIndex] || ''
       const nama = values[namaIndex] || ''
@@ -128,10 +130,10 @@ PROV003,Provinsi Beauty,GT PROV,"Jl. Diponegoro No. 789, Bandung",https://maps.g
       // Required fields validation
       if (!kode || !nama || !kategori) {
         isValid = false
-        error = `Row ${i + 1}: Missing required fields (KODE_TOKO, NAMA_TOKO, KATEGORI)`
+        error = `Row ${row.number}: Missing required fields (KODE_TOKO, NAMA_TOKO, KATEGORI)`
       } else if (seenCodes.has(kode)) {
         isValid = false
-        error = `Row ${i + 1}: Duplicate store code in file`
+        error = `Row ${row.number}: Duplicate store code in file`
       } else {
         seenCodes.add(kode)
       }
@@ -141,11 +143,12 @@ PROV003,Provinsi Beauty,GT PROV,"Jl. Diponegoro No. 789, Bandung",https://maps.g
         const avgOrderNum = parseFloat(avgOrder)
         if (isNaN(avgOrderNum) || avgOrderNum < 0) {
           isValid = false
-          error = `Row ${i + 1}: Invalid average order value`
+          error = `Row ${row.number}: Invalid average order value`
         }
       }
 
       parsed.push({
+        row: row.number,
         kode_toko: kode,
         nama_toko: nama,
         kategori: kategori,
@@ -168,76 +171,86 @@ PROV003,Provinsi Beauty,GT PROV,"Jl. Diponegoro No. 789, Bandung",https://maps.g
   }
 
   const uploadStores = async () => {
+    if (!file) return
+
     setUploading(true)
     const validStores = parsedStores.filter(s => s.isValid)
-    
-    let addedCount = 0
-    let updatedCount = 0
-    let failedCount = 0
 
-    for (const store of validStores) {
-      try {
-        const storeData = {
+    let jobId: string
+    try {
+      jobId = await startImportJob('stores', file.name, file, allOrNothing)
+    } catch (error) {
+      console.error('Error starting import job:', error)
+      alert('Failed to start the import. Please try again.')
+      setUploading(false)
+      return
+    }
+
+    const rows: ImportRowData[] = validStores.map(store => {
+      const coordinates = parseGmapsCoordinates(store.google_maps)
+      return {
+        row_number: store.row,
+        data: {
           store_code: store.kode_toko,
           store_name: store.nama_toko,
           category: store.kategori,
           address: store.alamat || '',
           gmaps_link: store.google_maps || null,
+          // Without coordinates in the link, an existing store keeps the ones captured on site
+          latitude: coordinates?.lat ?? null,
+          longitude: coordinates?.lng ?? null,
           route: store.route || 'A',
           phone: store.telepon || null,
           average_order_value: store.avg_order_value ? parseFloat(store.avg_order_value) : 0,
           order_frequency: store.frekuensi_order || null,
           key_contact: store.kontak_utama || null,
-          notes: store.catatan || null,
-          created_by: user.id
-        }
-
-        if (store.action === 'UPDATE') {
-          const { error } = await supabase
-            .from('stores')
-            .update({
-              store_name: storeData.store_name,
-              category: storeData.category,
-              address: storeData.address,
-              gmaps_link: storeData.gmaps_link,
-              route: storeData.route,
-              phone: storeData.phone,
-              average_order_value: storeData.average_order_value,
-              order_frequency: storeData.order_frequency,
-              key_contact: storeData.key_contact,
-              notes: storeData.notes
-            })
-            .eq('store_code', store.kode_toko)
-            .eq('created_by', user.id)
-
-          if (error) {
-            console.error('Error updating store:', error)
-            failedCount++
-          } else {
-            updatedCount++
-          }
-        } else {
-          const { error } = await supabase
-            .from('stores')
-            .insert(storeData)
-
-          if (error) {
-            console.error('Error inserting store:', error)
-            failedCount++
-          } else {
-            addedCount++
-          }
+          notes: store.catatan || null
         }
-      } catch (error) {
-        console.error('Error processing store:', error)
-        failedCount++
       }
+    })
+
+    const jobRows: ImportJobRow[] = parsedStores.filter(s => !s.isValid).map(s => ({
+      row_number: s.row,
+      outcome: 'invalid',
+      message: s.error || null,
+      record_table: null,
+      record_id: null,
+      before_image: null,
+      after_image: null
+    }))
+
+    // Rows sent so far; a batch that fails is rolled back on the server and counts as not sent
+    let sent = 0
+    let result: ImportBatchResult | null = null
+    try {
+      result = await applyImportRows(jobId, rows, allOrNothing, (next) => {
+        if (next.phase === 'sending') sent = next.done
+        setProgress(next)
+      })
+    } catch (error) {
+      console.error('Error importing stores:', error)
+      const message = (error as { message?: string })?.message || String(error)
+      alert(allOrNothing
+        ? `Import cancelled, no stores were changed. ${message}`
+        : `The import stopped before the end: ${message}. Stores already imported are listed in the import history.`)
+
+      validStores.slice(allOrNothing ? 0 : sent).forEach(store => {
+        jobRows.push({ row_number: store.row, outcome: 'failed', message, record_table: null, record_id: null, before_image: null, after_image: null })
+      })
+    }
+
+    try {
+      await finishImportJob(jobId, jobRows)
+    } catch (error) {
+      console.error('Error saving import job:', error)
+      alert('The import finished, but its history could not be saved.')
     }
 
-    setUploadResult({ added: addedCount, updated: updatedCount, failed: failedCount })
+    setUploadResult(result)
+    setProgress(null)
     setUploading(false)
 
-    if (addedCount > 0 || updatedCount > 0) {
+    if (result && (result.added > 0 || result.updated > 0)) {
       setTimeout(() => {
         onSuccess()
         onClose()
@@ -267,7 +280,14 @@ PROV003,Provinsi Beauty,GT PROV,"Jl. Diponegoro No. 789, Bandung",https://maps.g
         </div>
 
         <div className="p-6 space-y-6">
-          {!showPreview ? (
+          {sourceTable ? (
+            <ColumnMappingStep
+              importType="stores"
+              table={sourceTable}
+              onBack={() => setSourceTable(null)}
+              onApply={parseCsv}
+            />
+          ) : !showPreview ? (
             <>
               {/* Template Download */}
               <div className="bg-blue-50 border border-blue-200 rounded-lg p-4">
@@ -284,7 +304,7 @@ PROV003,Provinsi Beauty,GT PROV,"Jl. Diponegoro No. 789, Bandung",https://maps.g
                       </p>
                       <ul className="text-sm text-blue-700 space-y-1">
                         <li>• First row must be headers</li>
-                        <li>• Use comma as delimiter</li>
+                        <li>• Use comma or semicolon as delimiter; quote values that contain one</li>
                         <li>• Categories: GT PROV, GT Wholesale, GT Small Cosmetics</li>
                         <li>• Routes: A, B, C, D</li>
                         <li>• Existing store codes will be updated, new codes will be added</li>
@@ -302,22 +322,7 @@ PROV003,Provinsi Beauty,GT PROV,"Jl. Diponegoro No. 789, Bandung",https://maps.g
               </div>
 
               {/* File Upload */}
-              <div>
-                <label className="block text-sm font-medium text-gray-700 mb-2">
-                  Select CSV File
-                </label>
-                <input
-                  type="file"
-                  accept=".csv"
-                  onChange={handleFileChange}
-                  className="w-full p-3 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
-                />
-                {file && (
-                  <p className="text-sm text-gray-600 mt-2">
-                    Selected: {file.name} ({(file.size / 1024).toFixed(1)} KB)
-                  </p>
-                )}
-              </div>
+              <ImportFilePicker importFile={importFile} />
 
               {/* Parse Button */}
               <div className="flex justify-end space-x-3">
@@ -328,11 +333,11 @@ PROV003,Provinsi Beauty,GT PROV,"Jl. Diponegoro No. 789, Bandung",https://maps.g
                   Cancel
                 </button>
                 <button
-                  onClick={parseCsv}
+                  onClick={readFile}
                   disabled={!file}
                   className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
                 >
-                  Parse CSV
+                  Parse File
                 </button>
               </div>
             </>
@@ -427,6 +432,25 @@ PROV003,Provinsi Beauty,GT PROV,"Jl. Diponegoro No. 789, Bandung",https://maps.g
                 </div>
               </div>
 
+              {/* Import Mode */}
+              <label className="flex items-start space-x-2 text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={allOrNothing}
+                  onChange={(e) => setAllOrNothing(e.target.checked)}
+                  disabled={uploading}
+                  className="h-4 w-4 mt-0.5 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
+                />
+                <span>
+                  <span className="font-medium">All or nothing</span>
+                  <span className="block text-gray-500">
+                    Apply the whole file in one transaction: if any row fails, no store is changed. Requires a file without errors.
+                  </span>
+                </span>
+              </label>
+
+              {progress && <ImportProgressBar progress={progress} allOrNothing={allOrNothing} />}
+
               {/* Upload Result */}
               {uploadResult && (
                 <div className="bg-green-50 border border-green-200 rounded-lg p-4">
@@ -450,7 +474,7 @@ PROV003,Provinsi Beauty,GT PROV,"Jl. Diponegoro No. 789, Bandung",https://maps.g
                 </button>
                 <button
                   onClick={uploadStores}
-                  disabled={uploading || parsedStores.filter(s => s.isValid).length === 0}
+                  disabled={uploading || parsedStores.filter(s => s.isValid).length === 0 || (allOrNothing && parsedStores.some(s => !s.isValid))}
                   className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors flex items-center space-x-2"
                 >
                   {uploading ? (
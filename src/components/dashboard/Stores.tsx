@@ -7,6 +7,8 @@ import { Store, MapPin, Phone, Plus, Search, Upload, X } from 'lucide-react'
 import AddStoreModal from './AddStoreModal'
 import StoreCsvUpload from './StoreCsvUpload'
 import { TabType } from '../Dashboard'
+import { parseGmapsCoordinates } from '@/lib/geolocation'
+import { MSLSource, fetchMSLSource, resolveStoreMSL } from '@/lib/msl'
 
 interface StoresProps {
   user: User
@@ -25,7 +27,10 @@ interface StoreData {
   average_order_value: number | null
   order_frequency: string | null
   category: string
+  cluster_id: string | null
   gmaps_link?: string | null
+  latitude?: number | null
+  longitude?: number | null
   notes?: string | null
 }
 
@@ -40,7 +45,7 @@ export default function Stores({ user, userRole, setActiveTab }: StoresProps) {
   const [selectedCategory, setSelectedCategory] = useState('')
   const [showAddStore, setShowAddStore] = useState(false)
   const [showCsvUpload, setShowCsvUpload] = useState(false)
-  const [mslItems, setMslItems] = useState<{[category: string]: any[]}>({})
+  const [mslSource, setMslSource] = useState<MSLSource>({ periods: [], overrides: [] })
   const [editingStore, setEditingStore] = useState<StoreData | null>(null)
 
   useEffect(() => {
@@ -106,27 +111,11 @@ export default function Stores({ user, userRole, setActiveTab }: StoresProps) {
 
   const fetchMSLData = async () => {
     try {
-      const { data, error } = await supabase
-        .from('msl_items')
-        .select('category, sku_code, product_name, priority')
-        .order('category')
-        .order('priority')
-
-      if (error) throw error
-
-      // Group MSL items by category
-      const grouped = (data || []).reduce((acc, item) => {
-        if (!acc[item.category]) {
-          acc[item.category] = []
-        }
-        acc[item.category].push(item)
-        return acc
-      }, {} as {[category: string]: any[]})
-
-      setMslItems(grouped)
+      const today = new Date().toISOString().split('T')[0]
+      setMslSource(await fetchMSLSource(today, today))
     } catch (error) {
       console.error('Error fetching MSL data:', error)
-      setMslItems({})
+      setMslSource({ periods: [], overrides: [] })
     }
   }
 
@@ -174,12 +163,17 @@ export default function Stores({ user, userRole, setActiveTab }: StoresProps) {
     return colors[category as keyof typeof colors] || { bg: 'bg-gray-100', text: 'text-gray-800', border: 'border-gray-200' }
   }
 
-  const getMSLCount = (category: string) => {
-    return mslItems[category]?.length || 0
+  // Today's MSL of the store: its cluster or category list with its own overrides
+  const getStoreMSL = (store: StoreData) => {
+    return resolveStoreMSL(mslSource, store, new Date().toISOString().split('T')[0])
+  }
+
+  const getMSLCount = (store: StoreData) => {
+    return getStoreMSL(store).length
   }
 
-  const getTopMSLItems = (category: string, limit: number = 5) => {
-    return mslItems[category]?.slice(0, limit) || []
+  const getTopMSLItems = (store: StoreData, limit: number = 5) => {
+    return getStoreMSL(store).slice(0, limit)
   }
 
   return (
@@ -285,6 +279,9 @@ export default function Stores({ user, userRole, setActiveTab }: StoresProps) {
                 <MapPin className="h-4 w-4 text-gray-400 mt-0.5" />
                 <p className="text-sm text-gray-600">{store.address}</p>
               </div>
+              {(store.latitude == null || store.longitude == null) && (
+                <p className="text-xs text-yellow-700 pl-6">Koordinat toko belum diatur</p>
+              )}
               
               {store.phone && (
                 <div className="flex items-center space-x-2">
@@ -296,7 +293,7 @@ export default function Stores({ user, userRole, setActiveTab }: StoresProps) {
               <div className="pt-2 border-t border-gray-100">
                 <div className="text-sm">
                   <p className="text-gray-500 text-xs">MSL Recommendations</p>
-                  <p className="font-medium text-gray-900">{getMSLCount(store.category)} recommended SKUs</p>
+                  <p className="font-medium text-gray-900">{getMSLCount(store)} recommended SKUs</p>
                 </div>
               </div>
 
@@ -321,6 +318,8 @@ export default function Stores({ user, userRole, setActiveTab }: StoresProps) {
                   onClick={() => {
                     if (store.gmaps_link) {
                       window.open(store.gmaps_link, '_blank')
+                    } else if (store.latitude != null && store.longitude != null) {
+                      window.open(`https://www.google.com/maps?q=${store.latitude},${store.longitude}`, '_blank')
                     } else {
                       alert('Google Maps link not available for this store')
                     }
@@ -339,11 +338,11 @@ export default function Stores({ user, userRole, setActiveTab }: StoresProps) {
               </div>
 
               {/* MSL Preview */}
-              {getMSLCount(store.category) > 0 && (
+              {getMSLCount(store) > 0 && (
                 <div className="pt-3 border-t border-gray-100 mt-3">
                   <p className="text-xs text-gray-500 mb-2">Top MSL Items:</p>
                   <div className="space-y-1">
-                    {getTopMSLItems(store.category, 5).map((item, index) => (
+                    {getTopMSLItems(store, 5).map((item, index) => (
                       <div key={index} className="flex items-center text-xs text-gray-600">
                         <span className="w-4 h-4 bg-blue-100 text-blue-600 rounded-full flex items-center justify-center text-xs font-bold mr-2">
                           {item.priority}
@@ -352,9 +351,9 @@ export default function Stores({ user, userRole, setActiveTab }: StoresProps) {
                         <span className="truncate text-xs">{item.product_name}</span>
                       </div>
                     ))}
-                    {getMSLCount(store.category) > 5 && (
+                    {getMSLCount(store) > 5 && (
                       <p className="text-xs text-gray-400">
-                        +{getMSLCount(store.category) - 5} more items
+                        +{getMSLCount(store) - 5} more items
                       </p>
                     )}
                   </div>
@@ -414,6 +413,8 @@ function EditStoreModal({ store, onClose, onSuccess }: EditStoreModalProps) {
     category: store.category,
     address: store.address,
     gmaps_link: store.gmaps_link || '',
+    latitude: store.latitude?.toString() || '',
+    longitude: store.longitude?.toString() || '',
     route: store.route,
     phone: store.phone || '',
     average_order_value: store.average_order_value?.toString() || '',
@@ -427,8 +428,25 @@ function EditStoreModal({ store, onClose, onSuccess }: EditStoreModalProps) {
     setFormData(prev => ({ ...prev, [field]: value }))
   }
 
+  const fillCoordinatesFromLink = () => {
+    const coordinates = parseGmapsCoordinates(formData.gmaps_link)
+    if (!coordinates) {
+      alert('No coordinates found in the Google Maps link')
+      return
+    }
+    setFormData(prev => ({
+      ...prev,
+      latitude: coordinates.lat.toString(),
+      longitude: coordinates.lng.toString()
+    }))
+  }
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault()
+    if (!!formData.latitude !== !!formData.longitude) {
+      alert('Enter both latitude and longitude, or leave both empty')
+      return
+    }
     setLoading(true)
 
     try {
@@ -440,6 +458,8 @@ function EditStoreModal({ store, onClose, onSuccess }: EditStoreModalProps) {
           category: formData.category,
           address: formData.address,
           gmaps_link: formData.gmaps_link || null,
+          latitude: formData.latitude ? parseFloat(formData.latitude) : null,
+          longitude: formData.longitude ? parseFloat(formData.longitude) : null,
           route: formData.route,
           phone: formData.phone || null,
           average_order_value: formData.average_order_value ? parseFloat(formData.average_order_value) : null,
@@ -533,6 +553,42 @@ function EditStoreModal({ store, onClose, onSuccess }: EditStoreModalProps) {
             />
           </div>
 
+          <div>
+            <div className="flex items-center justify-between mb-1">
+              <label className="block text-sm font-medium text-gray-700">Coordinates</label>
+              <button
+                type="button"
+                onClick={fillCoordinatesFromLink}
+                disabled={!formData.gmaps_link}
+                className="text-xs text-blue-600 hover:text-blue-800 disabled:opacity-50"
+              >
+                Fill from Maps link
+              </button>
+            </div>
+            <div className="grid grid-cols-2 gap-3">
+              <input
+                type="number"
+                step="any"
+                min="-90"
+                max="90"
+                value={formData.latitude}
+                onChange={(e) => handleInputChange('latitude', e.target.value)}
+                placeholder="Latitude"
+                className="w-full p-2 text-sm border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-500 text-gray-900"
+              />
+              <input
+                type="number"
+                step="any"
+                min="-180"
+                max="180"
+                value={formData.longitude}
+                onChange={(e) => handleInputChange('longitude', e.target.value)}
+                placeholder="Longitude"
+                className="w-full p-2 text-sm border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-500 text-gray-900"
+              />
+            </div>
+          </div>
+
           <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
             <div>
               <label className="block text-sm font-medium text-gray-700 mb-1">Phone</label>
@@ -0,0 +1,373 @@
+'use client'
+
+import { useState } from 'react'
+import { User } from '@supabase/supabase-js'
+import { supabase } from '@/lib/supabase'
+import { Upload, FileText, CheckCircle, AlertCircle, X, Download } from 'lucide-react'
+import { TARGET_DIMENSIONS, TargetDimension, getTargetDimensionLabel } from '@/lib/targets'
+import { downloadCsv } from '@/lib/csvExport'
+import { useImportFile } from '@/lib/useImportFile'
+import { CsvTable } from '@/lib/csvImport'
+import ColumnMappingStep from './ColumnMappingStep'
+import ImportFilePicker from './ImportFilePicker'
+
+interface TargetCsvUploadProps {
+  user: User
+  salesmen: {
+    id: string
+    name: string | null
+    email: string
+  }[]
+  onClose: () => void
+  onSuccess: () => void
+}
+
+interface CsvTarget {
+  salesman_email: string
+  salesman_id: string
+  month: string
+  dimension: TargetDimension
+  dimension_value: string | null
+  sales_value: number | null
+  ec_count: number | null
+  msl_achievement: number | null
+  isValid: boolean
+  error?: string
+}
+
+export default function TargetCsvUpload({ user, salesmen, onClose, onSuccess }: TargetCsvUploadProps) {
+  const importFile = useImportFile()
+  const { file } = importFile
+  // The file as read, until its columns are mapped
+  const [sourceTable, setSourceTable] = useState<CsvTable | null>(null)
+  const [parsedTargets, setParsedTargets] = useState<CsvTarget[]>([])
+  const [showPreview, setShowPreview] = useState(false)
+  const [uploading, setUploading] = useState(false)
+  const [uploadedCount, setUploadedCount] = useState<number | null>(null)
+
+  const downloadTemplate = () => {
+    downloadCsv('target_template.csv', `SALESMAN_EMAIL,MONTH,DIMENSION,DIMENSION_VALUE,SALES_TARGET,EC_TARGET,MSL_TARGET
+andi@example.com,2025-08,TOTAL,,150000000,220,80
+andi@example.com,2025-08,BRAND,L'Oreal Paris,90000000,,
+andi@example.com,2025-08,ROUTE,R01,40000000,60,
+budi@example.com,2025-08,STORE_CATEGORY,GT Wholesale,60000000,80,75`)
+  }
+
+  const parseNumber = (value: string) => (value ? Number(value) : null)
+
+  const readFile = async () => {
+    const table = await importFile.readTable()
+    if (table) setSourceTable(table)
+  }
+
+  // Runs on the mapped table, whose headers are the field names below
+  const parseCsv = async (table: CsvTable) => {
+    setSourceTable(null)
+    const { headers, rows } = table
+
+    const requiredHeaders = ['SALESMAN_EMAIL', 'MONTH']
+
+    const missingHeaders = requiredHeaders.filter(header => !headers.includes(header))
+    if (missingHeaders.length > 0) {
+      alert(`Missing required columns: ${missingHeaders.join(', ')}`)
+      return
+    }
+
+    const salesmenByEmail = new Map(salesmen.map(s => [s.email.toLowerCase(), s.id]))
+    const seenKeys = new Set<string>()
+    const parsed: CsvTarget[] = []
+
+    for (const row of rows) {
+      const values = row.values
+      const getValue = (header: string) => {
+        const index = headers.indexOf(header)
+        return index >= 0 ? values[index] || '' : ''
+      }
+
+      const email = getValue('SALESMAN_EMAIL')
+      const month = getValue('MONTH')
+      const dimension = (getValue('DIMENSION') || 'total').toLowerCase() as TargetDimension
+      const dimensionValue = getValue('DIMENSION_VALUE')
+      const salesValue = parseNumber(getValue('SALES_TARGET'))
+      const ecCount = parseNumber(getValue('EC_TARGET'))
+      const mslAchievement = parseNumber(getValue('MSL_TARGET'))
+      const salesmanId = salesmenByEmail.get(email.toLowerCase()) || ''
+
+      let error = ''
+      const key = `${salesmanId}-${month}-${dimension}-${dimensionValue}`
+
+      if (!email || !month) {
+        error = `Row ${row.number}: Missing required fields (SALESMAN_EMAIL, MONTH)`
+      } else if (!salesmanId) {
+        error = `Row ${row.number}: Salesman ${email} not found`
+      } else if (!/^\d{4}-(0[1-9]|1[0-2])$/.test(month)) {
+        error = `Row ${row.number}: Invalid month (use YYYY-MM)`
+      } else if (!TARGET_DIMENSIONS.some(d => d.value === dimension)) {
+        error = `Row ${row.number}: Invalid dimension (TOTAL, ROUTE, BRAND or STORE_CATEGORY)`
+      } else if (dimension !== 'total' && !dimensionValue) {
+        error = `Row ${row.number}: DIMENSION_VALUE is required for ${dimension.toUpperCase()}`
+      } else if (salesValue === null && ecCount === null && mslAchievement === null) {
+        error = `Row ${row.number}: At least one of SALES_TARGET, EC_TARGET, MSL_TARGET is required`
+      } else if ([salesValue, ecCount, mslAchievement].some(v => v !== null && (isNaN(v) || v < 0))) {
+        error = `Row ${row.number}: Targets must be non-negative numbers`
+      } else if (ecCount !== null && !Number.isInteger(ecCount)) {
+        error = `Row ${row.number}: EC_TARGET must be a whole number`
+      } else if (mslAchievement !== null && mslAchievement > 100) {
+        error = `Row ${row.number}: MSL_TARGET must be between 0 and 100`
+      } else if (seenKeys.has(key)) {
+        error = `Row ${row.number}: Duplicate target for the same salesman, month and dimension`
+      } else {
+        seenKeys.add(key)
+      }
+
+      parsed.push({
+        salesman_email: email,
+        salesman_id: salesmanId,
+        month,
+        dimension,
+        dimension_value: dimension === 'total' ? null : dimensionValue,
+        sales_value: salesValue,
+        ec_count: ecCount,
+        msl_achievement: mslAchievement,
+        isValid: !error,
+        error
+      })
+    }
+
+    setParsedTargets(parsed)
+    setShowPreview(true)
+  }
+
+  const uploadTargets = async () => {
+    setUploading(true)
+    const validTargets = parsedTargets.filter(target => target.isValid)
+
+    try {
+      // Existing targets for the same salesman, month and dimension are replaced
+      const { error } = await supabase
+        .from('sales_targets')
+        .upsert(validTargets.map(target => ({
+          salesman_id: target.salesman_id,
+          month: `${target.month}-01`,
+          dimension: target.dimension,
+          dimension_value: target.dimension_value,
+          sales_value: target.sales_value,
+          ec_count: target.ec_count,
+          msl_achievement: target.msl_achievement,
+          created_by: user.id
+        })), { onConflict: 'salesman_id,month,dimension,dimension_value' })
+
+      if (error) throw error
+
+      setUploadedCount(validTargets.length)
+
+      setTimeout(() => {
+        onSuccess()
+        onClose()
+      }, 2000)
+    } catch (error) {
+      console.error('Error uploading targets:', error)
+      alert('Failed to upload targets. Please try again.')
+    } finally {
+      setUploading(false)
+    }
+  }
+
+  const validCount = parsedTargets.filter(target => target.isValid).length
+  const errorTargets = parsedTargets.filter(target => !target.isValid)
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-xl shadow-xl max-w-4xl w-full max-h-[90vh] overflow-y-auto">
+        <div className="flex items-center justify-between p-6 border-b border-gray-200">
+          <div className="flex items-center space-x-3">
+            <div className="h-10 w-10 bg-blue-100 rounded-lg flex items-center justify-center">
+              <Upload className="h-5 w-5 text-blue-600" />
+            </div>
+            <div>
+              <h2 className="text-xl font-semibold text-gray-900">Upload Sales Targets</h2>
+              <p className="text-sm text-gray-600">Upload CSV to set monthly targets per salesman</p>
+            </div>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-2 hover:bg-gray-100 rounded-lg transition-colors"
+          >
+            <X className="h-5 w-5 text-gray-500" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-6">
+          {sourceTable ? (
+            <ColumnMappingStep
+              importType="targets"
+              table={sourceTable}
+              onBack={() => setSourceTable(null)}
+              onApply={parseCsv}
+            />
+          ) : !showPreview ? (
+            <>
+              {/* Template Download */}
+              <div className="bg-blue-50 border border-blue-200 rounded-lg p-4">
+                <div className="flex items-start justify-between">
+                  <div className="flex items-start space-x-3">
+                    <FileText className="h-5 w-5 text-blue-600 mt-0.5" />
+                    <div>
+                      <h3 className="font-medium text-blue-900 mb-2">CSV Format Required</h3>
+                      <p className="text-sm text-blue-700 mb-3">
+                        Required columns: SALESMAN_EMAIL, MONTH
+                      </p>
+                      <p className="text-sm text-blue-700 mb-3">
+                        Optional columns: DIMENSION, DIMENSION_VALUE, SALES_TARGET, EC_TARGET, MSL_TARGET
+                      </p>
+                      <ul className="text-sm text-blue-700 space-y-1">
+                        <li>• MONTH in YYYY-MM format</li>
+                        <li>• DIMENSION is TOTAL (default), ROUTE, BRAND or STORE_CATEGORY</li>
+                        <li>• SALES_TARGET in Rupiah without separators, MSL_TARGET in percent</li>
+                        <li>• Existing targets for the same salesman, month and dimension are replaced</li>
+                      </ul>
+                    </div>
+                  </div>
+                  <button
+                    onClick={downloadTemplate}
+                    className="inline-flex items-center px-3 py-2 text-sm bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+                  >
+                    <Download className="h-4 w-4 mr-1" />
+                    Template
+                  </button>
+                </div>
+              </div>
+
+              {/* File Upload */}
+              <ImportFilePicker importFile={importFile} />
+
+              <div className="flex justify-end space-x-3">
+                <button
+                  onClick={onClose}
+                  className="px-4 py-2 text-gray-600 bg-gray-100 rounded-lg hover:bg-gray-200 transition-colors"
+                >
+                  Cancel
+                </button>
+                <button
+                  onClick={readFile}
+                  disabled={!file}
+                  className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                >
+                  Parse File
+                </button>
+              </div>
+            </>
+          ) : (
+            <>
+              {/* Preview Results */}
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div className="bg-green-50 border border-green-200 rounded-lg p-4">
+                  <div className="flex items-center space-x-2">
+                    <CheckCircle className="h-5 w-5 text-green-600" />
+                    <span className="font-medium text-green-900">{validCount} Valid Targets</span>
+                  </div>
+                </div>
+                <div className="bg-red-50 border border-red-200 rounded-lg p-4">
+                  <div className="flex items-center space-x-2">
+                    <AlertCircle className="h-5 w-5 text-red-600" />
+                    <span className="font-medium text-red-900">{errorTargets.length} Errors</span>
+                  </div>
+                </div>
+              </div>
+
+              <div className="max-h-64 overflow-y-auto border border-gray-200 rounded-lg">
+                <table className="w-full text-sm">
+                  <thead className="bg-gray-50 sticky top-0">
+                    <tr>
+                      <th className="text-left p-3 font-medium text-gray-700">Salesman</th>
+                      <th className="text-left p-3 font-medium text-gray-700">Month</th>
+                      <th className="text-left p-3 font-medium text-gray-700">Target</th>
+                      <th className="text-right p-3 font-medium text-gray-700">Sales</th>
+                      <th className="text-right p-3 font-medium text-gray-700">EC</th>
+                      <th className="text-right p-3 font-medium text-gray-700">MSL</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {parsedTargets.filter(target => target.isValid).map((target, index) => (
+                      <tr key={index} className="border-t border-gray-100">
+                        <td className="p-3 text-gray-900">{target.salesman_email}</td>
+                        <td className="p-3 text-gray-900">{target.month}</td>
+                        <td className="p-3 text-gray-900">
+                          {target.dimension === 'total'
+                            ? 'Total'
+                            : `${getTargetDimensionLabel(target.dimension)}: ${target.dimension_value}`}
+                        </td>
+                        <td className="p-3 text-right text-gray-900">
+                          {target.sales_value !== null ? `Rp ${target.sales_value.toLocaleString('id-ID')}` : '-'}
+                        </td>
+                        <td className="p-3 text-right text-gray-900">{target.ec_count ?? '-'}</td>
+                        <td className="p-3 text-right text-gray-900">
+                          {target.msl_achievement !== null ? `${target.msl_achievement}%` : '-'}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+
+              {/* Error Rows */}
+              {errorTargets.length > 0 && (
+                <div>
+                  <h4 className="font-medium text-red-900 mb-3">Rows with errors:</h4>
+                  <div className="max-h-32 overflow-y-auto border border-red-200 rounded-lg">
+                    <table className="w-full text-sm">
+                      <tbody>
+                        {errorTargets.map((target, index) => (
+                          <tr key={index} className="border-t border-red-100 first:border-t-0">
+                            <td className="p-3 text-red-600 text-xs">{target.error}</td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                </div>
+              )}
+
+              {/* Upload Result */}
+              {uploadedCount !== null && (
+                <div className="bg-green-50 border border-green-200 rounded-lg p-4">
+                  <div className="flex items-center space-x-2">
+                    <CheckCircle className="h-5 w-5 text-green-600" />
+                    <span className="font-medium text-green-900">{uploadedCount} targets saved successfully!</span>
+                  </div>
+                </div>
+              )}
+
+              <div className="flex justify-end space-x-3">
+                <button
+                  onClick={() => setShowPreview(false)}
+                  disabled={uploading}
+                  className="px-4 py-2 text-gray-600 bg-gray-100 rounded-lg hover:bg-gray-200 disabled:opacity-50 transition-colors"
+                >
+                  Back
+                </button>
+                <button
+                  onClick={uploadTargets}
+                  disabled={uploading || validCount === 0 || uploadedCount !== null}
+                  className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors flex items-center space-x-2"
+                >
+                  {uploading ? (
+                    <>
+                      <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-white"></div>
+                      <span>Uploading...</span>
+                    </>
+                  ) : (
+                    <>
+                      <Upload className="h-4 w-4" />
+                      <span>Save Targets ({validCount})</span>
+                    </>
+                  )}
+                </button>
+              </div>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,423 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { User } from '@supabase/supabase-js'
+import { supabase } from '@/lib/supabase'
+import { Target, Plus, Edit, Trash2, Upload, X } from 'lucide-react'
+import {
+  TARGET_DIMENSIONS,
+  TargetDimension,
+  SalesTarget,
+  fetchMonthTargets,
+  getTargetDimensionLabel
+} from '@/lib/targets'
+import TargetCsvUpload from './TargetCsvUpload'
+
+interface TargetManagementProps {
+  user: User
+  onClose: () => void
+}
+
+interface Salesman {
+  id: string
+  name: string | null
+  email: string
+}
+
+const emptyForm = {
+  salesman_id: '',
+  dimension: 'total' as TargetDimension,
+  dimension_value: '',
+  sales_value: '',
+  ec_count: '',
+  msl_achievement: ''
+}
+
+export default function TargetManagement({ user, onClose }: TargetManagementProps) {
+  const [month, setMonth] = useState(new Date().toISOString().slice(0, 7))
+  const [salesmen, setSalesmen] = useState<Salesman[]>([])
+  const [targets, setTargets] = useState<SalesTarget[]>([])
+  const [dimensionOptions, setDimensionOptions] = useState<Record<TargetDimension, string[]>>({
+    total: [],
+    route: [],
+    brand: [],
+    store_category: []
+  })
+  const [loading, setLoading] = useState(false)
+  const [saving, setSaving] = useState(false)
+  const [editingId, setEditingId] = useState<string | null>(null)
+  const [formData, setFormData] = useState(emptyForm)
+  const [showCsvUpload, setShowCsvUpload] = useState(false)
+
+  useEffect(() => {
+    fetchOptions()
+  }, [])
+
+  useEffect(() => {
+    fetchTargets()
+  }, [month])
+
+  const fetchOptions = async () => {
+    try {
+      const [salesmenResult, storesResult, productsResult] = await Promise.all([
+        supabase
+          .from('users')
+          .select('id, name, email')
+          .eq('role', 'salesman')
+          .order('name'),
+        supabase
+          .from('stores')
+          .select('route, category'),
+        supabase
+          .from('products')
+          .select('brand')
+      ])
+
+      if (salesmenResult.error) throw salesmenResult.error
+
+      const unique = (values: (string | null)[]) => Array.from(new Set(values.filter(Boolean) as string[])).sort()
+      setSalesmen(salesmenResult.data || [])
+      setDimensionOptions({
+        total: [],
+        route: unique((storesResult.data || []).map(s => s.route)),
+        brand: unique((productsResult.data || []).map(p => p.brand)),
+        store_category: unique((storesResult.data || []).map(s => s.category))
+      })
+    } catch (error) {
+      console.error('Error fetching target options:', error)
+    }
+  }
+
+  const fetchTargets = async () => {
+    setLoading(true)
+    try {
+      setTargets(await fetchMonthTargets(null, `${month}-01`))
+    } catch (error) {
+      console.error('Error fetching targets:', error)
+      alert('Gagal memuat target')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const getSalesmanName = (salesmanId: string) => {
+    const salesman = salesmen.find(s => s.id === salesmanId)
+    return salesman ? salesman.name || salesman.email : salesmanId
+  }
+
+  const resetForm = () => {
+    setEditingId(null)
+    setFormData(emptyForm)
+  }
+
+  const startEditing = (target: SalesTarget) => {
+    setEditingId(target.id)
+    setFormData({
+      salesman_id: target.salesman_id,
+      dimension: target.dimension,
+      dimension_value: target.dimension_value || '',
+      sales_value: target.sales_value === null ? '' : target.sales_value.toString(),
+      ec_count: target.ec_count === null ? '' : target.ec_count.toString(),
+      msl_achievement: target.msl_achievement === null ? '' : target.msl_achievement.toString()
+    })
+  }
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+
+    if (!formData.salesman_id) {
+      alert('Pilih salesman terlebih dahulu')
+      return
+    }
+    if (formData.dimension !== 'total' && !formData.dimension_value) {
+      alert(`Pilih ${getTargetDimensionLabel(formData.dimension).toLowerCase()} terlebih dahulu`)
+      return
+    }
+    if (!formData.sales_value && !formData.ec_count && !formData.msl_achievement) {
+      alert('Isi minimal satu target: sales, EC atau MSL')
+      return
+    }
+    if (formData.msl_achievement && (parseFloat(formData.msl_achievement) < 0 || parseFloat(formData.msl_achievement) > 100)) {
+      alert('Target MSL harus antara 0 dan 100%')
+      return
+    }
+
+    const targetData = {
+      salesman_id: formData.salesman_id,
+      month: `${month}-01`,
+      dimension: formData.dimension,
+      dimension_value: formData.dimension === 'total' ? null : formData.dimension_value,
+      sales_value: formData.sales_value ? parseFloat(formData.sales_value) : null,
+      ec_count: formData.ec_count ? parseInt(formData.ec_count) : null,
+      msl_achievement: formData.msl_achievement ? parseFloat(formData.msl_achievement) : null
+    }
+
+    setSaving(true)
+    try {
+      // A new line replaces an existing target for the same salesman, month and dimension
+      const { error } = editingId
+        ? await supabase.from('sales_targets').update(targetData).eq('id', editingId)
+        : await supabase
+          .from('sales_targets')
+          .upsert({ ...targetData, created_by: user.id }, { onConflict: 'salesman_id,month,dimension,dimension_value' })
+
+      if (error) throw error
+
+      resetForm()
+      fetchTargets()
+    } catch (error) {
+      console.error('Error saving target:', error)
+      alert('Gagal menyimpan target')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleDelete = async (target: SalesTarget) => {
+    if (!confirm('Hapus target ini?')) return
+
+    try {
+      const { error } = await supabase
+        .from('sales_targets')
+        .delete()
+        .eq('id', target.id)
+
+      if (error) throw error
+      if (editingId === target.id) resetForm()
+      fetchTargets()
+    } catch (error) {
+      console.error('Error deleting target:', error)
+      alert('Gagal menghapus target')
+    }
+  }
+
+  const sortedTargets = [...targets].sort((a, b) =>
+    getSalesmanName(a.salesman_id).localeCompare(getSalesmanName(b.salesman_id)) ||
+    TARGET_DIMENSIONS.findIndex(d => d.value === a.dimension) - TARGET_DIMENSIONS.findIndex(d => d.value === b.dimension) ||
+    (a.dimension_value || '').localeCompare(b.dimension_value || '')
+  )
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-xl shadow-xl max-w-5xl w-full max-h-[90vh] overflow-y-auto">
+        <div className="flex items-center justify-between p-6 border-b border-gray-200">
+          <div className="flex items-center space-x-3">
+            <div className="h-10 w-10 bg-orange-100 rounded-lg flex items-center justify-center">
+              <Target className="h-5 w-5 text-orange-600" />
+            </div>
+            <div>
+              <h2 className="text-xl font-semibold text-gray-900">Sales Targets</h2>
+              <p className="text-sm text-gray-600">Target bulanan per salesman untuk sales, EC dan MSL</p>
+            </div>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-2 hover:bg-gray-100 rounded-lg transition-colors"
+          >
+            <X className="h-5 w-5 text-gray-500" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-6">
+          <div className="flex flex-col sm:flex-row sm:items-end sm:justify-between gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Bulan</label>
+              <input
+                type="month"
+                value={month}
+                onChange={(e) => e.target.value && setMonth(e.target.value)}
+                className="px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-orange-500"
+              />
+            </div>
+            <button
+              onClick={() => setShowCsvUpload(true)}
+              className="inline-flex items-center px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors"
+            >
+              <Upload className="h-4 w-4 mr-2" />
+              Upload CSV
+            </button>
+          </div>
+
+          {/* Target Form */}
+          <form onSubmit={handleSubmit} className="bg-gray-50 rounded-lg p-4 space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Salesman</label>
+                <select
+                  value={formData.salesman_id}
+                  onChange={(e) => setFormData(prev => ({ ...prev, salesman_id: e.target.value }))}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-orange-500"
+                >
+                  <option value="">Pilih salesman</option>
+                  {salesmen.map((salesman) => (
+                    <option key={salesman.id} value={salesman.id}>
+                      {salesman.name || salesman.email}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Jenis Target</label>
+                <select
+                  value={formData.dimension}
+                  onChange={(e) => setFormData(prev => ({ ...prev, dimension: e.target.value as TargetDimension, dimension_value: '' }))}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-orange-500"
+                >
+                  {TARGET_DIMENSIONS.map((dimension) => (
+                    <option key={dimension.value} value={dimension.value}>{dimension.label}</option>
+                  ))}
+                </select>
+              </div>
+              {formData.dimension !== 'total' && (
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    {getTargetDimensionLabel(formData.dimension)}
+                  </label>
+                  <select
+                    value={formData.dimension_value}
+                    onChange={(e) => setFormData(prev => ({ ...prev, dimension_value: e.target.value }))}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-orange-500"
+                  >
+                    <option value="">Pilih {getTargetDimensionLabel(formData.dimension).toLowerCase()}</option>
+                    {dimensionOptions[formData.dimension].map((value) => (
+                      <option key={value} value={value}>{value}</option>
+                    ))}
+                  </select>
+                </div>
+              )}
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Target Sales (Rp)</label>
+                <input
+                  type="number"
+                  min="0"
+                  value={formData.sales_value}
+                  onChange={(e) => setFormData(prev => ({ ...prev, sales_value: e.target.value }))}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-orange-500"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Target EC</label>
+                <input
+                  type="number"
+                  min="0"
+                  step="1"
+                  value={formData.ec_count}
+                  onChange={(e) => setFormData(prev => ({ ...prev, ec_count: e.target.value }))}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-orange-500"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Target MSL (%)</label>
+                <input
+                  type="number"
+                  min="0"
+                  max="100"
+                  step="any"
+                  value={formData.msl_achievement}
+                  onChange={(e) => setFormData(prev => ({ ...prev, msl_achievement: e.target.value }))}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-orange-500"
+                />
+              </div>
+            </div>
+
+            <div className="flex justify-end space-x-3">
+              {editingId && (
+                <button
+                  type="button"
+                  onClick={resetForm}
+                  className="px-4 py-2 text-gray-600 bg-gray-100 rounded-lg hover:bg-gray-200 transition-colors"
+                >
+                  Batal
+                </button>
+              )}
+              <button
+                type="submit"
+                disabled={saving}
+                className="flex items-center space-x-2 px-4 py-2 bg-orange-600 text-white rounded-lg hover:bg-orange-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                <Plus className="h-4 w-4" />
+                <span>{saving ? 'Menyimpan...' : editingId ? 'Simpan Perubahan' : 'Simpan Target'}</span>
+              </button>
+            </div>
+          </form>
+
+          {/* Targets of the Month */}
+          {loading ? (
+            <div className="flex items-center justify-center py-12">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-orange-600"></div>
+            </div>
+          ) : sortedTargets.length === 0 ? (
+            <div className="text-center py-8 text-gray-500">
+              Belum ada target untuk bulan ini
+            </div>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b border-gray-200">
+                    <th className="text-left py-3 px-4 font-medium text-gray-600">Salesman</th>
+                    <th className="text-left py-3 px-4 font-medium text-gray-600">Target</th>
+                    <th className="text-right py-3 px-4 font-medium text-gray-600">Sales</th>
+                    <th className="text-right py-3 px-4 font-medium text-gray-600">EC</th>
+                    <th className="text-right py-3 px-4 font-medium text-gray-600">MSL</th>
+                    <th className="py-3 px-4"></th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {sortedTargets.map((target) => (
+                    <tr
+                      key={target.id}
+                      className={`border-b border-gray-100 ${editingId === target.id ? 'bg-orange-50' : ''}`}
+                    >
+                      <td className="py-3 px-4 font-medium text-gray-900">{getSalesmanName(target.salesman_id)}</td>
+                      <td className="py-3 px-4 text-gray-900">
+                        {target.dimension === 'total'
+                          ? 'Total'
+                          : `${getTargetDimensionLabel(target.dimension)}: ${target.dimension_value}`}
+                      </td>
+                      <td className="py-3 px-4 text-right text-gray-900">
+                        {target.sales_value !== null ? `Rp ${target.sales_value.toLocaleString('id-ID')}` : '-'}
+                      </td>
+                      <td className="py-3 px-4 text-right text-gray-900">{target.ec_count ?? '-'}</td>
+                      <td className="py-3 px-4 text-right text-gray-900">
+                        {target.msl_achievement !== null ? `${target.msl_achievement}%` : '-'}
+                      </td>
+                      <td className="py-3 px-4">
+                        <div className="flex items-center justify-end space-x-1">
+                          <button
+                            onClick={() => startEditing(target)}
+                            className="p-2 text-gray-400 hover:text-orange-600 hover:bg-orange-50 rounded-lg transition-colors"
+                          >
+                            <Edit className="h-4 w-4" />
+                          </button>
+                          <button
+                            onClick={() => handleDelete(target)}
+                            className="p-2 text-gray-400 hover:text-red-600 hover:bg-red-50 rounded-lg transition-colors"
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </button>
+                        </div>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      </div>
+
+      {showCsvUpload && (
+        <TargetCsvUpload
+          user={user}
+          salesmen={salesmen}
+          onClose={() => setShowCsvUpload(false)}
+          onSuccess={fetchTargets}
+        />
+      )}
+    </div>
+  )
+}
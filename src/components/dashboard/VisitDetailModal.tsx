@@ -0,0 +1,692 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { supabase } from '@/lib/supabase'
+import { User } from '@supabase/supabase-js'
+import { FileText, X, Plus, Trash2, Edit, Ban, History, Lock } from 'lucide-react'
+import { fetchAppSettings } from '@/lib/settings'
+import { fetchActiveProducts, fetchActivePromotions, fetchSalesmanStores, VisitProduct, VisitStore } from '@/lib/referenceData'
+import { Promotion, findPromotionForProduct } from '@/lib/promotions'
+import { OrderStatus } from '@/lib/orderStatus'
+import OrderStatusPanel from './OrderStatusPanel'
+
+interface VisitDetailModalProps {
+  user: User
+  userRole: string
+  visitId: string
+  onClose: () => void
+  onSuccess: () => void
+}
+
+interface VisitDetail {
+  id: string
+  salesman_id: string
+  store_id: string
+  visit_date: string
+  has_order: boolean
+  notes: string | null
+  created_at: string
+  check_in_at: string | null
+  check_out_at: string | null
+  voided_at: string | null
+  void_reason: string | null
+  order_status: OrderStatus | null
+  order_status_updated_at: string | null
+  stores: {
+    store_name: string
+    store_code: string
+    category: string
+  }
+}
+
+interface OrderLine {
+  id?: string
+  product_id: string
+  quantity: number
+  unit_price: number
+  discount_percentage: number
+  delivered_quantity?: number
+  products?: {
+    sku_code: string
+    product_name: string
+  }
+  promotions?: {
+    promo_name: string
+  } | null
+}
+
+interface AuditEntry {
+  id: string
+  table_name: string
+  record_id: string
+  action: 'INSERT' | 'UPDATE' | 'DELETE'
+  old_data: Record<string, unknown> | null
+  new_data: Record<string, unknown> | null
+  changed_by: string | null
+  changed_at: string
+}
+
+// Columns shown in the change history, with their labels
+const TRACKED_FIELDS: Record<string, string> = {
+  store_id: 'Toko',
+  visit_date: 'Tanggal',
+  has_order: 'Order',
+  notes: 'Catatan',
+  voided_at: 'Dibatalkan',
+  void_reason: 'Alasan batal',
+  order_status: 'Status order',
+  product_id: 'Produk',
+  quantity: 'Qty',
+  unit_price: 'Harga',
+  discount_percentage: 'Diskon %',
+  delivered_quantity: 'Qty terkirim',
+  line_total: 'Total'
+}
+
+export default function VisitDetailModal({ user, userRole, visitId, onClose, onSuccess }: VisitDetailModalProps) {
+  const [visit, setVisit] = useState<VisitDetail | null>(null)
+  const [lines, setLines] = useState<OrderLine[]>([])
+  const [originalLines, setOriginalLines] = useState<OrderLine[]>([])
+  const [auditLog, setAuditLog] = useState<AuditEntry[]>([])
+  const [userNames, setUserNames] = useState<Map<string, string>>(new Map())
+  const [products, setProducts] = useState<VisitProduct[]>([])
+  const [promotions, setPromotions] = useState<Promotion[]>([])
+  const [stores, setStores] = useState<VisitStore[]>([])
+  const [editWindowHours, setEditWindowHours] = useState(0)
+  const [formData, setFormData] = useState({
+    store_id: '',
+    visit_date: '',
+    has_order: false,
+    notes: ''
+  })
+  const [loading, setLoading] = useState(true)
+  const [editing, setEditing] = useState(false)
+  const [saving, setSaving] = useState(false)
+
+  useEffect(() => {
+    fetchVisit()
+    fetchAppSettings().then(settings => setEditWindowHours(settings.visit_edit_window_hours))
+  }, [visitId])
+
+  const fetchVisit = async () => {
+    setLoading(true)
+    try {
+      const { data: visitData, error: visitError } = await supabase
+        .from('visits')
+        .select(`
+          id,
+          salesman_id,
+          store_id,
+          visit_date,
+          has_order,
+          notes,
+          created_at,
+          check_in_at,
+          check_out_at,
+          voided_at,
+          void_reason,
+          order_status,
+          order_status_updated_at,
+          stores!inner(store_name, store_code, category)
+        `)
+        .eq('id', visitId)
+        .single()
+
+      if (visitError) throw visitError
+
+      const { data: ordersData, error: ordersError } = await supabase
+        .from('visit_orders')
+        .select('id, product_id, quantity, unit_price, discount_percentage, delivered_quantity, products(sku_code, product_name), promotions(promo_name)')
+        .eq('visit_id', visitId)
+
+      if (ordersError) throw ordersError
+
+      const { data: auditData, error: auditError } = await supabase
+        .from('visit_audit_log')
+        .select('id, table_name, record_id, action, old_data, new_data, changed_by, changed_at')
+        .eq('visit_id', visitId)
+        .order('changed_at', { ascending: false })
+
+      if (auditError) throw auditError
+
+      const authorIds = Array.from(new Set((auditData || []).map(entry => entry.changed_by).filter(Boolean)))
+      const { data: usersData } = await supabase
+        .from('users')
+        .select('id, name, email')
+        .in('id', authorIds)
+
+      setVisit(visitData)
+      setLines(ordersData || [])
+      setOriginalLines(ordersData || [])
+      setAuditLog(auditData || [])
+      setUserNames(new Map((usersData || []).map(u => [u.id, u.name || u.email])))
+      setFormData({
+        store_id: visitData.store_id,
+        visit_date: visitData.visit_date,
+        has_order: visitData.has_order,
+        notes: visitData.notes || ''
+      })
+    } catch (error) {
+      console.error('Error fetching visit detail:', error)
+      alert('Gagal memuat detail kunjungan')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const startEditing = async () => {
+    if (!visit) return
+    try {
+      const [productsData, promotionsData, storesData] = await Promise.all([
+        fetchActiveProducts(),
+        fetchActivePromotions(),
+        fetchSalesmanStores(visit.salesman_id)
+      ])
+      setProducts(productsData)
+      setPromotions(promotionsData)
+      setStores(storesData)
+      setEditing(true)
+    } catch (error) {
+      console.error('Error loading edit data:', error)
+      alert('Gagal memuat data produk dan toko')
+    }
+  }
+
+  // Mirrors the server-side rule in `can_edit_visit`
+  const getEditableUntil = (): Date | null => {
+    if (!visit) return null
+    return new Date(new Date(visit.created_at).getTime() + editWindowHours * 60 * 60 * 1000)
+  }
+
+  // Salesmen cannot change an order once it is approved
+  const isOrderLocked = (): boolean => {
+    return !!visit?.order_status && visit.order_status !== 'submitted'
+  }
+
+  const canEdit = (): boolean => {
+    if (!visit) return false
+    if (userRole === 'admin') return true
+    if (visit.salesman_id !== user.id || visit.voided_at) return false
+    if (isOrderLocked()) return false
+    const editableUntil = getEditableUntil()
+    return editableUntil !== null && editableUntil > new Date()
+  }
+
+  // Preview only; the stored line_total is computed by the database
+  const calculateLineTotal = (line: OrderLine): number => {
+    const subtotal = line.quantity * line.unit_price
+    const discount = subtotal * (line.discount_percentage / 100)
+    return subtotal - discount
+  }
+
+  const getPromotionForProduct = (productId: string): Promotion | null => {
+    const product = products.find(p => p.id === productId)
+    if (!product) return null
+    const storeCategory = stores.find(s => s.id === formData.store_id)?.category || null
+    return findPromotionForProduct(promotions, product, formData.visit_date, storeCategory)
+  }
+
+  const updateLine = (index: number, field: keyof OrderLine, value: string | number) => {
+    setLines(prev => prev.map((line, i) => {
+      if (i !== index) return line
+      const updated = { ...line, [field]: value }
+      if (field === 'product_id') {
+        const product = products.find(p => p.id === value)
+        if (product) updated.unit_price = product.unit_price
+        updated.discount_percentage = getPromotionForProduct(value as string)?.discount_percentage || 0
+      }
+      return updated
+    }))
+  }
+
+  const addLine = () => {
+    setLines(prev => [...prev, { product_id: '', quantity: 1, unit_price: 0, discount_percentage: 0 }])
+  }
+
+  const removeLine = (index: number) => {
+    setLines(prev => prev.filter((_, i) => i !== index))
+  }
+
+  const cancelEditing = () => {
+    if (!visit) return
+    setLines(originalLines)
+    setFormData({
+      store_id: visit.store_id,
+      visit_date: visit.visit_date,
+      has_order: visit.has_order,
+      notes: visit.notes || ''
+    })
+    setEditing(false)
+  }
+
+  const handleSave = async () => {
+    if (!visit) return
+
+    const validLines = formData.has_order
+      ? lines.filter(line => line.product_id && line.quantity > 0 && line.unit_price > 0)
+      : []
+
+    if (formData.has_order && validLines.length === 0) {
+      alert('Kunjungan dengan order harus memiliki minimal satu produk')
+      return
+    }
+    if (!formData.has_order && !formData.notes.trim()) {
+      alert('Isi alasan tidak order di catatan')
+      return
+    }
+
+    // Same rule as the `apply_visit_order_promotion` trigger, only changed discounts are checked
+    if (userRole !== 'admin') {
+      const overDiscount = validLines.find(line => {
+        const original = originalLines.find(o => o.id === line.id)
+        if (original && original.product_id === line.product_id && original.discount_percentage === line.discount_percentage) return false
+        return line.discount_percentage > (getPromotionForProduct(line.product_id)?.discount_percentage || 0)
+      })
+      if (overDiscount) {
+        alert(`Diskon ${getProductName(overDiscount)} maksimal ${getPromotionForProduct(overDiscount.product_id)?.discount_percentage || 0}% sesuai promo`)
+        return
+      }
+    }
+
+    setSaving(true)
+    try {
+      // Visit and order lines in one transaction, see `update_visit`
+      const { error } = await supabase.rpc('update_visit', {
+        p_visit_id: visit.id,
+        p_visit: {
+          store_id: formData.store_id,
+          visit_date: formData.visit_date,
+          has_order: formData.has_order,
+          notes: formData.notes.trim() || null
+        },
+        p_orders: validLines.map(line => ({
+          id: line.id || null,
+          product_id: line.product_id,
+          quantity: line.quantity,
+          unit_price: line.unit_price,
+          discount_percentage: line.discount_percentage
+        }))
+      })
+
+      if (error) throw error
+
+      setEditing(false)
+      await fetchVisit()
+      onSuccess()
+    } catch (error) {
+      console.error('Error updating visit:', error)
+      alert('Gagal menyimpan perubahan. Batas waktu edit mungkin sudah lewat.')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleVoid = async () => {
+    if (!visit) return
+
+    const reason = prompt('Alasan pembatalan kunjungan (mis. duplikat, salah toko):')
+    if (reason === null) return
+    if (!reason.trim()) {
+      alert('Alasan pembatalan wajib diisi')
+      return
+    }
+
+    setSaving(true)
+    try {
+      const { error } = await supabase
+        .from('visits')
+        .update({
+          voided_at: new Date().toISOString(),
+          void_reason: reason.trim()
+        })
+        .eq('id', visit.id)
+
+      if (error) throw error
+
+      await fetchVisit()
+      onSuccess()
+    } catch (error) {
+      console.error('Error voiding visit:', error)
+      alert('Gagal membatalkan kunjungan')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const formatValue = (field: string, value: unknown): string => {
+    if (value === null || value === undefined || value === '') return '-'
+    if (field === 'has_order') return value ? 'Ya' : 'Tidak'
+    if (field === 'voided_at') return new Date(String(value)).toLocaleString('id-ID')
+    if (field === 'unit_price' || field === 'line_total') return `Rp ${Number(value).toLocaleString('id-ID')}`
+    return String(value)
+  }
+
+  const describeAuditEntry = (entry: AuditEntry): string[] => {
+    const subject = entry.table_name === 'visits' ? 'Kunjungan' : 'Baris order'
+
+    if (entry.action === 'INSERT') return [`${subject} dibuat`]
+    if (entry.action === 'DELETE') return [`${subject} dihapus`]
+
+    const changes = Object.entries(TRACKED_FIELDS)
+      .filter(([field]) => JSON.stringify(entry.old_data?.[field]) !== JSON.stringify(entry.new_data?.[field]))
+      .map(([field, label]) =>
+        `${label}: ${formatValue(field, entry.old_data?.[field])} → ${formatValue(field, entry.new_data?.[field])}`
+      )
+
+    return changes.length > 0 ? changes.map(change => `${subject} • ${change}`) : [`${subject} diubah`]
+  }
+
+  const getAuthorName = (changedBy: string | null) => {
+    if (!changedBy) return 'Sistem'
+    if (changedBy === user.id) return 'Anda'
+    return userNames.get(changedBy) || changedBy.slice(0, 8)
+  }
+
+  const getProductName = (line: OrderLine) => {
+    const product = line.products || products.find(p => p.id === line.product_id)
+    return product ? `${product.sku_code} - ${product.product_name}` : line.product_id
+  }
+
+  const editableUntil = getEditableUntil()
+  const editable = canEdit()
+  const orderTotal = lines.reduce((sum, line) => sum + calculateLineTotal(line), 0)
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-xl shadow-xl max-w-3xl w-full max-h-[90vh] overflow-y-auto">
+        <div className="flex items-center justify-between p-6 border-b border-gray-200">
+          <div className="flex items-center space-x-3">
+            <div className="h-10 w-10 bg-blue-100 rounded-lg flex items-center justify-center">
+              <FileText className="h-5 w-5 text-blue-600" />
+            </div>
+            <div>
+              <h2 className="text-xl font-semibold text-gray-900">Detail Kunjungan</h2>
+              {visit && (
+                <p className="text-sm text-gray-600">
+                  {visit.stores.store_name} ({visit.stores.store_code}) • {visit.visit_date}
+                </p>
+              )}
+            </div>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-2 hover:bg-gray-100 rounded-lg transition-colors"
+          >
+            <X className="h-5 w-5 text-gray-500" />
+          </button>
+        </div>
+
+        {loading || !visit ? (
+          <div className="flex items-center justify-center py-12">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+          </div>
+        ) : (
+          <div className="p-6 space-y-6">
+            {/* Status */}
+            {visit.voided_at ? (
+              <div className="bg-red-50 border border-red-200 rounded-lg p-3 flex items-center space-x-2">
+                <Ban className="h-5 w-5 text-red-600" />
+                <span className="text-sm text-red-800">
+                  Dibatalkan {new Date(visit.voided_at).toLocaleString('id-ID')}: {visit.void_reason}
+                </span>
+              </div>
+            ) : !editable ? (
+              <div className="bg-gray-50 border border-gray-200 rounded-lg p-3 flex items-center space-x-2">
+                <Lock className="h-5 w-5 text-gray-500" />
+                <span className="text-sm text-gray-700">
+                  {isOrderLocked()
+                    ? 'Order sudah diproses dan tidak dapat diubah lagi'
+                    : `Kunjungan ini tidak dapat diubah lagi (batas ${editWindowHours} jam setelah disimpan)`}
+                </span>
+              </div>
+            ) : userRole !== 'admin' && editableUntil && (
+              <div className="bg-blue-50 border border-blue-200 rounded-lg p-3 text-sm text-blue-800">
+                Dapat diubah sampai {editableUntil.toLocaleString('id-ID')}
+              </div>
+            )}
+
+            {/* Visit Header */}
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Toko</label>
+                {editing ? (
+                  <select
+                    value={formData.store_id}
+                    onChange={(e) => setFormData(prev => ({ ...prev, store_id: e.target.value }))}
+                    className="w-full p-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 text-gray-900"
+                  >
+                    {stores.map(store => (
+                      <option key={store.id} value={store.id}>
+                        {store.store_name} ({store.store_code})
+                      </option>
+                    ))}
+                  </select>
+                ) : (
+                  <p className="text-gray-900">{visit.stores.store_name} ({visit.stores.store_code})</p>
+                )}
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Tanggal Kunjungan</label>
+                {editing ? (
+                  <input
+                    type="date"
+                    value={formData.visit_date}
+                    onChange={(e) => setFormData(prev => ({ ...prev, visit_date: e.target.value }))}
+                    className="w-full p-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 text-gray-900"
+                  />
+                ) : (
+                  <p className="text-gray-900">{visit.visit_date}</p>
+                )}
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Order</label>
+                {editing ? (
+                  <label className="flex items-center space-x-2">
+                    <input
+                      type="checkbox"
+                      checked={formData.has_order}
+                      onChange={(e) => setFormData(prev => ({ ...prev, has_order: e.target.checked }))}
+                      className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
+                    />
+                    <span className="text-sm text-gray-700">Ada order</span>
+                  </label>
+                ) : (
+                  <p className="text-gray-900">{visit.has_order ? 'Ada Order' : 'Tidak Order'}</p>
+                )}
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  {formData.has_order ? 'Catatan' : 'Alasan Tidak Order'}
+                </label>
+                {editing ? (
+                  <input
+                    type="text"
+                    value={formData.notes}
+                    onChange={(e) => setFormData(prev => ({ ...prev, notes: e.target.value }))}
+                    className="w-full p-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 text-gray-900"
+                  />
+                ) : (
+                  <p className="text-gray-900">{visit.notes || '-'}</p>
+                )}
+              </div>
+            </div>
+
+            {/* Order Lines */}
+            {(editing ? formData.has_order : visit.has_order) && (
+              <div>
+                <div className="flex items-center justify-between mb-2">
+                  <h3 className="text-sm font-medium text-gray-700">Produk</h3>
+                  {editing && (
+                    <button
+                      onClick={addLine}
+                      className="flex items-center space-x-1 text-sm text-blue-600 hover:text-blue-700"
+                    >
+                      <Plus className="h-4 w-4" />
+                      <span>Tambah Produk</span>
+                    </button>
+                  )}
+                </div>
+                <div className="space-y-2">
+                  {lines.map((line, index) => (
+                    <div key={line.id || `new-${index}`} className="bg-gray-50 rounded-lg p-3">
+                      {editing ? (
+                        <div className="grid grid-cols-12 gap-2 items-center">
+                          <select
+                            value={line.product_id}
+                            onChange={(e) => updateLine(index, 'product_id', e.target.value)}
+                            className="col-span-12 md:col-span-5 p-2 border border-gray-300 rounded text-sm text-gray-900"
+                          >
+                            <option value="">Pilih produk...</option>
+                            {products.map(product => (
+                              <option key={product.id} value={product.id}>
+                                {product.sku_code} - {product.product_name}
+                              </option>
+                            ))}
+                          </select>
+                          <input
+                            type="number"
+                            min="1"
+                            value={line.quantity}
+                            onChange={(e) => updateLine(index, 'quantity', parseInt(e.target.value) || 0)}
+                            className="col-span-3 md:col-span-2 p-2 border border-gray-300 rounded text-sm text-gray-900"
+                            placeholder="Qty"
+                          />
+                          <input
+                            type="number"
+                            min="0"
+                            value={line.unit_price}
+                            onChange={(e) => updateLine(index, 'unit_price', parseFloat(e.target.value) || 0)}
+                            readOnly={userRole !== 'admin'}
+                            className={`col-span-4 md:col-span-2 p-2 border border-gray-300 rounded text-sm text-gray-900 ${userRole !== 'admin' ? 'bg-gray-100' : ''}`}
+                            placeholder="Harga"
+                          />
+                          <input
+                            type="number"
+                            min="0"
+                            max="100"
+                            value={line.discount_percentage}
+                            onChange={(e) => updateLine(index, 'discount_percentage', parseFloat(e.target.value) || 0)}
+                            className="col-span-3 md:col-span-2 p-2 border border-gray-300 rounded text-sm text-gray-900"
+                            placeholder="Diskon %"
+                          />
+                          <button
+                            onClick={() => removeLine(index)}
+                            className="col-span-2 md:col-span-1 p-2 text-gray-400 hover:text-red-600"
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </button>
+                        </div>
+                      ) : (
+                        <div className="flex justify-between text-sm">
+                          <span className="text-gray-600">
+                            {getProductName(line)} (x{line.quantity}
+                            {line.discount_percentage > 0 && `, diskon ${line.discount_percentage}%`}
+                            {line.promotions && `, promo ${line.promotions.promo_name}`})
+                          </span>
+                          <span className="font-medium text-gray-900">
+                            Rp {calculateLineTotal(line).toLocaleString('id-ID')}
+                          </span>
+                        </div>
+                      )}
+                    </div>
+                  ))}
+                </div>
+                <div className="flex justify-end mt-2 text-sm font-semibold text-gray-900">
+                  Total: Rp {orderTotal.toLocaleString('id-ID')}
+                </div>
+              </div>
+            )}
+
+            {/* Order Status */}
+            {!editing && !visit.voided_at && visit.has_order && visit.order_status && (
+              <OrderStatusPanel
+                userRole={userRole}
+                visitId={visit.id}
+                status={visit.order_status}
+                statusUpdatedAt={visit.order_status_updated_at}
+                lines={originalLines.map(line => ({
+                  id: line.id as string,
+                  label: getProductName(line),
+                  quantity: line.quantity,
+                  delivered_quantity: Number(line.delivered_quantity || 0)
+                }))}
+                onChanged={() => {
+                  fetchVisit()
+                  onSuccess()
+                }}
+              />
+            )}
+
+            {/* Actions */}
+            {editable && (
+              <div className="flex justify-end space-x-3 pt-4 border-t border-gray-200">
+                {editing ? (
+                  <>
+                    <button
+                      onClick={cancelEditing}
+                      disabled={saving}
+                      className="px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors"
+                    >
+                      Batal
+                    </button>
+                    <button
+                      onClick={handleSave}
+                      disabled={saving}
+                      className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                      {saving ? 'Menyimpan...' : 'Simpan Perubahan'}
+                    </button>
+                  </>
+                ) : (
+                  <>
+                    {!visit.voided_at && (
+                      <button
+                        onClick={handleVoid}
+                        disabled={saving}
+                        className="flex items-center space-x-2 px-4 py-2 border border-red-300 text-red-700 rounded-lg hover:bg-red-50 transition-colors"
+                      >
+                        <Ban className="h-4 w-4" />
+                        <span>Batalkan Kunjungan</span>
+                      </button>
+                    )}
+                    <button
+                      onClick={startEditing}
+                      className="flex items-center space-x-2 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+                    >
+                      <Edit className="h-4 w-4" />
+                      <span>Edit</span>
+                    </button>
+                  </>
+                )}
+              </div>
+            )}
+
+            {/* Change History */}
+            <div>
+              <div className="flex items-center space-x-2 mb-3">
+                <History className="h-4 w-4 text-gray-500" />
+                <h3 className="text-sm font-medium text-gray-700">Riwayat Perubahan</h3>
+              </div>
+              {auditLog.length === 0 ? (
+                <p className="text-sm text-gray-500">Belum ada riwayat</p>
+              ) : (
+                <div className="space-y-2">
+                  {auditLog.map(entry => (
+                    <div key={entry.id} className="text-sm border-l-2 border-gray-200 pl-3">
+                      <p className="text-xs text-gray-500">
+                        {new Date(entry.changed_at).toLocaleString('id-ID')} • {getAuthorName(entry.changed_by)}
+                      </p>
+                      {describeAuditEntry(entry).map((line, index) => (
+                        <p key={index} className="text-gray-900">{line}</p>
+                      ))}
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
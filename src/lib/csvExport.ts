@@ -0,0 +1,27 @@
+export type CsvValue = string | number | null | undefined
+
+const escapeCsvValue = (value: CsvValue): string => {
+  if (value === null || value === undefined) return ''
+  const text = String(value)
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+// Numbers are written raw (no thousand separators) so spreadsheets can sum them
+export const toCsv = (rows: CsvValue[][]): string => {
+  return rows.map(row => row.map(escapeCsvValue).join(',')).join('\n')
+}
+
+export const downloadCsv = (filename: string, content: string) => {
+  downloadBlob(filename, new Blob([content], { type: 'text/csv' }))
+}
+
+export const downloadBlob = (filename: string, blob: Blob) => {
+  const url = window.URL.createObjectURL(blob)
+  const a = document.createElement('a')
+  a.href = url
+  a.download = filename
+  document.body.appendChild(a)
+  a.click()
+  document.body.removeChild(a)
+  window.URL.revokeObjectURL(url)
+}
@@ -0,0 +1,90 @@
+import { describe, expect, it } from 'vitest'
+import { decodeCsvBytes, detectCsvDelimiter, parseCsvTable, parseCsvText } from './csvImport'
+
+const toBuffer = (bytes: number[]) => new Uint8Array(bytes).buffer
+
+describe('parseCsvText', () => {
+  it('keeps delimiters inside quoted fields', () => {
+    expect(parseCsvText('a,"b,c",d')).toEqual([['a', 'b,c', 'd']])
+  })
+
+  it('reads doubled quotes as one quote', () => {
+    expect(parseCsvText('"say ""hi""",x')).toEqual([['say "hi"', 'x']])
+  })
+
+  it('keeps line breaks inside quoted fields', () => {
+    expect(parseCsvText('name,address\nToko A,"Jl. Sudirman\r\nJakarta"\n')).toEqual([
+      ['name', 'address'],
+      ['Toko A', 'Jl. Sudirman\r\nJakarta']
+    ])
+  })
+
+  it('ends rows on CRLF and CR', () => {
+    expect(parseCsvText('a,b\r\n1,2\r3,4')).toEqual([['a', 'b'], ['1', '2'], ['3', '4']])
+  })
+
+  it('skips a UTF-8 BOM left in the text', () => {
+    expect(parseCsvText('﻿SKU,NAME\nA1,Mascara')).toEqual([['SKU', 'NAME'], ['A1', 'Mascara']])
+  })
+
+  it('reads a stray quote in an unquoted field as a literal', () => {
+    expect(parseCsvText('sku,name\nA1,Monitor 12" display\nA2,Lipstick')).toEqual([
+      ['sku', 'name'],
+      ['A1', 'Monitor 12" display'],
+      ['A2', 'Lipstick']
+    ])
+  })
+
+  it('keeps an empty quoted last field', () => {
+    expect(parseCsvText('a,""')).toEqual([['a', '']])
+  })
+})
+
+describe('detectCsvDelimiter', () => {
+  it('detects a semicolon file', () => {
+    expect(detectCsvDelimiter('SKU;NAME;PRICE\nA1;"Mascara, black";12,5')).toBe(';')
+  })
+
+  it('detects a tab file', () => {
+    expect(detectCsvDelimiter('SKU\tNAME\tPRICE')).toBe('\t')
+  })
+
+  it('ignores delimiters inside quoted headers', () => {
+    expect(detectCsvDelimiter('"A,B,C";D;E')).toBe(';')
+  })
+
+  it('falls back to a comma', () => {
+    expect(detectCsvDelimiter('SKU')).toBe(',')
+  })
+})
+
+describe('decodeCsvBytes', () => {
+  it('strips a UTF-8 BOM', () => {
+    expect(decodeCsvBytes(toBuffer([0xef, 0xbb, 0xbf, 0x41, 0x2c, 0x42]))).toBe('A,B')
+  })
+
+  it('reads UTF-16 LE and BE with a BOM', () => {
+    expect(decodeCsvBytes(toBuffer([0xff, 0xfe, 0x41, 0x00, 0x2c, 0x00, 0xe9, 0x00]))).toBe('A,é')
+    expect(decodeCsvBytes(toBuffer([0xfe, 0xff, 0x00, 0x41, 0x00, 0x2c, 0x00, 0xe9]))).toBe('A,é')
+  })
+
+  it('reads valid UTF-8 without a BOM', () => {
+    expect(decodeCsvBytes(toBuffer([0x4c, 0x27, 0x4f, 0x72, 0xc3, 0xa9, 0x61, 0x6c]))).toBe("L'Oréal")
+  })
+
+  it('falls back to Windows-1252 for ANSI files', () => {
+    expect(decodeCsvBytes(toBuffer([0x4c, 0x27, 0x4f, 0x72, 0xe9, 0x61, 0x6c, 0x3b, 0x31]))).toBe("L'Oréal;1")
+  })
+})
+
+describe('parseCsvTable', () => {
+  it('upper-cases headers, numbers rows as a spreadsheet does and drops blank rows', () => {
+    expect(parseCsvTable('sku;name\r\n A1 ;Mascara\r\n;\r\nA2;Lipstick\r\n')).toEqual({
+      headers: ['SKU', 'NAME'],
+      rows: [
+        { number: 2, values: ['A1', 'Mascara'] },
+        { number: 4, values: ['A2', 'Lipstick'] }
+      ]
+    })
+  })
+})
@@ -0,0 +1,138 @@
+// Reading side of csvExport: RFC 4180 files as saved by Excel, Google Sheets or a text editor
+
+export type CsvDelimiter = ',' | ';' | '\t'
+
+export interface CsvRow {
+  // Row number as a spreadsheet shows it, the header being row 1
+  number: number
+  // Trimmed values
+  values: string[]
+}
+
+export interface CsvTable {
+  // Trimmed and upper-cased so lookups do not depend on how the header was typed
+  headers: string[]
+  // Blank rows are dropped
+  rows: CsvRow[]
+}
+
+const DELIMITERS: CsvDelimiter[] = [',', ';', '\t']
+
+// UTF-8 and UTF-16 files announce themselves with a BOM; without one, anything that is not valid
+// UTF-8 is read as Windows-1252, the ANSI encoding Excel uses on Indonesian and English Windows
+export const decodeCsvBytes = (buffer: ArrayBuffer): string => {
+  const bytes = new Uint8Array(buffer)
+
+  if (bytes[0] === 0xef && bytes[1] === 0xbb && bytes[2] === 0xbf) {
+    return new TextDecoder('utf-8').decode(bytes.subarray(3))
+  }
+  if (bytes[0] === 0xff && bytes[1] === 0xfe) {
+    return new TextDecoder('utf-16le').decode(bytes.subarray(2))
+  }
+  if (bytes[0] === 0xfe && bytes[1] === 0xff) {
+    return new TextDecoder('utf-16be').decode(bytes.subarray(2))
+  }
+
+  try {
+    return new TextDecoder('utf-8', { fatal: true }).decode(bytes)
+  } catch {
+    return new TextDecoder('windows-1252').decode(bytes)
+  }
+}
+
+// The delimiter that occurs most often in the header row, ignoring quoted text;
+// Excel saves with a semicolon where the decimal separator is a comma
+export const detectCsvDelimiter = (text: string): CsvDelimiter => {
+  const counts = new Map<CsvDelimiter, number>(DELIMITERS.map(delimiter => [delimiter, 0]))
+  let inQuotes = false
+  let previous = ''
+
+  for (const char of text) {
+    if (char === '"' && (inQuotes || previous === '' || DELIMITERS.includes(previous as CsvDelimiter))) {
+      inQuotes = !inQuotes
+    } else if (!inQuotes && (char === '\n' || char === '\r')) {
+      break
+    } else if (!inQuotes && counts.has(char as CsvDelimiter)) {
+      counts.set(char as CsvDelimiter, counts.get(char as CsvDelimiter)! + 1)
+    }
+    previous = char
+  }
+
+  return DELIMITERS.reduce((best, delimiter) => counts.get(delimiter)! > counts.get(best)! ? delimiter : best, ',')
+}
+
+// Quoted fields may contain the delimiter, line breaks and doubled quotes; rows end on LF, CRLF or CR.
+// A quote only opens a quoted field at the start of the field: elsewhere it is a literal character,
+// so one stray quote (12" display) does not swallow the rest of the file
+export const parseCsvText = (text: string, delimiter: CsvDelimiter = detectCsvDelimiter(text)): string[][] => {
+  const records: string[][] = []
+  let record: string[] = []
+  let field = ''
+  let inQuotes = false
+  let quoted = false
+  let i = text.charCodeAt(0) === 0xfeff ? 1 : 0
+
+  const endField = () => {
+    record.push(field)
+    field = ''
+    quoted = false
+  }
+  const endRecord = () => {
+    endField()
+    records.push(record)
+    record = []
+  }
+
+  for (; i < text.length; i++) {
+    const char = text[i]
+
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"'
+        i++
+      } else if (char === '"') {
+        inQuotes = false
+      } else {
+        field += char
+      }
+    } else if (char === '"' && field === '' && !quoted) {
+      inQuotes = true
+      quoted = true
+    } else if (char === delimiter) {
+      endField()
+    } else if (char === '\r') {
+      if (text[i + 1] === '\n') i++
+      endRecord()
+    } else if (char === '\n') {
+      endRecord()
+    } else {
+      field += char
+    }
+  }
+
+  // A last row without a trailing line break
+  if (field !== '' || quoted || record.length > 0) {
+    endRecord()
+  }
+
+  return records
+}
+
+// First record is the header; also used for spreadsheet sheets read as rows of text
+export const toCsvTable = (records: string[][]): CsvTable => {
+  const [headerRow = [], ...dataRows] = records
+  return {
+    headers: headerRow.map(header => header.trim().toUpperCase()),
+    rows: dataRows
+      .map((row, index) => ({ number: index + 2, values: row.map(value => value.trim()) }))
+      .filter(row => row.values.some(value => value !== ''))
+  }
+}
+
+export const parseCsvTable = (text: string): CsvTable => {
+  return toCsvTable(parseCsvText(text))
+}
+
+export const readCsvFile = async (file: File): Promise<CsvTable> => {
+  return parseCsvTable(decodeCsvBytes(await file.arrayBuffer()))
+}
@@ -0,0 +1,103 @@
+export interface GeoPoint {
+  lat: number
+  lng: number
+  accuracy: number | null
+}
+
+export interface GeoCapture {
+  at: string
+  position: GeoPoint | null
+  error?: string
+}
+
+// Resolves with the device position, or rejects with a message suitable for an alert
+export const getCurrentPosition = (timeoutMs: number = 15000): Promise<GeoPoint> => {
+  return new Promise((resolve, reject) => {
+    if (typeof navigator === 'undefined' || !navigator.geolocation) {
+      reject(new Error('Perangkat tidak mendukung GPS'))
+      return
+    }
+
+    navigator.geolocation.getCurrentPosition(
+      (pos) => resolve({
+        lat: pos.coords.latitude,
+        lng: pos.coords.longitude,
+        accuracy: pos.coords.accuracy ?? null
+      }),
+      (err) => {
+        const messages: Record<number, string> = {
+          1: 'Izin lokasi ditolak',
+          2: 'Lokasi tidak tersedia',
+          3: 'Waktu pengambilan lokasi habis'
+        }
+        reject(new Error(messages[err.code] || 'Gagal mengambil lokasi'))
+      },
+      { enableHighAccuracy: true, timeout: timeoutMs, maximumAge: 0 }
+    )
+  })
+}
+
+// Captures the current time together with the position; the timestamp is kept even when GPS fails
+export const captureTimestampedPosition = async (): Promise<GeoCapture> => {
+  const at = new Date().toISOString()
+  try {
+    const position = await getCurrentPosition()
+    return { at, position }
+  } catch (error) {
+    return { at, position: null, error: (error as Error).message }
+  }
+}
+
+export const formatDuration = (minutes: number | null | undefined): string => {
+  if (minutes === null || minutes === undefined) return '-'
+  if (minutes < 60) return `${minutes} menit`
+  const hours = Math.floor(minutes / 60)
+  const rest = minutes % 60
+  return rest > 0 ? `${hours} jam ${rest} menit` : `${hours} jam`
+}
+
+// Haversine distance in meters, same formula as the `distance_meters` SQL function
+export const distanceMeters = (a: { lat: number; lng: number }, b: { lat: number; lng: number }): number => {
+  const toRad = (deg: number) => deg * Math.PI / 180
+  const dLat = toRad(b.lat - a.lat)
+  const dLng = toRad(b.lng - a.lng)
+  const h = Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRad(a.lat)) * Math.cos(toRad(b.lat)) * Math.sin(dLng / 2) ** 2
+  return 2 * 6371000 * Math.asin(Math.sqrt(h))
+}
+
+// Extracts coordinates from common Google Maps URL shapes, most precise pattern first
+export const parseGmapsCoordinates = (url: string | null | undefined): { lat: number; lng: number } | null => {
+  if (!url) return null
+
+  let decoded = url
+  try {
+    decoded = decodeURIComponent(url)
+  } catch {
+    // Malformed escapes, match against the raw URL
+  }
+
+  const patterns = [
+    /!3d(-?\d+\.\d+)!4d(-?\d+\.\d+)/,
+    /[?&](?:q|ll|query)=(-?\d+\.\d+),\s*(-?\d+\.\d+)/,
+    /@(-?\d+\.\d+),(-?\d+\.\d+)/
+  ]
+
+  for (const pattern of patterns) {
+    const match = decoded.match(pattern)
+    if (match) {
+      const lat = parseFloat(match[1])
+      const lng = parseFloat(match[2])
+      if (Math.abs(lat) <= 90 && Math.abs(lng) <= 180) {
+        return { lat, lng }
+      }
+    }
+  }
+
+  return null
+}
+
+export const formatDistance = (meters: number | null | undefined): string => {
+  if (meters === null || meters === undefined) return '-'
+  return meters >= 1000 ? `${(meters / 1000).toFixed(1)} km` : `${Math.round(meters)} m`
+}
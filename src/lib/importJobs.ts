@@ -0,0 +1,228 @@
+import { supabase } from '@/lib/supabase'
+import { toCsv, downloadCsv } from '@/lib/csvExport'
+
+export type ImportJobType = 'stores' | 'products' | 'product_paste' | 'msl'
+
+export type ImportRowOutcome = 'added' | 'updated' | 'removed' | 'failed' | 'invalid'
+
+// A job stays running until its last row is recorded, so an interrupted import is visible
+export type ImportJobStatus = 'running' | 'completed' | 'rolled_back'
+
+export interface ImportJobRow {
+  // Row in the file; null for MSL items the import removed from a list
+  row_number: number | null
+  outcome: ImportRowOutcome
+  message: string | null
+  record_table: 'stores' | 'products' | 'msl_versions' | null
+  record_id: string | null
+  // The record before the import updated or removed it
+  before_image: Record<string, unknown> | null
+  // The record as the import left it; rollback skips records changed since
+  after_image: Record<string, unknown> | null
+}
+
+// A row rollback left alone because its record was changed or deleted after the import
+export interface SkippedRollbackRow {
+  row_number: number | null
+  record_table: 'stores' | 'products'
+  record_id: string
+}
+
+export interface ImportJob {
+  id: string
+  import_type: ImportJobType
+  file_name: string
+  status: ImportJobStatus
+  all_or_nothing: boolean
+  total_rows: number
+  added_count: number
+  updated_count: number
+  removed_count: number
+  failed_count: number
+  invalid_count: number
+  created_by: string
+  created_at: string
+  rolled_back_at: string | null
+}
+
+// A store or product row as the server upserts it: `data` holds the record's columns
+export interface ImportRowData {
+  row_number: number
+  data: Record<string, unknown>
+}
+
+export interface ImportBatchResult {
+  added: number
+  updated: number
+  failed: number
+}
+
+export interface ImportProgress {
+  // 'sending' applies each batch as it arrives; all-or-nothing imports send every row, then 'committing' applies them in one transaction
+  phase: 'sending' | 'committing'
+  done: number
+  total: number
+  startedAt: number
+}
+
+export const IMPORT_JOB_TYPE_LABELS: Record<ImportJobType, string> = {
+  stores: 'Stores',
+  products: 'Products',
+  product_paste: 'Products (paste)',
+  msl: 'MSL'
+}
+
+export const IMPORT_JOB_COLUMNS = 'id, import_type, file_name, status, all_or_nothing, total_rows, added_count, updated_count, removed_count, failed_count, invalid_count, created_by, created_at, rolled_back_at'
+
+// Rows are written in chunks so large files stay under the request size limit
+const ROW_CHUNK_SIZE = 500
+
+// Rows per upsert call; each call is one round trip and one transaction
+export const IMPORT_BATCH_SIZE = 250
+
+const toBase64 = async (content: Blob): Promise<string> => {
+  const bytes = new Uint8Array(await content.arrayBuffer())
+  let binary = ''
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...Array.from(bytes.subarray(i, i + 0x8000)))
+  }
+  return btoa(binary)
+}
+
+// Records the job and its original file before anything is written, so even an interrupted import is on record
+export const startImportJob = async (importType: ImportJobType, fileName: string, content: Blob, allOrNothing = false): Promise<string> => {
+  const { data, error } = await supabase
+    .from('import_jobs')
+    .insert({
+      import_type: importType,
+      file_name: fileName,
+      file_data: await toBase64(content),
+      all_or_nothing: allOrNothing
+    })
+    .select('id')
+    .single()
+
+  if (error) throw error
+  return data.id
+}
+
+export const finishImportJob = async (jobId: string, rows: ImportJobRow[]) => {
+  for (let i = 0; i < rows.length; i += ROW_CHUNK_SIZE) {
+    const { error } = await supabase
+      .from('import_job_rows')
+      .insert(rows.slice(i, i + ROW_CHUNK_SIZE).map(row => ({ ...row, job_id: jobId })))
+
+    if (error) throw error
+  }
+
+  // Counts cover the rows the server recorded as well
+  const { error } = await supabase.rpc('complete_import_job', { p_job_id: jobId })
+  if (error) throw error
+}
+
+// Store and product rows are upserted on the server, which records each row on the job.
+// With `allOrNothing` the rows are staged first and the whole file is applied in one transaction,
+// so a failing row or a closed tab leaves nothing applied
+export const applyImportRows = async (
+  jobId: string,
+  rows: ImportRowData[],
+  allOrNothing: boolean,
+  onProgress: (progress: ImportProgress) => void
+): Promise<ImportBatchResult> => {
+  const startedAt = Date.now()
+  const result: ImportBatchResult = { added: 0, updated: 0, failed: 0 }
+  onProgress({ phase: 'sending', done: 0, total: rows.length, startedAt })
+
+  for (let i = 0; i < rows.length; i += IMPORT_BATCH_SIZE) {
+    const batch = rows.slice(i, i + IMPORT_BATCH_SIZE)
+
+    if (allOrNothing) {
+      const { error } = await supabase
+        .from('import_job_staged_rows')
+        .insert(batch.map(row => ({ job_id: jobId, row_number: row.row_number, data: row.data })))
+
+      if (error) throw error
+    } else {
+      const { data, error } = await supabase.rpc('apply_import_rows', { p_job_id: jobId, p_rows: batch })
+      if (error) throw error
+
+      result.added += data.added
+      result.updated += data.updated
+      result.failed += data.failed
+    }
+
+    onProgress({ phase: 'sending', done: i + batch.length, total: rows.length, startedAt })
+  }
+
+  if (!allOrNothing) return result
+
+  onProgress({ phase: 'committing', done: rows.length, total: rows.length, startedAt })
+  const { data, error } = await supabase.rpc('apply_staged_import', { p_job_id: jobId })
+  if (error) throw error
+  return data
+}
+
+// Extrapolated from the rows sent so far; null until the first batch is done
+export const getImportTimeLeft = (progress: ImportProgress): number | null => {
+  if (progress.phase === 'committing' || progress.done === 0) return null
+  const elapsed = Date.now() - progress.startedAt
+  return (elapsed / progress.done) * (progress.total - progress.done)
+}
+
+export const formatTimeLeft = (ms: number): string => {
+  const seconds = Math.ceil(ms / 1000)
+  if (seconds < 60) return `${seconds}s left`
+  const minutes = Math.floor(seconds / 60)
+  return `${minutes}m ${seconds % 60}s left`
+}
+
+export const fetchImportJobRows = async (jobId: string): Promise<ImportJobRow[]> => {
+  const { data, error } = await supabase
+    .from('import_job_rows')
+    .select('row_number, outcome, message, record_table, record_id, before_image, after_image')
+    .eq('job_id', jobId)
+    .order('row_number', { nullsFirst: false })
+
+  if (error) throw error
+  return data || []
+}
+
+export const downloadImportFile = async (job: ImportJob) => {
+  const { data, error } = await supabase
+    .from('import_jobs')
+    .select('file_data')
+    .eq('id', job.id)
+    .single()
+
+  if (error) throw error
+  if (!data.file_data) return
+
+  const binary = atob(data.file_data)
+  const bytes = Uint8Array.from(binary, char => char.charCodeAt(0))
+  const url = window.URL.createObjectURL(new Blob([bytes]))
+  const a = document.createElement('a')
+  a.href = url
+  a.download = job.file_name
+  document.body.appendChild(a)
+  a.click()
+  document.body.removeChild(a)
+  window.URL.revokeObjectURL(url)
+}
+
+// Rows that were not imported, with the reason
+export const downloadImportErrors = async (job: ImportJob) => {
+  const rows = (await fetchImportJobRows(job.id)).filter(row => row.outcome === 'failed' || row.outcome === 'invalid')
+  downloadCsv(
+    `${job.file_name.replace(/\.[^.]+$/, '')}_errors.csv`,
+    toCsv([
+      ['ROW', 'OUTCOME', 'MESSAGE'],
+      ...rows.map(row => [row.row_number, row.outcome, row.message])
+    ])
+  )
+}
+
+export const rollbackImportJob = async (jobId: string): Promise<SkippedRollbackRow[]> => {
+  const { data, error } = await supabase.rpc('rollback_import_job', { p_job_id: jobId })
+  if (error) throw error
+  return data || []
+}
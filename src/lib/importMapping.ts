@@ -0,0 +1,170 @@
+import { supabase } from '@/lib/supabase'
+import { CsvTable } from '@/lib/csvImport'
+
+export type ImportType = 'stores' | 'products' | 'msl' | 'targets'
+
+export interface ImportField {
+  // The header the importer reads
+  key: string
+  label: string
+  required: boolean
+  // Other names the column goes by in English and Indonesian files
+  synonyms: string[]
+}
+
+// Source header -> field key; headers without an entry are ignored
+export type ColumnMapping = Record<string, string>
+
+export interface ImportMappingProfile {
+  id: string
+  import_type: ImportType
+  name: string
+  source_headers: string[]
+  mapping: ColumnMapping
+  updated_at: string
+}
+
+const SKU_SYNONYMS = ['SKU', 'KODE_SKU', 'KODE_PRODUK', 'PRODUCT_CODE', 'ITEM_CODE', 'KODE_BARANG', 'ARTICLE']
+const PRODUCT_NAME_SYNONYMS = ['NAMA_PRODUK', 'PRODUCT', 'NAMA_BARANG', 'ITEM_NAME', 'DESCRIPTION', 'DESKRIPSI']
+const NOTES_SYNONYMS = ['CATATAN', 'NOTE', 'KETERANGAN', 'REMARKS']
+
+export const IMPORT_FIELDS: Record<ImportType, ImportField[]> = {
+  stores: [
+    { key: 'KODE_TOKO', label: 'Kode Toko', required: true, synonyms: ['STORE_CODE', 'KODE', 'OUTLET_CODE', 'KODE_OUTLET', 'CUSTOMER_CODE', 'KODE_PELANGGAN'] },
+    { key: 'NAMA_TOKO', label: 'Nama Toko', required: true, synonyms: ['STORE_NAME', 'NAMA', 'OUTLET_NAME', 'NAMA_OUTLET', 'CUSTOMER_NAME', 'NAMA_PELANGGAN'] },
+    { key: 'KATEGORI', label: 'Kategori', required: true, synonyms: ['CATEGORY', 'STORE_CATEGORY', 'KATEGORI_TOKO', 'CHANNEL'] },
+    { key: 'ALAMAT', label: 'Alamat', required: false, synonyms: ['ADDRESS', 'ALAMAT_TOKO', 'STORE_ADDRESS'] },
+    { key: 'GOOGLE_MAPS', label: 'Google Maps', required: false, synonyms: ['GMAPS', 'MAPS', 'GMAPS_LINK', 'MAP_LINK', 'LOKASI', 'LOCATION'] },
+    { key: 'ROUTE', label: 'Route', required: false, synonyms: ['RUTE', 'JALUR'] },
+    { key: 'TELEPON', label: 'Telepon', required: false, synonyms: ['PHONE', 'TELP', 'NO_TELP', 'NO_HP', 'HP', 'WHATSAPP'] },
+    { key: 'AVG_ORDER_VALUE', label: 'Rata-rata Order', required: false, synonyms: ['AVERAGE_ORDER_VALUE', 'RATA_RATA_ORDER', 'NILAI_ORDER'] },
+    { key: 'FREKUENSI_ORDER', label: 'Frekuensi Order', required: false, synonyms: ['ORDER_FREQUENCY', 'FREQUENCY', 'FREKUENSI'] },
+    { key: 'KONTAK_UTAMA', label: 'Kontak Utama', required: false, synonyms: ['KEY_CONTACT', 'CONTACT', 'KONTAK', 'PIC', 'PEMILIK', 'OWNER'] },
+    { key: 'CATATAN', label: 'Catatan', required: false, synonyms: ['NOTES', 'NOTE', 'KETERANGAN', 'REMARKS'] }
+  ],
+  products: [
+    { key: 'SKU_CODE', label: 'SKU', required: true, synonyms: SKU_SYNONYMS },
+    { key: 'PRODUCT_NAME', label: 'Product Name', required: true, synonyms: [...PRODUCT_NAME_SYNONYMS, 'NAMA'] },
+    { key: 'BRAND', label: 'Brand', required: true, synonyms: ['MEREK', 'MERK', 'BRAND_NAME'] },
+    { key: 'CATEGORY', label: 'Category', required: true, synonyms: ['KATEGORI', 'KATEGORI_PRODUK', 'PRODUCT_CATEGORY'] },
+    { key: 'PRICE', label: 'Price', required: true, synonyms: ['HARGA', 'UNIT_PRICE', 'HARGA_SATUAN', 'PRICE_LIST'] },
+    { key: 'DISCOUNT', label: 'Discount', required: false, synonyms: ['DISKON', 'DISC', 'POTONGAN'] }
+  ],
+  msl: [
+    { key: 'CATEGORY', label: 'Category', required: true, synonyms: ['KATEGORI', 'STORE_CATEGORY', 'KATEGORI_TOKO'] },
+    { key: 'CLUSTER', label: 'Cluster', required: false, synonyms: ['KLASTER', 'STORE_CLUSTER'] },
+    { key: 'SKU_CODE', label: 'SKU', required: true, synonyms: SKU_SYNONYMS },
+    { key: 'PRODUCT_NAME', label: 'Product Name', required: false, synonyms: PRODUCT_NAME_SYNONYMS },
+    { key: 'PRIORITY', label: 'Priority', required: true, synonyms: ['PRIORITAS', 'RANK', 'URUTAN'] },
+    { key: 'NOTES', label: 'Notes', required: false, synonyms: NOTES_SYNONYMS }
+  ],
+  targets: [
+    { key: 'SALESMAN_EMAIL', label: 'Salesman Email', required: true, synonyms: ['EMAIL', 'SALESMAN', 'EMAIL_SALESMAN'] },
+    { key: 'MONTH', label: 'Month', required: true, synonyms: ['BULAN', 'PERIOD', 'PERIODE'] },
+    { key: 'DIMENSION', label: 'Dimension', required: false, synonyms: ['DIMENSI'] },
+    { key: 'DIMENSION_VALUE', label: 'Dimension Value', required: false, synonyms: ['NILAI_DIMENSI'] },
+    { key: 'SALES_TARGET', label: 'Sales Target', required: false, synonyms: ['TARGET_PENJUALAN', 'TARGET_SALES', 'PENJUALAN'] },
+    { key: 'EC_TARGET', label: 'EC Target', required: false, synonyms: ['TARGET_EC', 'EFFECTIVE_CALL'] },
+    { key: 'MSL_TARGET', label: 'MSL Target', required: false, synonyms: ['TARGET_MSL'] }
+  ]
+}
+
+// Below this similarity a header is left for the user to map
+const MIN_MATCH_SCORE = 0.75
+
+// "Kode Toko", "kode_toko" and "KODE-TOKO" are the same header
+const normalizeHeader = (header: string) => header.toUpperCase().replace(/[^A-Z0-9]/g, '')
+
+const editDistance = (a: string, b: string): number => {
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j)
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i]
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      )
+    }
+    previous = current
+  }
+  return previous[b.length]
+}
+
+// 1 for the same name; a header containing a whole field name ("Kode Toko Distributor") scores high
+const scoreHeader = (header: string, field: ImportField): number => {
+  const source = normalizeHeader(header)
+  if (!source) return 0
+
+  return Math.max(...[field.key, ...field.synonyms].map(name => {
+    const target = normalizeHeader(name)
+    if (source === target) return 1
+    if (target.length >= 4 && (source.includes(target) || target.includes(source))) return 0.85
+    return 1 - editDistance(source, target) / Math.max(source.length, target.length)
+  }))
+}
+
+// Best pairs first, each header and each field used once
+export const suggestColumnMapping = (headers: string[], fields: ImportField[]): ColumnMapping => {
+  const candidates = headers
+    .flatMap(header => fields.map(field => ({ header, field: field.key, score: scoreHeader(header, field) })))
+    .filter(candidate => candidate.score >= MIN_MATCH_SCORE)
+    .sort((a, b) => b.score - a.score)
+
+  const mapping: ColumnMapping = {}
+  const usedFields = new Set<string>()
+  candidates.forEach(candidate => {
+    if (mapping[candidate.header] || usedFields.has(candidate.field)) return
+    mapping[candidate.header] = candidate.field
+    usedFields.add(candidate.field)
+  })
+
+  return mapping
+}
+
+// The latest profile saved for a file with these headers; `profiles` is latest first
+export const findMappingProfile = (profiles: ImportMappingProfile[], headers: string[]): ImportMappingProfile | null => {
+  const fileHeaders = new Set(headers)
+  return profiles.find(profile =>
+    profile.source_headers.length === fileHeaders.size &&
+    profile.source_headers.every(header => fileHeaders.has(header))
+  ) || null
+}
+
+export const getMissingRequiredFields = (mapping: ColumnMapping, fields: ImportField[]): ImportField[] => {
+  const mappedFields = new Set(Object.values(mapping))
+  return fields.filter(field => field.required && !mappedFields.has(field.key))
+}
+
+// Renames the mapped headers to their field keys so the importers read the table as before
+export const applyColumnMapping = (table: CsvTable, mapping: ColumnMapping): CsvTable => {
+  return {
+    headers: table.headers.map(header => mapping[header] || ''),
+    rows: table.rows
+  }
+}
+
+export const fetchMappingProfiles = async (importType: ImportType): Promise<ImportMappingProfile[]> => {
+  const { data, error } = await supabase
+    .from('import_mapping_profiles')
+    .select('id, import_type, name, source_headers, mapping, updated_at')
+    .eq('import_type', importType)
+    .order('updated_at', { ascending: false })
+
+  if (error) throw error
+  return data || []
+}
+
+// Saving under an existing name replaces that profile
+export const saveMappingProfile = async (importType: ImportType, name: string, headers: string[], mapping: ColumnMapping) => {
+  const { error } = await supabase
+    .from('import_mapping_profiles')
+    .upsert({
+      import_type: importType,
+      name,
+      source_headers: headers,
+      mapping
+    }, { onConflict: 'import_type,name' })
+
+  if (error) throw error
+}
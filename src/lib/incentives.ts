@@ -0,0 +1,125 @@
+import { supabase } from '@/lib/supabase'
+
+export interface SalesTier {
+  min_sales: number
+  rate_percentage: number
+}
+
+// Stored as `incentive_rule_sets.rules`; a saved version is never changed
+export interface IncentiveRules {
+  // The rate of the highest tier reached applies to all of the month's sales
+  sales_tiers: SalesTier[]
+  // Fixed bonus once the month's MSL achievement reaches the threshold
+  msl_bonus: {
+    threshold_percentage: number
+    amount: number
+  } | null
+  // Paid per effective call once the month reaches `min_ec`, up to `max_amount`
+  ec_bonus: {
+    amount_per_ec: number
+    min_ec: number
+    max_amount: number | null
+  } | null
+}
+
+export interface IncentiveRuleSet {
+  id: string
+  version: number
+  effective_from: string
+  rules: IncentiveRules
+  notes: string | null
+  created_at: string
+}
+
+export interface IncentiveInputs {
+  sales: number
+  ec: number
+  msl_achievement: number
+}
+
+export interface IncentiveLine {
+  component: 'sales' | 'msl' | 'ec'
+  label: string
+  basis: string
+  amount: number
+}
+
+export interface IncentiveResult {
+  lines: IncentiveLine[]
+  total: number
+}
+
+export const DEFAULT_INCENTIVE_RULES: IncentiveRules = {
+  sales_tiers: [
+    { min_sales: 0, rate_percentage: 0 },
+    { min_sales: 100000000, rate_percentage: 1 },
+    { min_sales: 150000000, rate_percentage: 1.5 }
+  ],
+  msl_bonus: { threshold_percentage: 80, amount: 500000 },
+  ec_bonus: { amount_per_ec: 2500, min_ec: 150, max_amount: 750000 }
+}
+
+const formatRupiah = (value: number) => `Rp ${Math.round(value).toLocaleString('id-ID')}`
+
+export const calculateIncentive = (rules: IncentiveRules, inputs: IncentiveInputs): IncentiveResult => {
+  const lines: IncentiveLine[] = []
+
+  const tier = [...rules.sales_tiers]
+    .sort((a, b) => b.min_sales - a.min_sales)
+    .find(t => inputs.sales >= t.min_sales)
+  lines.push({
+    component: 'sales',
+    label: 'Komisi Sales',
+    basis: tier
+      ? `${tier.rate_percentage}% x ${formatRupiah(inputs.sales)} (tier mulai ${formatRupiah(tier.min_sales)})`
+      : `Sales ${formatRupiah(inputs.sales)} di bawah tier terendah`,
+    amount: tier ? Math.round(inputs.sales * tier.rate_percentage / 100) : 0
+  })
+
+  if (rules.msl_bonus) {
+    const reached = inputs.msl_achievement >= rules.msl_bonus.threshold_percentage
+    lines.push({
+      component: 'msl',
+      label: 'Bonus MSL',
+      basis: `MSL ${inputs.msl_achievement.toFixed(1)}% ${reached ? '≥' : '<'} ${rules.msl_bonus.threshold_percentage}%`,
+      amount: reached ? rules.msl_bonus.amount : 0
+    })
+  }
+
+  if (rules.ec_bonus) {
+    const { amount_per_ec: amountPerEC, min_ec: minEC, max_amount: maxAmount } = rules.ec_bonus
+    const reached = inputs.ec >= minEC
+    const uncapped = reached ? inputs.ec * amountPerEC : 0
+    const amount = maxAmount !== null ? Math.min(uncapped, maxAmount) : uncapped
+    lines.push({
+      component: 'ec',
+      label: 'Bonus EC',
+      basis: reached
+        ? `${inputs.ec} EC x ${formatRupiah(amountPerEC)}${amount < uncapped ? ` (maks. ${formatRupiah(maxAmount || 0)})` : ''}`
+        : `${inputs.ec} EC, minimum ${minEC} EC`,
+      amount
+    })
+  }
+
+  return {
+    lines,
+    total: lines.reduce((sum, line) => sum + line.amount, 0)
+  }
+}
+
+export const fetchRuleSets = async (): Promise<IncentiveRuleSet[]> => {
+  const { data, error } = await supabase
+    .from('incentive_rule_sets')
+    .select('id, version, effective_from, rules, notes, created_at')
+    .order('version', { ascending: false })
+
+  if (error) throw error
+  return data || []
+}
+
+// Latest version whose effective month has started; `month` is the first day of the month
+export const getRuleSetForMonth = (ruleSets: IncentiveRuleSet[], month: string): IncentiveRuleSet | null => {
+  return ruleSets
+    .filter(ruleSet => ruleSet.effective_from <= month)
+    .sort((a, b) => b.effective_from.localeCompare(a.effective_from) || b.version - a.version)[0] || null
+}
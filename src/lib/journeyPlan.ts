@@ -0,0 +1,37 @@
+import { supabase } from '@/lib/supabase'
+
+export type JourneyFrequency = 'weekly' | 'biweekly' | 'monthly'
+
+// ISO weekday numbers, matching EXTRACT(ISODOW ...) in `journey_plan_matches`
+export const WEEKDAYS: { value: number; label: string }[] = [
+  { value: 1, label: 'Senin' },
+  { value: 2, label: 'Selasa' },
+  { value: 3, label: 'Rabu' },
+  { value: 4, label: 'Kamis' },
+  { value: 5, label: 'Jumat' },
+  { value: 6, label: 'Sabtu' },
+  { value: 7, label: 'Minggu' }
+]
+
+export const FREQUENCIES: { value: JourneyFrequency; label: string }[] = [
+  { value: 'weekly', label: 'Mingguan' },
+  { value: 'biweekly', label: 'Dua Mingguan' },
+  { value: 'monthly', label: 'Bulanan' }
+]
+
+export interface PlannedStore {
+  store_id: string
+  salesman_id: string
+  plan_id: string
+}
+
+// Pass null as salesman to get every salesman's plan (admins only)
+export const fetchPlannedStores = async (salesmanId: string | null, date: string): Promise<PlannedStore[]> => {
+  const { data, error } = await supabase.rpc('get_planned_stores', {
+    p_salesman_id: salesmanId,
+    p_date: date
+  })
+
+  if (error) throw error
+  return data || []
+}
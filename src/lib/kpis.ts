@@ -0,0 +1,68 @@
+import { supabase } from '@/lib/supabase'
+import { fetchAllPages } from '@/lib/pagination'
+
+export type KpiGroupBy = 'total' | 'salesman' | 'day' | 'salesman_day' | 'store'
+
+// One row of `sales_kpis`; the definitions of each figure live in that function
+export interface KpiRow {
+  salesman_id: string | null
+  visit_date: string | null
+  store_id: string | null
+  total_calls: number
+  effective_calls: number
+  total_sales: number
+  msl_stores: number
+  msl_achievement: number
+}
+
+// Narrows `sales_kpis` to one sales target line
+export interface KpiFilter {
+  route?: string
+  storeCategory?: string
+  brand?: string
+}
+
+export const EMPTY_KPI: KpiRow = {
+  salesman_id: null,
+  visit_date: null,
+  store_id: null,
+  total_calls: 0,
+  effective_calls: 0,
+  total_sales: 0,
+  msl_stores: 0,
+  msl_achievement: 0
+}
+
+// Pass null as salesman to get every salesman's visits (admins only). Paged, as per-day or
+// per-store groupings pass the row cap; `sales_kpis` orders its rows on the group keys
+export const fetchKpis = async (
+  start: string,
+  end: string,
+  salesmanId: string | null,
+  groupBy: KpiGroupBy,
+  filter: KpiFilter = {}
+): Promise<KpiRow[]> => {
+  const rows = await fetchAllPages<KpiRow>((from, to) => supabase
+    .rpc('sales_kpis', {
+      p_start: start,
+      p_end: end,
+      p_salesman_id: salesmanId,
+      p_group_by: groupBy,
+      p_route: filter.route ?? null,
+      p_store_category: filter.storeCategory ?? null,
+      p_brand: filter.brand ?? null
+    })
+    .range(from, to))
+
+  return rows.map(row => ({
+    ...row,
+    total_sales: Number(row.total_sales),
+    msl_achievement: Number(row.msl_achievement)
+  }))
+}
+
+// Totals for the range; zeros when there are no visits
+export const fetchKpiSummary = async (start: string, end: string, salesmanId: string | null): Promise<KpiRow> => {
+  const rows = await fetchKpis(start, end, salesmanId, 'total')
+  return rows[0] || EMPTY_KPI
+}
@@ -0,0 +1,271 @@
+import { supabase } from '@/lib/supabase'
+import { fetchAllPages } from '@/lib/pagination'
+
+// The store fields that decide its MSL
+export interface MSLStore {
+  id: string
+  category: string
+  cluster_id: string | null
+}
+
+// A SKU's time on a category or cluster MSL; valid_to is exclusive and null while the SKU is still listed
+export interface MSLPeriod {
+  category: string
+  cluster_id: string | null
+  sku_code: string
+  product_name: string
+  priority: number
+  valid_from: string
+  valid_to: string | null
+}
+
+export type MSLOverrideAction = 'add' | 'exclude'
+
+export interface MSLOverride {
+  id: string
+  store_id: string
+  product_id: string
+  sku_code: string
+  action: MSLOverrideAction
+  priority: number
+  valid_from: string
+  valid_to: string | null
+  notes: string | null
+  products: {
+    product_name: string
+  }
+}
+
+// Everything needed to resolve the MSL of any store on the dates it was fetched for
+export interface MSLSource {
+  periods: MSLPeriod[]
+  overrides: MSLOverride[]
+}
+
+export interface MSLListItem {
+  sku_code: string
+  product_name: string
+  priority: number
+  notes: string | null
+}
+
+// A version created by `publishMSLVersions`, one per list in the order given
+export interface PublishedMSLVersion {
+  category: string
+  cluster_id: string | null
+  version_id: string
+}
+
+export interface MSLVersion {
+  id: string
+  category: string
+  cluster_id: string | null
+  version: number
+  effective_from: string
+  notes: string | null
+  created_at: string
+  msl_version_items: MSLListItem[]
+}
+
+// One order line of a store, for the MSL gap checklist of the visit form
+export interface MSLPurchase {
+  sku_code: string
+  quantity: number
+  visit_date: string
+}
+
+export interface MSLGapItem extends MSLListItem {
+  // Bought within the look-back ending on the visit date
+  bought: boolean
+  lastBoughtDate: string | null
+  inOrder: boolean
+  suggestedQuantity: number
+}
+
+export type MSLVersionStatus = 'scheduled' | 'current' | 'superseded'
+
+export interface MSLDiff {
+  added: MSLListItem[]
+  removed: MSLListItem[]
+  reprioritised: { item: MSLListItem; previousPriority: number }[]
+}
+
+export const MSL_OVERRIDE_COLUMNS = 'id, store_id, product_id, sku_code, action, priority, valid_from, valid_to, notes, products(product_name)'
+
+const isInEffect = (period: { valid_from: string; valid_to: string | null }, date: string) => {
+  return period.valid_from <= date && (!period.valid_to || period.valid_to > date)
+}
+
+// Mirror of `store_msl_items` (see its migration): the cluster list when it has items on the
+// date, otherwise the category list, then the store's additions and exclusions; by priority
+export const resolveStoreMSL = (source: MSLSource, store: MSLStore, date: string): MSLListItem[] => {
+  const lists = source.periods.filter(period =>
+    period.category === store.category &&
+    (!period.cluster_id || period.cluster_id === store.cluster_id) &&
+    isInEffect(period, date)
+  )
+  const hasClusterList = lists.some(period => period.cluster_id)
+  const overrides = source.overrides.filter(override => override.store_id === store.id && isInEffect(override, date))
+  const overriddenSkus = new Set(overrides.map(override => override.sku_code))
+
+  return [
+    ...lists
+      .filter(period => !!period.cluster_id === hasClusterList && !overriddenSkus.has(period.sku_code))
+      .map(period => ({ sku_code: period.sku_code, product_name: period.product_name, priority: period.priority, notes: null })),
+    ...overrides
+      .filter(override => override.action === 'add')
+      .map(override => ({ sku_code: override.sku_code, product_name: override.products.product_name, priority: override.priority, notes: override.notes }))
+  ].sort((a, b) => a.priority - b.priority)
+}
+
+// Pass a range to limit the periods and overrides to the ones overlapping it
+export const fetchMSLSource = async (start?: string, end?: string): Promise<MSLSource> => {
+  const fetchPeriodsPage = (from: number, to: number) => {
+    let query = supabase
+      .from('msl_item_periods')
+      .select('category, cluster_id, sku_code, product_name, priority, valid_from, valid_to')
+
+    if (start && end) {
+      query = query.lte('valid_from', end).or(`valid_to.is.null,valid_to.gt.${start}`)
+    }
+
+    return query
+      .order('category')
+      .order('cluster_id')
+      .order('sku_code')
+      .order('valid_from')
+      .range(from, to)
+  }
+  const fetchOverridesPage = (from: number, to: number) => {
+    let query = supabase
+      .from('store_msl_overrides')
+      .select(MSL_OVERRIDE_COLUMNS)
+
+    if (start && end) {
+      query = query.lte('valid_from', end).or(`valid_to.is.null,valid_to.gt.${start}`)
+    }
+
+    return query.order('id').range(from, to)
+  }
+
+  const [periods, overrides] = await Promise.all([
+    fetchAllPages<MSLPeriod>(fetchPeriodsPage),
+    fetchAllPages<MSLOverride>(fetchOverridesPage)
+  ])
+
+  return { periods, overrides }
+}
+
+// What publishing `next` would change compared to `current`
+export const diffMSL = (current: MSLListItem[], next: MSLListItem[]): MSLDiff => {
+  const currentBySku = new Map(current.map(item => [item.sku_code, item]))
+  const nextSkus = new Set(next.map(item => item.sku_code))
+
+  return {
+    added: next.filter(item => !currentBySku.has(item.sku_code)),
+    removed: current.filter(item => !nextSkus.has(item.sku_code)),
+    reprioritised: next
+      .filter(item => currentBySku.has(item.sku_code) && currentBySku.get(item.sku_code)!.priority !== item.priority)
+      .map(item => ({ item, previousPriority: currentBySku.get(item.sku_code)!.priority }))
+  }
+}
+
+// Latest first, each with its items by priority; a null cluster is the category's own list
+export const fetchMSLVersions = async (category: string, clusterId: string | null): Promise<MSLVersion[]> => {
+  let query = supabase
+    .from('msl_versions')
+    .select('id, category, cluster_id, version, effective_from, notes, created_at, msl_version_items(sku_code, product_name, priority, notes)')
+    .eq('category', category)
+
+  query = clusterId ? query.eq('cluster_id', clusterId) : query.is('cluster_id', null)
+
+  const { data, error } = await query
+    .order('effective_from', { ascending: false })
+    .order('version', { ascending: false })
+
+  if (error) throw error
+  return (data || []).map(version => ({
+    ...version,
+    msl_version_items: [...version.msl_version_items].sort((a, b) => a.priority - b.priority)
+  }))
+}
+
+// The version in effect on `date` is the latest one that started by then; `versions` is latest first
+export const getMSLVersionStatus = (version: MSLVersion, versions: MSLVersion[], date: string): MSLVersionStatus => {
+  if (version.effective_from > date) return 'scheduled'
+  const current = versions.find(v => v.effective_from <= date)
+  return current?.id === version.id ? 'current' : 'superseded'
+}
+
+// One new version per list, all in one transaction
+export const publishMSLVersions = async (
+  effectiveFrom: string,
+  notes: string | null,
+  lists: { category: string; cluster_id: string | null; items: MSLListItem[] }[]
+): Promise<PublishedMSLVersion[]> => {
+  const { data, error } = await supabase.rpc('publish_msl_versions', {
+    p_effective_from: effectiveFrom,
+    p_notes: notes,
+    p_lists: lists
+  })
+
+  if (error) throw error
+  return data || []
+}
+
+// Publishes the lists of an MSL import and records each item, and each SKU left out, on the job
+export const publishMSLImport = async (
+  jobId: string,
+  effectiveFrom: string,
+  notes: string | null,
+  lists: { category: string; cluster_id: string | null; items: (MSLListItem & { row_number: number })[] }[]
+): Promise<PublishedMSLVersion[]> => {
+  const { data, error } = await supabase.rpc('publish_msl_import', {
+    p_job_id: jobId,
+    p_effective_from: effectiveFrom,
+    p_notes: notes,
+    p_lists: lists
+  })
+
+  if (error) throw error
+  return data || []
+}
+
+// Same look-back as `snapshot_msl_compliance`: purchases from `lookbackDays` days up to and including `date`
+export const buildMSLGapChecklist = (
+  storeMSL: MSLListItem[],
+  purchases: MSLPurchase[],
+  orderSkus: Set<string>,
+  lookbackDays: number,
+  date: string
+): MSLGapItem[] => {
+  const since = new Date(`${date}T00:00:00Z`)
+  since.setUTCDate(since.getUTCDate() - (lookbackDays - 1))
+  const sinceDate = since.toISOString().split('T')[0]
+
+  // Latest first, so the first line of a SKU is its last purchase
+  const history = purchases
+    .filter(purchase => purchase.visit_date <= date)
+    .sort((a, b) => b.visit_date.localeCompare(a.visit_date))
+  const quantities = history.map(purchase => purchase.quantity).sort((a, b) => a - b)
+  const typicalQuantity = quantities.length > 0 ? quantities[Math.floor(quantities.length / 2)] : 1
+
+  return storeMSL.map(item => {
+    const last = history.find(purchase => purchase.sku_code === item.sku_code)
+    return {
+      ...item,
+      bought: !!last && last.visit_date >= sinceDate,
+      lastBoughtDate: last?.visit_date || null,
+      inOrder: orderSkus.has(item.sku_code),
+      // The last quantity of this SKU, otherwise the store's median line
+      suggestedQuantity: last?.quantity || typicalQuantity
+    }
+  })
+}
+
+// Share of the MSL covered, optionally counting the order being entered
+export const getMSLGapAchievement = (checklist: MSLGapItem[], includeOrder: boolean): number => {
+  if (checklist.length === 0) return 0
+  const covered = checklist.filter(item => item.bought || (includeOrder && item.inOrder)).length
+  return (covered / checklist.length) * 100
+}
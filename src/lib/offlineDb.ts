@@ -0,0 +1,96 @@
+// Small IndexedDB wrapper used for the offline visit queue and the reference data cache
+
+const DB_NAME = 'loreal-sales-assistant'
+const DB_VERSION = 1
+
+export const VISIT_QUEUE_STORE = 'visit_queue'
+const CACHE_STORE = 'cache'
+
+let dbPromise: Promise<IDBDatabase> | null = null
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (dbPromise) return dbPromise
+
+  dbPromise = new Promise((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+      reject(new Error('IndexedDB tidak tersedia di browser ini'))
+      return
+    }
+
+    const request = indexedDB.open(DB_NAME, DB_VERSION)
+
+    request.onupgradeneeded = () => {
+      const db = request.result
+      if (!db.objectStoreNames.contains(VISIT_QUEUE_STORE)) {
+        db.createObjectStore(VISIT_QUEUE_STORE, { keyPath: 'id' })
+      }
+      if (!db.objectStoreNames.contains(CACHE_STORE)) {
+        db.createObjectStore(CACHE_STORE, { keyPath: 'key' })
+      }
+    }
+
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => {
+      dbPromise = null
+      reject(request.error)
+    }
+  })
+
+  return dbPromise
+}
+
+const runRequest = async <T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  action: (store: IDBObjectStore) => IDBRequest
+): Promise<T> => {
+  const db = await openDb()
+
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(storeName, mode)
+    const request = action(transaction.objectStore(storeName))
+    transaction.oncomplete = () => resolve(request.result as T)
+    transaction.onerror = () => reject(transaction.error)
+    transaction.onabort = () => reject(transaction.error)
+  })
+}
+
+export const idbGetAll = <T>(storeName: string): Promise<T[]> => {
+  return runRequest<T[]>(storeName, 'readonly', store => store.getAll())
+}
+
+export const idbGet = <T>(storeName: string, key: string): Promise<T | undefined> => {
+  return runRequest<T | undefined>(storeName, 'readonly', store => store.get(key))
+}
+
+export const idbPut = async <T>(storeName: string, value: T): Promise<void> => {
+  await runRequest(storeName, 'readwrite', store => store.put(value))
+}
+
+export const idbDelete = async (storeName: string, key: string): Promise<void> => {
+  await runRequest(storeName, 'readwrite', store => store.delete(key))
+}
+
+export const idbCount = (storeName: string): Promise<number> => {
+  return runRequest<number>(storeName, 'readonly', store => store.count())
+}
+
+interface CacheEntry<T> {
+  key: string
+  data: T
+  cached_at: string
+}
+
+// Run the fetcher and remember its result; when it fails (offline), fall back to the last cached result
+export const withOfflineCache = async <T>(key: string, fetcher: () => Promise<T>): Promise<T> => {
+  try {
+    const data = await fetcher()
+    idbPut<CacheEntry<T>>(CACHE_STORE, { key, data, cached_at: new Date().toISOString() })
+      .catch(error => console.error('Error caching data:', error))
+    return data
+  } catch (error) {
+    const cached = await idbGet<CacheEntry<T>>(CACHE_STORE, key).catch(() => undefined)
+    if (cached) return cached.data
+    throw error
+  }
+}
@@ -0,0 +1,44 @@
+export type OrderStatus =
+  | 'submitted'
+  | 'approved'
+  | 'partially_delivered'
+  | 'delivered'
+  | 'invoiced'
+  | 'cancelled'
+
+export const ORDER_STATUSES: { value: OrderStatus; label: string; className: string }[] = [
+  { value: 'submitted', label: 'Submitted', className: 'bg-blue-100 text-blue-800' },
+  { value: 'approved', label: 'Approved', className: 'bg-purple-100 text-purple-800' },
+  { value: 'partially_delivered', label: 'Terkirim Sebagian', className: 'bg-yellow-100 text-yellow-800' },
+  { value: 'delivered', label: 'Terkirim', className: 'bg-green-100 text-green-800' },
+  { value: 'invoiced', label: 'Invoiced', className: 'bg-emerald-100 text-emerald-800' },
+  { value: 'cancelled', label: 'Cancelled', className: 'bg-red-100 text-red-800' }
+]
+
+// Statuses still waiting on someone; orders sitting in these past the SLA are flagged
+export const OPEN_ORDER_STATUSES: OrderStatus[] = ['submitted', 'approved', 'partially_delivered']
+
+// Same transitions as the `manage_order_status` trigger; deliveries go through the delivery form
+const TRANSITIONS: Record<OrderStatus, OrderStatus[]> = {
+  submitted: ['approved', 'cancelled'],
+  approved: ['cancelled'],
+  partially_delivered: ['invoiced'],
+  delivered: ['invoiced'],
+  invoiced: [],
+  cancelled: []
+}
+
+export const getOrderStatusInfo = (status: string | null) => {
+  return ORDER_STATUSES.find(s => s.value === status) || null
+}
+
+export const getNextOrderStatuses = (status: OrderStatus, isAdmin: boolean): OrderStatus[] => {
+  const next = TRANSITIONS[status] || []
+  if (isAdmin) return next
+  // Salesmen can only cancel what is not approved yet
+  return next.filter(s => s === 'cancelled' && status === 'submitted')
+}
+
+export const canRecordDelivery = (status: string | null): boolean => {
+  return status === 'approved' || status === 'partially_delivered'
+}
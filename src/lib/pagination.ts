@@ -0,0 +1,16 @@
+// PostgREST stops every select, RPCs included, at the project's max rows (1000) without an error,
+// so reads that can grow past that go page by page until a short page comes back
+export const PAGE_SIZE = 1000
+
+// `fetchPage` must order the rows on a unique key, or pages can overlap and skip rows
+export const fetchAllPages = async <T>(
+  fetchPage: (from: number, to: number) => PromiseLike<{ data: T[] | null; error: unknown }>
+): Promise<T[]> => {
+  const rows: T[] = []
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await fetchPage(from, from + PAGE_SIZE - 1)
+    if (error) throw error
+    rows.push(...(data || []))
+    if (!data || data.length < PAGE_SIZE) return rows
+  }
+}
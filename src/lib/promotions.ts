@@ -0,0 +1,114 @@
+export type PromotionScope = 'product' | 'brand' | 'category'
+
+export const PROMOTION_SCOPES: { value: PromotionScope; label: string }[] = [
+  { value: 'product', label: 'Produk' },
+  { value: 'brand', label: 'Brand' },
+  { value: 'category', label: 'Kategori Produk' }
+]
+
+export interface PromotionPeriod {
+  id: string
+  discount_percentage: number
+  start_date: string
+  end_date: string
+  is_active: boolean
+}
+
+export interface Promotion extends PromotionPeriod {
+  promo_name: string
+  scope: PromotionScope
+  product_id: string | null
+  brand: string | null
+  category: string | null
+  store_category: string | null
+}
+
+export interface PromotionProduct {
+  id: string
+  sku_code?: string
+  brand?: string | null
+  category?: string | null
+}
+
+export interface PromotionConflict {
+  promotion: Promotion
+  skuCodes: string[]
+}
+
+// Columns every promotion query selects
+export const PROMOTION_COLUMNS = 'id, promo_name, scope, product_id, brand, category, store_category, discount_percentage, start_date, end_date, is_active'
+
+// Same rule as the `active_promotion` database function: the biggest active discount covering the date
+export const findActivePromotion = <T extends PromotionPeriod>(promotions: T[], date: string): T | null => {
+  return promotions
+    .filter(promo => promo.is_active && promo.start_date <= date && promo.end_date >= date)
+    .sort((a, b) => b.discount_percentage - a.discount_percentage)[0] || null
+}
+
+// Same as `promotion_covers_product`
+export const promotionCoversProduct = (promotion: Promotion, product: PromotionProduct): boolean => {
+  switch (promotion.scope) {
+    case 'product':
+      return promotion.product_id === product.id
+    case 'brand':
+      return !!promotion.brand && promotion.brand === product.brand
+    case 'category':
+      return !!promotion.category && promotion.category === product.category
+    default:
+      return false
+  }
+}
+
+// `storeCategory` undefined means any store, e.g. for the product catalog
+export const findPromotionForProduct = (
+  promotions: Promotion[],
+  product: PromotionProduct,
+  date: string,
+  storeCategory?: string | null
+): Promotion | null => {
+  return findActivePromotion(
+    promotions.filter(promo =>
+      promotionCoversProduct(promo, product) &&
+      (storeCategory === undefined || !promo.store_category || promo.store_category === storeCategory)
+    ),
+    date
+  )
+}
+
+// Client-side preview of the `check_promotion_conflict` trigger
+export const findPromotionConflicts = (
+  promotion: Promotion,
+  promotions: Promotion[],
+  products: PromotionProduct[]
+): PromotionConflict[] => {
+  if (!promotion.is_active) return []
+
+  return promotions
+    .filter(other =>
+      other.id !== promotion.id &&
+      other.is_active &&
+      other.start_date <= promotion.end_date &&
+      other.end_date >= promotion.start_date &&
+      (!other.store_category || !promotion.store_category || other.store_category === promotion.store_category)
+    )
+    .map(other => ({
+      promotion: other,
+      skuCodes: products
+        .filter(product => promotionCoversProduct(other, product) && promotionCoversProduct(promotion, product))
+        .map(product => product.sku_code || product.id)
+    }))
+    .filter(conflict => conflict.skuCodes.length > 0)
+}
+
+export const getPromotionTargetLabel = (promotion: Promotion, productName?: string): string => {
+  switch (promotion.scope) {
+    case 'product':
+      return productName || 'Produk'
+    case 'brand':
+      return `Brand ${promotion.brand}`
+    case 'category':
+      return `Kategori ${promotion.category}`
+    default:
+      return ''
+  }
+}
@@ -0,0 +1,141 @@
+import { supabase } from '@/lib/supabase'
+import { withOfflineCache } from '@/lib/offlineDb'
+import { fetchPlannedStores, PlannedStore } from '@/lib/journeyPlan'
+import { Promotion, PROMOTION_COLUMNS } from '@/lib/promotions'
+import { MSLPurchase, MSLSource, fetchMSLSource } from '@/lib/msl'
+import { fetchAllPages } from '@/lib/pagination'
+
+// Data the visit form needs, cached on the device so it keeps working without a connection
+
+export interface VisitStore {
+  id: string
+  store_name: string
+  store_code: string
+  address: string
+  route: string
+  category: string
+  cluster_id: string | null
+  latitude: number | null
+  longitude: number | null
+}
+
+export interface VisitProduct {
+  id: string
+  sku_code: string
+  product_name: string
+  brand: string | null
+  category: string
+  unit_price: number
+}
+
+export interface VisitStorePurchase extends MSLPurchase {
+  store_id: string
+}
+
+interface StorePurchaseVisit {
+  store_id: string
+  visit_date: string
+  visit_orders: {
+    quantity: number
+    products: { sku_code: string }
+  }[]
+}
+
+// Long enough to cover the MSL look-back and to suggest quantities from earlier orders
+const PURCHASE_HISTORY_DAYS = 180
+
+export const fetchSalesmanStores = (userId: string): Promise<VisitStore[]> => {
+  return withOfflineCache(`stores:${userId}`, async () => {
+    const { data, error } = await supabase
+      .from('stores')
+      .select('id, store_name, store_code, address, route, category, cluster_id, latitude, longitude')
+      .eq('created_by', userId)
+      .order('store_name')
+
+    if (error) throw error
+    return data || []
+  })
+}
+
+export const fetchActiveProducts = (): Promise<VisitProduct[]> => {
+  return withOfflineCache('products', async () => {
+    const { data, error } = await supabase
+      .from('products')
+      .select('id, sku_code, product_name, brand, category, unit_price')
+      .eq('is_active', true)
+      .order('product_name')
+
+    if (error) throw error
+    return data || []
+  })
+}
+
+// Every active promotion, so the visit form can apply them for any visit date
+export const fetchActivePromotions = (): Promise<Promotion[]> => {
+  return withOfflineCache('promotions', async () => {
+    const { data, error } = await supabase
+      .from('promotions')
+      .select(PROMOTION_COLUMNS)
+      .eq('is_active', true)
+
+    if (error) throw error
+    return data || []
+  })
+}
+
+// Every list, period and override so the MSL of any store on any visit date resolves offline
+export const fetchCachedMSLSource = (): Promise<MSLSource> => {
+  return withOfflineCache('msl_source', () => fetchMSLSource())
+}
+
+// Order lines of the salesman's stores, cancelled orders excluded
+export const fetchStorePurchases = (userId: string): Promise<VisitStorePurchase[]> => {
+  return withOfflineCache(`store_purchases:${userId}`, async () => {
+    const since = new Date()
+    since.setDate(since.getDate() - PURCHASE_HISTORY_DAYS)
+
+    const visits = await fetchAllPages<StorePurchaseVisit>((from, to) => supabase
+      .from('visits')
+      .select(`
+        store_id,
+        visit_date,
+        stores!inner(created_by),
+        visit_orders(
+          quantity,
+          products!inner(sku_code)
+        )
+      `)
+      .eq('stores.created_by', userId)
+      .eq('has_order', true)
+      .or('order_status.is.null,order_status.neq.cancelled')
+      .is('voided_at', null)
+      .gte('visit_date', since.toISOString().split('T')[0])
+      .order('id')
+      .range(from, to))
+
+    return visits.flatMap(visit => visit.visit_orders.map(order => ({
+      store_id: visit.store_id,
+      visit_date: visit.visit_date,
+      sku_code: order.products.sku_code,
+      quantity: order.quantity
+    })))
+  })
+}
+
+export const fetchCachedPlannedStores = (userId: string, date: string): Promise<PlannedStore[]> => {
+  return withOfflineCache(`journey_plan:${userId}:${date}`, () => fetchPlannedStores(userId, date))
+}
+
+// Refresh every cache entry the visit form reads, e.g. when the dashboard opens or comes back online
+export const refreshReferenceData = async (userId: string) => {
+  const today = new Date().toISOString().split('T')[0]
+
+  await Promise.all([
+    fetchSalesmanStores(userId),
+    fetchActiveProducts(),
+    fetchActivePromotions(),
+    fetchCachedMSLSource(),
+    fetchStorePurchases(userId),
+    fetchCachedPlannedStores(userId, today)
+  ])
+}
@@ -0,0 +1,84 @@
+import { supabase } from '@/lib/supabase'
+
+export interface AppSettingDefinition {
+  key: string
+  label: string
+  description: string
+  unit: string
+  defaultValue: number
+}
+
+// Settings stored in the `app_settings` table, with the value used when a row is missing
+export const APP_SETTINGS: AppSettingDefinition[] = [
+  {
+    key: 'min_visit_duration_minutes',
+    label: 'Durasi Kunjungan Minimum',
+    description: 'Kunjungan yang lebih singkat dari ini ditandai di rekap dan laporan',
+    unit: 'menit',
+    defaultValue: 10
+  },
+  {
+    key: 'geofence_radius_meters',
+    label: 'Radius Geofence Toko',
+    description: 'Kunjungan yang check-in lebih jauh dari ini dari lokasi toko ditandai',
+    unit: 'meter',
+    defaultValue: 200
+  },
+  {
+    key: 'visit_edit_window_hours',
+    label: 'Batas Waktu Edit Kunjungan',
+    description: 'Salesman dapat mengubah atau membatalkan kunjungannya selama ini setelah disimpan',
+    unit: 'jam',
+    defaultValue: 24
+  },
+  {
+    key: 'order_status_sla_hours',
+    label: 'SLA Status Order',
+    description: 'Order yang tertahan lebih lama dari ini di status submitted, approved atau terkirim sebagian ditandai',
+    unit: 'jam',
+    defaultValue: 48
+  },
+  {
+    key: 'working_days_per_week',
+    label: 'Hari Kerja per Minggu',
+    description: 'Dihitung dari Senin (6 = Senin sampai Sabtu), dipakai untuk run-rate target harian',
+    unit: 'hari',
+    defaultValue: 6
+  },
+  {
+    key: 'msl_lookback_days',
+    label: 'Periode Look-back MSL',
+    description: 'Pembelian SKU MSL dalam periode ini dihitung di snapshot kepatuhan MSL toko dan checklist MSL di form kunjungan',
+    unit: 'hari',
+    defaultValue: 30
+  }
+]
+
+export type AppSettings = Record<string, number>
+
+export const getDefaultSettings = (): AppSettings => {
+  return APP_SETTINGS.reduce((acc, setting) => {
+    acc[setting.key] = setting.defaultValue
+    return acc
+  }, {} as AppSettings)
+}
+
+export const fetchAppSettings = async (): Promise<AppSettings> => {
+  const settings = getDefaultSettings()
+
+  try {
+    const { data, error } = await supabase
+      .from('app_settings')
+      .select('key, value')
+
+    if (error) throw error
+
+    for (const row of data || []) {
+      settings[row.key] = Number(row.value)
+    }
+  } catch (error) {
+    console.error('Error fetching app settings:', error)
+  }
+
+  return settings
+}
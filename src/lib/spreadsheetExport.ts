@@ -0,0 +1,31 @@
+import { CsvValue, toCsv, downloadBlob } from '@/lib/csvExport'
+
+export interface ExportSheet {
+  name: string
+  rows: CsvValue[][]
+}
+
+// One workbook with a sheet per table; xlsx is loaded only when someone exports
+export const downloadWorkbook = async (filename: string, sheets: ExportSheet[]) => {
+  const XLSX = await import('xlsx')
+  const workbook = XLSX.utils.book_new()
+
+  sheets.forEach(sheet => {
+    // Excel limits sheet names to 31 characters
+    XLSX.utils.book_append_sheet(workbook, XLSX.utils.aoa_to_sheet(sheet.rows), sheet.name.slice(0, 31))
+  })
+
+  XLSX.writeFile(workbook, filename)
+}
+
+// Same content as the workbook, one CSV file per sheet in a zip: browsers block all but the
+// first of several downloads started at once
+export const downloadCsvFiles = async (prefix: string, sheets: ExportSheet[]) => {
+  const { strToU8, zipSync } = await import('fflate')
+  const files = Object.fromEntries(sheets.map(sheet => {
+    const suffix = sheet.name.toLowerCase().replace(/[^a-z0-9]+/g, '_')
+    return [`${prefix}_${suffix}.csv`, strToU8(toCsv(sheet.rows))]
+  }))
+
+  downloadBlob(`${prefix}.zip`, new Blob([zipSync(files)], { type: 'application/zip' }))
+}
@@ -0,0 +1,43 @@
+import { CsvTable, readCsvFile, toCsvTable } from '@/lib/csvImport'
+
+// Browsers report CSV as text/csv, application/vnd.ms-excel or nothing at all, so go by extension
+export const IMPORT_FILE_ACCEPT = '.csv,.xlsx,.xls'
+
+export const isImportFile = (file: File): boolean => {
+  return /\.(csv|xlsx|xls)$/i.test(file.name)
+}
+
+export const isWorkbookFile = (file: File): boolean => {
+  return /\.(xlsx|xls)$/i.test(file.name)
+}
+
+// Only the sheet list is read, so picking a sheet stays fast for large workbooks
+export const readWorkbookSheetNames = async (file: File): Promise<string[]> => {
+  const XLSX = await import('xlsx')
+  const workbook = XLSX.read(await file.arrayBuffer(), { type: 'array', bookSheets: true })
+  return workbook.SheetNames
+}
+
+// Numbers are written without the cell's formatting (no thousand separators), dates as YYYY-MM-DD
+const toCellText = (value: unknown): string => {
+  if (value instanceof Date) {
+    // Excel dates have no time zone; the reader puts them at local midnight
+    const month = String(value.getMonth() + 1).padStart(2, '0')
+    const day = String(value.getDate()).padStart(2, '0')
+    return `${value.getFullYear()}-${month}-${day}`
+  }
+  return value === null || value === undefined ? '' : String(value)
+}
+
+// CSV files and workbook sheets come out as the same table, so every importer validates them alike
+export const readImportFile = async (file: File, sheetName?: string): Promise<CsvTable> => {
+  if (!isWorkbookFile(file)) return readCsvFile(file)
+
+  const XLSX = await import('xlsx')
+  const workbook = XLSX.read(await file.arrayBuffer(), { type: 'array', sheets: sheetName, cellDates: true })
+  const sheet = workbook.Sheets[sheetName || workbook.SheetNames[0]]
+  if (!sheet) return toCsvTable([])
+
+  const records = XLSX.utils.sheet_to_json<unknown[]>(sheet, { header: 1, raw: true, defval: '' })
+  return toCsvTable(records.map(record => record.map(toCellText)))
+}
@@ -0,0 +1,124 @@
+import { supabase } from '@/lib/supabase'
+import { KpiFilter, fetchKpis } from '@/lib/kpis'
+
+export type TargetDimension = 'total' | 'route' | 'brand' | 'store_category'
+
+export const TARGET_DIMENSIONS: { value: TargetDimension; label: string }[] = [
+  { value: 'total', label: 'Total' },
+  { value: 'route', label: 'Route' },
+  { value: 'brand', label: 'Brand' },
+  { value: 'store_category', label: 'Kategori Toko' }
+]
+
+export interface SalesTarget {
+  id: string
+  salesman_id: string
+  month: string
+  dimension: TargetDimension
+  dimension_value: string | null
+  sales_value: number | null
+  ec_count: number | null
+  msl_achievement: number | null
+}
+
+export const TARGET_COLUMNS = 'id, salesman_id, month, dimension, dimension_value, sales_value, ec_count, msl_achievement'
+
+export interface TargetActuals {
+  sales: number
+  ec: number
+  mslAchievement: number
+}
+
+export interface TargetProgress {
+  target: number
+  actual: number
+  achievement: number
+  gap: number
+  // Needed per remaining working day to close the gap; null when no working day is left
+  runRate: number | null
+}
+
+export const getTargetDimensionLabel = (dimension: TargetDimension) => {
+  return TARGET_DIMENSIONS.find(d => d.value === dimension)?.label || dimension
+}
+
+export const getMonthStart = (date: string) => `${date.slice(0, 7)}-01`
+
+export const getMonthEnd = (date: string) => {
+  const [year, month] = date.split('-').map(Number)
+  // Day 0 of the next month is the last day of this one
+  return new Date(Date.UTC(year, month, 0)).toISOString().split('T')[0]
+}
+
+// Working days from `from` to `to` inclusive, counting ISO weekdays 1..workingDaysPerWeek
+export const countWorkingDays = (from: string, to: string, workingDaysPerWeek: number): number => {
+  let count = 0
+  const current = new Date(`${from}T00:00:00Z`)
+  const last = new Date(`${to}T00:00:00Z`)
+  while (current <= last) {
+    const isoWeekday = current.getUTCDay() === 0 ? 7 : current.getUTCDay()
+    if (isoWeekday <= workingDaysPerWeek) count++
+    current.setUTCDate(current.getUTCDate() + 1)
+  }
+  return count
+}
+
+export const calculateProgress = (target: number, actual: number, remainingWorkingDays: number): TargetProgress => {
+  const gap = Math.max(target - actual, 0)
+  return {
+    target,
+    actual,
+    achievement: target > 0 ? (actual / target) * 100 : 0,
+    gap,
+    runRate: remainingWorkingDays > 0 ? gap / remainingWorkingDays : null
+  }
+}
+
+// Pass null as salesman to get every salesman's targets (admins only)
+export const fetchMonthTargets = async (salesmanId: string | null, month: string): Promise<SalesTarget[]> => {
+  let query = supabase
+    .from('sales_targets')
+    .select(TARGET_COLUMNS)
+    .eq('month', month)
+
+  if (salesmanId) {
+    query = query.eq('salesman_id', salesmanId)
+  }
+
+  const { data, error } = await query
+  if (error) throw error
+
+  return (data || []).map(target => ({
+    ...target,
+    sales_value: target.sales_value === null ? null : Number(target.sales_value),
+    msl_achievement: target.msl_achievement === null ? null : Number(target.msl_achievement)
+  }))
+}
+
+export const NO_ACTUALS: TargetActuals = { sales: 0, ec: 0, mslAchievement: 0 }
+
+// The `sales_kpis` filter that measures a target line
+export const getTargetKpiFilter = (dimension: TargetDimension, dimensionValue: string | null): KpiFilter => {
+  if (dimension === 'route') return { route: dimensionValue || '' }
+  if (dimension === 'store_category') return { storeCategory: dimensionValue || '' }
+  if (dimension === 'brand') return { brand: dimensionValue || '' }
+  return {}
+}
+
+// Actuals of one target line by salesman, with the same definitions as the dashboards;
+// pass null as salesman to get every salesman (admins only). Salesmen without visits are left out
+export const fetchTargetActuals = async (
+  salesmanId: string | null,
+  start: string,
+  end: string,
+  dimension: TargetDimension,
+  dimensionValue: string | null
+): Promise<Map<string, TargetActuals>> => {
+  const rows = await fetchKpis(start, end, salesmanId, 'salesman', getTargetKpiFilter(dimension, dimensionValue))
+
+  return new Map(rows.map(row => [row.salesman_id as string, {
+    sales: row.total_sales,
+    ec: row.effective_calls,
+    mslAchievement: row.msl_achievement
+  }]))
+}
@@ -0,0 +1,60 @@
+import { useState } from 'react'
+import { CsvTable } from '@/lib/csvImport'
+import { isImportFile, isWorkbookFile, readImportFile, readWorkbookSheetNames } from '@/lib/spreadsheetImport'
+
+export interface ImportFile {
+  file: File | null
+  // Sheets of an Excel file; empty for CSV
+  sheetNames: string[]
+  selectedSheet: string
+  setSelectedSheet: (sheet: string) => void
+  handleFileChange: (e: React.ChangeEvent<HTMLInputElement>) => Promise<void>
+  // The picked file (or sheet) as a table, or null when it has no data rows
+  readTable: () => Promise<CsvTable | null>
+}
+
+// File and sheet selection shared by the store, product, MSL and target importers
+export const useImportFile = (): ImportFile => {
+  const [file, setFile] = useState<File | null>(null)
+  const [sheetNames, setSheetNames] = useState<string[]>([])
+  const [selectedSheet, setSelectedSheet] = useState('')
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const selectedFile = e.target.files?.[0]
+    if (!selectedFile || !isImportFile(selectedFile)) {
+      alert('Please select a CSV or Excel file')
+      return
+    }
+
+    setFile(selectedFile)
+    setSheetNames([])
+    setSelectedSheet('')
+
+    if (isWorkbookFile(selectedFile)) {
+      try {
+        const names = await readWorkbookSheetNames(selectedFile)
+        setSheetNames(names)
+        setSelectedSheet(names[0] || '')
+      } catch (error) {
+        console.error('Error reading workbook:', error)
+        alert('Failed to read the Excel file. Make sure it is not password protected.')
+        setFile(null)
+      }
+    }
+  }
+
+  const readTable = async (): Promise<CsvTable | null> => {
+    if (!file) return null
+
+    const table = await readImportFile(file, selectedSheet || undefined)
+
+    if (table.rows.length === 0) {
+      alert('The file must have at least a header row and one data row')
+      return null
+    }
+
+    return table
+  }
+
+  return { file, sheetNames, selectedSheet, setSelectedSheet, handleFileChange, readTable }
+}
@@ -0,0 +1,197 @@
+import { supabase } from '@/lib/supabase'
+import { VISIT_QUEUE_STORE, idbGetAll, idbPut, idbDelete, idbCount } from '@/lib/offlineDb'
+
+// Dispatched on window whenever the number of queued visits may have changed
+export const VISIT_QUEUE_EVENT = 'visitQueueChanged'
+
+export interface QueuedStore {
+  id: string
+  store_name: string
+  store_code: string
+  category: string
+  address: string
+  route: string
+  latitude: number | null
+  longitude: number | null
+  created_by: string
+}
+
+export interface QueuedVisitRow {
+  id: string
+  salesman_id: string
+  store_id: string
+  visit_date: string
+  has_order: boolean
+  notes: string | null
+  check_in_at: string
+  check_in_lat: number | null
+  check_in_lng: number | null
+  check_in_accuracy: number | null
+  check_out_at: string
+  check_out_lat: number | null
+  check_out_lng: number | null
+  check_out_accuracy: number | null
+}
+
+export interface QueuedOrderRow {
+  id: string
+  visit_id: string
+  product_id: string
+  quantity: number
+  unit_price: number
+  discount_percentage: number
+}
+
+// One visit with everything it creates; all IDs are generated on the device so a retry never duplicates rows
+export interface QueuedVisit {
+  id: string
+  queued_at: string
+  attempts: number
+  last_error: string | null
+  new_store: QueuedStore | null
+  visit: QueuedVisitRow
+  orders: QueuedOrderRow[]
+}
+
+export type SubmitResult = 'synced' | 'queued'
+
+export const generateId = (): string => crypto.randomUUID()
+
+const notifyQueueChanged = () => {
+  window.dispatchEvent(new CustomEvent(VISIT_QUEUE_EVENT))
+}
+
+const getErrorMessage = (error: unknown): string => {
+  if (error instanceof Error) return error.message
+  if (error && typeof error === 'object' && 'message' in error) return String(error.message)
+  return String(error)
+}
+
+// Errors that mean "try again later" rather than "this record is invalid"
+export const isNetworkError = (error: unknown): boolean => {
+  if (typeof navigator !== 'undefined' && !navigator.onLine) return true
+  if (error instanceof TypeError) return true
+  return /failed to fetch|networkerror|network request failed|load failed/i.test(getErrorMessage(error))
+}
+
+export interface VisitFieldError {
+  field: string
+  message: string
+}
+
+// Validation failure reported by `submit_visit`; nothing was written
+export class VisitValidationError extends Error {
+  errors: VisitFieldError[]
+
+  constructor(errors: VisitFieldError[]) {
+    super(errors.map(e => e.message).join(', '))
+    this.name = 'VisitValidationError'
+    this.errors = errors
+  }
+}
+
+// Store, visit and order lines in one transaction; line totals are computed by the database
+const callSubmitVisit = async (record: QueuedVisit) => {
+  const { data, error } = await supabase.rpc('submit_visit', {
+    p_visit: record.visit,
+    p_store: record.new_store,
+    p_orders: record.orders
+  })
+
+  if (error) throw error
+  if (data.errors.length > 0) throw new VisitValidationError(data.errors)
+}
+
+const syncRecord = async (record: QueuedVisit, resolveConflicts = false) => {
+  try {
+    await callSubmitVisit(record)
+  } catch (error) {
+    const storeCodeTaken = error instanceof VisitValidationError &&
+      error.errors.some(e => e.field === 'store.store_code')
+
+    if (!resolveConflicts || !storeCodeTaken || !record.new_store) throw error
+
+    // Store code taken: the store was registered meanwhile (e.g. from another device), so visit that one
+    const { data: existing } = await supabase
+      .from('stores')
+      .select('id')
+      .eq('store_code', record.new_store.store_code)
+      .maybeSingle()
+
+    if (!existing) throw error
+
+    await callSubmitVisit({
+      ...record,
+      new_store: null,
+      visit: { ...record.visit, store_id: existing.id }
+    })
+  }
+}
+
+// Save a visit: straight to Supabase when possible, otherwise into the local queue
+export const submitVisit = async (record: QueuedVisit): Promise<SubmitResult> => {
+  // Persist first so nothing is lost if the request dies halfway
+  await idbPut(VISIT_QUEUE_STORE, record)
+
+  try {
+    await syncRecord(record)
+    await idbDelete(VISIT_QUEUE_STORE, record.id)
+    return 'synced'
+  } catch (error) {
+    if (isNetworkError(error)) {
+      notifyQueueChanged()
+      return 'queued'
+    }
+
+    // Invalid data is reported to the user right away instead of being queued
+    await idbDelete(VISIT_QUEUE_STORE, record.id)
+    throw error
+  }
+}
+
+export const getQueuedVisits = async (): Promise<QueuedVisit[]> => {
+  const records = await idbGetAll<QueuedVisit>(VISIT_QUEUE_STORE)
+  return records.sort((a, b) => a.queued_at.localeCompare(b.queued_at))
+}
+
+export const countQueuedVisits = (): Promise<number> => idbCount(VISIT_QUEUE_STORE)
+
+let syncInProgress: Promise<number> | null = null
+
+// Push every queued visit, oldest first. Returns the number of visits synced.
+export const syncQueuedVisits = (): Promise<number> => {
+  if (syncInProgress) return syncInProgress
+
+  syncInProgress = (async () => {
+    let synced = 0
+
+    try {
+      const records = await getQueuedVisits()
+
+      for (const record of records) {
+        try {
+          await syncRecord(record, true)
+          await idbDelete(VISIT_QUEUE_STORE, record.id)
+          synced++
+        } catch (error) {
+          // Still offline: stop and wait for the next attempt
+          if (isNetworkError(error)) break
+
+          console.error('Error syncing queued visit:', error)
+          await idbPut(VISIT_QUEUE_STORE, {
+            ...record,
+            attempts: record.attempts + 1,
+            last_error: getErrorMessage(error)
+          })
+        }
+      }
+    } finally {
+      syncInProgress = null
+      notifyQueueChanged()
+    }
+
+    return synced
+  })()
+
+  return syncInProgress
+}
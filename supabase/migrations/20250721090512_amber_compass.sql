@@ -0,0 +1,94 @@
+/*
+  # Visit Check-in / Check-out and App Settings
+
+  1. Visits
+    - `check_in_at` / `check_out_at` (timestamptz) recorded by the visit form
+    - `check_in_lat` / `check_in_lng` / `check_in_accuracy` from browser geolocation
+    - `check_out_lat` / `check_out_lng` / `check_out_accuracy` captured at check-out
+    - `duration_minutes` generated from check-in and check-out times
+
+  2. New Tables
+    - `app_settings`
+      - `key` (text, primary key)
+      - `value` (numeric, setting value)
+      - `description` (text)
+      - `updated_at` (timestamp)
+
+  3. Security
+    - Everyone can read settings, only admins can change them
+
+  4. Default Settings
+    - `min_visit_duration_minutes` = 10
+*/
+
+-- Add check-in / check-out columns to visits
+ALTER TABLE visits ADD COLUMN IF NOT EXISTS check_in_at timestamptz;
+ALTER TABLE visits ADD COLUMN IF NOT EXISTS check_in_lat numeric(9,6);
+ALTER TABLE visits ADD COLUMN IF NOT EXISTS check_in_lng numeric(9,6);
+ALTER TABLE visits ADD COLUMN IF NOT EXISTS check_in_accuracy numeric;
+ALTER TABLE visits ADD COLUMN IF NOT EXISTS check_out_at timestamptz;
+ALTER TABLE visits ADD COLUMN IF NOT EXISTS check_out_lat numeric(9,6);
+ALTER TABLE visits ADD COLUMN IF NOT EXISTS check_out_lng numeric(9,6);
+ALTER TABLE visits ADD COLUMN IF NOT EXISTS check_out_accuracy numeric;
+
+-- Duration is derived from the two timestamps so it can never disagree with them
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'visits' AND column_name = 'duration_minutes'
+  ) THEN
+    ALTER TABLE visits ADD COLUMN duration_minutes integer
+      GENERATED ALWAYS AS (
+        CASE
+          WHEN check_in_at IS NOT NULL AND check_out_at IS NOT NULL
+          THEN FLOOR(EXTRACT(EPOCH FROM (check_out_at - check_in_at)) / 60)::integer
+        END
+      ) STORED;
+  END IF;
+END $$;
+
+-- Check-out can never happen before check-in
+ALTER TABLE visits DROP CONSTRAINT IF EXISTS visits_check_out_after_check_in;
+ALTER TABLE visits ADD CONSTRAINT visits_check_out_after_check_in
+  CHECK (check_out_at IS NULL OR check_in_at IS NULL OR check_out_at >= check_in_at);
+
+-- Application settings (numeric key/value)
+CREATE TABLE IF NOT EXISTS app_settings (
+  key text PRIMARY KEY,
+  value numeric NOT NULL,
+  description text,
+  updated_at timestamptz DEFAULT now()
+);
+
+-- Enable RLS
+ALTER TABLE app_settings ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies
+DROP POLICY IF EXISTS "Users can read app settings" ON app_settings;
+DROP POLICY IF EXISTS "Admins can manage app settings" ON app_settings;
+
+CREATE POLICY "Users can read app settings"
+  ON app_settings
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Admins can manage app settings"
+  ON app_settings
+  FOR ALL
+  TO authenticated
+  USING (is_admin_from_users())
+  WITH CHECK (is_admin_from_users());
+
+-- Update trigger
+DROP TRIGGER IF EXISTS update_app_settings_updated_at ON app_settings;
+CREATE TRIGGER update_app_settings_updated_at
+  BEFORE UPDATE ON app_settings
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- Default settings
+INSERT INTO app_settings (key, value, description) VALUES
+('min_visit_duration_minutes', 10, 'Visits shorter than this are flagged in recaps and reports')
+ON CONFLICT (key) DO NOTHING;
@@ -0,0 +1,117 @@
+/*
+  # Store Coordinates and Visit Geofence
+
+  1. Stores
+    - `latitude` / `longitude` (numeric) for the store position
+    - Backfilled from existing `gmaps_link` values where the URL contains coordinates
+
+  2. Visits
+    - `distance_from_store_m` (numeric) distance between the check-in position and the store
+    - Filled by trigger whenever the check-in position is written
+
+  3. Functions
+    - `distance_meters` haversine distance between two points
+    - `set_visit_distance_from_store` trigger function
+
+  4. Security
+    - Admins can read all users again (via `is_admin_from_users`, no recursion)
+      so exception lists can show salesman names
+
+  5. Default Settings
+    - `geofence_radius_meters` = 200
+*/
+
+-- Add coordinate columns to stores
+ALTER TABLE stores ADD COLUMN IF NOT EXISTS latitude numeric(9,6);
+ALTER TABLE stores ADD COLUMN IF NOT EXISTS longitude numeric(9,6);
+
+ALTER TABLE stores DROP CONSTRAINT IF EXISTS stores_coordinates_check;
+ALTER TABLE stores ADD CONSTRAINT stores_coordinates_check CHECK (
+  (latitude IS NULL AND longitude IS NULL) OR
+  (latitude BETWEEN -90 AND 90 AND longitude BETWEEN -180 AND 180)
+);
+
+-- Backfill from Google Maps links, most precise pattern first
+-- Place pin: ...!3d-6.2088!4d106.8456
+UPDATE stores SET
+  latitude = (regexp_match(gmaps_link, '!3d(-?[0-9]+\.[0-9]+)!4d(-?[0-9]+\.[0-9]+)'))[1]::numeric,
+  longitude = (regexp_match(gmaps_link, '!3d(-?[0-9]+\.[0-9]+)!4d(-?[0-9]+\.[0-9]+)'))[2]::numeric
+WHERE latitude IS NULL
+  AND gmaps_link ~ '!3d(-?[0-9]+\.[0-9]+)!4d(-?[0-9]+\.[0-9]+)';
+
+-- Query parameter: ...?q=-6.2088,106.8456 (also ll= and query=)
+UPDATE stores SET
+  latitude = (regexp_match(gmaps_link, '[?&](?:q|ll|query)=(-?[0-9]+\.[0-9]+),\s*(-?[0-9]+\.[0-9]+)'))[1]::numeric,
+  longitude = (regexp_match(gmaps_link, '[?&](?:q|ll|query)=(-?[0-9]+\.[0-9]+),\s*(-?[0-9]+\.[0-9]+)'))[2]::numeric
+WHERE latitude IS NULL
+  AND gmaps_link ~ '[?&](?:q|ll|query)=(-?[0-9]+\.[0-9]+),\s*(-?[0-9]+\.[0-9]+)';
+
+-- Map viewport: .../@-6.2088,106.8456,17z
+UPDATE stores SET
+  latitude = (regexp_match(gmaps_link, '@(-?[0-9]+\.[0-9]+),(-?[0-9]+\.[0-9]+)'))[1]::numeric,
+  longitude = (regexp_match(gmaps_link, '@(-?[0-9]+\.[0-9]+),(-?[0-9]+\.[0-9]+)'))[2]::numeric
+WHERE latitude IS NULL
+  AND gmaps_link ~ '@(-?[0-9]+\.[0-9]+),(-?[0-9]+\.[0-9]+)';
+
+-- Haversine distance in meters
+CREATE OR REPLACE FUNCTION distance_meters(lat1 numeric, lng1 numeric, lat2 numeric, lng2 numeric)
+RETURNS numeric
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE
+    WHEN lat1 IS NULL OR lng1 IS NULL OR lat2 IS NULL OR lng2 IS NULL THEN NULL
+    ELSE ROUND((
+      2 * 6371000 * asin(sqrt(
+        power(sin(radians(lat2 - lat1) / 2), 2) +
+        cos(radians(lat1)) * cos(radians(lat2)) * power(sin(radians(lng2 - lng1) / 2), 2)
+      ))
+    )::numeric, 1)
+  END;
+$$;
+
+-- Distance between check-in and store position
+ALTER TABLE visits ADD COLUMN IF NOT EXISTS distance_from_store_m numeric;
+
+CREATE OR REPLACE FUNCTION set_visit_distance_from_store()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  SELECT distance_meters(NEW.check_in_lat, NEW.check_in_lng, s.latitude, s.longitude)
+  INTO NEW.distance_from_store_m
+  FROM stores s
+  WHERE s.id = NEW.store_id;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS set_visit_distance_from_store ON visits;
+CREATE TRIGGER set_visit_distance_from_store
+  BEFORE INSERT OR UPDATE OF store_id, check_in_lat, check_in_lng ON visits
+  FOR EACH ROW
+  EXECUTE FUNCTION set_visit_distance_from_store();
+
+-- Backfill existing visits that already have a check-in position
+UPDATE visits v SET
+  distance_from_store_m = distance_meters(v.check_in_lat, v.check_in_lng, s.latitude, s.longitude)
+FROM stores s
+WHERE s.id = v.store_id
+  AND v.check_in_lat IS NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_visits_distance_from_store ON visits(distance_from_store_m)
+  WHERE distance_from_store_m IS NOT NULL;
+
+-- Admin read access to users for salesman names
+DROP POLICY IF EXISTS "Admins can read all users" ON users;
+CREATE POLICY "Admins can read all users"
+  ON users
+  FOR SELECT
+  TO authenticated
+  USING (is_admin_from_users());
+
+-- Default settings
+INSERT INTO app_settings (key, value, description) VALUES
+('geofence_radius_meters', 200, 'Visits checked in further than this from the store are flagged')
+ON CONFLICT (key) DO NOTHING;
@@ -0,0 +1,134 @@
+/*
+  # Journey Plan (Weekly Route Schedule)
+
+  1. New Tables
+    - `journey_plans`
+      - `id` (uuid, primary key)
+      - `salesman_id` (uuid, the salesman running the plan)
+      - `weekday` (smallint, ISO weekday 1 = Monday ... 7 = Sunday)
+      - `route` (text, every store of the salesman on this route) or
+      - `store_id` (uuid, a single store) - exactly one of the two is set
+      - `frequency` (text, weekly / biweekly / monthly)
+      - `start_date` (date, anchor for biweekly parity and the monthly week-of-month)
+      - `is_active` (boolean)
+      - `created_by`, `created_at`, `updated_at`
+
+  2. Functions
+    - `journey_plan_matches` whether a plan line applies on a date
+    - `get_planned_stores` stores planned for a salesman (or everyone) on a date
+    - `journey_plan_compliance` planned vs visited stores per day and salesman
+
+  3. Security
+    - Admins manage all plans, salesmen read their own
+*/
+
+CREATE TABLE IF NOT EXISTS journey_plans (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  salesman_id uuid NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  weekday smallint NOT NULL CHECK (weekday BETWEEN 1 AND 7),
+  route text,
+  store_id uuid REFERENCES stores(id) ON DELETE CASCADE,
+  frequency text NOT NULL DEFAULT 'weekly' CHECK (frequency IN ('weekly', 'biweekly', 'monthly')),
+  start_date date NOT NULL DEFAULT CURRENT_DATE,
+  is_active boolean NOT NULL DEFAULT true,
+  created_by uuid REFERENCES users(id),
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  CHECK ((route IS NULL) <> (store_id IS NULL))
+);
+
+-- Enable RLS
+ALTER TABLE journey_plans ENABLE ROW LEVEL SECURITY;
+
+-- Create indexes
+CREATE INDEX IF NOT EXISTS idx_journey_plans_salesman ON journey_plans(salesman_id, weekday) WHERE is_active;
+CREATE INDEX IF NOT EXISTS idx_journey_plans_store ON journey_plans(store_id);
+
+-- RLS Policies
+CREATE POLICY "Admins can manage journey plans"
+  ON journey_plans
+  FOR ALL
+  TO authenticated
+  USING (is_admin_from_users())
+  WITH CHECK (is_admin_from_users());
+
+CREATE POLICY "Users can read own journey plans"
+  ON journey_plans
+  FOR SELECT
+  TO authenticated
+  USING (salesman_id = auth.uid());
+
+-- Update trigger
+CREATE TRIGGER update_journey_plans_updated_at
+  BEFORE UPDATE ON journey_plans
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- Whether a plan line applies on a given date
+--   weekly:   every matching weekday from start_date
+--   biweekly: every other matching weekday, counting weeks from start_date
+--   monthly:  the matching weekday in the same week-of-month as start_date (1st, 2nd, ...)
+CREATE OR REPLACE FUNCTION journey_plan_matches(p_frequency text, p_start_date date, p_weekday smallint, p_date date)
+RETURNS boolean
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT EXTRACT(ISODOW FROM p_date)::smallint = p_weekday
+    AND p_date >= p_start_date
+    AND CASE p_frequency
+      WHEN 'weekly' THEN true
+      WHEN 'biweekly' THEN ((p_date - p_start_date) / 7) % 2 = 0
+      WHEN 'monthly' THEN CEIL(EXTRACT(DAY FROM p_date) / 7) = CEIL(EXTRACT(DAY FROM p_start_date) / 7)
+      ELSE false
+    END;
+$$;
+
+-- Stores planned on a date; pass NULL as salesman to get every salesman's plan (admins)
+-- Route lines expand to the salesman's own stores on that route
+CREATE OR REPLACE FUNCTION get_planned_stores(p_salesman_id uuid, p_date date)
+RETURNS TABLE (store_id uuid, salesman_id uuid, plan_id uuid)
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT DISTINCT ON (s.id, jp.salesman_id)
+    s.id,
+    jp.salesman_id,
+    jp.id
+  FROM journey_plans jp
+  JOIN stores s ON s.id = jp.store_id
+    OR (jp.store_id IS NULL AND s.route = jp.route AND s.created_by = jp.salesman_id)
+  WHERE jp.is_active
+    AND (p_salesman_id IS NULL OR jp.salesman_id = p_salesman_id)
+    AND journey_plan_matches(jp.frequency, jp.start_date, jp.weekday, p_date)
+  ORDER BY s.id, jp.salesman_id, jp.store_id NULLS LAST;
+$$;
+
+-- Planned vs visited stores per day and salesman
+CREATE OR REPLACE FUNCTION journey_plan_compliance(p_salesman_id uuid, p_start date, p_end date)
+RETURNS TABLE (plan_date date, salesman_id uuid, planned_count integer, visited_count integer)
+LANGUAGE sql
+STABLE
+AS $$
+  WITH days AS (
+    SELECT d::date AS plan_date
+    FROM generate_series(p_start, p_end, interval '1 day') d
+  ),
+  planned AS (
+    SELECT days.plan_date, ps.salesman_id, ps.store_id
+    FROM days
+    CROSS JOIN LATERAL get_planned_stores(p_salesman_id, days.plan_date) ps
+  )
+  SELECT
+    p.plan_date,
+    p.salesman_id,
+    COUNT(*)::integer AS planned_count,
+    COUNT(*) FILTER (WHERE EXISTS (
+      SELECT 1 FROM visits v
+      WHERE v.store_id = p.store_id
+        AND v.salesman_id = p.salesman_id
+        AND v.visit_date = p.plan_date
+    ))::integer AS visited_count
+  FROM planned p
+  GROUP BY p.plan_date, p.salesman_id
+  ORDER BY p.plan_date, p.salesman_id;
+$$;
@@ -0,0 +1,208 @@
+/*
+  # Visit Editing, Voiding and Audit Log
+
+  1. Visits
+    - `created_at` (timestamptz) if missing, anchor of the editing window. Existing visits get
+      their check-out, check-in or visit date, so the window does not reopen for past visits
+    - `voided_at`, `voided_by`, `void_reason` for visits cancelled after submission
+      (voided visits are kept for the audit trail but excluded from all KPIs)
+
+  2. New Tables
+    - `visit_audit_log`
+      - `id` (uuid, primary key)
+      - `visit_id` (uuid, the visit the change belongs to)
+      - `table_name` (text, `visits` or `visit_orders`)
+      - `record_id` (uuid, the changed row)
+      - `action` (text, INSERT / UPDATE / DELETE)
+      - `old_data` / `new_data` (jsonb row images)
+      - `changed_by` (uuid, auth.uid() of the author)
+      - `changed_at` (timestamptz)
+
+  3. Functions
+    - `can_edit_visit` admins always, owners within `visit_edit_window_hours` of creation
+    - `log_visit_change` trigger writing the audit log
+    - `journey_plan_compliance` no longer counts voided visits
+
+  4. Security
+    - Owner updates of visits and visit_orders are limited to the editing window
+    - Owners may add and delete order lines within the window
+    - Audit log readable by admins and the visit owner, written only by trigger
+
+  5. Default Settings
+    - `visit_edit_window_hours` = 24
+*/
+
+-- Visit columns
+-- Without a default, so existing visits are not stamped with now() and left editable
+ALTER TABLE visits ADD COLUMN IF NOT EXISTS created_at timestamptz;
+UPDATE visits
+SET created_at = COALESCE(check_out_at, check_in_at, visit_date::timestamptz)
+WHERE created_at IS NULL;
+ALTER TABLE visits ALTER COLUMN created_at SET DEFAULT now();
+ALTER TABLE visits ADD COLUMN IF NOT EXISTS voided_at timestamptz;
+ALTER TABLE visits ADD COLUMN IF NOT EXISTS voided_by uuid REFERENCES users(id);
+ALTER TABLE visits ADD COLUMN IF NOT EXISTS void_reason text;
+
+CREATE INDEX IF NOT EXISTS idx_visits_not_voided ON visits(visit_date) WHERE voided_at IS NULL;
+
+-- Default settings
+INSERT INTO app_settings (key, value, description) VALUES
+('visit_edit_window_hours', 24, 'Salesmen can edit or void their own visits for this many hours after submitting')
+ON CONFLICT (key) DO NOTHING;
+
+-- Whether the current user may change a visit and its order lines
+CREATE OR REPLACE FUNCTION can_edit_visit(p_visit_id uuid)
+RETURNS boolean
+LANGUAGE sql
+SECURITY DEFINER
+STABLE
+AS $$
+  SELECT is_admin_from_users() OR EXISTS (
+    SELECT 1 FROM visits v
+    WHERE v.id = p_visit_id
+      AND v.salesman_id = auth.uid()
+      AND v.voided_at IS NULL
+      AND v.created_at > now() - make_interval(hours => COALESCE(
+        (SELECT value FROM app_settings WHERE key = 'visit_edit_window_hours'),
+        24
+      )::integer)
+  );
+$$;
+
+-- Editing window policies
+DROP POLICY IF EXISTS "Users can update own visits" ON visits;
+CREATE POLICY "Users can update own visits"
+  ON visits
+  FOR UPDATE
+  TO authenticated
+  USING (salesman_id = auth.uid() AND can_edit_visit(id))
+  WITH CHECK (salesman_id = auth.uid());
+
+DROP POLICY IF EXISTS "Users can create visit orders" ON visit_orders;
+CREATE POLICY "Users can create visit orders"
+  ON visit_orders
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (can_edit_visit(visit_id));
+
+DROP POLICY IF EXISTS "Users can update own visit orders" ON visit_orders;
+CREATE POLICY "Users can update own visit orders"
+  ON visit_orders
+  FOR UPDATE
+  TO authenticated
+  USING (can_edit_visit(visit_id))
+  WITH CHECK (can_edit_visit(visit_id));
+
+DROP POLICY IF EXISTS "Users can delete own visit orders" ON visit_orders;
+CREATE POLICY "Users can delete own visit orders"
+  ON visit_orders
+  FOR DELETE
+  TO authenticated
+  USING (can_edit_visit(visit_id));
+
+-- Audit log
+CREATE TABLE IF NOT EXISTS visit_audit_log (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  visit_id uuid NOT NULL,
+  table_name text NOT NULL,
+  record_id uuid NOT NULL,
+  action text NOT NULL CHECK (action IN ('INSERT', 'UPDATE', 'DELETE')),
+  old_data jsonb,
+  new_data jsonb,
+  changed_by uuid REFERENCES users(id),
+  changed_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE visit_audit_log ENABLE ROW LEVEL SECURITY;
+
+CREATE INDEX IF NOT EXISTS idx_visit_audit_log_visit ON visit_audit_log(visit_id, changed_at);
+
+CREATE POLICY "Admins can read visit audit log"
+  ON visit_audit_log
+  FOR SELECT
+  TO authenticated
+  USING (is_admin_from_users());
+
+CREATE POLICY "Users can read own visit audit log"
+  ON visit_audit_log
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM visits
+      WHERE visits.id = visit_audit_log.visit_id
+      AND visits.salesman_id = auth.uid()
+    )
+  );
+
+CREATE OR REPLACE FUNCTION log_visit_change()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_row jsonb := to_jsonb(COALESCE(NEW, OLD));
+BEGIN
+  -- Skip updates that only touch derived columns
+  IF TG_OP = 'UPDATE' AND
+    (to_jsonb(NEW) - 'distance_from_store_m' - 'updated_at') = (to_jsonb(OLD) - 'distance_from_store_m' - 'updated_at') THEN
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO visit_audit_log (visit_id, table_name, record_id, action, old_data, new_data, changed_by)
+  VALUES (
+    CASE WHEN TG_TABLE_NAME = 'visits' THEN (v_row->>'id')::uuid ELSE (v_row->>'visit_id')::uuid END,
+    TG_TABLE_NAME,
+    (v_row->>'id')::uuid,
+    TG_OP,
+    CASE WHEN TG_OP = 'INSERT' THEN NULL ELSE to_jsonb(OLD) END,
+    CASE WHEN TG_OP = 'DELETE' THEN NULL ELSE to_jsonb(NEW) END,
+    auth.uid()
+  );
+
+  RETURN COALESCE(NEW, OLD);
+END;
+$$;
+
+DROP TRIGGER IF EXISTS log_visit_change ON visits;
+CREATE TRIGGER log_visit_change
+  AFTER INSERT OR UPDATE OR DELETE ON visits
+  FOR EACH ROW
+  EXECUTE FUNCTION log_visit_change();
+
+DROP TRIGGER IF EXISTS log_visit_order_change ON visit_orders;
+CREATE TRIGGER log_visit_order_change
+  AFTER INSERT OR UPDATE OR DELETE ON visit_orders
+  FOR EACH ROW
+  EXECUTE FUNCTION log_visit_change();
+
+-- Voided visits no longer count as visited
+CREATE OR REPLACE FUNCTION journey_plan_compliance(p_salesman_id uuid, p_start date, p_end date)
+RETURNS TABLE (plan_date date, salesman_id uuid, planned_count integer, visited_count integer)
+LANGUAGE sql
+STABLE
+AS $$
+  WITH days AS (
+    SELECT d::date AS plan_date
+    FROM generate_series(p_start, p_end, interval '1 day') d
+  ),
+  planned AS (
+    SELECT days.plan_date, ps.salesman_id, ps.store_id
+    FROM days
+    CROSS JOIN LATERAL get_planned_stores(p_salesman_id, days.plan_date) ps
+  )
+  SELECT
+    p.plan_date,
+    p.salesman_id,
+    COUNT(*)::integer AS planned_count,
+    COUNT(*) FILTER (WHERE EXISTS (
+      SELECT 1 FROM visits v
+      WHERE v.store_id = p.store_id
+        AND v.salesman_id = p.salesman_id
+        AND v.visit_date = p.plan_date
+        AND v.voided_at IS NULL
+    ))::integer AS visited_count
+  FROM planned p
+  GROUP BY p.plan_date, p.salesman_id
+  ORDER BY p.plan_date, p.salesman_id;
+$$;
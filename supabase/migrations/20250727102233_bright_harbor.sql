@@ -0,0 +1,130 @@
+/*
+  # Order Status Lifecycle
+
+  1. Visits (the order header)
+    - `order_status` (text) draft / submitted / approved / partially_delivered / delivered / invoiced / cancelled,
+      NULL for visits without an order
+    - `order_status_updated_at` (timestamptz) when the current status was entered, used for the SLA
+
+  2. Visit Orders
+    - `delivered_quantity` (numeric) quantity actually delivered for the line
+    - `delivered_line_total` (numeric, generated) delivered value after discount
+
+  3. Functions
+    - `manage_order_status` trigger: defaults new orders to `submitted`, validates transitions
+      and stamps `order_status_updated_at`
+      - draft -> submitted / cancelled
+      - submitted -> approved / cancelled
+      - approved -> partially_delivered / delivered / cancelled
+      - partially_delivered -> delivered / invoiced
+      - delivered -> invoiced
+      Salesmen may only submit drafts and cancel their drafts or submitted orders
+    - `can_edit_visit` owners can no longer edit once the order is approved
+
+  4. Default Settings
+    - `order_status_sla_hours` = 48
+*/
+
+ALTER TABLE visits ADD COLUMN IF NOT EXISTS order_status text;
+ALTER TABLE visits ADD COLUMN IF NOT EXISTS order_status_updated_at timestamptz;
+
+ALTER TABLE visits DROP CONSTRAINT IF EXISTS visits_order_status_check;
+ALTER TABLE visits ADD CONSTRAINT visits_order_status_check CHECK (
+  order_status IN ('draft', 'submitted', 'approved', 'partially_delivered', 'delivered', 'invoiced', 'cancelled')
+);
+
+ALTER TABLE visit_orders ADD COLUMN IF NOT EXISTS delivered_quantity numeric NOT NULL DEFAULT 0;
+ALTER TABLE visit_orders ADD COLUMN IF NOT EXISTS delivered_line_total numeric
+  GENERATED ALWAYS AS (
+    ROUND(delivered_quantity * unit_price * (1 - COALESCE(discount_percentage, 0) / 100), 2)
+  ) STORED;
+
+ALTER TABLE visit_orders DROP CONSTRAINT IF EXISTS visit_orders_delivered_quantity_check;
+ALTER TABLE visit_orders ADD CONSTRAINT visit_orders_delivered_quantity_check CHECK (
+  delivered_quantity >= 0 AND delivered_quantity <= quantity
+);
+
+-- Existing orders start as submitted
+UPDATE visits SET
+  order_status = 'submitted',
+  order_status_updated_at = COALESCE(created_at, now())
+WHERE has_order AND order_status IS NULL;
+
+CREATE INDEX IF NOT EXISTS idx_visits_order_status ON visits(order_status, order_status_updated_at)
+  WHERE order_status IS NOT NULL;
+
+CREATE OR REPLACE FUNCTION manage_order_status()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_old_status text := CASE WHEN TG_OP = 'UPDATE' THEN OLD.order_status END;
+  v_allowed text[];
+BEGIN
+  IF NOT NEW.has_order THEN
+    NEW.order_status := NULL;
+  ELSIF NEW.order_status IS NULL THEN
+    NEW.order_status := 'submitted';
+  END IF;
+
+  IF NEW.order_status IS NOT DISTINCT FROM v_old_status THEN
+    RETURN NEW;
+  END IF;
+
+  IF v_old_status IS NOT NULL AND NEW.order_status IS NOT NULL THEN
+    v_allowed := CASE v_old_status
+      WHEN 'draft' THEN ARRAY['submitted', 'cancelled']
+      WHEN 'submitted' THEN ARRAY['approved', 'cancelled']
+      WHEN 'approved' THEN ARRAY['partially_delivered', 'delivered', 'cancelled']
+      WHEN 'partially_delivered' THEN ARRAY['delivered', 'invoiced']
+      WHEN 'delivered' THEN ARRAY['invoiced']
+      ELSE ARRAY[]::text[]
+    END;
+
+    IF NOT NEW.order_status = ANY(v_allowed) THEN
+      RAISE EXCEPTION 'Status order tidak dapat diubah dari % ke %', v_old_status, NEW.order_status;
+    END IF;
+
+    IF NOT is_admin_from_users() AND NOT (
+      (v_old_status = 'draft' AND NEW.order_status IN ('submitted', 'cancelled')) OR
+      (v_old_status = 'submitted' AND NEW.order_status = 'cancelled')
+    ) THEN
+      RAISE EXCEPTION 'Hanya admin yang dapat mengubah status order ke %', NEW.order_status;
+    END IF;
+  END IF;
+
+  NEW.order_status_updated_at := now();
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS manage_order_status ON visits;
+CREATE TRIGGER manage_order_status
+  BEFORE INSERT OR UPDATE OF has_order, order_status ON visits
+  FOR EACH ROW
+  EXECUTE FUNCTION manage_order_status();
+
+-- Approved orders are locked for their salesman
+CREATE OR REPLACE FUNCTION can_edit_visit(p_visit_id uuid)
+RETURNS boolean
+LANGUAGE sql
+SECURITY DEFINER
+STABLE
+AS $$
+  SELECT is_admin_from_users() OR EXISTS (
+    SELECT 1 FROM visits v
+    WHERE v.id = p_visit_id
+      AND v.salesman_id = auth.uid()
+      AND v.voided_at IS NULL
+      AND COALESCE(v.order_status, 'draft') IN ('draft', 'submitted')
+      AND v.created_at > now() - make_interval(hours => COALESCE(
+        (SELECT value FROM app_settings WHERE key = 'visit_edit_window_hours'),
+        24
+      )::integer)
+  );
+$$;
+
+-- Default settings
+INSERT INTO app_settings (key, value, description) VALUES
+('order_status_sla_hours', 48, 'Orders waiting longer than this in submitted, approved or partially delivered are flagged')
+ON CONFLICT (key) DO NOTHING;
@@ -0,0 +1,318 @@
+/*
+  # Promotions Management
+
+  1. Products
+    - `brand` (text), already present in the product CSV and now stored
+
+  2. Promotions
+    - `scope` (text) product / brand / category: what the promotion applies to
+    - `product_id` is only required for product promotions
+    - `brand`, `category` target of brand and category promotions
+    - `store_category` (text) limits the promotion to stores of one category, NULL for all stores
+    - `created_by`, `created_at`, `updated_at`
+
+  3. Functions
+    - `promotion_covers_product(promotion, product)` whether a promotion targets a product
+    - `promotion_conflicts(...)` active promotions overlapping in dates and store category
+      that target at least one of the same SKUs
+    - `check_promotion_conflict` trigger rejects an active promotion with conflicts
+    - `active_promotion(p_product_id, p_date, p_store_category)` resolves all scopes;
+      `apply_visit_order_promotion` and `submit_visit` pass the store category of the visit
+
+  4. Security
+    - Admins keep managing promotions through the existing policy
+*/
+
+ALTER TABLE products ADD COLUMN IF NOT EXISTS brand text;
+
+ALTER TABLE promotions ALTER COLUMN product_id DROP NOT NULL;
+ALTER TABLE promotions ADD COLUMN IF NOT EXISTS scope text NOT NULL DEFAULT 'product';
+ALTER TABLE promotions ADD COLUMN IF NOT EXISTS brand text;
+ALTER TABLE promotions ADD COLUMN IF NOT EXISTS category text;
+ALTER TABLE promotions ADD COLUMN IF NOT EXISTS store_category text;
+ALTER TABLE promotions ADD COLUMN IF NOT EXISTS created_by uuid REFERENCES users(id);
+ALTER TABLE promotions ADD COLUMN IF NOT EXISTS created_at timestamptz DEFAULT now();
+ALTER TABLE promotions ADD COLUMN IF NOT EXISTS updated_at timestamptz DEFAULT now();
+
+ALTER TABLE promotions DROP CONSTRAINT IF EXISTS promotions_scope_check;
+ALTER TABLE promotions ADD CONSTRAINT promotions_scope_check CHECK (
+  (scope = 'product' AND product_id IS NOT NULL) OR
+  (scope = 'brand' AND brand IS NOT NULL) OR
+  (scope = 'category' AND category IS NOT NULL)
+);
+
+ALTER TABLE promotions DROP CONSTRAINT IF EXISTS promotions_dates_check;
+ALTER TABLE promotions ADD CONSTRAINT promotions_dates_check CHECK (end_date >= start_date);
+
+ALTER TABLE promotions DROP CONSTRAINT IF EXISTS promotions_discount_check;
+ALTER TABLE promotions ADD CONSTRAINT promotions_discount_check CHECK (
+  discount_percentage BETWEEN 0 AND 100
+);
+
+CREATE INDEX IF NOT EXISTS idx_promotions_dates ON promotions(start_date, end_date) WHERE is_active;
+
+DROP TRIGGER IF EXISTS update_promotions_updated_at ON promotions;
+CREATE TRIGGER update_promotions_updated_at
+  BEFORE UPDATE ON promotions
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+CREATE OR REPLACE FUNCTION promotion_covers_product(p_promotion promotions, p_product products)
+RETURNS boolean
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE p_promotion.scope
+    WHEN 'product' THEN p_promotion.product_id = p_product.id
+    WHEN 'brand' THEN p_promotion.brand = p_product.brand
+    WHEN 'category' THEN p_promotion.category = p_product.category
+    ELSE false
+  END;
+$$;
+
+-- Other active promotions that would apply to the same SKU, store and day
+CREATE OR REPLACE FUNCTION promotion_conflicts(p_promotion promotions)
+RETURNS TABLE (
+  promotion_id uuid,
+  promo_name text,
+  sku_code text,
+  start_date date,
+  end_date date
+)
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT other.id, other.promo_name, pr.sku_code, other.start_date, other.end_date
+  FROM promotions other
+  JOIN products pr ON promotion_covers_product(other, pr) AND promotion_covers_product(p_promotion, pr)
+  WHERE other.id IS DISTINCT FROM p_promotion.id
+    AND other.is_active
+    AND other.start_date <= p_promotion.end_date
+    AND other.end_date >= p_promotion.start_date
+    AND (
+      other.store_category IS NULL OR
+      p_promotion.store_category IS NULL OR
+      other.store_category = p_promotion.store_category
+    )
+  ORDER BY other.start_date, pr.sku_code;
+$$;
+
+CREATE OR REPLACE FUNCTION check_promotion_conflict()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_conflict record;
+BEGIN
+  IF NOT NEW.is_active THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT * INTO v_conflict FROM promotion_conflicts(NEW) LIMIT 1;
+  IF FOUND THEN
+    RAISE EXCEPTION 'Promo bentrok dengan "%" untuk SKU % (% s/d %)',
+      v_conflict.promo_name, v_conflict.sku_code, v_conflict.start_date, v_conflict.end_date;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS check_promotion_conflict ON promotions;
+CREATE TRIGGER check_promotion_conflict
+  BEFORE INSERT OR UPDATE ON promotions
+  FOR EACH ROW
+  EXECUTE FUNCTION check_promotion_conflict();
+
+-- Now depends on the store category as well
+DROP FUNCTION IF EXISTS active_promotion(uuid, date);
+
+CREATE OR REPLACE FUNCTION active_promotion(p_product_id uuid, p_date date, p_store_category text DEFAULT NULL)
+RETURNS SETOF promotions
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT p.*
+  FROM promotions p
+  JOIN products pr ON pr.id = p_product_id AND promotion_covers_product(p, pr)
+  WHERE p.is_active
+    AND p_date BETWEEN p.start_date AND p.end_date
+    AND (p.store_category IS NULL OR p.store_category = p_store_category)
+  ORDER BY p.discount_percentage DESC
+  LIMIT 1;
+$$;
+
+CREATE OR REPLACE FUNCTION apply_visit_order_promotion()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_promotion promotions%ROWTYPE;
+BEGIN
+  SELECT p.* INTO v_promotion
+  FROM visits v
+  JOIN stores s ON s.id = v.store_id
+  CROSS JOIN LATERAL active_promotion(NEW.product_id, v.visit_date, s.category) p
+  WHERE v.id = NEW.visit_id;
+
+  NEW.promotion_id := v_promotion.id;
+
+  -- Only a changed discount is checked, so older lines can still be edited
+  IF (TG_OP = 'INSERT' OR NEW.discount_percentage IS DISTINCT FROM OLD.discount_percentage OR NEW.product_id IS DISTINCT FROM OLD.product_id)
+    AND COALESCE(NEW.discount_percentage, 0) > COALESCE(v_promotion.discount_percentage, 0)
+    AND NOT is_admin_from_users() THEN
+    RAISE EXCEPTION '%', format('Diskon maksimal %s%% sesuai promo', COALESCE(v_promotion.discount_percentage, 0));
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION submit_visit(
+  p_visit jsonb,
+  p_store jsonb DEFAULT NULL,
+  p_orders jsonb DEFAULT '[]'::jsonb
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_visit_id uuid := COALESCE((p_visit->>'id')::uuid, gen_random_uuid());
+  v_store_id uuid := (p_visit->>'store_id')::uuid;
+  v_has_order boolean := COALESCE((p_visit->>'has_order')::boolean, false);
+  v_orders jsonb := CASE WHEN v_has_order THEN COALESCE(p_orders, '[]'::jsonb) ELSE '[]'::jsonb END;
+  v_errors jsonb := '[]'::jsonb;
+  v_order jsonb;
+  v_index integer := 0;
+  v_max_discount numeric;
+  v_store_category text;
+BEGIN
+  -- Already submitted: a retry from the offline queue
+  SELECT store_id INTO v_store_id FROM visits WHERE id = v_visit_id;
+  IF FOUND THEN
+    RETURN jsonb_build_object('visit_id', v_visit_id, 'store_id', v_store_id, 'errors', v_errors);
+  END IF;
+  v_store_id := (p_visit->>'store_id')::uuid;
+
+  -- Store
+  IF p_store IS NOT NULL THEN
+    IF COALESCE(trim(p_store->>'store_name'), '') = '' THEN
+      v_errors := v_errors || jsonb_build_object('field', 'store.store_name', 'message', 'Nama toko wajib diisi');
+    END IF;
+    IF COALESCE(trim(p_store->>'store_code'), '') = '' THEN
+      v_errors := v_errors || jsonb_build_object('field', 'store.store_code', 'message', 'Kode toko wajib diisi');
+    END IF;
+    IF COALESCE(trim(p_store->>'category'), '') = '' THEN
+      v_errors := v_errors || jsonb_build_object('field', 'store.category', 'message', 'Kategori toko wajib diisi');
+    END IF;
+  ELSIF v_store_id IS NULL THEN
+    v_errors := v_errors || jsonb_build_object('field', 'store_id', 'message', 'Pilih toko yang dikunjungi');
+  END IF;
+
+  -- Visit
+  IF p_visit->>'visit_date' IS NULL THEN
+    v_errors := v_errors || jsonb_build_object('field', 'visit_date', 'message', 'Tanggal kunjungan wajib diisi');
+  END IF;
+  IF NOT v_has_order AND COALESCE(trim(p_visit->>'notes'), '') = '' THEN
+    v_errors := v_errors || jsonb_build_object('field', 'notes', 'message', 'Pilih alasan tidak order');
+  END IF;
+  IF v_has_order AND jsonb_array_length(v_orders) = 0 THEN
+    v_errors := v_errors || jsonb_build_object('field', 'orders', 'message', 'Tambahkan minimal satu produk');
+  END IF;
+
+  -- Order lines
+  v_store_category := COALESCE(p_store->>'category', (SELECT category FROM stores WHERE id = v_store_id));
+
+  FOR v_order IN SELECT * FROM jsonb_array_elements(v_orders) LOOP
+    IF NOT EXISTS (
+      SELECT 1 FROM products
+      WHERE id = (v_order->>'product_id')::uuid
+        AND is_active
+    ) THEN
+      v_errors := v_errors || jsonb_build_object('field', format('orders.%s.product_id', v_index), 'message', 'Produk tidak ditemukan atau tidak aktif');
+    END IF;
+    IF COALESCE((v_order->>'quantity')::numeric, 0) <= 0 THEN
+      v_errors := v_errors || jsonb_build_object('field', format('orders.%s.quantity', v_index), 'message', 'Jumlah harus lebih dari 0');
+    END IF;
+    IF COALESCE((v_order->>'unit_price')::numeric, 0) <= 0 THEN
+      v_errors := v_errors || jsonb_build_object('field', format('orders.%s.unit_price', v_index), 'message', 'Harga harus lebih dari 0');
+    END IF;
+    IF COALESCE((v_order->>'discount_percentage')::numeric, 0) NOT BETWEEN 0 AND 100 THEN
+      v_errors := v_errors || jsonb_build_object('field', format('orders.%s.discount_percentage', v_index), 'message', 'Diskon harus antara 0 dan 100%');
+    END IF;
+    v_max_discount := COALESCE((
+      SELECT discount_percentage
+      FROM active_promotion((v_order->>'product_id')::uuid, (p_visit->>'visit_date')::date, v_store_category)
+    ), 0);
+    IF COALESCE((v_order->>'discount_percentage')::numeric, 0) > v_max_discount AND NOT is_admin_from_users() THEN
+      v_errors := v_errors || jsonb_build_object('field', format('orders.%s.discount_percentage', v_index), 'message', format('Diskon maksimal %s%% sesuai promo', v_max_discount));
+    END IF;
+    v_index := v_index + 1;
+  END LOOP;
+
+  IF jsonb_array_length(v_errors) > 0 THEN
+    RETURN jsonb_build_object('visit_id', NULL, 'store_id', NULL, 'errors', v_errors);
+  END IF;
+
+  -- New store
+  IF p_store IS NOT NULL THEN
+    BEGIN
+      INSERT INTO stores (id, store_name, store_code, category, address, route, latitude, longitude, created_by)
+      VALUES (
+        COALESCE((p_store->>'id')::uuid, gen_random_uuid()),
+        trim(p_store->>'store_name'),
+        trim(p_store->>'store_code'),
+        p_store->>'category',
+        NULLIF(p_store->>'address', ''),
+        NULLIF(p_store->>'route', ''),
+        (p_store->>'latitude')::numeric,
+        (p_store->>'longitude')::numeric,
+        auth.uid()
+      )
+      RETURNING id INTO v_store_id;
+    EXCEPTION WHEN unique_violation THEN
+      RETURN jsonb_build_object(
+        'visit_id', NULL,
+        'store_id', NULL,
+        'errors', jsonb_build_array(jsonb_build_object('field', 'store.store_code', 'message', 'Kode toko sudah terdaftar'))
+      );
+    END;
+  END IF;
+
+  -- Visit
+  INSERT INTO visits (
+    id, salesman_id, store_id, visit_date, has_order, notes,
+    check_in_at, check_in_lat, check_in_lng, check_in_accuracy,
+    check_out_at, check_out_lat, check_out_lng, check_out_accuracy
+  )
+  VALUES (
+    v_visit_id,
+    auth.uid(),
+    v_store_id,
+    (p_visit->>'visit_date')::date,
+    v_has_order,
+    NULLIF(trim(p_visit->>'notes'), ''),
+    (p_visit->>'check_in_at')::timestamptz,
+    (p_visit->>'check_in_lat')::numeric,
+    (p_visit->>'check_in_lng')::numeric,
+    (p_visit->>'check_in_accuracy')::numeric,
+    (p_visit->>'check_out_at')::timestamptz,
+    (p_visit->>'check_out_lat')::numeric,
+    (p_visit->>'check_out_lng')::numeric,
+    (p_visit->>'check_out_accuracy')::numeric
+  );
+
+  -- Order lines, line_total and promotion_id set by triggers
+  INSERT INTO visit_orders (id, visit_id, product_id, quantity, unit_price, discount_percentage)
+  SELECT
+    COALESCE((o->>'id')::uuid, gen_random_uuid()),
+    v_visit_id,
+    (o->>'product_id')::uuid,
+    (o->>'quantity')::numeric,
+    (o->>'unit_price')::numeric,
+    COALESCE((o->>'discount_percentage')::numeric, 0)
+  FROM jsonb_array_elements(v_orders) o;
+
+  RETURN jsonb_build_object('visit_id', v_visit_id, 'store_id', v_store_id, 'errors', '[]'::jsonb);
+END;
+$$;
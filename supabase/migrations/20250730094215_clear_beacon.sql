@@ -0,0 +1,113 @@
+/*
+  # Promotion Effectiveness
+
+  1. Functions
+    - `promotion_effectiveness(p_start, p_end, p_salesman_id)` for every promotion running in the range,
+      compares its period (up to today) with a baseline of the same length right before it
+      - Order lines are matched to promotions by product and visit date, not only by `promotion_id`,
+        so the baseline uses the same SKUs and store categories
+      - `level` is `sku`, `store_category` or `total` (one row per promotion)
+      - `discount_cost` and `promo_stores` only count lines the promotion was applied to
+      - Voided visits and cancelled orders are left out
+
+  2. Security
+    - SECURITY INVOKER: salesmen only see their own visits through RLS
+*/
+
+CREATE OR REPLACE FUNCTION promotion_effectiveness(
+  p_start date,
+  p_end date,
+  p_salesman_id uuid DEFAULT NULL
+)
+RETURNS TABLE (
+  promotion_id uuid,
+  promo_name text,
+  discount_percentage numeric,
+  promo_start date,
+  promo_end date,
+  baseline_start date,
+  baseline_end date,
+  level text,
+  sku_code text,
+  product_name text,
+  store_category text,
+  promo_quantity numeric,
+  promo_value numeric,
+  baseline_quantity numeric,
+  baseline_value numeric,
+  discount_cost numeric,
+  promo_stores bigint
+)
+LANGUAGE sql
+STABLE
+AS $$
+  WITH promos AS (
+    SELECT
+      p.id,
+      p.start_date,
+      LEAST(p.end_date, CURRENT_DATE) AS period_end,
+      p.start_date - (LEAST(p.end_date, CURRENT_DATE) - p.start_date + 1) AS baseline_start,
+      p.start_date - 1 AS baseline_end
+    FROM promotions p
+    WHERE p.start_date <= p_end
+      AND p.end_date >= p_start
+      AND p.start_date <= CURRENT_DATE
+  ),
+  lines AS (
+    SELECT
+      p.id AS promotion_id,
+      p.promo_name,
+      p.discount_percentage,
+      pm.start_date AS promo_start,
+      pm.period_end AS promo_end,
+      pm.baseline_start,
+      pm.baseline_end,
+      pr.sku_code,
+      pr.product_name,
+      s.category AS store_category,
+      v.store_id,
+      v.visit_date >= pm.start_date AS in_promo,
+      vo.promotion_id = p.id AS promo_applied,
+      vo.quantity,
+      vo.line_total,
+      vo.quantity * vo.unit_price - vo.line_total AS discount_amount
+    FROM promos pm
+    JOIN promotions p ON p.id = pm.id
+    JOIN products pr ON promotion_covers_product(p, pr)
+    JOIN visit_orders vo ON vo.product_id = pr.id
+    JOIN visits v ON v.id = vo.visit_id
+    JOIN stores s ON s.id = v.store_id
+    WHERE v.visit_date BETWEEN pm.baseline_start AND pm.period_end
+      AND v.voided_at IS NULL
+      AND v.order_status IS DISTINCT FROM 'cancelled'
+      AND (p.store_category IS NULL OR s.category = p.store_category)
+      AND (p_salesman_id IS NULL OR v.salesman_id = p_salesman_id)
+  )
+  SELECT
+    promotion_id,
+    promo_name,
+    discount_percentage,
+    promo_start,
+    promo_end,
+    baseline_start,
+    baseline_end,
+    CASE
+      WHEN GROUPING(sku_code) = 0 THEN 'sku'
+      WHEN GROUPING(store_category) = 0 THEN 'store_category'
+      ELSE 'total'
+    END AS level,
+    sku_code,
+    product_name,
+    store_category,
+    COALESCE(SUM(quantity) FILTER (WHERE in_promo), 0) AS promo_quantity,
+    COALESCE(SUM(line_total) FILTER (WHERE in_promo), 0) AS promo_value,
+    COALESCE(SUM(quantity) FILTER (WHERE NOT in_promo), 0) AS baseline_quantity,
+    COALESCE(SUM(line_total) FILTER (WHERE NOT in_promo), 0) AS baseline_value,
+    COALESCE(SUM(discount_amount) FILTER (WHERE in_promo AND promo_applied), 0) AS discount_cost,
+    COUNT(DISTINCT store_id) FILTER (WHERE in_promo AND promo_applied) AS promo_stores
+  FROM lines
+  GROUP BY
+    promotion_id, promo_name, discount_percentage, promo_start, promo_end, baseline_start, baseline_end,
+    GROUPING SETS ((sku_code, product_name), (store_category), ())
+  ORDER BY promo_start DESC, promo_name, level, sku_code, store_category;
+$$;
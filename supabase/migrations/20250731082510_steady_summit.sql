@@ -0,0 +1,71 @@
+/*
+  # Sales Targets
+
+  1. New Tables
+    - `sales_targets`
+      - `id` (uuid, primary key)
+      - `salesman_id` (uuid, the salesman the target belongs to)
+      - `month` (date, first day of the target month)
+      - `dimension` (text) total / route / brand / store_category
+      - `dimension_value` (text, the route, brand or store category; NULL for the total target)
+      - `sales_value` (numeric, sales in IDR)
+      - `ec_count` (integer, effective calls)
+      - `msl_achievement` (numeric, average MSL achievement in percent)
+      - at least one of the three metrics is set; one row per salesman, month and dimension value
+      - `created_by`, `created_at`, `updated_at`
+
+  2. Settings
+    - `working_days_per_week` working days counted for the run-rate, from Monday
+      (6 = Monday to Saturday)
+
+  3. Security
+    - Admins manage all targets, salesmen read their own
+*/
+
+CREATE TABLE IF NOT EXISTS sales_targets (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  salesman_id uuid NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  month date NOT NULL CHECK (EXTRACT(DAY FROM month) = 1),
+  dimension text NOT NULL DEFAULT 'total' CHECK (dimension IN ('total', 'route', 'brand', 'store_category')),
+  dimension_value text,
+  sales_value numeric(15,2) CHECK (sales_value >= 0),
+  ec_count integer CHECK (ec_count >= 0),
+  msl_achievement numeric(5,2) CHECK (msl_achievement BETWEEN 0 AND 100),
+  created_by uuid REFERENCES users(id),
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  CHECK ((dimension = 'total') = (dimension_value IS NULL)),
+  CHECK (sales_value IS NOT NULL OR ec_count IS NOT NULL OR msl_achievement IS NOT NULL),
+  CONSTRAINT sales_targets_unique UNIQUE NULLS NOT DISTINCT (salesman_id, month, dimension, dimension_value)
+);
+
+-- Enable RLS
+ALTER TABLE sales_targets ENABLE ROW LEVEL SECURITY;
+
+-- Create indexes
+CREATE INDEX IF NOT EXISTS idx_sales_targets_month ON sales_targets(month, salesman_id);
+
+-- RLS Policies
+CREATE POLICY "Admins can manage sales targets"
+  ON sales_targets
+  FOR ALL
+  TO authenticated
+  USING (is_admin_from_users())
+  WITH CHECK (is_admin_from_users());
+
+CREATE POLICY "Users can read own sales targets"
+  ON sales_targets
+  FOR SELECT
+  TO authenticated
+  USING (salesman_id = auth.uid());
+
+-- Update trigger
+CREATE TRIGGER update_sales_targets_updated_at
+  BEFORE UPDATE ON sales_targets
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- Default settings
+INSERT INTO app_settings (key, value, description) VALUES
+('working_days_per_week', 6, 'Working days per week, counted from Monday, used for the target run-rate')
+ON CONFLICT (key) DO NOTHING;
@@ -0,0 +1,141 @@
+/*
+  # Incentive Calculation
+
+  1. New Tables
+    - `incentive_rule_sets` versioned incentive rules, never updated once saved
+      - `id` (uuid, primary key)
+      - `version` (integer, unique, increasing)
+      - `effective_from` (date, first day of the first month the rules apply to)
+      - `rules` (jsonb) sales tiers, MSL bonus and per-EC bonus, see `src/lib/incentives.ts`
+      - `notes`, `created_by`, `created_at`
+    - `incentive_runs` one monthly calculation run
+      - `id` (uuid, primary key)
+      - `month` (date, first day of the month)
+      - `rule_set_id` (uuid, the rule version in effect for the month)
+      - `run_by`, `run_at`
+    - `incentive_statements` the result of a run for one salesman
+      - `run_id`, `salesman_id`
+      - `inputs` (jsonb) sales, EC and MSL achievement the run used
+      - `lines` (jsonb) every component with its basis and amount
+      - `total_amount` (numeric)
+
+  2. Functions
+    - `create_incentive_run(p_month, p_rule_set_id, p_statements)` saves a run and its
+      statements together, so a failed run leaves nothing behind
+
+  3. Auditing
+    - Rule sets, runs and statements are insert-only; recalculating a month adds a new run
+      and the latest run of the month is the current one
+
+  4. Security
+    - Everyone reads the rule sets (salesmen project their own incentive)
+    - Admins create rule sets and runs and read all statements, salesmen read their own
+*/
+
+CREATE TABLE IF NOT EXISTS incentive_rule_sets (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  version integer NOT NULL UNIQUE,
+  effective_from date NOT NULL CHECK (EXTRACT(DAY FROM effective_from) = 1),
+  rules jsonb NOT NULL,
+  notes text,
+  created_by uuid REFERENCES users(id),
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS incentive_runs (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  month date NOT NULL CHECK (EXTRACT(DAY FROM month) = 1),
+  rule_set_id uuid NOT NULL REFERENCES incentive_rule_sets(id),
+  run_by uuid REFERENCES users(id),
+  run_at timestamptz DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS incentive_statements (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  run_id uuid NOT NULL REFERENCES incentive_runs(id) ON DELETE CASCADE,
+  salesman_id uuid NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  inputs jsonb NOT NULL,
+  lines jsonb NOT NULL,
+  total_amount numeric(15,2) NOT NULL,
+  created_at timestamptz DEFAULT now(),
+  UNIQUE(run_id, salesman_id)
+);
+
+-- Enable RLS
+ALTER TABLE incentive_rule_sets ENABLE ROW LEVEL SECURITY;
+ALTER TABLE incentive_runs ENABLE ROW LEVEL SECURITY;
+ALTER TABLE incentive_statements ENABLE ROW LEVEL SECURITY;
+
+-- Create indexes
+CREATE INDEX IF NOT EXISTS idx_incentive_rule_sets_effective ON incentive_rule_sets(effective_from, version);
+CREATE INDEX IF NOT EXISTS idx_incentive_runs_month ON incentive_runs(month, run_at);
+CREATE INDEX IF NOT EXISTS idx_incentive_statements_salesman ON incentive_statements(salesman_id);
+
+-- RLS Policies (no UPDATE or DELETE policies: history stays as calculated)
+CREATE POLICY "Authenticated users can read incentive rules"
+  ON incentive_rule_sets
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Admins can create incentive rules"
+  ON incentive_rule_sets
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (is_admin_from_users());
+
+CREATE POLICY "Authenticated users can read incentive runs"
+  ON incentive_runs
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Admins can create incentive runs"
+  ON incentive_runs
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (is_admin_from_users());
+
+CREATE POLICY "Admins can read all incentive statements"
+  ON incentive_statements
+  FOR SELECT
+  TO authenticated
+  USING (is_admin_from_users());
+
+CREATE POLICY "Users can read own incentive statements"
+  ON incentive_statements
+  FOR SELECT
+  TO authenticated
+  USING (salesman_id = auth.uid());
+
+CREATE POLICY "Admins can create incentive statements"
+  ON incentive_statements
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (is_admin_from_users());
+
+-- One run with all its statements; p_statements is an array of
+-- { salesman_id, inputs, lines, total_amount }
+CREATE OR REPLACE FUNCTION create_incentive_run(p_month date, p_rule_set_id uuid, p_statements jsonb)
+RETURNS uuid
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_run_id uuid;
+BEGIN
+  INSERT INTO incentive_runs (month, rule_set_id, run_by)
+  VALUES (p_month, p_rule_set_id, auth.uid())
+  RETURNING id INTO v_run_id;
+
+  INSERT INTO incentive_statements (run_id, salesman_id, inputs, lines, total_amount)
+  SELECT
+    v_run_id,
+    (s->>'salesman_id')::uuid,
+    s->'inputs',
+    s->'lines',
+    (s->>'total_amount')::numeric
+  FROM jsonb_array_elements(p_statements) s;
+
+  RETURN v_run_id;
+END;
+$$;
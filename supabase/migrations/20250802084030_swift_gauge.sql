@@ -0,0 +1,132 @@
+/*
+  # Sales KPIs
+
+  One definition of the field KPIs, shared by Overview, Daily Recap, Reports and the leaderboard.
+
+  1. Functions
+    - `sales_kpis(p_start, p_end, p_salesman_id, p_group_by)` KPIs of non-voided visits in the range
+      - `p_group_by` is `total` (one row), `salesman`, `day`, `salesman_day` or `store`;
+        the columns that are not part of the grouping are NULL
+      - `total_calls` visits
+      - `effective_calls` visits with an order that is not cancelled
+      - `total_sales` order lines of effective calls
+      - `msl_achievement` for every store visited in the group: distinct MSL SKUs ordered
+        (cancelled orders left out) over the MSL SKUs of the store category, averaged over
+        the stores whose category has an MSL; `msl_stores` is the number of those stores
+      - Groups without visits are not returned
+
+  2. Indexes
+    - `visit_orders(visit_id)` and `visits(salesman_id, visit_date)` for the joins and filters above
+
+  3. Security
+    - SECURITY INVOKER: salesmen only see their own visits through RLS
+*/
+
+CREATE INDEX IF NOT EXISTS idx_visit_orders_visit_id ON visit_orders(visit_id);
+CREATE INDEX IF NOT EXISTS idx_visits_salesman_date ON visits(salesman_id, visit_date) WHERE voided_at IS NULL;
+
+CREATE OR REPLACE FUNCTION sales_kpis(
+  p_start date,
+  p_end date,
+  p_salesman_id uuid DEFAULT NULL,
+  p_group_by text DEFAULT 'total'
+)
+RETURNS TABLE (
+  salesman_id uuid,
+  visit_date date,
+  store_id uuid,
+  total_calls integer,
+  effective_calls integer,
+  total_sales numeric,
+  msl_stores integer,
+  msl_achievement numeric
+)
+LANGUAGE sql
+STABLE
+AS $$
+  WITH scoped_visits AS (
+    SELECT
+      v.id,
+      v.store_id,
+      s.category,
+      v.has_order AND v.order_status IS DISTINCT FROM 'cancelled' AS is_effective,
+      CASE WHEN p_group_by IN ('salesman', 'salesman_day') THEN v.salesman_id END AS g_salesman,
+      CASE WHEN p_group_by IN ('day', 'salesman_day') THEN v.visit_date END AS g_day,
+      CASE WHEN p_group_by = 'store' THEN v.store_id END AS g_store
+    FROM visits v
+    JOIN stores s ON s.id = v.store_id
+    WHERE v.visit_date BETWEEN p_start AND p_end
+      AND v.voided_at IS NULL
+      AND (p_salesman_id IS NULL OR v.salesman_id = p_salesman_id)
+  ),
+  visit_sales AS (
+    SELECT sv.id, COALESCE(SUM(vo.line_total) FILTER (WHERE sv.is_effective), 0) AS sales
+    FROM scoped_visits sv
+    LEFT JOIN visit_orders vo ON vo.visit_id = sv.id
+    GROUP BY sv.id
+  ),
+  call_totals AS (
+    SELECT
+      sv.g_salesman,
+      sv.g_day,
+      sv.g_store,
+      COUNT(*)::integer AS total_calls,
+      COUNT(*) FILTER (WHERE sv.is_effective)::integer AS effective_calls,
+      SUM(vs.sales) AS total_sales
+    FROM scoped_visits sv
+    JOIN visit_sales vs ON vs.id = sv.id
+    GROUP BY sv.g_salesman, sv.g_day, sv.g_store
+  ),
+  msl_size AS (
+    SELECT category, COUNT(*) AS size
+    FROM msl_items
+    GROUP BY category
+  ),
+  store_groups AS (
+    SELECT DISTINCT g_salesman, g_day, g_store, store_id, category
+    FROM scoped_visits
+  ),
+  msl_bought AS (
+    SELECT DISTINCT sv.g_salesman, sv.g_day, sv.g_store, sv.store_id, p.sku_code
+    FROM scoped_visits sv
+    JOIN visit_orders vo ON vo.visit_id = sv.id
+    JOIN products p ON p.id = vo.product_id
+    JOIN msl_items m ON m.category = sv.category AND m.sku_code = p.sku_code
+    WHERE sv.is_effective
+  ),
+  store_msl AS (
+    SELECT
+      sg.g_salesman,
+      sg.g_day,
+      sg.g_store,
+      COUNT(mb.sku_code)::numeric / ms.size * 100 AS achievement
+    FROM store_groups sg
+    JOIN msl_size ms ON ms.category = sg.category
+    LEFT JOIN msl_bought mb
+      ON mb.store_id = sg.store_id
+      AND mb.g_salesman IS NOT DISTINCT FROM sg.g_salesman
+      AND mb.g_day IS NOT DISTINCT FROM sg.g_day
+      AND mb.g_store IS NOT DISTINCT FROM sg.g_store
+    GROUP BY sg.g_salesman, sg.g_day, sg.g_store, sg.store_id, ms.size
+  ),
+  msl_totals AS (
+    SELECT g_salesman, g_day, g_store, COUNT(*)::integer AS msl_stores, AVG(achievement) AS msl_achievement
+    FROM store_msl
+    GROUP BY g_salesman, g_day, g_store
+  )
+  SELECT
+    ct.g_salesman,
+    ct.g_day,
+    ct.g_store,
+    ct.total_calls,
+    ct.effective_calls,
+    ct.total_sales,
+    COALESCE(mt.msl_stores, 0),
+    COALESCE(mt.msl_achievement, 0)
+  FROM call_totals ct
+  LEFT JOIN msl_totals mt
+    ON mt.g_salesman IS NOT DISTINCT FROM ct.g_salesman
+    AND mt.g_day IS NOT DISTINCT FROM ct.g_day
+    AND mt.g_store IS NOT DISTINCT FROM ct.g_store
+  ORDER BY ct.g_salesman, ct.g_day, ct.g_store;
+$$;
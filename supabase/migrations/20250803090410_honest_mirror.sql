@@ -0,0 +1,302 @@
+/*
+  # MSL History and Compliance Snapshots
+
+  MSL achievement of a store over a period is the number of distinct MSL SKUs bought at
+  the store in orders that were not cancelled, divided by the number of SKUs on the MSL of
+  the store category. The MSL used is the one in effect on the store's last visit of the
+  period. Only visited stores count, stores whose category has no MSL are left out, and the
+  achievement of a salesman, day or report is the average over its stores.
+
+  1. New Tables
+    - `msl_item_history` the period each SKU was on a category MSL
+      - `msl_item_id` (uuid, the `msl_items` row, kept after it is deleted)
+      - `category`, `sku_code`
+      - `valid_from` (date), `valid_to` (date, exclusive, NULL while still listed)
+    - `msl_compliance_snapshots` per-store MSL compliance on a date
+      - `snapshot_date`, `store_id`, `category`
+      - `lookback_days` (integer) purchases in this many days up to the date count
+      - `msl_size`, `msl_bought` (integer), `achievement` (numeric, 0-100)
+      - `missing_skus` (text[])
+      - Unique on (`snapshot_date`, `store_id`); taking a snapshot again replaces it
+
+  2. Functions
+    - `msl_items_on(p_date)` the MSL SKUs of every category in effect on a date
+    - `snapshot_msl_compliance(p_date)` snapshots every store with an MSL, returns the count.
+      Run on demand from MSL Management, or nightly where pg_cron is enabled:
+      `SELECT cron.schedule('msl-snapshot', '0 1 * * *', 'SELECT snapshot_msl_compliance()')`
+    - `sales_kpis` now measures MSL against `msl_items_on` instead of today's `msl_items`
+
+  3. History
+    - A trigger on `msl_items` closes and opens history rows, so replacing the MSL through
+      the CSV upload no longer changes the achievement of earlier visits
+    - The MSL at the time of this migration is taken as in effect for all earlier visits,
+      which matches how they were measured until now
+
+  4. Settings
+    - `msl_lookback_days` (default 30) purchase window for the snapshots
+
+  5. Security
+    - Everyone reads the history and the snapshots, admins write them
+*/
+
+CREATE TABLE IF NOT EXISTS msl_item_history (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  msl_item_id uuid NOT NULL,
+  category text NOT NULL,
+  sku_code text NOT NULL,
+  valid_from date NOT NULL,
+  valid_to date,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS msl_compliance_snapshots (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  snapshot_date date NOT NULL,
+  store_id uuid NOT NULL REFERENCES stores(id) ON DELETE CASCADE,
+  category text NOT NULL,
+  lookback_days integer NOT NULL,
+  msl_size integer NOT NULL,
+  msl_bought integer NOT NULL,
+  achievement numeric(5,2) NOT NULL CHECK (achievement >= 0 AND achievement <= 100),
+  missing_skus text[] NOT NULL DEFAULT '{}',
+  created_at timestamptz DEFAULT now(),
+  UNIQUE(snapshot_date, store_id)
+);
+
+-- Enable RLS
+ALTER TABLE msl_item_history ENABLE ROW LEVEL SECURITY;
+ALTER TABLE msl_compliance_snapshots ENABLE ROW LEVEL SECURITY;
+
+-- Create indexes
+CREATE INDEX IF NOT EXISTS idx_msl_item_history_item ON msl_item_history(msl_item_id) WHERE valid_to IS NULL;
+CREATE INDEX IF NOT EXISTS idx_msl_item_history_period ON msl_item_history(category, valid_from, valid_to);
+CREATE INDEX IF NOT EXISTS idx_msl_compliance_snapshots_date ON msl_compliance_snapshots(snapshot_date, category);
+
+-- RLS Policies
+CREATE POLICY "Admins can manage MSL history"
+  ON msl_item_history
+  FOR ALL
+  TO authenticated
+  USING (is_admin_from_users())
+  WITH CHECK (is_admin_from_users());
+
+CREATE POLICY "Users can read MSL history"
+  ON msl_item_history
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Admins can manage MSL compliance snapshots"
+  ON msl_compliance_snapshots
+  FOR ALL
+  TO authenticated
+  USING (is_admin_from_users())
+  WITH CHECK (is_admin_from_users());
+
+CREATE POLICY "Users can read MSL compliance snapshots"
+  ON msl_compliance_snapshots
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+-- Current MSL, in effect for every visit before this migration
+INSERT INTO msl_item_history (msl_item_id, category, sku_code, valid_from)
+SELECT id, category, sku_code, '-infinity'
+FROM msl_items
+WHERE NOT EXISTS (SELECT 1 FROM msl_item_history h WHERE h.msl_item_id = msl_items.id);
+
+-- A change takes effect on the day it is made
+CREATE OR REPLACE FUNCTION record_msl_item_history()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF TG_OP IN ('UPDATE', 'DELETE') THEN
+    UPDATE msl_item_history
+    SET valid_to = CURRENT_DATE
+    WHERE msl_item_id = OLD.id AND valid_to IS NULL;
+  END IF;
+
+  IF TG_OP IN ('INSERT', 'UPDATE') THEN
+    INSERT INTO msl_item_history (msl_item_id, category, sku_code, valid_from)
+    VALUES (NEW.id, NEW.category, NEW.sku_code, CURRENT_DATE);
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS record_msl_items_history ON msl_items;
+CREATE TRIGGER record_msl_items_history
+  AFTER INSERT OR DELETE OR UPDATE OF category, sku_code ON msl_items
+  FOR EACH ROW
+  EXECUTE FUNCTION record_msl_item_history();
+
+CREATE OR REPLACE FUNCTION msl_items_on(p_date date)
+RETURNS TABLE (category text, sku_code text)
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT DISTINCT h.category, h.sku_code
+  FROM msl_item_history h
+  WHERE h.valid_from <= p_date
+    AND (h.valid_to IS NULL OR h.valid_to > p_date);
+$$;
+
+CREATE OR REPLACE FUNCTION snapshot_msl_compliance(p_date date DEFAULT CURRENT_DATE)
+RETURNS integer
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_lookback integer;
+  v_count integer;
+BEGIN
+  SELECT COALESCE((SELECT value::integer FROM app_settings WHERE key = 'msl_lookback_days'), 30)
+  INTO v_lookback;
+
+  INSERT INTO msl_compliance_snapshots (
+    snapshot_date, store_id, category, lookback_days, msl_size, msl_bought, achievement, missing_skus
+  )
+  SELECT
+    p_date,
+    s.id,
+    s.category,
+    v_lookback,
+    COUNT(*)::integer,
+    COUNT(b.sku_code)::integer,
+    ROUND(COUNT(b.sku_code)::numeric / COUNT(*) * 100, 2),
+    COALESCE(ARRAY_AGG(m.sku_code ORDER BY m.sku_code) FILTER (WHERE b.sku_code IS NULL), '{}')
+  FROM stores s
+  JOIN msl_items_on(p_date) m ON m.category = s.category
+  LEFT JOIN (
+    SELECT DISTINCT v.store_id, p.sku_code
+    FROM visits v
+    JOIN visit_orders vo ON vo.visit_id = v.id
+    JOIN products p ON p.id = vo.product_id
+    WHERE v.visit_date BETWEEN p_date - (v_lookback - 1) AND p_date
+      AND v.voided_at IS NULL
+      AND v.has_order
+      AND v.order_status IS DISTINCT FROM 'cancelled'
+  ) b ON b.store_id = s.id AND b.sku_code = m.sku_code
+  GROUP BY s.id, s.category
+  ON CONFLICT (snapshot_date, store_id) DO UPDATE SET
+    category = EXCLUDED.category,
+    lookback_days = EXCLUDED.lookback_days,
+    msl_size = EXCLUDED.msl_size,
+    msl_bought = EXCLUDED.msl_bought,
+    achievement = EXCLUDED.achievement,
+    missing_skus = EXCLUDED.missing_skus,
+    created_at = now();
+
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+  RETURN v_count;
+END;
+$$;
+
+-- Same as before, with each store measured against the MSL of its last visit in the group
+CREATE OR REPLACE FUNCTION sales_kpis(
+  p_start date,
+  p_end date,
+  p_salesman_id uuid DEFAULT NULL,
+  p_group_by text DEFAULT 'total'
+)
+RETURNS TABLE (
+  salesman_id uuid,
+  visit_date date,
+  store_id uuid,
+  total_calls integer,
+  effective_calls integer,
+  total_sales numeric,
+  msl_stores integer,
+  msl_achievement numeric
+)
+LANGUAGE sql
+STABLE
+AS $$
+  WITH scoped_visits AS (
+    SELECT
+      v.id,
+      v.store_id,
+      v.visit_date,
+      s.category,
+      v.has_order AND v.order_status IS DISTINCT FROM 'cancelled' AS is_effective,
+      CASE WHEN p_group_by IN ('salesman', 'salesman_day') THEN v.salesman_id END AS g_salesman,
+      CASE WHEN p_group_by IN ('day', 'salesman_day') THEN v.visit_date END AS g_day,
+      CASE WHEN p_group_by = 'store' THEN v.store_id END AS g_store
+    FROM visits v
+    JOIN stores s ON s.id = v.store_id
+    WHERE v.visit_date BETWEEN p_start AND p_end
+      AND v.voided_at IS NULL
+      AND (p_salesman_id IS NULL OR v.salesman_id = p_salesman_id)
+  ),
+  visit_sales AS (
+    SELECT sv.id, COALESCE(SUM(vo.line_total) FILTER (WHERE sv.is_effective), 0) AS sales
+    FROM scoped_visits sv
+    LEFT JOIN visit_orders vo ON vo.visit_id = sv.id
+    GROUP BY sv.id
+  ),
+  call_totals AS (
+    SELECT
+      sv.g_salesman,
+      sv.g_day,
+      sv.g_store,
+      COUNT(*)::integer AS total_calls,
+      COUNT(*) FILTER (WHERE sv.is_effective)::integer AS effective_calls,
+      SUM(vs.sales) AS total_sales
+    FROM scoped_visits sv
+    JOIN visit_sales vs ON vs.id = sv.id
+    GROUP BY sv.g_salesman, sv.g_day, sv.g_store
+  ),
+  store_groups AS (
+    SELECT g_salesman, g_day, g_store, store_id, category, MAX(visit_date) AS msl_date
+    FROM scoped_visits
+    GROUP BY g_salesman, g_day, g_store, store_id, category
+  ),
+  bought AS (
+    SELECT DISTINCT sv.g_salesman, sv.g_day, sv.g_store, sv.store_id, p.sku_code
+    FROM scoped_visits sv
+    JOIN visit_orders vo ON vo.visit_id = sv.id
+    JOIN products p ON p.id = vo.product_id
+    WHERE sv.is_effective
+  ),
+  store_msl AS (
+    SELECT
+      sg.g_salesman,
+      sg.g_day,
+      sg.g_store,
+      COUNT(b.sku_code)::numeric / COUNT(*) * 100 AS achievement
+    FROM store_groups sg
+    JOIN LATERAL msl_items_on(sg.msl_date) m ON m.category = sg.category
+    LEFT JOIN bought b
+      ON b.store_id = sg.store_id
+      AND b.sku_code = m.sku_code
+      AND b.g_salesman IS NOT DISTINCT FROM sg.g_salesman
+      AND b.g_day IS NOT DISTINCT FROM sg.g_day
+      AND b.g_store IS NOT DISTINCT FROM sg.g_store
+    GROUP BY sg.g_salesman, sg.g_day, sg.g_store, sg.store_id
+  ),
+  msl_totals AS (
+    SELECT g_salesman, g_day, g_store, COUNT(*)::integer AS msl_stores, AVG(achievement) AS msl_achievement
+    FROM store_msl
+    GROUP BY g_salesman, g_day, g_store
+  )
+  SELECT
+    ct.g_salesman,
+    ct.g_day,
+    ct.g_store,
+    ct.total_calls,
+    ct.effective_calls,
+    ct.total_sales,
+    COALESCE(mt.msl_stores, 0),
+    COALESCE(mt.msl_achievement, 0)
+  FROM call_totals ct
+  LEFT JOIN msl_totals mt
+    ON mt.g_salesman IS NOT DISTINCT FROM ct.g_salesman
+    AND mt.g_day IS NOT DISTINCT FROM ct.g_day
+    AND mt.g_store IS NOT DISTINCT FROM ct.g_store
+  ORDER BY ct.g_salesman, ct.g_day, ct.g_store;
+$$;
+
+INSERT INTO app_settings (key, value, description) VALUES
+('msl_lookback_days', 30, 'Days of purchases counted in the MSL compliance snapshots')
+ON CONFLICT (key) DO NOTHING;
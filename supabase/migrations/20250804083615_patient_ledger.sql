@@ -0,0 +1,239 @@
+/*
+  # MSL Versions
+
+  1. New Tables
+    - `msl_versions` one published MSL of a category, never changed once effective
+      - `id` (uuid, primary key)
+      - `category` (text, store category)
+      - `version` (integer, increasing per category)
+      - `effective_from` (date) the version applies from this date until the next one
+      - `notes`, `created_by`, `created_at`
+      - Unique on (`category`, `version`)
+    - `msl_version_items` the SKUs of a version
+      - `version_id`, `sku_code`, `product_name`, `priority`, `notes`
+
+  2. Views (security invoker)
+    - `msl_items` now the items of the version in effect today, with the same columns as the
+      table it replaces plus `version_id`, so readers do not change
+    - `msl_item_periods` every SKU of every version with `valid_from` and `valid_to`
+      (exclusive, NULL for the latest version); a version is superseded by the next one by
+      `effective_from`, and by the higher version when two share a date
+
+  3. Functions
+    - `publish_msl_versions(p_effective_from, p_notes, p_lists)` publishes a new version for
+      every category in `p_lists` at once; the date may be today or later, never earlier
+    - `msl_items_on(p_date)` now reads `msl_item_periods`
+
+  4. Data
+    - The periods recorded in `msl_item_history` become versions: one per category for every
+      date the list changed. The history table, its trigger and the `msl_items` table are
+      dropped. Names, priorities and notes of SKUs no longer on the MSL were not kept, those
+      items get their SKU code as name
+
+  5. Changes
+    - Rolling back publishes a copy of an earlier version, so history is never rewritten
+    - Priorities may be edited on the version in effect; they do not affect achievement
+    - Admins can delete a version that has not taken effect yet
+
+  6. Security
+    - Everyone reads versions and items, admins publish
+*/
+
+CREATE TABLE IF NOT EXISTS msl_versions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  category text NOT NULL,
+  version integer NOT NULL,
+  effective_from date NOT NULL,
+  notes text,
+  created_by uuid REFERENCES users(id),
+  created_at timestamptz DEFAULT now(),
+  UNIQUE(category, version)
+);
+
+CREATE TABLE IF NOT EXISTS msl_version_items (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  version_id uuid NOT NULL REFERENCES msl_versions(id) ON DELETE CASCADE,
+  sku_code text NOT NULL,
+  product_name text NOT NULL,
+  priority integer NOT NULL DEFAULT 1,
+  notes text,
+  created_at timestamptz DEFAULT now(),
+  UNIQUE(version_id, sku_code)
+);
+
+-- Enable RLS
+ALTER TABLE msl_versions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE msl_version_items ENABLE ROW LEVEL SECURITY;
+
+-- Create indexes
+CREATE INDEX IF NOT EXISTS idx_msl_versions_effective ON msl_versions(category, effective_from, version);
+CREATE INDEX IF NOT EXISTS idx_msl_version_items_version ON msl_version_items(version_id, priority);
+
+-- RLS Policies
+CREATE POLICY "Users can read MSL versions"
+  ON msl_versions
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Admins can create MSL versions"
+  ON msl_versions
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (is_admin_from_users());
+
+CREATE POLICY "Admins can delete scheduled MSL versions"
+  ON msl_versions
+  FOR DELETE
+  TO authenticated
+  USING (is_admin_from_users() AND effective_from > CURRENT_DATE);
+
+CREATE POLICY "Users can read MSL version items"
+  ON msl_version_items
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Admins can create MSL version items"
+  ON msl_version_items
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (is_admin_from_users());
+
+CREATE POLICY "Admins can update MSL version priorities"
+  ON msl_version_items
+  FOR UPDATE
+  TO authenticated
+  USING (is_admin_from_users())
+  WITH CHECK (is_admin_from_users());
+
+-- Every date a category's list changed becomes a version holding the SKUs listed from that date
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM information_schema.tables WHERE table_name = 'msl_item_history') THEN
+    WITH change_dates AS (
+      SELECT category, valid_from AS changed_on FROM msl_item_history
+      UNION
+      SELECT category, valid_to FROM msl_item_history WHERE valid_to IS NOT NULL
+    )
+    INSERT INTO msl_versions (category, version, effective_from, notes)
+    SELECT
+      category,
+      ROW_NUMBER() OVER (PARTITION BY category ORDER BY changed_on),
+      changed_on,
+      'Dari riwayat MSL sebelum versi'
+    FROM change_dates
+    ON CONFLICT (category, version) DO NOTHING;
+
+    INSERT INTO msl_version_items (version_id, sku_code, product_name, priority, notes)
+    SELECT DISTINCT ON (v.id, h.sku_code)
+      v.id,
+      h.sku_code,
+      COALESCE(m.product_name, h.sku_code),
+      COALESCE(m.priority, 1),
+      m.notes
+    FROM msl_versions v
+    JOIN msl_item_history h
+      ON h.category = v.category
+      AND h.valid_from <= v.effective_from
+      AND (h.valid_to IS NULL OR h.valid_to > v.effective_from)
+    LEFT JOIN msl_items m ON m.category = h.category AND m.sku_code = h.sku_code
+    ORDER BY v.id, h.sku_code
+    ON CONFLICT (version_id, sku_code) DO NOTHING;
+  END IF;
+END $$;
+
+DROP TRIGGER IF EXISTS record_msl_items_history ON msl_items;
+DROP FUNCTION IF EXISTS record_msl_item_history();
+DROP TABLE IF EXISTS msl_item_history;
+DROP TABLE IF EXISTS msl_items;
+
+CREATE OR REPLACE VIEW msl_items WITH (security_invoker = true) AS
+SELECT
+  i.id,
+  v.category,
+  i.sku_code,
+  i.product_name,
+  i.priority,
+  i.notes,
+  i.created_at,
+  v.id AS version_id
+FROM (
+  SELECT DISTINCT ON (category) id, category
+  FROM msl_versions
+  WHERE effective_from <= CURRENT_DATE
+  ORDER BY category, effective_from DESC, version DESC
+) v
+JOIN msl_version_items i ON i.version_id = v.id;
+
+CREATE OR REPLACE VIEW msl_item_periods WITH (security_invoker = true) AS
+WITH ordered AS (
+  SELECT
+    id,
+    category,
+    effective_from,
+    LEAD(effective_from) OVER (PARTITION BY category ORDER BY effective_from, version) AS next_from
+  FROM msl_versions
+)
+SELECT
+  o.category,
+  i.sku_code,
+  o.effective_from AS valid_from,
+  o.next_from AS valid_to,
+  o.id AS version_id
+FROM ordered o
+JOIN msl_version_items i ON i.version_id = o.id
+WHERE o.next_from IS NULL OR o.next_from > o.effective_from;
+
+CREATE OR REPLACE FUNCTION msl_items_on(p_date date)
+RETURNS TABLE (category text, sku_code text)
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT DISTINCT p.category, p.sku_code
+  FROM msl_item_periods p
+  WHERE p.valid_from <= p_date
+    AND (p.valid_to IS NULL OR p.valid_to > p_date);
+$$;
+
+-- p_lists is an array of { category, items: [{ sku_code, product_name, priority, notes }] }
+CREATE OR REPLACE FUNCTION publish_msl_versions(p_effective_from date, p_notes text, p_lists jsonb)
+RETURNS integer
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_list jsonb;
+  v_version_id uuid;
+  v_count integer := 0;
+BEGIN
+  IF p_effective_from < CURRENT_DATE THEN
+    RAISE EXCEPTION 'MSL versions cannot take effect in the past';
+  END IF;
+
+  FOR v_list IN SELECT * FROM jsonb_array_elements(p_lists) LOOP
+    INSERT INTO msl_versions (category, version, effective_from, notes, created_by)
+    SELECT
+      v_list->>'category',
+      COALESCE(MAX(version), 0) + 1,
+      p_effective_from,
+      p_notes,
+      auth.uid()
+    FROM msl_versions
+    WHERE category = v_list->>'category'
+    RETURNING id INTO v_version_id;
+
+    INSERT INTO msl_version_items (version_id, sku_code, product_name, priority, notes)
+    SELECT
+      v_version_id,
+      item->>'sku_code',
+      item->>'product_name',
+      (item->>'priority')::integer,
+      item->>'notes'
+    FROM jsonb_array_elements(v_list->'items') item;
+
+    v_count := v_count + 1;
+  END LOOP;
+
+  RETURN v_count;
+END;
+$$;
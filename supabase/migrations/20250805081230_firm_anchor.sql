@@ -0,0 +1,101 @@
+/*
+  # Link MSL Items to Products
+
+  1. Changes
+    - `msl_version_items.product_id` (uuid, references `products`) filled for existing items by
+      SKU code; items whose SKU is not in the product master keep NULL, new items require it
+    - `msl_items` view exposes `product_id`
+    - `publish_msl_versions` rejects SKUs that are not in `products` and copies the SKU code
+      and name from the product master; the name stays as it was at publish time, screens
+      show the current one from `products`
+    - Inactive products are accepted, the upload warns about them
+*/
+
+ALTER TABLE msl_version_items ADD COLUMN IF NOT EXISTS product_id uuid REFERENCES products(id);
+
+UPDATE msl_version_items i
+SET product_id = p.id
+FROM products p
+WHERE p.sku_code = i.sku_code
+  AND i.product_id IS NULL;
+
+-- Existing unmatched items are left as they are
+ALTER TABLE msl_version_items DROP CONSTRAINT IF EXISTS msl_version_items_product_required;
+ALTER TABLE msl_version_items ADD CONSTRAINT msl_version_items_product_required
+  CHECK (product_id IS NOT NULL) NOT VALID;
+
+CREATE INDEX IF NOT EXISTS idx_msl_version_items_product ON msl_version_items(product_id);
+
+CREATE OR REPLACE VIEW msl_items WITH (security_invoker = true) AS
+SELECT
+  i.id,
+  v.category,
+  i.sku_code,
+  i.product_name,
+  i.priority,
+  i.notes,
+  i.created_at,
+  v.id AS version_id,
+  i.product_id
+FROM (
+  SELECT DISTINCT ON (category) id, category
+  FROM msl_versions
+  WHERE effective_from <= CURRENT_DATE
+  ORDER BY category, effective_from DESC, version DESC
+) v
+JOIN msl_version_items i ON i.version_id = v.id;
+
+-- p_lists is an array of { category, items: [{ sku_code, priority, notes }] }
+CREATE OR REPLACE FUNCTION publish_msl_versions(p_effective_from date, p_notes text, p_lists jsonb)
+RETURNS integer
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_list jsonb;
+  v_version_id uuid;
+  v_unknown_sku text;
+  v_count integer := 0;
+BEGIN
+  IF p_effective_from < CURRENT_DATE THEN
+    RAISE EXCEPTION 'MSL versions cannot take effect in the past';
+  END IF;
+
+  FOR v_list IN SELECT * FROM jsonb_array_elements(p_lists) LOOP
+    SELECT item->>'sku_code'
+    INTO v_unknown_sku
+    FROM jsonb_array_elements(v_list->'items') item
+    WHERE NOT EXISTS (SELECT 1 FROM products p WHERE p.sku_code = item->>'sku_code')
+    LIMIT 1;
+
+    IF v_unknown_sku IS NOT NULL THEN
+      RAISE EXCEPTION 'SKU % in the MSL of % is not in the product master', v_unknown_sku, v_list->>'category';
+    END IF;
+
+    INSERT INTO msl_versions (category, version, effective_from, notes, created_by)
+    SELECT
+      v_list->>'category',
+      COALESCE(MAX(version), 0) + 1,
+      p_effective_from,
+      p_notes,
+      auth.uid()
+    FROM msl_versions
+    WHERE category = v_list->>'category'
+    RETURNING id INTO v_version_id;
+
+    INSERT INTO msl_version_items (version_id, product_id, sku_code, product_name, priority, notes)
+    SELECT
+      v_version_id,
+      p.id,
+      p.sku_code,
+      p.product_name,
+      (item->>'priority')::integer,
+      item->>'notes'
+    FROM jsonb_array_elements(v_list->'items') item
+    JOIN products p ON p.sku_code = item->>'sku_code';
+
+    v_count := v_count + 1;
+  END LOOP;
+
+  RETURN v_count;
+END;
+$$;
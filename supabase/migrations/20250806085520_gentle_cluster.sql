@@ -0,0 +1,412 @@
+/*
+  # Store Clusters and Store MSL Overrides
+
+  The MSL of a store on a date is resolved by `store_msl_items` and its client-side mirror
+  `resolveStoreMSL` in `src/lib/msl.ts`:
+    1. the list of the store's cluster in effect on the date, when it has one with items,
+       otherwise the list of the store category
+    2. plus the store's additions and minus its exclusions in effect on the date; an addition
+       of a SKU already on the list sets its priority
+
+  1. New Tables
+    - `store_clusters` named groups of stores within a category, e.g. by size
+      - `id` (uuid, primary key)
+      - `name` (text, unique)
+      - `category` (text, the store category the cluster belongs to)
+      - `description`, `created_at`, `updated_at`
+    - `store_msl_overrides` store-specific MSL changes
+      - `store_id`, `product_id`, `sku_code`
+      - `action` ('add' or 'exclude'), `priority` (for additions)
+      - `valid_from` (date), `valid_to` (date, exclusive, NULL while active); removing an
+        override ends it instead of deleting it, so earlier visits keep their MSL
+      - `notes`, `created_by`, `created_at`
+
+  2. Changes
+    - `stores.cluster_id` (uuid, optional)
+    - `msl_versions.cluster_id` (uuid, optional): a version with a cluster is that cluster's
+      list, versioned on its own; versions are unique per category, cluster and number
+    - `msl_items` and `msl_item_periods` expose `cluster_id`; `msl_item_periods` also exposes
+      the product, name and priority of each SKU
+    - `publish_msl_versions` accepts an optional `cluster_id` per list
+    - `sales_kpis` and `snapshot_msl_compliance` measure stores against `store_msl_items`;
+      `msl_items_on` is replaced by it and dropped
+
+  3. Security
+    - Everyone reads clusters and overrides, admins manage them
+*/
+
+CREATE TABLE IF NOT EXISTS store_clusters (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  name text NOT NULL UNIQUE,
+  category text NOT NULL,
+  description text,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS store_msl_overrides (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  store_id uuid NOT NULL REFERENCES stores(id) ON DELETE CASCADE,
+  product_id uuid NOT NULL REFERENCES products(id),
+  sku_code text NOT NULL,
+  action text NOT NULL CHECK (action IN ('add', 'exclude')),
+  priority integer NOT NULL DEFAULT 1 CHECK (priority >= 1),
+  valid_from date NOT NULL DEFAULT CURRENT_DATE,
+  valid_to date,
+  notes text,
+  created_by uuid REFERENCES users(id),
+  created_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE stores ADD COLUMN IF NOT EXISTS cluster_id uuid REFERENCES store_clusters(id) ON DELETE SET NULL;
+ALTER TABLE msl_versions ADD COLUMN IF NOT EXISTS cluster_id uuid REFERENCES store_clusters(id);
+
+ALTER TABLE msl_versions DROP CONSTRAINT IF EXISTS msl_versions_category_version_key;
+ALTER TABLE msl_versions DROP CONSTRAINT IF EXISTS msl_versions_list_version_key;
+ALTER TABLE msl_versions ADD CONSTRAINT msl_versions_list_version_key
+  UNIQUE NULLS NOT DISTINCT (category, cluster_id, version);
+
+-- Enable RLS
+ALTER TABLE store_clusters ENABLE ROW LEVEL SECURITY;
+ALTER TABLE store_msl_overrides ENABLE ROW LEVEL SECURITY;
+
+-- Create indexes
+CREATE INDEX IF NOT EXISTS idx_stores_cluster ON stores(cluster_id);
+CREATE INDEX IF NOT EXISTS idx_msl_versions_cluster ON msl_versions(cluster_id, effective_from, version);
+CREATE INDEX IF NOT EXISTS idx_store_msl_overrides_store ON store_msl_overrides(store_id, valid_from, valid_to);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_store_msl_overrides_active
+  ON store_msl_overrides(store_id, sku_code) WHERE valid_to IS NULL;
+
+-- RLS Policies
+CREATE POLICY "Admins can manage store clusters"
+  ON store_clusters
+  FOR ALL
+  TO authenticated
+  USING (is_admin_from_users())
+  WITH CHECK (is_admin_from_users());
+
+CREATE POLICY "Users can read store clusters"
+  ON store_clusters
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Admins can manage store MSL overrides"
+  ON store_msl_overrides
+  FOR ALL
+  TO authenticated
+  USING (is_admin_from_users())
+  WITH CHECK (is_admin_from_users());
+
+CREATE POLICY "Users can read store MSL overrides"
+  ON store_msl_overrides
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+-- Update trigger
+CREATE TRIGGER update_store_clusters_updated_at
+  BEFORE UPDATE ON store_clusters
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+CREATE OR REPLACE VIEW msl_items WITH (security_invoker = true) AS
+SELECT
+  i.id,
+  v.category,
+  i.sku_code,
+  i.product_name,
+  i.priority,
+  i.notes,
+  i.created_at,
+  v.id AS version_id,
+  i.product_id,
+  v.cluster_id
+FROM (
+  SELECT DISTINCT ON (category, cluster_id) id, category, cluster_id
+  FROM msl_versions
+  WHERE effective_from <= CURRENT_DATE
+  ORDER BY category, cluster_id, effective_from DESC, version DESC
+) v
+JOIN msl_version_items i ON i.version_id = v.id;
+
+CREATE OR REPLACE VIEW msl_item_periods WITH (security_invoker = true) AS
+WITH ordered AS (
+  SELECT
+    id,
+    category,
+    cluster_id,
+    effective_from,
+    LEAD(effective_from) OVER (PARTITION BY category, cluster_id ORDER BY effective_from, version) AS next_from
+  FROM msl_versions
+)
+SELECT
+  o.category,
+  i.sku_code,
+  o.effective_from AS valid_from,
+  o.next_from AS valid_to,
+  o.id AS version_id,
+  o.cluster_id,
+  i.product_id,
+  i.product_name,
+  i.priority
+FROM ordered o
+JOIN msl_version_items i ON i.version_id = o.id
+WHERE o.next_from IS NULL OR o.next_from > o.effective_from;
+
+CREATE OR REPLACE FUNCTION store_msl_items(p_store_id uuid, p_date date)
+RETURNS TABLE (sku_code text, product_name text, priority integer)
+LANGUAGE sql
+STABLE
+AS $$
+  WITH store AS (
+    SELECT category, cluster_id FROM stores WHERE id = p_store_id
+  ),
+  lists AS (
+    SELECT p.sku_code, p.product_name, p.priority, p.cluster_id
+    FROM msl_item_periods p
+    JOIN store s ON s.category = p.category
+    WHERE p.valid_from <= p_date
+      AND (p.valid_to IS NULL OR p.valid_to > p_date)
+      AND (p.cluster_id IS NULL OR p.cluster_id = s.cluster_id)
+  ),
+  base AS (
+    SELECT sku_code, product_name, priority
+    FROM lists
+    WHERE (cluster_id IS NOT NULL) = EXISTS (SELECT 1 FROM lists WHERE cluster_id IS NOT NULL)
+  ),
+  overrides AS (
+    SELECT o.sku_code, o.action, o.priority, p.product_name
+    FROM store_msl_overrides o
+    JOIN products p ON p.id = o.product_id
+    WHERE o.store_id = p_store_id
+      AND o.valid_from <= p_date
+      AND (o.valid_to IS NULL OR o.valid_to > p_date)
+  )
+  SELECT b.sku_code, b.product_name, b.priority
+  FROM base b
+  WHERE NOT EXISTS (SELECT 1 FROM overrides o WHERE o.sku_code = b.sku_code)
+  UNION ALL
+  SELECT o.sku_code, o.product_name, o.priority
+  FROM overrides o
+  WHERE o.action = 'add';
+$$;
+
+-- p_lists is an array of { category, cluster_id (optional), items: [{ sku_code, priority, notes }] }
+CREATE OR REPLACE FUNCTION publish_msl_versions(p_effective_from date, p_notes text, p_lists jsonb)
+RETURNS integer
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_list jsonb;
+  v_cluster_id uuid;
+  v_version_id uuid;
+  v_unknown_sku text;
+  v_count integer := 0;
+BEGIN
+  IF p_effective_from < CURRENT_DATE THEN
+    RAISE EXCEPTION 'MSL versions cannot take effect in the past';
+  END IF;
+
+  FOR v_list IN SELECT * FROM jsonb_array_elements(p_lists) LOOP
+    v_cluster_id := NULLIF(v_list->>'cluster_id', '')::uuid;
+
+    IF v_cluster_id IS NOT NULL AND NOT EXISTS (
+      SELECT 1 FROM store_clusters WHERE id = v_cluster_id AND category = v_list->>'category'
+    ) THEN
+      RAISE EXCEPTION 'Cluster % does not belong to category %', v_cluster_id, v_list->>'category';
+    END IF;
+
+    SELECT item->>'sku_code'
+    INTO v_unknown_sku
+    FROM jsonb_array_elements(v_list->'items') item
+    WHERE NOT EXISTS (SELECT 1 FROM products p WHERE p.sku_code = item->>'sku_code')
+    LIMIT 1;
+
+    IF v_unknown_sku IS NOT NULL THEN
+      RAISE EXCEPTION 'SKU % in the MSL of % is not in the product master', v_unknown_sku, v_list->>'category';
+    END IF;
+
+    INSERT INTO msl_versions (category, cluster_id, version, effective_from, notes, created_by)
+    SELECT
+      v_list->>'category',
+      v_cluster_id,
+      COALESCE(MAX(version), 0) + 1,
+      p_effective_from,
+      p_notes,
+      auth.uid()
+    FROM msl_versions
+    WHERE category = v_list->>'category'
+      AND cluster_id IS NOT DISTINCT FROM v_cluster_id
+    RETURNING id INTO v_version_id;
+
+    INSERT INTO msl_version_items (version_id, product_id, sku_code, product_name, priority, notes)
+    SELECT
+      v_version_id,
+      p.id,
+      p.sku_code,
+      p.product_name,
+      (item->>'priority')::integer,
+      item->>'notes'
+    FROM jsonb_array_elements(v_list->'items') item
+    JOIN products p ON p.sku_code = item->>'sku_code';
+
+    v_count := v_count + 1;
+  END LOOP;
+
+  RETURN v_count;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION snapshot_msl_compliance(p_date date DEFAULT CURRENT_DATE)
+RETURNS integer
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_lookback integer;
+  v_count integer;
+BEGIN
+  SELECT COALESCE((SELECT value::integer FROM app_settings WHERE key = 'msl_lookback_days'), 30)
+  INTO v_lookback;
+
+  INSERT INTO msl_compliance_snapshots (
+    snapshot_date, store_id, category, lookback_days, msl_size, msl_bought, achievement, missing_skus
+  )
+  SELECT
+    p_date,
+    s.id,
+    s.category,
+    v_lookback,
+    COUNT(*)::integer,
+    COUNT(b.sku_code)::integer,
+    ROUND(COUNT(b.sku_code)::numeric / COUNT(*) * 100, 2),
+    COALESCE(ARRAY_AGG(m.sku_code ORDER BY m.sku_code) FILTER (WHERE b.sku_code IS NULL), '{}')
+  FROM stores s
+  CROSS JOIN LATERAL store_msl_items(s.id, p_date) m
+  LEFT JOIN (
+    SELECT DISTINCT v.store_id, p.sku_code
+    FROM visits v
+    JOIN visit_orders vo ON vo.visit_id = v.id
+    JOIN products p ON p.id = vo.product_id
+    WHERE v.visit_date BETWEEN p_date - (v_lookback - 1) AND p_date
+      AND v.voided_at IS NULL
+      AND v.has_order
+      AND v.order_status IS DISTINCT FROM 'cancelled'
+  ) b ON b.store_id = s.id AND b.sku_code = m.sku_code
+  GROUP BY s.id, s.category
+  ON CONFLICT (snapshot_date, store_id) DO UPDATE SET
+    category = EXCLUDED.category,
+    lookback_days = EXCLUDED.lookback_days,
+    msl_size = EXCLUDED.msl_size,
+    msl_bought = EXCLUDED.msl_bought,
+    achievement = EXCLUDED.achievement,
+    missing_skus = EXCLUDED.missing_skus,
+    created_at = now();
+
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+  RETURN v_count;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION sales_kpis(
+  p_start date,
+  p_end date,
+  p_salesman_id uuid DEFAULT NULL,
+  p_group_by text DEFAULT 'total'
+)
+RETURNS TABLE (
+  salesman_id uuid,
+  visit_date date,
+  store_id uuid,
+  total_calls integer,
+  effective_calls integer,
+  total_sales numeric,
+  msl_stores integer,
+  msl_achievement numeric
+)
+LANGUAGE sql
+STABLE
+AS $$
+  WITH scoped_visits AS (
+    SELECT
+      v.id,
+      v.store_id,
+      v.visit_date,
+      v.has_order AND v.order_status IS DISTINCT FROM 'cancelled' AS is_effective,
+      CASE WHEN p_group_by IN ('salesman', 'salesman_day') THEN v.salesman_id END AS g_salesman,
+      CASE WHEN p_group_by IN ('day', 'salesman_day') THEN v.visit_date END AS g_day,
+      CASE WHEN p_group_by = 'store' THEN v.store_id END AS g_store
+    FROM visits v
+    WHERE v.visit_date BETWEEN p_start AND p_end
+      AND v.voided_at IS NULL
+      AND (p_salesman_id IS NULL OR v.salesman_id = p_salesman_id)
+  ),
+  visit_sales AS (
+    SELECT sv.id, COALESCE(SUM(vo.line_total) FILTER (WHERE sv.is_effective), 0) AS sales
+    FROM scoped_visits sv
+    LEFT JOIN visit_orders vo ON vo.visit_id = sv.id
+    GROUP BY sv.id
+  ),
+  call_totals AS (
+    SELECT
+      sv.g_salesman,
+      sv.g_day,
+      sv.g_store,
+      COUNT(*)::integer AS total_calls,
+      COUNT(*) FILTER (WHERE sv.is_effective)::integer AS effective_calls,
+      SUM(vs.sales) AS total_sales
+    FROM scoped_visits sv
+    JOIN visit_sales vs ON vs.id = sv.id
+    GROUP BY sv.g_salesman, sv.g_day, sv.g_store
+  ),
+  store_groups AS (
+    SELECT g_salesman, g_day, g_store, store_id, MAX(visit_date) AS msl_date
+    FROM scoped_visits
+    GROUP BY g_salesman, g_day, g_store, store_id
+  ),
+  bought AS (
+    SELECT DISTINCT sv.g_salesman, sv.g_day, sv.g_store, sv.store_id, p.sku_code
+    FROM scoped_visits sv
+    JOIN visit_orders vo ON vo.visit_id = sv.id
+    JOIN products p ON p.id = vo.product_id
+    WHERE sv.is_effective
+  ),
+  store_msl AS (
+    SELECT
+      sg.g_salesman,
+      sg.g_day,
+      sg.g_store,
+      COUNT(b.sku_code)::numeric / COUNT(*) * 100 AS achievement
+    FROM store_groups sg
+    CROSS JOIN LATERAL store_msl_items(sg.store_id, sg.msl_date) m
+    LEFT JOIN bought b
+      ON b.store_id = sg.store_id
+      AND b.sku_code = m.sku_code
+      AND b.g_salesman IS NOT DISTINCT FROM sg.g_salesman
+      AND b.g_day IS NOT DISTINCT FROM sg.g_day
+      AND b.g_store IS NOT DISTINCT FROM sg.g_store
+    GROUP BY sg.g_salesman, sg.g_day, sg.g_store, sg.store_id
+  ),
+  msl_totals AS (
+    SELECT g_salesman, g_day, g_store, COUNT(*)::integer AS msl_stores, AVG(achievement) AS msl_achievement
+    FROM store_msl
+    GROUP BY g_salesman, g_day, g_store
+  )
+  SELECT
+    ct.g_salesman,
+    ct.g_day,
+    ct.g_store,
+    ct.total_calls,
+    ct.effective_calls,
+    ct.total_sales,
+    COALESCE(mt.msl_stores, 0),
+    COALESCE(mt.msl_achievement, 0)
+  FROM call_totals ct
+  LEFT JOIN msl_totals mt
+    ON mt.g_salesman IS NOT DISTINCT FROM ct.g_salesman
+    AND mt.g_day IS NOT DISTINCT FROM ct.g_day
+    AND mt.g_store IS NOT DISTINCT FROM ct.g_store
+  ORDER BY ct.g_salesman, ct.g_day, ct.g_store;
+$$;
+
+DROP FUNCTION IF EXISTS msl_items_on(date);
@@ -0,0 +1,68 @@
+/*
+  # Import Mapping Profiles
+
+  1. New Tables
+    - `import_mapping_profiles` saved column mappings of an import source, e.g. one
+      distributor's product file
+      - `id` (uuid, primary key)
+      - `import_type` (text: 'stores', 'products', 'msl' or 'targets')
+      - `name` (text, unique per import type)
+      - `source_headers` (text[], the file's headers when the profile was saved; a file with
+        the same headers gets the profile applied automatically)
+      - `mapping` (jsonb, source header -> field, unmapped headers are ignored)
+      - `created_by`, `created_at`, `updated_at`
+
+  2. Security
+    - Everyone reads and saves profiles, so a file mapped once is recognised for everyone;
+      only the creator or an admin can change or delete a profile
+*/
+
+CREATE TABLE IF NOT EXISTS import_mapping_profiles (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  import_type text NOT NULL CHECK (import_type IN ('stores', 'products', 'msl', 'targets')),
+  name text NOT NULL,
+  source_headers text[] NOT NULL DEFAULT '{}',
+  mapping jsonb NOT NULL DEFAULT '{}'::jsonb,
+  created_by uuid DEFAULT auth.uid() REFERENCES users(id),
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  UNIQUE(import_type, name)
+);
+
+-- Enable RLS
+ALTER TABLE import_mapping_profiles ENABLE ROW LEVEL SECURITY;
+
+-- Create indexes
+CREATE INDEX IF NOT EXISTS idx_import_mapping_profiles_type ON import_mapping_profiles(import_type, updated_at DESC);
+
+-- RLS Policies
+CREATE POLICY "Users can read import mapping profiles"
+  ON import_mapping_profiles
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Users can create import mapping profiles"
+  ON import_mapping_profiles
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (created_by = auth.uid());
+
+CREATE POLICY "Owners and admins can update import mapping profiles"
+  ON import_mapping_profiles
+  FOR UPDATE
+  TO authenticated
+  USING (created_by = auth.uid() OR is_admin_from_users())
+  WITH CHECK (created_by = auth.uid() OR is_admin_from_users());
+
+CREATE POLICY "Owners and admins can delete import mapping profiles"
+  ON import_mapping_profiles
+  FOR DELETE
+  TO authenticated
+  USING (created_by = auth.uid() OR is_admin_from_users());
+
+-- Update trigger
+CREATE TRIGGER update_import_mapping_profiles_updated_at
+  BEFORE UPDATE ON import_mapping_profiles
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
@@ -0,0 +1,246 @@
+/*
+  # Import Jobs
+
+  1. New Tables
+    - `import_jobs` one record per store, product or MSL import
+      - `id` (uuid, primary key)
+      - `import_type` (text: 'stores', 'products', 'product_paste' or 'msl')
+      - `file_name` (text), `file_data` (text, the original file base64-encoded)
+      - `status` ('completed' or 'rolled_back')
+      - `total_rows`, `added_count`, `updated_count`, `removed_count`, `failed_count`,
+        `invalid_count` (integer)
+      - `created_by`, `created_at`, `rolled_back_by`, `rolled_back_at`
+    - `import_job_rows` the outcome of every row
+      - `job_id` (uuid), `row_number` (integer, the row in the file; NULL for MSL items the
+        import removed from a list)
+      - `outcome` ('added', 'updated', 'removed', 'failed' or 'invalid'), `message` (text)
+      - `record_table` ('stores', 'products' or 'msl_versions'), `record_id` (uuid)
+      - `before_image` (jsonb, the row before the import updated or removed it)
+
+  2. Functions
+    - `rollback_import_job(p_job_id)` undoes a job in one transaction:
+      - stores and products it added are deleted; added products that are already in orders or
+        lists are deactivated instead, added stores that already have visits stop the rollback
+      - stores and products it updated get their before-image back
+      - MSL versions it published are deleted while still scheduled; versions already in effect
+        get a new version with the list as it was before, effective today, unless a newer
+        version has been published since
+
+  3. Security
+    - Everyone records their own imports, admins read all jobs and roll them back
+*/
+
+CREATE TABLE IF NOT EXISTS import_jobs (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  import_type text NOT NULL CHECK (import_type IN ('stores', 'products', 'product_paste', 'msl')),
+  file_name text NOT NULL,
+  file_data text,
+  status text NOT NULL DEFAULT 'completed' CHECK (status IN ('completed', 'rolled_back')),
+  total_rows integer NOT NULL DEFAULT 0,
+  added_count integer NOT NULL DEFAULT 0,
+  updated_count integer NOT NULL DEFAULT 0,
+  removed_count integer NOT NULL DEFAULT 0,
+  failed_count integer NOT NULL DEFAULT 0,
+  invalid_count integer NOT NULL DEFAULT 0,
+  created_by uuid DEFAULT auth.uid() REFERENCES users(id),
+  created_at timestamptz DEFAULT now(),
+  rolled_back_by uuid REFERENCES users(id),
+  rolled_back_at timestamptz
+);
+
+CREATE TABLE IF NOT EXISTS import_job_rows (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  job_id uuid NOT NULL REFERENCES import_jobs(id) ON DELETE CASCADE,
+  row_number integer,
+  outcome text NOT NULL CHECK (outcome IN ('added', 'updated', 'removed', 'failed', 'invalid')),
+  message text,
+  record_table text CHECK (record_table IN ('stores', 'products', 'msl_versions')),
+  record_id uuid,
+  before_image jsonb
+);
+
+-- Enable RLS
+ALTER TABLE import_jobs ENABLE ROW LEVEL SECURITY;
+ALTER TABLE import_job_rows ENABLE ROW LEVEL SECURITY;
+
+-- Create indexes
+CREATE INDEX IF NOT EXISTS idx_import_jobs_created ON import_jobs(created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_import_job_rows_job ON import_job_rows(job_id, row_number);
+
+-- RLS Policies
+CREATE POLICY "Admins can manage import jobs"
+  ON import_jobs
+  FOR ALL
+  TO authenticated
+  USING (is_admin_from_users())
+  WITH CHECK (is_admin_from_users());
+
+CREATE POLICY "Users can create own import jobs"
+  ON import_jobs
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (created_by = auth.uid());
+
+CREATE POLICY "Users can read own import jobs"
+  ON import_jobs
+  FOR SELECT
+  TO authenticated
+  USING (created_by = auth.uid());
+
+-- Counts are written once the rows are processed
+CREATE POLICY "Users can update own import jobs"
+  ON import_jobs
+  FOR UPDATE
+  TO authenticated
+  USING (created_by = auth.uid() AND status = 'completed')
+  WITH CHECK (created_by = auth.uid() AND status = 'completed');
+
+CREATE POLICY "Admins can read import job rows"
+  ON import_job_rows
+  FOR SELECT
+  TO authenticated
+  USING (is_admin_from_users());
+
+CREATE POLICY "Users can manage own import job rows"
+  ON import_job_rows
+  FOR ALL
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM import_jobs
+      WHERE import_jobs.id = import_job_rows.job_id
+      AND import_jobs.created_by = auth.uid()
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM import_jobs
+      WHERE import_jobs.id = import_job_rows.job_id
+      AND import_jobs.created_by = auth.uid()
+    )
+  );
+
+CREATE OR REPLACE FUNCTION rollback_import_job(p_job_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_job import_jobs%ROWTYPE;
+  v_row import_job_rows%ROWTYPE;
+  v_version msl_versions%ROWTYPE;
+  v_previous_id uuid;
+  v_new_version_id uuid;
+BEGIN
+  IF NOT is_admin_from_users() THEN
+    RAISE EXCEPTION 'Only admins can roll back imports';
+  END IF;
+
+  SELECT * INTO v_job FROM import_jobs WHERE id = p_job_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Import job % not found', p_job_id;
+  END IF;
+  IF v_job.status = 'rolled_back' THEN
+    RAISE EXCEPTION 'Import job % is already rolled back', p_job_id;
+  END IF;
+
+  -- Stores and products, last row first
+  FOR v_row IN
+    SELECT * FROM import_job_rows
+    WHERE job_id = p_job_id
+      AND record_table IN ('stores', 'products')
+      AND outcome IN ('added', 'updated')
+    ORDER BY row_number DESC
+  LOOP
+    IF v_row.record_table = 'stores' AND v_row.outcome = 'added' THEN
+      BEGIN
+        DELETE FROM stores WHERE id = v_row.record_id;
+      EXCEPTION WHEN foreign_key_violation THEN
+        RAISE EXCEPTION 'Store from row % already has visits and cannot be removed', v_row.row_number;
+      END;
+    ELSIF v_row.record_table = 'stores' THEN
+      UPDATE stores s SET
+        store_name = b.store_name,
+        category = b.category,
+        address = b.address,
+        gmaps_link = b.gmaps_link,
+        latitude = b.latitude,
+        longitude = b.longitude,
+        route = b.route,
+        phone = b.phone,
+        average_order_value = b.average_order_value,
+        order_frequency = b.order_frequency,
+        key_contact = b.key_contact,
+        notes = b.notes
+      FROM jsonb_populate_record(NULL::stores, v_row.before_image) b
+      WHERE s.id = v_row.record_id;
+    ELSIF v_row.outcome = 'added' THEN
+      BEGIN
+        DELETE FROM products WHERE id = v_row.record_id;
+      EXCEPTION WHEN foreign_key_violation THEN
+        UPDATE products SET is_active = false, updated_at = now() WHERE id = v_row.record_id;
+      END;
+    ELSE
+      UPDATE products p SET
+        product_name = b.product_name,
+        brand = b.brand,
+        category = b.category,
+        unit_price = b.unit_price,
+        updated_at = now()
+      FROM jsonb_populate_record(NULL::products, v_row.before_image) b
+      WHERE p.id = v_row.record_id;
+    END IF;
+  END LOOP;
+
+  -- MSL versions
+  FOR v_version IN
+    SELECT * FROM msl_versions
+    WHERE id IN (
+      SELECT record_id FROM import_job_rows
+      WHERE job_id = p_job_id AND record_table = 'msl_versions'
+    )
+  LOOP
+    IF v_version.effective_from > CURRENT_DATE THEN
+      DELETE FROM msl_versions WHERE id = v_version.id;
+      CONTINUE;
+    END IF;
+
+    IF EXISTS (
+      SELECT 1 FROM msl_versions
+      WHERE category = v_version.category
+        AND cluster_id IS NOT DISTINCT FROM v_version.cluster_id
+        AND version > v_version.version
+    ) THEN
+      RAISE EXCEPTION 'The MSL of % has a newer version than the one this import published', v_version.category;
+    END IF;
+
+    SELECT id INTO v_previous_id
+    FROM msl_versions
+    WHERE category = v_version.category
+      AND cluster_id IS NOT DISTINCT FROM v_version.cluster_id
+      AND version < v_version.version
+    ORDER BY version DESC
+    LIMIT 1;
+
+    -- Without an earlier version the list goes back to empty
+    INSERT INTO msl_versions (category, cluster_id, version, effective_from, notes, created_by)
+    VALUES (
+      v_version.category,
+      v_version.cluster_id,
+      v_version.version + 1,
+      CURRENT_DATE,
+      'Rollback import ' || v_job.file_name,
+      auth.uid()
+    )
+    RETURNING id INTO v_new_version_id;
+
+    INSERT INTO msl_version_items (version_id, product_id, sku_code, product_name, priority, notes)
+    SELECT v_new_version_id, product_id, sku_code, product_name, priority, notes
+    FROM msl_version_items
+    WHERE version_id = v_previous_id;
+  END LOOP;
+
+  UPDATE import_jobs
+  SET status = 'rolled_back', rolled_back_by = auth.uid(), rolled_back_at = now()
+  WHERE id = p_job_id;
+END;
+$$;
@@ -0,0 +1,245 @@
+/*
+  # Batched Store and Product Imports
+
+  1. Changes
+    - `import_jobs.status` gains 'running': a job is running until its last row is recorded, so
+      an import interrupted half way (tab closed, connection lost) shows up in the history and
+      can be rolled back
+    - `import_jobs.all_or_nothing` (boolean) whether the file was applied in one transaction
+
+  2. New Tables
+    - `import_job_staged_rows` rows of an all-or-nothing import, uploaded in batches before the
+      whole file is applied
+      - `job_id` (uuid), `row_number` (integer, the row in the file), `data` (jsonb)
+
+  3. Functions
+    - `apply_import_rows(p_job_id, p_rows, p_all_or_nothing)` upserts a batch of store or
+      product rows (`[{ row_number, data }]`) keyed on `store_code` / `sku_code` and records
+      each row's outcome and before-image on the job. A failing row is recorded as failed, or
+      with `p_all_or_nothing` stops the whole call. Returns `{ added, updated, failed }`
+    - `apply_staged_import(p_job_id)` applies all staged rows of a job in one transaction
+    - `complete_import_job(p_job_id)` sets the job's counts from its rows, marks it completed
+      and clears rows left staged by a failed all-or-nothing import
+
+  4. Security
+    - SECURITY INVOKER: the caller's store and product policies apply, and only the job's creator
+      can add rows to it
+*/
+
+ALTER TABLE import_jobs DROP CONSTRAINT IF EXISTS import_jobs_status_check;
+ALTER TABLE import_jobs ADD CONSTRAINT import_jobs_status_check
+  CHECK (status IN ('running', 'completed', 'rolled_back'));
+ALTER TABLE import_jobs ALTER COLUMN status SET DEFAULT 'running';
+ALTER TABLE import_jobs ADD COLUMN IF NOT EXISTS all_or_nothing boolean NOT NULL DEFAULT false;
+
+CREATE TABLE IF NOT EXISTS import_job_staged_rows (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  job_id uuid NOT NULL REFERENCES import_jobs(id) ON DELETE CASCADE,
+  row_number integer NOT NULL,
+  data jsonb NOT NULL
+);
+
+-- Enable RLS
+ALTER TABLE import_job_staged_rows ENABLE ROW LEVEL SECURITY;
+
+-- Create indexes
+CREATE INDEX IF NOT EXISTS idx_import_job_staged_rows_job ON import_job_staged_rows(job_id, row_number);
+
+-- RLS Policies
+DROP POLICY IF EXISTS "Users can update own import jobs" ON import_jobs;
+CREATE POLICY "Users can update own import jobs"
+  ON import_jobs
+  FOR UPDATE
+  TO authenticated
+  USING (created_by = auth.uid() AND status <> 'rolled_back')
+  WITH CHECK (created_by = auth.uid() AND status <> 'rolled_back');
+
+CREATE POLICY "Users can manage own staged import rows"
+  ON import_job_staged_rows
+  FOR ALL
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM import_jobs
+      WHERE import_jobs.id = import_job_staged_rows.job_id
+      AND import_jobs.created_by = auth.uid()
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM import_jobs
+      WHERE import_jobs.id = import_job_staged_rows.job_id
+      AND import_jobs.created_by = auth.uid()
+    )
+  );
+
+CREATE OR REPLACE FUNCTION apply_import_rows(p_job_id uuid, p_rows jsonb, p_all_or_nothing boolean DEFAULT false)
+RETURNS jsonb
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_job import_jobs%ROWTYPE;
+  v_row jsonb;
+  v_row_number integer;
+  v_store stores%ROWTYPE;
+  v_product products%ROWTYPE;
+  v_before jsonb;
+  v_record_id uuid;
+  v_added integer := 0;
+  v_updated integer := 0;
+  v_failed integer := 0;
+BEGIN
+  SELECT * INTO v_job FROM import_jobs WHERE id = p_job_id;
+  IF NOT FOUND OR v_job.created_by IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'Import job % not found', p_job_id;
+  END IF;
+  IF v_job.status <> 'running' THEN
+    RAISE EXCEPTION 'Import job % is already %', p_job_id, v_job.status;
+  END IF;
+  IF v_job.import_type NOT IN ('stores', 'products') THEN
+    RAISE EXCEPTION 'Import job % is not a store or product import', p_job_id;
+  END IF;
+
+  FOR v_row IN SELECT * FROM jsonb_array_elements(p_rows) LOOP
+    v_row_number := (v_row->>'row_number')::integer;
+
+    BEGIN
+      IF v_job.import_type = 'stores' THEN
+        v_store := jsonb_populate_record(NULL::stores, v_row->'data');
+
+        SELECT to_jsonb(s), s.id INTO v_before, v_record_id
+        FROM stores s
+        WHERE s.store_code = v_store.store_code AND s.created_by = auth.uid();
+
+        IF v_record_id IS NOT NULL THEN
+          UPDATE stores SET
+            store_name = v_store.store_name,
+            category = v_store.category,
+            address = v_store.address,
+            gmaps_link = v_store.gmaps_link,
+            -- Keep coordinates captured on site when the link has none
+            latitude = COALESCE(v_store.latitude, latitude),
+            longitude = COALESCE(v_store.longitude, longitude),
+            route = v_store.route,
+            phone = v_store.phone,
+            average_order_value = v_store.average_order_value,
+            order_frequency = v_store.order_frequency,
+            key_contact = v_store.key_contact,
+            notes = v_store.notes
+          WHERE id = v_record_id;
+        ELSE
+          INSERT INTO stores (
+            store_code, store_name, category, address, gmaps_link, latitude, longitude, route,
+            phone, average_order_value, order_frequency, key_contact, notes, created_by
+          )
+          VALUES (
+            v_store.store_code, v_store.store_name, v_store.category, v_store.address,
+            v_store.gmaps_link, v_store.latitude, v_store.longitude, v_store.route, v_store.phone,
+            v_store.average_order_value, v_store.order_frequency, v_store.key_contact,
+            v_store.notes, auth.uid()
+          )
+          RETURNING id INTO v_record_id;
+        END IF;
+      ELSE
+        v_product := jsonb_populate_record(NULL::products, v_row->'data');
+
+        SELECT to_jsonb(p), p.id INTO v_before, v_record_id
+        FROM products p
+        WHERE p.sku_code = v_product.sku_code;
+
+        IF v_record_id IS NOT NULL THEN
+          UPDATE products SET
+            product_name = v_product.product_name,
+            brand = v_product.brand,
+            category = v_product.category,
+            unit_price = v_product.unit_price,
+            updated_at = now()
+          WHERE id = v_record_id;
+        ELSE
+          INSERT INTO products (sku_code, product_name, brand, category, unit_price, is_active)
+          VALUES (v_product.sku_code, v_product.product_name, v_product.brand, v_product.category, v_product.unit_price, true)
+          RETURNING id INTO v_record_id;
+        END IF;
+      END IF;
+
+      INSERT INTO import_job_rows (job_id, row_number, outcome, record_table, record_id, before_image)
+      VALUES (
+        p_job_id,
+        v_row_number,
+        CASE WHEN v_before IS NULL THEN 'added' ELSE 'updated' END,
+        v_job.import_type,
+        v_record_id,
+        v_before
+      );
+
+      IF v_before IS NULL THEN
+        v_added := v_added + 1;
+      ELSE
+        v_updated := v_updated + 1;
+      END IF;
+    EXCEPTION WHEN OTHERS THEN
+      IF p_all_or_nothing THEN
+        RAISE EXCEPTION 'Row %: %', v_row_number, SQLERRM;
+      END IF;
+
+      INSERT INTO import_job_rows (job_id, row_number, outcome, message)
+      VALUES (p_job_id, v_row_number, 'failed', SQLERRM);
+      v_failed := v_failed + 1;
+    END;
+  END LOOP;
+
+  RETURN jsonb_build_object('added', v_added, 'updated', v_updated, 'failed', v_failed);
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION apply_staged_import(p_job_id uuid)
+RETURNS jsonb
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_result jsonb;
+BEGIN
+  SELECT apply_import_rows(
+    p_job_id,
+    COALESCE(jsonb_agg(jsonb_build_object('row_number', row_number, 'data', data) ORDER BY row_number), '[]'::jsonb),
+    true
+  )
+  INTO v_result
+  FROM import_job_staged_rows
+  WHERE job_id = p_job_id;
+
+  DELETE FROM import_job_staged_rows WHERE job_id = p_job_id;
+
+  RETURN v_result;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION complete_import_job(p_job_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  UPDATE import_jobs j SET
+    status = 'completed',
+    total_rows = c.total_rows,
+    added_count = c.added_count,
+    updated_count = c.updated_count,
+    removed_count = c.removed_count,
+    failed_count = c.failed_count,
+    invalid_count = c.invalid_count
+  FROM (
+    SELECT
+      COUNT(*) FILTER (WHERE row_number IS NOT NULL) AS total_rows,
+      COUNT(*) FILTER (WHERE outcome = 'added') AS added_count,
+      COUNT(*) FILTER (WHERE outcome = 'updated') AS updated_count,
+      COUNT(*) FILTER (WHERE outcome = 'removed') AS removed_count,
+      COUNT(*) FILTER (WHERE outcome = 'failed') AS failed_count,
+      COUNT(*) FILTER (WHERE outcome = 'invalid') AS invalid_count
+    FROM import_job_rows
+    WHERE job_id = p_job_id
+  ) c
+  WHERE j.id = p_job_id AND j.status = 'running';
+
+  DELETE FROM import_job_staged_rows WHERE job_id = p_job_id;
+END;
+$$;
@@ -0,0 +1,84 @@
+/*
+  # Read-only Import Records
+
+  1. Security
+    - Users no longer update their import jobs: the "Users can update own import jobs" policy is
+      dropped, so status and counts are only written by `complete_import_job` and by an admin's
+      `rollback_import_job`
+    - Users only record and read the rows of their own imports: the "Users can manage own import
+      job rows" policy (FOR ALL) is replaced by INSERT and SELECT policies, and rows can only be
+      added while the job is running
+    - `complete_import_job(p_job_id)` runs as SECURITY DEFINER and only completes a running job of
+      the caller
+*/
+
+-- RLS Policies
+DROP POLICY IF EXISTS "Users can update own import jobs" ON import_jobs;
+DROP POLICY IF EXISTS "Users can manage own import job rows" ON import_job_rows;
+
+CREATE POLICY "Users can read own import job rows"
+  ON import_job_rows
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM import_jobs
+      WHERE import_jobs.id = import_job_rows.job_id
+      AND import_jobs.created_by = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can record rows of own running import jobs"
+  ON import_job_rows
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM import_jobs
+      WHERE import_jobs.id = import_job_rows.job_id
+      AND import_jobs.created_by = auth.uid()
+      AND import_jobs.status = 'running'
+    )
+  );
+
+CREATE OR REPLACE FUNCTION complete_import_job(p_job_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_job import_jobs%ROWTYPE;
+BEGIN
+  SELECT * INTO v_job FROM import_jobs WHERE id = p_job_id FOR UPDATE;
+  IF NOT FOUND OR v_job.created_by IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'Import job % not found', p_job_id;
+  END IF;
+  IF v_job.status <> 'running' THEN
+    RAISE EXCEPTION 'Import job % is already %', p_job_id, v_job.status;
+  END IF;
+
+  UPDATE import_jobs j SET
+    status = 'completed',
+    total_rows = c.total_rows,
+    added_count = c.added_count,
+    updated_count = c.updated_count,
+    removed_count = c.removed_count,
+    failed_count = c.failed_count,
+    invalid_count = c.invalid_count
+  FROM (
+    SELECT
+      COUNT(*) FILTER (WHERE row_number IS NOT NULL) AS total_rows,
+      COUNT(*) FILTER (WHERE outcome = 'added') AS added_count,
+      COUNT(*) FILTER (WHERE outcome = 'updated') AS updated_count,
+      COUNT(*) FILTER (WHERE outcome = 'removed') AS removed_count,
+      COUNT(*) FILTER (WHERE outcome = 'failed') AS failed_count,
+      COUNT(*) FILTER (WHERE outcome = 'invalid') AS invalid_count
+    FROM import_job_rows
+    WHERE job_id = p_job_id
+  ) c
+  WHERE j.id = p_job_id;
+
+  DELETE FROM import_job_staged_rows WHERE job_id = p_job_id;
+END;
+$$;
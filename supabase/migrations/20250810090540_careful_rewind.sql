@@ -0,0 +1,288 @@
+/*
+  # Rollback Skips Records Changed After an Import
+
+  1. Changes
+    - `import_job_rows.after_image` (jsonb) the store or product as the import left it
+    - `apply_import_rows` records the after-image of every store and product it adds or updates
+
+  2. Functions
+    - `rollback_import_job(p_job_id)` compares each store and product with its after-image before
+      deleting it or writing its before-image back. Records changed or deleted since the import
+      are left as they are, and returned as `[{ row_number, record_table, record_id }]` so the
+      admin can check them. Rows without an after-image (imports from before this migration)
+      are rolled back as before
+*/
+
+ALTER TABLE import_job_rows ADD COLUMN IF NOT EXISTS after_image jsonb;
+
+CREATE OR REPLACE FUNCTION apply_import_rows(p_job_id uuid, p_rows jsonb, p_all_or_nothing boolean DEFAULT false)
+RETURNS jsonb
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_job import_jobs%ROWTYPE;
+  v_row jsonb;
+  v_row_number integer;
+  v_store stores%ROWTYPE;
+  v_product products%ROWTYPE;
+  v_before jsonb;
+  v_after jsonb;
+  v_record_id uuid;
+  v_added integer := 0;
+  v_updated integer := 0;
+  v_failed integer := 0;
+BEGIN
+  SELECT * INTO v_job FROM import_jobs WHERE id = p_job_id;
+  IF NOT FOUND OR v_job.created_by IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'Import job % not found', p_job_id;
+  END IF;
+  IF v_job.status <> 'running' THEN
+    RAISE EXCEPTION 'Import job % is already %', p_job_id, v_job.status;
+  END IF;
+  IF v_job.import_type NOT IN ('stores', 'products') THEN
+    RAISE EXCEPTION 'Import job % is not a store or product import', p_job_id;
+  END IF;
+
+  FOR v_row IN SELECT * FROM jsonb_array_elements(p_rows) LOOP
+    v_row_number := (v_row->>'row_number')::integer;
+
+    BEGIN
+      IF v_job.import_type = 'stores' THEN
+        v_store := jsonb_populate_record(NULL::stores, v_row->'data');
+
+        SELECT to_jsonb(s), s.id INTO v_before, v_record_id
+        FROM stores s
+        WHERE s.store_code = v_store.store_code AND s.created_by = auth.uid();
+
+        IF v_record_id IS NOT NULL THEN
+          UPDATE stores SET
+            store_name = v_store.store_name,
+            category = v_store.category,
+            address = v_store.address,
+            gmaps_link = v_store.gmaps_link,
+            -- Keep coordinates captured on site when the link has none
+            latitude = COALESCE(v_store.latitude, latitude),
+            longitude = COALESCE(v_store.longitude, longitude),
+            route = v_store.route,
+            phone = v_store.phone,
+            average_order_value = v_store.average_order_value,
+            order_frequency = v_store.order_frequency,
+            key_contact = v_store.key_contact,
+            notes = v_store.notes
+          WHERE id = v_record_id
+          RETURNING to_jsonb(stores.*) INTO v_after;
+        ELSE
+          INSERT INTO stores (
+            store_code, store_name, category, address, gmaps_link, latitude, longitude, route,
+            phone, average_order_value, order_frequency, key_contact, notes, created_by
+          )
+          VALUES (
+            v_store.store_code, v_store.store_name, v_store.category, v_store.address,
+            v_store.gmaps_link, v_store.latitude, v_store.longitude, v_store.route, v_store.phone,
+            v_store.average_order_value, v_store.order_frequency, v_store.key_contact,
+            v_store.notes, auth.uid()
+          )
+          RETURNING id, to_jsonb(stores.*) INTO v_record_id, v_after;
+        END IF;
+      ELSE
+        v_product := jsonb_populate_record(NULL::products, v_row->'data');
+
+        SELECT to_jsonb(p), p.id INTO v_before, v_record_id
+        FROM products p
+        WHERE p.sku_code = v_product.sku_code;
+
+        IF v_record_id IS NOT NULL THEN
+          UPDATE products SET
+            product_name = v_product.product_name,
+            brand = v_product.brand,
+            category = v_product.category,
+            unit_price = v_product.unit_price,
+            updated_at = now()
+          WHERE id = v_record_id
+          RETURNING to_jsonb(products.*) INTO v_after;
+        ELSE
+          INSERT INTO products (sku_code, product_name, brand, category, unit_price, is_active)
+          VALUES (v_product.sku_code, v_product.product_name, v_product.brand, v_product.category, v_product.unit_price, true)
+          RETURNING id, to_jsonb(products.*) INTO v_record_id, v_after;
+        END IF;
+      END IF;
+
+      INSERT INTO import_job_rows (job_id, row_number, outcome, record_table, record_id, before_image, after_image)
+      VALUES (
+        p_job_id,
+        v_row_number,
+        CASE WHEN v_before IS NULL THEN 'added' ELSE 'updated' END,
+        v_job.import_type,
+        v_record_id,
+        v_before,
+        v_after
+      );
+
+      IF v_before IS NULL THEN
+        v_added := v_added + 1;
+      ELSE
+        v_updated := v_updated + 1;
+      END IF;
+    EXCEPTION WHEN OTHERS THEN
+      IF p_all_or_nothing THEN
+        RAISE EXCEPTION 'Row %: %', v_row_number, SQLERRM;
+      END IF;
+
+      INSERT INTO import_job_rows (job_id, row_number, outcome, message)
+      VALUES (p_job_id, v_row_number, 'failed', SQLERRM);
+      v_failed := v_failed + 1;
+    END;
+  END LOOP;
+
+  RETURN jsonb_build_object('added', v_added, 'updated', v_updated, 'failed', v_failed);
+END;
+$$;
+
+-- The return type changes from void
+DROP FUNCTION IF EXISTS rollback_import_job(uuid);
+
+CREATE FUNCTION rollback_import_job(p_job_id uuid)
+RETURNS jsonb
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_job import_jobs%ROWTYPE;
+  v_row import_job_rows%ROWTYPE;
+  v_version msl_versions%ROWTYPE;
+  v_previous_id uuid;
+  v_new_version_id uuid;
+  v_current jsonb;
+  v_skipped jsonb := '[]'::jsonb;
+BEGIN
+  IF NOT is_admin_from_users() THEN
+    RAISE EXCEPTION 'Only admins can roll back imports';
+  END IF;
+
+  SELECT * INTO v_job FROM import_jobs WHERE id = p_job_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Import job % not found', p_job_id;
+  END IF;
+  IF v_job.status = 'rolled_back' THEN
+    RAISE EXCEPTION 'Import job % is already rolled back', p_job_id;
+  END IF;
+
+  -- Stores and products, last row first
+  FOR v_row IN
+    SELECT * FROM import_job_rows
+    WHERE job_id = p_job_id
+      AND record_table IN ('stores', 'products')
+      AND outcome IN ('added', 'updated')
+    ORDER BY row_number DESC
+  LOOP
+    IF v_row.record_table = 'stores' THEN
+      SELECT to_jsonb(s) INTO v_current FROM stores s WHERE s.id = v_row.record_id;
+    ELSE
+      SELECT to_jsonb(p) INTO v_current FROM products p WHERE p.id = v_row.record_id;
+    END IF;
+
+    -- Changed or deleted since the import: leave it and report it. Rows recorded before
+    -- after-images were kept have none and are rolled back as before
+    IF v_row.after_image IS NOT NULL AND (v_current IS NULL OR NOT v_current @> v_row.after_image) THEN
+      v_skipped := v_skipped || jsonb_build_object(
+        'row_number', v_row.row_number,
+        'record_table', v_row.record_table,
+        'record_id', v_row.record_id
+      );
+      CONTINUE;
+    END IF;
+
+    IF v_row.record_table = 'stores' AND v_row.outcome = 'added' THEN
+      BEGIN
+        DELETE FROM stores WHERE id = v_row.record_id;
+      EXCEPTION WHEN foreign_key_violation THEN
+        RAISE EXCEPTION 'Store from row % already has visits and cannot be removed', v_row.row_number;
+      END;
+    ELSIF v_row.record_table = 'stores' THEN
+      UPDATE stores s SET
+        store_name = b.store_name,
+        category = b.category,
+        address = b.address,
+        gmaps_link = b.gmaps_link,
+        latitude = b.latitude,
+        longitude = b.longitude,
+        route = b.route,
+        phone = b.phone,
+        average_order_value = b.average_order_value,
+        order_frequency = b.order_frequency,
+        key_contact = b.key_contact,
+        notes = b.notes
+      FROM jsonb_populate_record(NULL::stores, v_row.before_image) b
+      WHERE s.id = v_row.record_id;
+    ELSIF v_row.outcome = 'added' THEN
+      BEGIN
+        DELETE FROM products WHERE id = v_row.record_id;
+      EXCEPTION WHEN foreign_key_violation THEN
+        UPDATE products SET is_active = false, updated_at = now() WHERE id = v_row.record_id;
+      END;
+    ELSE
+      UPDATE products p SET
+        product_name = b.product_name,
+        brand = b.brand,
+        category = b.category,
+        unit_price = b.unit_price,
+        updated_at = now()
+      FROM jsonb_populate_record(NULL::products, v_row.before_image) b
+      WHERE p.id = v_row.record_id;
+    END IF;
+  END LOOP;
+
+  -- MSL versions
+  FOR v_version IN
+    SELECT * FROM msl_versions
+    WHERE id IN (
+      SELECT record_id FROM import_job_rows
+      WHERE job_id = p_job_id AND record_table = 'msl_versions'
+    )
+  LOOP
+    IF v_version.effective_from > CURRENT_DATE THEN
+      DELETE FROM msl_versions WHERE id = v_version.id;
+      CONTINUE;
+    END IF;
+
+    IF EXISTS (
+      SELECT 1 FROM msl_versions
+      WHERE category = v_version.category
+        AND cluster_id IS NOT DISTINCT FROM v_version.cluster_id
+        AND version > v_version.version
+    ) THEN
+      RAISE EXCEPTION 'The MSL of % has a newer version than the one this import published', v_version.category;
+    END IF;
+
+    SELECT id INTO v_previous_id
+    FROM msl_versions
+    WHERE category = v_version.category
+      AND cluster_id IS NOT DISTINCT FROM v_version.cluster_id
+      AND version < v_version.version
+    ORDER BY version DESC
+    LIMIT 1;
+
+    -- Without an earlier version the list goes back to empty
+    INSERT INTO msl_versions (category, cluster_id, version, effective_from, notes, created_by)
+    VALUES (
+      v_version.category,
+      v_version.cluster_id,
+      v_version.version + 1,
+      CURRENT_DATE,
+      'Rollback import ' || v_job.file_name,
+      auth.uid()
+    )
+    RETURNING id INTO v_new_version_id;
+
+    INSERT INTO msl_version_items (version_id, product_id, sku_code, product_name, priority, notes)
+    SELECT v_new_version_id, product_id, sku_code, product_name, priority, notes
+    FROM msl_version_items
+    WHERE version_id = v_previous_id;
+  END LOOP;
+
+  UPDATE import_jobs
+  SET status = 'rolled_back', rolled_back_by = auth.uid(), rolled_back_at = now()
+  WHERE id = p_job_id;
+
+  RETURN v_skipped;
+END;
+$$;
@@ -0,0 +1,81 @@
+/*
+  # MSL Publish Returns Its Versions
+
+  1. Functions
+    - `publish_msl_versions(p_effective_from, p_notes, p_lists)` returns the versions it created,
+      `[{ category, cluster_id, version_id }]` in the order of `p_lists`, instead of their count,
+      so the MSL import records exactly those versions on its job even while someone else
+      publishes
+*/
+
+-- The return type changes from integer
+DROP FUNCTION IF EXISTS publish_msl_versions(date, text, jsonb);
+
+CREATE FUNCTION publish_msl_versions(p_effective_from date, p_notes text, p_lists jsonb)
+RETURNS jsonb
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_list jsonb;
+  v_cluster_id uuid;
+  v_version_id uuid;
+  v_unknown_sku text;
+  v_published jsonb := '[]'::jsonb;
+BEGIN
+  IF p_effective_from < CURRENT_DATE THEN
+    RAISE EXCEPTION 'MSL versions cannot take effect in the past';
+  END IF;
+
+  FOR v_list IN SELECT * FROM jsonb_array_elements(p_lists) LOOP
+    v_cluster_id := NULLIF(v_list->>'cluster_id', '')::uuid;
+
+    IF v_cluster_id IS NOT NULL AND NOT EXISTS (
+      SELECT 1 FROM store_clusters WHERE id = v_cluster_id AND category = v_list->>'category'
+    ) THEN
+      RAISE EXCEPTION 'Cluster % does not belong to category %', v_cluster_id, v_list->>'category';
+    END IF;
+
+    SELECT item->>'sku_code'
+    INTO v_unknown_sku
+    FROM jsonb_array_elements(v_list->'items') item
+    WHERE NOT EXISTS (SELECT 1 FROM products p WHERE p.sku_code = item->>'sku_code')
+    LIMIT 1;
+
+    IF v_unknown_sku IS NOT NULL THEN
+      RAISE EXCEPTION 'SKU % in the MSL of % is not in the product master', v_unknown_sku, v_list->>'category';
+    END IF;
+
+    INSERT INTO msl_versions (category, cluster_id, version, effective_from, notes, created_by)
+    SELECT
+      v_list->>'category',
+      v_cluster_id,
+      COALESCE(MAX(version), 0) + 1,
+      p_effective_from,
+      p_notes,
+      auth.uid()
+    FROM msl_versions
+    WHERE category = v_list->>'category'
+      AND cluster_id IS NOT DISTINCT FROM v_cluster_id
+    RETURNING id INTO v_version_id;
+
+    INSERT INTO msl_version_items (version_id, product_id, sku_code, product_name, priority, notes)
+    SELECT
+      v_version_id,
+      p.id,
+      p.sku_code,
+      p.product_name,
+      (item->>'priority')::integer,
+      item->>'notes'
+    FROM jsonb_array_elements(v_list->'items') item
+    JOIN products p ON p.sku_code = item->>'sku_code';
+
+    v_published := v_published || jsonb_build_object(
+      'category', v_list->>'category',
+      'cluster_id', v_cluster_id,
+      'version_id', v_version_id
+    );
+  END LOOP;
+
+  RETURN v_published;
+END;
+$$;
@@ -0,0 +1,160 @@
+/*
+  # Order Prices From the Product Master
+
+  1. Functions
+    - `submit_visit(p_visit, p_store, p_orders)` prices every order line at `products.unit_price`.
+      A `unit_price` sent with the line is ignored, so a salesman cannot change the price of an
+      order. A product without a price is reported as an error on `orders.<index>.unit_price`
+    - Visits queued offline are priced when they are submitted
+*/
+
+CREATE OR REPLACE FUNCTION submit_visit(
+  p_visit jsonb,
+  p_store jsonb DEFAULT NULL,
+  p_orders jsonb DEFAULT '[]'::jsonb
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_visit_id uuid := COALESCE((p_visit->>'id')::uuid, gen_random_uuid());
+  v_store_id uuid := (p_visit->>'store_id')::uuid;
+  v_has_order boolean := COALESCE((p_visit->>'has_order')::boolean, false);
+  v_orders jsonb := CASE WHEN v_has_order THEN COALESCE(p_orders, '[]'::jsonb) ELSE '[]'::jsonb END;
+  v_errors jsonb := '[]'::jsonb;
+  v_order jsonb;
+  v_index integer := 0;
+  v_max_discount numeric;
+  v_store_category text;
+BEGIN
+  -- Already submitted: a retry from the offline queue
+  SELECT store_id INTO v_store_id FROM visits WHERE id = v_visit_id;
+  IF FOUND THEN
+    RETURN jsonb_build_object('visit_id', v_visit_id, 'store_id', v_store_id, 'errors', v_errors);
+  END IF;
+  v_store_id := (p_visit->>'store_id')::uuid;
+
+  -- Store
+  IF p_store IS NOT NULL THEN
+    IF COALESCE(trim(p_store->>'store_name'), '') = '' THEN
+      v_errors := v_errors || jsonb_build_object('field', 'store.store_name', 'message', 'Nama toko wajib diisi');
+    END IF;
+    IF COALESCE(trim(p_store->>'store_code'), '') = '' THEN
+      v_errors := v_errors || jsonb_build_object('field', 'store.store_code', 'message', 'Kode toko wajib diisi');
+    END IF;
+    IF COALESCE(trim(p_store->>'category'), '') = '' THEN
+      v_errors := v_errors || jsonb_build_object('field', 'store.category', 'message', 'Kategori toko wajib diisi');
+    END IF;
+  ELSIF v_store_id IS NULL THEN
+    v_errors := v_errors || jsonb_build_object('field', 'store_id', 'message', 'Pilih toko yang dikunjungi');
+  END IF;
+
+  -- Visit
+  IF p_visit->>'visit_date' IS NULL THEN
+    v_errors := v_errors || jsonb_build_object('field', 'visit_date', 'message', 'Tanggal kunjungan wajib diisi');
+  END IF;
+  IF NOT v_has_order AND COALESCE(trim(p_visit->>'notes'), '') = '' THEN
+    v_errors := v_errors || jsonb_build_object('field', 'notes', 'message', 'Pilih alasan tidak order');
+  END IF;
+  IF v_has_order AND jsonb_array_length(v_orders) = 0 THEN
+    v_errors := v_errors || jsonb_build_object('field', 'orders', 'message', 'Tambahkan minimal satu produk');
+  END IF;
+
+  -- Order lines
+  v_store_category := COALESCE(p_store->>'category', (SELECT category FROM stores WHERE id = v_store_id));
+
+  FOR v_order IN SELECT * FROM jsonb_array_elements(v_orders) LOOP
+    IF NOT EXISTS (
+      SELECT 1 FROM products
+      WHERE id = (v_order->>'product_id')::uuid
+        AND is_active
+    ) THEN
+      v_errors := v_errors || jsonb_build_object('field', format('orders.%s.product_id', v_index), 'message', 'Produk tidak ditemukan atau tidak aktif');
+    END IF;
+    IF COALESCE((v_order->>'quantity')::numeric, 0) <= 0 THEN
+      v_errors := v_errors || jsonb_build_object('field', format('orders.%s.quantity', v_index), 'message', 'Jumlah harus lebih dari 0');
+    END IF;
+    -- The price comes from the product master, not from the order line
+    IF COALESCE((SELECT unit_price FROM products WHERE id = (v_order->>'product_id')::uuid), 0) <= 0 THEN
+      v_errors := v_errors || jsonb_build_object('field', format('orders.%s.unit_price', v_index), 'message', 'Harga produk belum diatur');
+    END IF;
+    IF COALESCE((v_order->>'discount_percentage')::numeric, 0) NOT BETWEEN 0 AND 100 THEN
+      v_errors := v_errors || jsonb_build_object('field', format('orders.%s.discount_percentage', v_index), 'message', 'Diskon harus antara 0 dan 100%');
+    END IF;
+    v_max_discount := COALESCE((
+      SELECT discount_percentage
+      FROM active_promotion((v_order->>'product_id')::uuid, (p_visit->>'visit_date')::date, v_store_category)
+    ), 0);
+    IF COALESCE((v_order->>'discount_percentage')::numeric, 0) > v_max_discount AND NOT is_admin_from_users() THEN
+      v_errors := v_errors || jsonb_build_object('field', format('orders.%s.discount_percentage', v_index), 'message', format('Diskon maksimal %s%% sesuai promo', v_max_discount));
+    END IF;
+    v_index := v_index + 1;
+  END LOOP;
+
+  IF jsonb_array_length(v_errors) > 0 THEN
+    RETURN jsonb_build_object('visit_id', NULL, 'store_id', NULL, 'errors', v_errors);
+  END IF;
+
+  -- New store
+  IF p_store IS NOT NULL THEN
+    BEGIN
+      INSERT INTO stores (id, store_name, store_code, category, address, route, latitude, longitude, created_by)
+      VALUES (
+        COALESCE((p_store->>'id')::uuid, gen_random_uuid()),
+        trim(p_store->>'store_name'),
+        trim(p_store->>'store_code'),
+        p_store->>'category',
+        NULLIF(p_store->>'address', ''),
+        NULLIF(p_store->>'route', ''),
+        (p_store->>'latitude')::numeric,
+        (p_store->>'longitude')::numeric,
+        auth.uid()
+      )
+      RETURNING id INTO v_store_id;
+    EXCEPTION WHEN unique_violation THEN
+      RETURN jsonb_build_object(
+        'visit_id', NULL,
+        'store_id', NULL,
+        'errors', jsonb_build_array(jsonb_build_object('field', 'store.store_code', 'message', 'Kode toko sudah terdaftar'))
+      );
+    END;
+  END IF;
+
+  -- Visit
+  INSERT INTO visits (
+    id, salesman_id, store_id, visit_date, has_order, notes,
+    check_in_at, check_in_lat, check_in_lng, check_in_accuracy,
+    check_out_at, check_out_lat, check_out_lng, check_out_accuracy
+  )
+  VALUES (
+    v_visit_id,
+    auth.uid(),
+    v_store_id,
+    (p_visit->>'visit_date')::date,
+    v_has_order,
+    NULLIF(trim(p_visit->>'notes'), ''),
+    (p_visit->>'check_in_at')::timestamptz,
+    (p_visit->>'check_in_lat')::numeric,
+    (p_visit->>'check_in_lng')::numeric,
+    (p_visit->>'check_in_accuracy')::numeric,
+    (p_visit->>'check_out_at')::timestamptz,
+    (p_visit->>'check_out_lat')::numeric,
+    (p_visit->>'check_out_lng')::numeric,
+    (p_visit->>'check_out_accuracy')::numeric
+  );
+
+  -- Order lines at the product master price, line_total and promotion_id set by triggers
+  INSERT INTO visit_orders (id, visit_id, product_id, quantity, unit_price, discount_percentage)
+  SELECT
+    COALESCE((o->>'id')::uuid, gen_random_uuid()),
+    v_visit_id,
+    p.id,
+    (o->>'quantity')::numeric,
+    p.unit_price,
+    COALESCE((o->>'discount_percentage')::numeric, 0)
+  FROM jsonb_array_elements(v_orders) o
+  JOIN products p ON p.id = (o->>'product_id')::uuid;
+
+  RETURN jsonb_build_object('visit_id', v_visit_id, 'store_id', v_store_id, 'errors', '[]'::jsonb);
+END;
+$$;
@@ -0,0 +1,134 @@
+/*
+  # Target Actuals From sales_kpis
+
+  1. Functions
+    - `sales_kpis` takes optional `p_route`, `p_store_category` and `p_brand` filters, so sales
+      target lines are measured with the same definitions as the dashboards:
+      - route and store category keep the visits to stores on that route or in that category
+      - brand counts the sales of the brand's order lines, effective calls with at least one line
+        of the brand, and MSL achievement over the brand's SKUs on each store's MSL
+    - Without filters the figures are unchanged
+*/
+
+-- New parameters; dropped first so existing four-argument calls stay unambiguous
+DROP FUNCTION IF EXISTS sales_kpis(date, date, uuid, text);
+
+CREATE FUNCTION sales_kpis(
+  p_start date,
+  p_end date,
+  p_salesman_id uuid DEFAULT NULL,
+  p_group_by text DEFAULT 'total',
+  p_route text DEFAULT NULL,
+  p_store_category text DEFAULT NULL,
+  p_brand text DEFAULT NULL
+)
+RETURNS TABLE (
+  salesman_id uuid,
+  visit_date date,
+  store_id uuid,
+  total_calls integer,
+  effective_calls integer,
+  total_sales numeric,
+  msl_stores integer,
+  msl_achievement numeric
+)
+LANGUAGE sql
+STABLE
+AS $$
+  WITH scoped_visits AS (
+    SELECT
+      v.id,
+      v.store_id,
+      v.visit_date,
+      v.has_order AND v.order_status IS DISTINCT FROM 'cancelled' AND (
+        p_brand IS NULL OR EXISTS (
+          SELECT 1 FROM visit_orders vo
+          JOIN products p ON p.id = vo.product_id
+          WHERE vo.visit_id = v.id AND p.brand = p_brand
+        )
+      ) AS is_effective,
+      CASE WHEN p_group_by IN ('salesman', 'salesman_day') THEN v.salesman_id END AS g_salesman,
+      CASE WHEN p_group_by IN ('day', 'salesman_day') THEN v.visit_date END AS g_day,
+      CASE WHEN p_group_by = 'store' THEN v.store_id END AS g_store
+    FROM visits v
+    JOIN stores s ON s.id = v.store_id
+    WHERE v.visit_date BETWEEN p_start AND p_end
+      AND v.voided_at IS NULL
+      AND (p_salesman_id IS NULL OR v.salesman_id = p_salesman_id)
+      AND (p_route IS NULL OR s.route = p_route)
+      AND (p_store_category IS NULL OR s.category = p_store_category)
+  ),
+  visit_sales AS (
+    SELECT
+      sv.id,
+      COALESCE(SUM(vo.line_total) FILTER (WHERE sv.is_effective AND (p_brand IS NULL OR p.brand = p_brand)), 0) AS sales
+    FROM scoped_visits sv
+    LEFT JOIN visit_orders vo ON vo.visit_id = sv.id
+    LEFT JOIN products p ON p.id = vo.product_id
+    GROUP BY sv.id
+  ),
+  call_totals AS (
+    SELECT
+      sv.g_salesman,
+      sv.g_day,
+      sv.g_store,
+      COUNT(*)::integer AS total_calls,
+      COUNT(*) FILTER (WHERE sv.is_effective)::integer AS effective_calls,
+      SUM(vs.sales) AS total_sales
+    FROM scoped_visits sv
+    JOIN visit_sales vs ON vs.id = sv.id
+    GROUP BY sv.g_salesman, sv.g_day, sv.g_store
+  ),
+  store_groups AS (
+    SELECT g_salesman, g_day, g_store, store_id, MAX(visit_date) AS msl_date
+    FROM scoped_visits
+    GROUP BY g_salesman, g_day, g_store, store_id
+  ),
+  bought AS (
+    SELECT DISTINCT sv.g_salesman, sv.g_day, sv.g_store, sv.store_id, p.sku_code
+    FROM scoped_visits sv
+    JOIN visit_orders vo ON vo.visit_id = sv.id
+    JOIN products p ON p.id = vo.product_id
+    WHERE sv.is_effective
+      AND (p_brand IS NULL OR p.brand = p_brand)
+  ),
+  store_msl AS (
+    SELECT
+      sg.g_salesman,
+      sg.g_day,
+      sg.g_store,
+      COUNT(b.sku_code)::numeric / COUNT(*) * 100 AS achievement
+    FROM store_groups sg
+    CROSS JOIN LATERAL store_msl_items(sg.store_id, sg.msl_date) m
+    LEFT JOIN bought b
+      ON b.store_id = sg.store_id
+      AND b.sku_code = m.sku_code
+      AND b.g_salesman IS NOT DISTINCT FROM sg.g_salesman
+      AND b.g_day IS NOT DISTINCT FROM sg.g_day
+      AND b.g_store IS NOT DISTINCT FROM sg.g_store
+    WHERE p_brand IS NULL OR EXISTS (
+      SELECT 1 FROM products bp WHERE bp.sku_code = m.sku_code AND bp.brand = p_brand
+    )
+    GROUP BY sg.g_salesman, sg.g_day, sg.g_store, sg.store_id
+  ),
+  msl_totals AS (
+    SELECT g_salesman, g_day, g_store, COUNT(*)::integer AS msl_stores, AVG(achievement) AS msl_achievement
+    FROM store_msl
+    GROUP BY g_salesman, g_day, g_store
+  )
+  SELECT
+    ct.g_salesman,
+    ct.g_day,
+    ct.g_store,
+    ct.total_calls,
+    ct.effective_calls,
+    ct.total_sales,
+    COALESCE(mt.msl_stores, 0),
+    COALESCE(mt.msl_achievement, 0)
+  FROM call_totals ct
+  LEFT JOIN msl_totals mt
+    ON mt.g_salesman IS NOT DISTINCT FROM ct.g_salesman
+    AND mt.g_day IS NOT DISTINCT FROM ct.g_day
+    AND mt.g_store IS NOT DISTINCT FROM ct.g_store
+  ORDER BY ct.g_salesman, ct.g_day, ct.g_store;
+$$;
@@ -0,0 +1,427 @@
+/*
+  # Import Rows Recorded by the Server
+
+  1. Security
+    - Users can only record rows that change nothing themselves: `invalid` and `failed` rows
+      without a record or images. Added, updated and removed rows, which rollback acts on, are
+      written only by the import functions below
+    - `apply_import_rows` runs as SECURITY DEFINER; it keeps the store rules of the policies (a
+      user's own stores by code) and only lets admins import products
+    - `rollback_import_job` refuses a job with rows for another table than the one it imports into
+
+  2. Functions
+    - `apply_import_rows` also takes product paste jobs ('product_paste'): they only add products,
+      a SKU that already exists fails
+    - `publish_msl_import(p_job_id, p_effective_from, p_notes, p_lists)` publishes the lists of an
+      MSL import with `publish_msl_versions` and records on the job every item as added or
+      updated and every SKU left out as removed. Items carry their `row_number` in the file.
+      Returns the versions like `publish_msl_versions`
+*/
+
+-- RLS Policies
+DROP POLICY IF EXISTS "Users can record rows of own running import jobs" ON import_job_rows;
+CREATE POLICY "Users can record rows of own running import jobs"
+  ON import_job_rows
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    outcome IN ('invalid', 'failed')
+    AND record_table IS NULL
+    AND record_id IS NULL
+    AND before_image IS NULL
+    AND after_image IS NULL
+    AND EXISTS (
+      SELECT 1 FROM import_jobs
+      WHERE import_jobs.id = import_job_rows.job_id
+      AND import_jobs.created_by = auth.uid()
+      AND import_jobs.status = 'running'
+    )
+  );
+
+CREATE OR REPLACE FUNCTION apply_import_rows(p_job_id uuid, p_rows jsonb, p_all_or_nothing boolean DEFAULT false)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_job import_jobs%ROWTYPE;
+  v_row jsonb;
+  v_row_number integer;
+  v_store stores%ROWTYPE;
+  v_product products%ROWTYPE;
+  v_before jsonb;
+  v_after jsonb;
+  v_record_id uuid;
+  v_added integer := 0;
+  v_updated integer := 0;
+  v_failed integer := 0;
+BEGIN
+  SELECT * INTO v_job FROM import_jobs WHERE id = p_job_id;
+  IF NOT FOUND OR v_job.created_by IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'Import job % not found', p_job_id;
+  END IF;
+  IF v_job.status <> 'running' THEN
+    RAISE EXCEPTION 'Import job % is already %', p_job_id, v_job.status;
+  END IF;
+  IF v_job.import_type NOT IN ('stores', 'products', 'product_paste') THEN
+    RAISE EXCEPTION 'Import job % is not a store or product import', p_job_id;
+  END IF;
+  -- Runs as definer: the product policies no longer apply, so check them here
+  IF v_job.import_type <> 'stores' AND NOT is_admin_from_users() THEN
+    RAISE EXCEPTION 'Only admins can import products';
+  END IF;
+
+  FOR v_row IN SELECT * FROM jsonb_array_elements(p_rows) LOOP
+    v_row_number := (v_row->>'row_number')::integer;
+
+    BEGIN
+      IF v_job.import_type = 'stores' THEN
+        v_store := jsonb_populate_record(NULL::stores, v_row->'data');
+
+        SELECT to_jsonb(s), s.id INTO v_before, v_record_id
+        FROM stores s
+        WHERE s.store_code = v_store.store_code AND s.created_by = auth.uid();
+
+        IF v_record_id IS NOT NULL THEN
+          UPDATE stores SET
+            store_name = v_store.store_name,
+            category = v_store.category,
+            address = v_store.address,
+            gmaps_link = v_store.gmaps_link,
+            -- Keep coordinates captured on site when the link has none
+            latitude = COALESCE(v_store.latitude, latitude),
+            longitude = COALESCE(v_store.longitude, longitude),
+            route = v_store.route,
+            phone = v_store.phone,
+            average_order_value = v_store.average_order_value,
+            order_frequency = v_store.order_frequency,
+            key_contact = v_store.key_contact,
+            notes = v_store.notes
+          WHERE id = v_record_id
+          RETURNING to_jsonb(stores.*) INTO v_after;
+        ELSE
+          INSERT INTO stores (
+            store_code, store_name, category, address, gmaps_link, latitude, longitude, route,
+            phone, average_order_value, order_frequency, key_contact, notes, created_by
+          )
+          VALUES (
+            v_store.store_code, v_store.store_name, v_store.category, v_store.address,
+            v_store.gmaps_link, v_store.latitude, v_store.longitude, v_store.route, v_store.phone,
+            v_store.average_order_value, v_store.order_frequency, v_store.key_contact,
+            v_store.notes, auth.uid()
+          )
+          RETURNING id, to_jsonb(stores.*) INTO v_record_id, v_after;
+        END IF;
+      ELSE
+        v_product := jsonb_populate_record(NULL::products, v_row->'data');
+
+        SELECT to_jsonb(p), p.id INTO v_before, v_record_id
+        FROM products p
+        WHERE p.sku_code = v_product.sku_code;
+
+        -- A pasted list only adds products
+        IF v_record_id IS NOT NULL AND v_job.import_type = 'product_paste' THEN
+          RAISE EXCEPTION 'SKU % already exists', v_product.sku_code;
+        ELSIF v_record_id IS NOT NULL THEN
+          UPDATE products SET
+            product_name = v_product.product_name,
+            brand = v_product.brand,
+            category = v_product.category,
+            unit_price = v_product.unit_price,
+            updated_at = now()
+          WHERE id = v_record_id
+          RETURNING to_jsonb(products.*) INTO v_after;
+        ELSE
+          INSERT INTO products (sku_code, product_name, brand, category, unit_price, is_active)
+          VALUES (v_product.sku_code, v_product.product_name, v_product.brand, v_product.category, v_product.unit_price, true)
+          RETURNING id, to_jsonb(products.*) INTO v_record_id, v_after;
+        END IF;
+      END IF;
+
+      INSERT INTO import_job_rows (job_id, row_number, outcome, record_table, record_id, before_image, after_image)
+      VALUES (
+        p_job_id,
+        v_row_number,
+        CASE WHEN v_before IS NULL THEN 'added' ELSE 'updated' END,
+        CASE WHEN v_job.import_type = 'stores' THEN 'stores' ELSE 'products' END,
+        v_record_id,
+        v_before,
+        v_after
+      );
+
+      IF v_before IS NULL THEN
+        v_added := v_added + 1;
+      ELSE
+        v_updated := v_updated + 1;
+      END IF;
+    EXCEPTION WHEN OTHERS THEN
+      IF p_all_or_nothing THEN
+        RAISE EXCEPTION 'Row %: %', v_row_number, SQLERRM;
+      END IF;
+
+      INSERT INTO import_job_rows (job_id, row_number, outcome, message)
+      VALUES (p_job_id, v_row_number, 'failed', SQLERRM);
+      v_failed := v_failed + 1;
+    END;
+  END LOOP;
+
+  RETURN jsonb_build_object('added', v_added, 'updated', v_updated, 'failed', v_failed);
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION rollback_import_job(p_job_id uuid)
+RETURNS jsonb
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_job import_jobs%ROWTYPE;
+  v_row import_job_rows%ROWTYPE;
+  v_version msl_versions%ROWTYPE;
+  v_previous_id uuid;
+  v_new_version_id uuid;
+  v_current jsonb;
+  v_skipped jsonb := '[]'::jsonb;
+BEGIN
+  IF NOT is_admin_from_users() THEN
+    RAISE EXCEPTION 'Only admins can roll back imports';
+  END IF;
+
+  SELECT * INTO v_job FROM import_jobs WHERE id = p_job_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Import job % not found', p_job_id;
+  END IF;
+  IF v_job.status = 'rolled_back' THEN
+    RAISE EXCEPTION 'Import job % is already rolled back', p_job_id;
+  END IF;
+
+  -- Every record must belong to the table the job imports into
+  IF EXISTS (
+    SELECT 1 FROM import_job_rows
+    WHERE job_id = p_job_id
+      AND record_table IS DISTINCT FROM CASE v_job.import_type
+        WHEN 'stores' THEN 'stores'
+        WHEN 'msl' THEN 'msl_versions'
+        ELSE 'products'
+      END
+      AND (record_table IS NOT NULL OR record_id IS NOT NULL)
+  ) THEN
+    RAISE EXCEPTION 'Import job % has rows for records it did not import', p_job_id;
+  END IF;
+
+  -- Stores and products, last row first
+  FOR v_row IN
+    SELECT * FROM import_job_rows
+    WHERE job_id = p_job_id
+      AND record_table IN ('stores', 'products')
+      AND outcome IN ('added', 'updated')
+    ORDER BY row_number DESC
+  LOOP
+    IF v_row.record_table = 'stores' THEN
+      SELECT to_jsonb(s) INTO v_current FROM stores s WHERE s.id = v_row.record_id;
+    ELSE
+      SELECT to_jsonb(p) INTO v_current FROM products p WHERE p.id = v_row.record_id;
+    END IF;
+
+    -- Changed or deleted since the import: leave it and report it. Rows recorded before
+    -- after-images were kept have none and are rolled back as before
+    IF v_row.after_image IS NOT NULL AND (v_current IS NULL OR NOT v_current @> v_row.after_image) THEN
+      v_skipped := v_skipped || jsonb_build_object(
+        'row_number', v_row.row_number,
+        'record_table', v_row.record_table,
+        'record_id', v_row.record_id
+      );
+      CONTINUE;
+    END IF;
+
+    IF v_row.record_table = 'stores' AND v_row.outcome = 'added' THEN
+      BEGIN
+        DELETE FROM stores WHERE id = v_row.record_id;
+      EXCEPTION WHEN foreign_key_violation THEN
+        RAISE EXCEPTION 'Store from row % already has visits and cannot be removed', v_row.row_number;
+      END;
+    ELSIF v_row.record_table = 'stores' THEN
+      UPDATE stores s SET
+        store_name = b.store_name,
+        category = b.category,
+        address = b.address,
+        gmaps_link = b.gmaps_link,
+        latitude = b.latitude,
+        longitude = b.longitude,
+        route = b.route,
+        phone = b.phone,
+        average_order_value = b.average_order_value,
+        order_frequency = b.order_frequency,
+        key_contact = b.key_contact,
+        notes = b.notes
+      FROM jsonb_populate_record(NULL::stores, v_row.before_image) b
+      WHERE s.id = v_row.record_id;
+    ELSIF v_row.outcome = 'added' THEN
+      BEGIN
+        DELETE FROM products WHERE id = v_row.record_id;
+      EXCEPTION WHEN foreign_key_violation THEN
+        UPDATE products SET is_active = false, updated_at = now() WHERE id = v_row.record_id;
+      END;
+    ELSE
+      UPDATE products p SET
+        product_name = b.product_name,
+        brand = b.brand,
+        category = b.category,
+        unit_price = b.unit_price,
+        updated_at = now()
+      FROM jsonb_populate_record(NULL::products, v_row.before_image) b
+      WHERE p.id = v_row.record_id;
+    END IF;
+  END LOOP;
+
+  -- MSL versions
+  FOR v_version IN
+    SELECT * FROM msl_versions
+    WHERE id IN (
+      SELECT record_id FROM import_job_rows
+      WHERE job_id = p_job_id AND record_table = 'msl_versions'
+    )
+  LOOP
+    IF v_version.effective_from > CURRENT_DATE THEN
+      DELETE FROM msl_versions WHERE id = v_version.id;
+      CONTINUE;
+    END IF;
+
+    IF EXISTS (
+      SELECT 1 FROM msl_versions
+      WHERE category = v_version.category
+        AND cluster_id IS NOT DISTINCT FROM v_version.cluster_id
+        AND version > v_version.version
+    ) THEN
+      RAISE EXCEPTION 'The MSL of % has a newer version than the one this import published', v_version.category;
+    END IF;
+
+    SELECT id INTO v_previous_id
+    FROM msl_versions
+    WHERE category = v_version.category
+      AND cluster_id IS NOT DISTINCT FROM v_version.cluster_id
+      AND version < v_version.version
+    ORDER BY version DESC
+    LIMIT 1;
+
+    -- Without an earlier version the list goes back to empty
+    INSERT INTO msl_versions (category, cluster_id, version, effective_from, notes, created_by)
+    VALUES (
+      v_version.category,
+      v_version.cluster_id,
+      v_version.version + 1,
+      CURRENT_DATE,
+      'Rollback import ' || v_job.file_name,
+      auth.uid()
+    )
+    RETURNING id INTO v_new_version_id;
+
+    INSERT INTO msl_version_items (version_id, product_id, sku_code, product_name, priority, notes)
+    SELECT v_new_version_id, product_id, sku_code, product_name, priority, notes
+    FROM msl_version_items
+    WHERE version_id = v_previous_id;
+  END LOOP;
+
+  UPDATE import_jobs
+  SET status = 'rolled_back', rolled_back_by = auth.uid(), rolled_back_at = now()
+  WHERE id = p_job_id;
+
+  RETURN v_skipped;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION publish_msl_import(p_job_id uuid, p_effective_from date, p_notes text, p_lists jsonb)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_job import_jobs%ROWTYPE;
+  v_current jsonb;
+  v_published jsonb;
+  v_list jsonb;
+  v_version_id uuid;
+  v_cluster_id uuid;
+  v_label text;
+  v_index integer := 0;
+BEGIN
+  IF NOT is_admin_from_users() THEN
+    RAISE EXCEPTION 'Only admins can import MSLs';
+  END IF;
+
+  SELECT * INTO v_job FROM import_jobs WHERE id = p_job_id;
+  IF NOT FOUND OR v_job.created_by IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'Import job % not found', p_job_id;
+  END IF;
+  IF v_job.status <> 'running' THEN
+    RAISE EXCEPTION 'Import job % is already %', p_job_id, v_job.status;
+  END IF;
+  IF v_job.import_type <> 'msl' THEN
+    RAISE EXCEPTION 'Import job % is not an MSL import', p_job_id;
+  END IF;
+
+  -- The lists in effect before publishing, to record what each row changes
+  SELECT COALESCE(jsonb_agg(jsonb_build_object(
+    'category', category,
+    'cluster_id', cluster_id,
+    'sku_code', sku_code,
+    'product_name', product_name,
+    'priority', priority,
+    'notes', notes
+  )), '[]'::jsonb)
+  INTO v_current
+  FROM msl_items
+  WHERE category IN (SELECT l->>'category' FROM jsonb_array_elements(p_lists) l);
+
+  v_published := publish_msl_versions(p_effective_from, p_notes, p_lists);
+
+  -- The versions come back in the order of the lists
+  FOR v_list IN SELECT * FROM jsonb_array_elements(p_lists) LOOP
+    v_version_id := (v_published->v_index->>'version_id')::uuid;
+    v_cluster_id := NULLIF(v_list->>'cluster_id', '')::uuid;
+    v_label := (v_list->>'category') || COALESCE(' › ' || (SELECT name FROM store_clusters WHERE id = v_cluster_id), '');
+
+    INSERT INTO import_job_rows (job_id, row_number, outcome, message, record_table, record_id)
+    SELECT
+      p_job_id,
+      (item->>'row_number')::integer,
+      CASE WHEN cur.value IS NULL THEN 'added' ELSE 'updated' END,
+      CASE WHEN (cur.value->>'priority')::integer <> (item->>'priority')::integer
+        THEN format('Priority %s → %s', cur.value->>'priority', item->>'priority')
+      END,
+      'msl_versions',
+      v_version_id
+    FROM jsonb_array_elements(v_list->'items') item
+    LEFT JOIN LATERAL (
+      SELECT c.value
+      FROM jsonb_array_elements(v_current) c
+      WHERE c.value->>'category' = v_list->>'category'
+        AND NULLIF(c.value->>'cluster_id', '')::uuid IS NOT DISTINCT FROM v_cluster_id
+        AND c.value->>'sku_code' = item->>'sku_code'
+    ) cur ON true;
+
+    -- SKUs on the current list that the file leaves out
+    INSERT INTO import_job_rows (job_id, row_number, outcome, message, record_table, record_id, before_image)
+    SELECT
+      p_job_id,
+      NULL,
+      'removed',
+      'Removed from ' || v_label,
+      'msl_versions',
+      v_version_id,
+      c.value - 'category' - 'cluster_id'
+    FROM jsonb_array_elements(v_current) c
+    WHERE c.value->>'category' = v_list->>'category'
+      AND NULLIF(c.value->>'cluster_id', '')::uuid IS NOT DISTINCT FROM v_cluster_id
+      AND NOT EXISTS (
+        SELECT 1 FROM jsonb_array_elements(v_list->'items') item
+        WHERE item->>'sku_code' = c.value->>'sku_code'
+      );
+
+    v_index := v_index + 1;
+  END LOOP;
+
+  RETURN v_published;
+END;
+$$;
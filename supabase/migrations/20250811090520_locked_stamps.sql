@@ -0,0 +1,60 @@
+/*
+  # Server-owned Visit Timestamps
+
+  1. Functions
+    - `guard_visit_update` trigger on visits (BEFORE UPDATE, named to run before
+      `manage_order_status`)
+      - Salesmen cannot change `created_at`, the check-in and check-out captures or
+        `order_status_updated_at`; the status stamp is still set by `manage_order_status`
+        when the status changes
+      - Voiding stamps `voided_at = now()` and `voided_by = auth.uid()` whatever the client sent,
+        and a voided visit keeps its void columns for salesmen
+
+  2. Security
+    - The "Users can update own visits" policy only checks `salesman_id`, so these columns were
+      writable by the visit owner
+*/
+
+CREATE OR REPLACE FUNCTION guard_visit_update()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF OLD.voided_at IS NULL AND NEW.voided_at IS NOT NULL THEN
+    NEW.voided_at := now();
+    NEW.voided_by := auth.uid();
+  END IF;
+
+  IF is_admin_from_users() THEN
+    RETURN NEW;
+  END IF;
+
+  NEW.created_at := OLD.created_at;
+  NEW.check_in_at := OLD.check_in_at;
+  NEW.check_in_lat := OLD.check_in_lat;
+  NEW.check_in_lng := OLD.check_in_lng;
+  NEW.check_in_accuracy := OLD.check_in_accuracy;
+  NEW.check_out_at := OLD.check_out_at;
+  NEW.check_out_lat := OLD.check_out_lat;
+  NEW.check_out_lng := OLD.check_out_lng;
+  NEW.check_out_accuracy := OLD.check_out_accuracy;
+  NEW.order_status_updated_at := OLD.order_status_updated_at;
+
+  IF OLD.voided_at IS NOT NULL THEN
+    NEW.voided_at := OLD.voided_at;
+    NEW.voided_by := OLD.voided_by;
+    NEW.void_reason := OLD.void_reason;
+  ELSIF NEW.voided_at IS NULL THEN
+    NEW.voided_by := NULL;
+    NEW.void_reason := NULL;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS guard_visit_update ON visits;
+CREATE TRIGGER guard_visit_update
+  BEFORE UPDATE ON visits
+  FOR EACH ROW
+  EXECUTE FUNCTION guard_visit_update();
@@ -0,0 +1,42 @@
+/*
+  # Order Line Prices Enforced on Write
+
+  1. Functions
+    - `price_visit_order_line` trigger on visit_orders (BEFORE INSERT OR UPDATE, named to run
+      before `set_visit_order_line_total`)
+      - For salesmen a new line, or a line whose product changes, is priced at
+        `products.unit_price`; other updates keep the stored price
+      - A product without a price is rejected, as in `submit_visit`
+      - Admins can still set `unit_price` to correct an order
+
+  2. Security
+    - Order lines edited after submission could be written with any `unit_price`
+*/
+
+CREATE OR REPLACE FUNCTION price_visit_order_line()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF is_admin_from_users() THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' OR NEW.product_id IS DISTINCT FROM OLD.product_id THEN
+    SELECT unit_price INTO NEW.unit_price FROM products WHERE id = NEW.product_id;
+    IF COALESCE(NEW.unit_price, 0) <= 0 THEN
+      RAISE EXCEPTION 'Harga produk belum diatur';
+    END IF;
+  ELSE
+    NEW.unit_price := OLD.unit_price;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS price_visit_order_line ON visit_orders;
+CREATE TRIGGER price_visit_order_line
+  BEFORE INSERT OR UPDATE ON visit_orders
+  FOR EACH ROW
+  EXECUTE FUNCTION price_visit_order_line();
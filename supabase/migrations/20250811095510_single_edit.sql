@@ -0,0 +1,75 @@
+/*
+  # Visit Edits in One Transaction
+
+  1. Functions
+    - `update_visit(p_visit_id, p_visit, p_orders)` saves an edited visit: the visit columns
+      (`store_id`, `visit_date`, `has_order`, `notes`), then removes the order lines missing from
+      `p_orders`, updates the changed lines that carry an `id` and inserts the others
+      - Runs with the caller's rights, so the editing window policies and the order line triggers
+        still apply; any failure rolls back the whole edit
+      - Lines of another visit are rejected
+*/
+
+CREATE OR REPLACE FUNCTION update_visit(
+  p_visit_id uuid,
+  p_visit jsonb,
+  p_orders jsonb DEFAULT '[]'::jsonb
+)
+RETURNS void
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_order jsonb;
+  v_orders jsonb := CASE WHEN COALESCE((p_visit->>'has_order')::boolean, false) THEN COALESCE(p_orders, '[]'::jsonb) ELSE '[]'::jsonb END;
+BEGIN
+  UPDATE visits SET
+    store_id = (p_visit->>'store_id')::uuid,
+    visit_date = (p_visit->>'visit_date')::date,
+    has_order = COALESCE((p_visit->>'has_order')::boolean, false),
+    notes = NULLIF(trim(p_visit->>'notes'), '')
+  WHERE id = p_visit_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Kunjungan % tidak ditemukan atau tidak dapat diubah', p_visit_id;
+  END IF;
+
+  DELETE FROM visit_orders
+  WHERE visit_id = p_visit_id
+    AND id NOT IN (
+      SELECT (o->>'id')::uuid
+      FROM jsonb_array_elements(v_orders) o
+      WHERE o->>'id' IS NOT NULL
+    );
+
+  FOR v_order IN SELECT * FROM jsonb_array_elements(v_orders)
+  LOOP
+    IF v_order->>'id' IS NULL THEN
+      INSERT INTO visit_orders (visit_id, product_id, quantity, unit_price, discount_percentage)
+      VALUES (
+        p_visit_id,
+        (v_order->>'product_id')::uuid,
+        (v_order->>'quantity')::numeric,
+        (v_order->>'unit_price')::numeric,
+        COALESCE((v_order->>'discount_percentage')::numeric, 0)
+      );
+    ELSE
+      IF NOT EXISTS (SELECT 1 FROM visit_orders WHERE id = (v_order->>'id')::uuid AND visit_id = p_visit_id) THEN
+        RAISE EXCEPTION 'Baris order % bukan bagian dari kunjungan ini', v_order->>'id';
+      END IF;
+
+      UPDATE visit_orders SET
+        product_id = (v_order->>'product_id')::uuid,
+        quantity = (v_order->>'quantity')::numeric,
+        unit_price = (v_order->>'unit_price')::numeric,
+        discount_percentage = COALESCE((v_order->>'discount_percentage')::numeric, 0)
+      WHERE id = (v_order->>'id')::uuid
+        AND (
+          product_id IS DISTINCT FROM (v_order->>'product_id')::uuid OR
+          quantity IS DISTINCT FROM (v_order->>'quantity')::numeric OR
+          unit_price IS DISTINCT FROM (v_order->>'unit_price')::numeric OR
+          discount_percentage IS DISTINCT FROM COALESCE((v_order->>'discount_percentage')::numeric, 0)
+        );
+    END IF;
+  END LOOP;
+END;
+$$;
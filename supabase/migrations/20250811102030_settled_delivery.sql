@@ -0,0 +1,138 @@
+/*
+  # Order Status Without Drafts, Deliveries in One Transaction
+
+  1. Visits
+    - `order_status` no longer allows `draft`: every order is created as `submitted` and nothing
+      saves drafts, so the status was unreachable
+
+  2. Functions
+    - `manage_order_status` transitions without drafts
+      - submitted -> approved / cancelled
+      - approved -> partially_delivered / delivered / cancelled
+      - partially_delivered -> delivered / invoiced
+      - delivered -> invoiced
+      Salesmen may only cancel their submitted orders
+    - `can_edit_visit` owners can edit visits without an order or with a submitted one
+    - `record_delivery(p_visit_id, p_lines)` sets `delivered_quantity` of the given lines
+      (`[{ id, delivered_quantity }]`) and moves the order to `delivered` when every line is
+      fully delivered, else to `partially_delivered`, in one transaction. Admins only, for
+      approved or partially delivered orders
+*/
+
+UPDATE visits SET order_status = 'submitted' WHERE order_status = 'draft';
+
+ALTER TABLE visits DROP CONSTRAINT IF EXISTS visits_order_status_check;
+ALTER TABLE visits ADD CONSTRAINT visits_order_status_check CHECK (
+  order_status IN ('submitted', 'approved', 'partially_delivered', 'delivered', 'invoiced', 'cancelled')
+);
+
+CREATE OR REPLACE FUNCTION manage_order_status()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_old_status text := CASE WHEN TG_OP = 'UPDATE' THEN OLD.order_status END;
+  v_allowed text[];
+BEGIN
+  IF NOT NEW.has_order THEN
+    NEW.order_status := NULL;
+  ELSIF NEW.order_status IS NULL THEN
+    NEW.order_status := 'submitted';
+  END IF;
+
+  IF NEW.order_status IS NOT DISTINCT FROM v_old_status THEN
+    RETURN NEW;
+  END IF;
+
+  IF v_old_status IS NOT NULL AND NEW.order_status IS NOT NULL THEN
+    v_allowed := CASE v_old_status
+      WHEN 'submitted' THEN ARRAY['approved', 'cancelled']
+      WHEN 'approved' THEN ARRAY['partially_delivered', 'delivered', 'cancelled']
+      WHEN 'partially_delivered' THEN ARRAY['delivered', 'invoiced']
+      WHEN 'delivered' THEN ARRAY['invoiced']
+      ELSE ARRAY[]::text[]
+    END;
+
+    IF NOT NEW.order_status = ANY(v_allowed) THEN
+      RAISE EXCEPTION 'Status order tidak dapat diubah dari % ke %', v_old_status, NEW.order_status;
+    END IF;
+
+    IF NOT is_admin_from_users() AND NOT (v_old_status = 'submitted' AND NEW.order_status = 'cancelled') THEN
+      RAISE EXCEPTION 'Hanya admin yang dapat mengubah status order ke %', NEW.order_status;
+    END IF;
+  END IF;
+
+  NEW.order_status_updated_at := now();
+  RETURN NEW;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION can_edit_visit(p_visit_id uuid)
+RETURNS boolean
+LANGUAGE sql
+SECURITY DEFINER
+STABLE
+AS $$
+  SELECT is_admin_from_users() OR EXISTS (
+    SELECT 1 FROM visits v
+    WHERE v.id = p_visit_id
+      AND v.salesman_id = auth.uid()
+      AND v.voided_at IS NULL
+      AND (v.order_status IS NULL OR v.order_status = 'submitted')
+      AND v.created_at > now() - make_interval(hours => COALESCE(
+        (SELECT value FROM app_settings WHERE key = 'visit_edit_window_hours'),
+        24
+      )::integer)
+  );
+$$;
+
+CREATE OR REPLACE FUNCTION record_delivery(p_visit_id uuid, p_lines jsonb)
+RETURNS text
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_status text;
+  v_line jsonb;
+BEGIN
+  IF NOT is_admin_from_users() THEN
+    RAISE EXCEPTION 'Hanya admin yang dapat mencatat pengiriman';
+  END IF;
+
+  SELECT order_status INTO v_status FROM visits WHERE id = p_visit_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Kunjungan % tidak ditemukan', p_visit_id;
+  END IF;
+  IF v_status IS NULL OR v_status NOT IN ('approved', 'partially_delivered') THEN
+    RAISE EXCEPTION 'Pengiriman hanya dapat dicatat untuk order approved atau terkirim sebagian';
+  END IF;
+
+  FOR v_line IN SELECT * FROM jsonb_array_elements(COALESCE(p_lines, '[]'::jsonb))
+  LOOP
+    UPDATE visit_orders
+    SET delivered_quantity = (v_line->>'delivered_quantity')::numeric
+    WHERE id = (v_line->>'id')::uuid
+      AND visit_id = p_visit_id
+      AND delivered_quantity IS DISTINCT FROM (v_line->>'delivered_quantity')::numeric;
+
+    IF NOT FOUND AND NOT EXISTS (
+      SELECT 1 FROM visit_orders WHERE id = (v_line->>'id')::uuid AND visit_id = p_visit_id
+    ) THEN
+      RAISE EXCEPTION 'Baris order % bukan bagian dari kunjungan ini', v_line->>'id';
+    END IF;
+  END LOOP;
+
+  IF NOT EXISTS (SELECT 1 FROM visit_orders WHERE visit_id = p_visit_id AND delivered_quantity > 0) THEN
+    RAISE EXCEPTION 'Isi jumlah yang terkirim';
+  END IF;
+
+  v_status := CASE
+    WHEN EXISTS (SELECT 1 FROM visit_orders WHERE visit_id = p_visit_id AND delivered_quantity < quantity)
+      THEN 'partially_delivered'
+    ELSE 'delivered'
+  END;
+
+  UPDATE visits SET order_status = v_status WHERE id = p_visit_id;
+
+  RETURN v_status;
+END;
+$$;